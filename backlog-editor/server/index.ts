@@ -5,11 +5,24 @@ import path from "node:path";
 import fs from "node:fs";
 import { readFile } from "node:fs/promises";
 import { randomUUID } from "node:crypto";
-import { fileURLToPath } from "node:url";
 import axios from "axios";
 
 import { QdrantService } from "./services/qdrant.service.js";
 import { EmbeddingService } from "./services/embedding.service.js";
+import { createEmbeddingProvider } from "../../mcp/src/services/embedding.providers.js";
+import {
+  BacklogWorkflow,
+  checkStatusChange,
+  DEFAULT_WORKFLOW,
+  isBlockedStatus,
+  isDoneStatus,
+  parseWorkflow
+} from "../../mcp/src/utils/workflow.js";
+import { commentActivity, RevisionLike, revisionActivity, sortActivity } from "../../mcp/src/utils/activity.js";
+import { applyBacklogPatch, BacklogPatch, MAX_BULK_ITEMS, parseBacklogPatch } from "../../mcp/src/utils/backlogPatch.js";
+import { validateDependencies } from "../../mcp/src/utils/dependencies.js";
+import { backlogText, commentText, revisionText } from "../../mcp/src/utils/embeddingText.js";
+import { diffRecords, FieldChange } from "../../mcp/src/utils/recordDiff.js";
 
 const app = express();
 app.use(cors());
@@ -17,12 +30,17 @@ app.use(express.json({ limit: "4mb" }));
 
 const PORT = Number(process.env.PORT ?? 4005);
 const QDRANT_URL = process.env.QDRANT_URL ?? "http://localhost:6333";
+const EMBEDDING_PROVIDER = process.env.EMBEDDING_PROVIDER ?? "tei";
 const EMBEDDING_URL = process.env.EMBEDDING_URL ?? "http://localhost:8080";
+const EMBEDDING_MODEL = process.env.EMBEDDING_MODEL;
+const EMBEDDING_API_KEY = process.env.EMBEDDING_API_KEY;
+const EMBEDDING_DIMENSION = process.env.EMBEDDING_DIMENSION ? Number(process.env.EMBEDDING_DIMENSION) : undefined;
 const BACKLOG_COLLECTION_BASE = process.env.BACKLOG_COLLECTION ?? "backlog_items";
 const FEATURE_COLLECTION_BASE = process.env.FEATURE_COLLECTION ?? "features";
 const HANDOFF_COLLECTION_BASE = process.env.HANDOFF_COLLECTION ?? "handoff_notes";
-const HANDOFF_ID =
-  process.env.HANDOFF_ID ?? "11111111-1111-1111-1111-111111111111";
+const REVISION_COLLECTION_BASE = process.env.REVISION_COLLECTION ?? "record_revisions";
+const SPRINT_COLLECTION_BASE = process.env.SPRINT_COLLECTION ?? "sprints";
+const COMMENT_COLLECTION_BASE = process.env.COMMENT_COLLECTION ?? "record_comments";
 const GRAPH_COLLECTION_BASE = process.env.GRAPH_COLLECTION ?? "code_graph";
 const DEFAULT_PROJECT_FALLBACK = process.env.DEFAULT_PROJECT ?? "default";
 const NEO4J_HTTP_URL = process.env.NEO4J_HTTP_URL ?? "http://localhost:7474";
@@ -32,13 +50,22 @@ const NEO4J_PASSWORD = process.env.NEO4J_PASSWORD ?? "password";
 const NEO4J_ENDPOINT = `${NEO4J_HTTP_URL.replace(/\/$/, "")}/db/${NEO4J_DATABASE}/tx/commit`;
 const NEO4J_AUTH_HEADER = "Basic " + Buffer.from(`${NEO4J_USER}:${NEO4J_PASSWORD}`).toString("base64");
 const GRAPH_MAX_DEPTH = Math.max(1, Number(process.env.GRAPH_MAX_DEPTH ?? 3));
+// Records soft-archived through the MCP archive_record tool stay hidden in the editor.
+const ARCHIVED_CONDITION = { key: "archived", match: { value: true } };
 
 const qdrant = new QdrantService(QDRANT_URL);
-const embedding = new EmbeddingService(EMBEDDING_URL);
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-const PROJECT_CONFIG_PATH = path.resolve(__dirname, "../../mcp/config/projects.json");
+const embedding = new EmbeddingService(
+  createEmbeddingProvider({
+    provider: EMBEDDING_PROVIDER,
+    url: EMBEDDING_URL,
+    model: EMBEDDING_MODEL,
+    apiKey: EMBEDDING_API_KEY,
+    dimension: EMBEDDING_DIMENSION
+  })
+);
+
+// The server runs from backlog-editor/ (npm scripts and the Docker WORKDIR), next to mcp/.
+const PROJECT_CONFIG_PATH = path.resolve(process.cwd(), "../mcp/config/projects.json");
 const PROJECT_CONFIG_TTL_MS = 30_000;
 
 type BacklogItem = {
@@ -63,6 +90,16 @@ type BacklogItem = {
   updated_at: string;
 };
 
+type BulkFilter = {
+  status?: string;
+  priority?: string;
+  owner?: string;
+  tags?: string[];
+  feature_id?: string;
+  sprint?: string;
+  include_archived?: boolean;
+};
+
 type FeatureRecord = {
   id: string;
   name: string;
@@ -75,9 +112,31 @@ type FeatureRecord = {
   updated_at: string;
 };
 
+type SprintRecord = {
+  id: string;
+  name: string;
+  goal: string | null;
+  start_date: string;
+  end_date: string;
+  capacity: number;
+  closed_at: string | null;
+};
+
+type CommentRecord = {
+  id: string;
+  record_type: string;
+  record_id: string;
+  parent_id: string | null;
+  author: string;
+  body: string;
+  created_at: string;
+};
+
 type HandoffResult = {
+  id: string | null;
   content: string;
   updated_by: string | null;
+  session_id: string | null;
   updated_at: string | null;
 };
 
@@ -111,15 +170,23 @@ type GraphSearchResult = {
 
 type ProjectContext = {
   id: string;
+  archived: boolean;
   backlogCollection: string;
   featureCollection: string;
   handoffCollection: string;
   graphCollection: string;
+  revisionCollection: string;
+  sprintCollection: string;
+  commentCollection: string;
+  workflow: BacklogWorkflow;
 };
 
 type ProjectConfig = {
   defaultProject: string;
   projects: string[];
+  archived: string[];
+  // Backlog status workflows set through the MCP set_backlog_workflow tool; other projects use the default.
+  workflows: Record<string, BacklogWorkflow>;
 };
 
 let projectConfigCache: { value: ProjectConfig; loadedAt: number } | undefined;
@@ -158,9 +225,27 @@ async function loadProjectConfig(): Promise<ProjectConfig> {
     );
     projects.add(defaultProject);
 
+    const archived = Array.isArray(parsed.archived)
+      ? parsed.archived.map(project => normalizeProjectId(project)).filter(Boolean)
+      : [];
+
+    const workflows: Record<string, BacklogWorkflow> = {};
+    for (const [project, workflow] of Object.entries(parsed.workflows ?? {})) {
+      try {
+        workflows[normalizeProjectId(project)] = parseWorkflow(workflow);
+      } catch (error) {
+        console.warn(
+          `[backlog-editor] Ignoring invalid backlog workflow for '${project}', using the default`,
+          error instanceof Error ? error.message : String(error)
+        );
+      }
+    }
+
     const config: ProjectConfig = {
       defaultProject,
-      projects: Array.from(projects.values())
+      projects: Array.from(projects.values()),
+      archived,
+      workflows
     };
     projectConfigCache = { value: config, loadedAt: Date.now() };
     return config;
@@ -172,7 +257,9 @@ async function loadProjectConfig(): Promise<ProjectConfig> {
     const fallback = normalizeProjectId(DEFAULT_PROJECT_FALLBACK);
     const config: ProjectConfig = {
       defaultProject: fallback,
-      projects: [fallback]
+      projects: [fallback],
+      archived: [],
+      workflows: {}
     };
     projectConfigCache = { value: config, loadedAt: Date.now() };
     return config;
@@ -203,26 +290,40 @@ async function resolveProjectContext(
 
   return {
     id: candidate,
+    archived: config.archived.includes(candidate),
     backlogCollection: collectionName(candidate, BACKLOG_COLLECTION_BASE),
     featureCollection: collectionName(candidate, FEATURE_COLLECTION_BASE),
     handoffCollection: collectionName(candidate, HANDOFF_COLLECTION_BASE),
-    graphCollection: collectionName(candidate, GRAPH_COLLECTION_BASE)
+    graphCollection: collectionName(candidate, GRAPH_COLLECTION_BASE),
+    revisionCollection: collectionName(candidate, REVISION_COLLECTION_BASE),
+    sprintCollection: collectionName(candidate, SPRINT_COLLECTION_BASE),
+    commentCollection: collectionName(candidate, COMMENT_COLLECTION_BASE),
+    workflow: config.workflows[candidate] ?? DEFAULT_WORKFLOW
   };
 }
 
+function rejectIfArchived(project: ProjectContext, res: express.Response): boolean {
+  if (!project.archived) {
+    return false;
+  }
+  res.status(409).json({ error: `Project '${project.id}' is archived and read-only` });
+  return true;
+}
+
 app.get("/api/handoff", async (req, res) => {
   try {
     const project = await resolveProjectContext(req, res);
     if (!project) {
       return;
     }
-    const response = await qdrant.retrieve(project.handoffCollection, [HANDOFF_ID]);
-    const point = response?.[0];
-    const payload = point?.payload ?? {};
-    const data: HandoffResult = {
-      content: (payload.content as string) ?? "",
-      updated_by: (payload.updated_by as string) ?? null,
-      updated_at: (payload.updated_at as string) ?? null
+    const entries = await fetchHandoffEntries(project);
+    const latest = entries[0];
+    const data: HandoffResult = latest ?? {
+      id: null,
+      content: "",
+      updated_by: null,
+      session_id: null,
+      updated_at: null
     };
     res.json({ data });
   } catch (error) {
@@ -231,45 +332,76 @@ app.get("/api/handoff", async (req, res) => {
   }
 });
 
-app.put("/api/handoff", async (req, res) => {
+app.get("/api/handoff/history", async (req, res) => {
+  try {
+    const project = await resolveProjectContext(req, res);
+    if (!project) {
+      return;
+    }
+    const limit = Math.min(Math.max(Number(req.query.limit ?? 50), 1), 200);
+    const entries = await fetchHandoffEntries(project);
+    res.json({ data: entries.slice(0, limit) });
+  } catch (error) {
+    console.error("Failed to fetch handoff history:", error);
+    res.status(500).json({ error: "Failed to fetch handoff history" });
+  }
+});
+
+// Handoffs are an append-only timeline; PUT is kept as an alias for older clients.
+const appendHandoff: express.RequestHandler = async (req, res) => {
   try {
     const project = await resolveProjectContext(req, res);
     if (!project) {
       return;
     }
+    if (rejectIfArchived(project, res)) {
+      return;
+    }
     const { content, updated_by } = req.body as {
       content: string;
       updated_by?: string;
     };
 
     const trimmed = (content ?? "").trim();
-    const vector = await embedding.embed(trimmed || "handoff");
+    if (!trimmed) {
+      res.status(400).json({ error: "content is required" });
+      return;
+    }
+    const vector = await embedding.embed(trimmed);
     const now = new Date().toISOString();
+    const id = randomUUID();
 
     await qdrant.upsert(project.handoffCollection, [
       {
-        id: HANDOFF_ID,
+        id,
         vector,
         payload: {
           content: trimmed,
           updated_by: updated_by ?? null,
+          session_id: null,
+          tags: [],
+          created_at: now,
           updated_at: now
         }
       }
     ]);
 
-    res.json({
-      data: {
-        content: trimmed,
-        updated_by: updated_by ?? null,
-        updated_at: now
-      }
-    });
+    const data: HandoffResult = {
+      id,
+      content: trimmed,
+      updated_by: updated_by ?? null,
+      session_id: null,
+      updated_at: now
+    };
+    res.status(201).json({ data });
   } catch (error) {
     console.error("Failed to store handoff:", error);
     res.status(500).json({ error: "Failed to store handoff notes" });
   }
-});
+};
+
+app.post("/api/handoff", appendHandoff);
+app.put("/api/handoff", appendHandoff);
 
 app.get("/api/backlog", async (req, res) => {
   try {
@@ -277,8 +409,7 @@ app.get("/api/backlog", async (req, res) => {
     if (!project) {
       return;
     }
-    const response = await qdrant.scroll(project.backlogCollection, undefined, 200);
-    const items = mapPoints(response.points ?? []);
+    const items = mapPoints(await fetchBacklogMatching(project, {}));
     res.json({ data: items });
   } catch (error) {
     console.error("Failed to fetch backlog:", error);
@@ -294,27 +425,18 @@ app.get("/api/backlog/top", async (req, res) => {
     }
     const limit = Math.min(Math.max(Number(req.query.limit ?? 5), 1), 20);
     const includeCompleted = req.query.includeCompleted === "true";
-
-    const filter = includeCompleted
-      ? undefined
-      : {
-          must_not: [
-            {
-              key: "status",
-              match: { any: ["done", "completed", "archived"] }
-            }
-          ]
-        };
-
-    const response = await qdrant.scroll(
-      project.backlogCollection,
-      filter,
-      limit * 5
-    );
-
-    const items = mapPoints(response.points ?? [])
-      .sort((a, b) => priorityRank(a.priority) - priorityRank(b.priority))
-      .slice(0, limit);
+    const includeBlocked = req.query.includeBlocked === "true";
+
+    // Rank the whole backlog; a partial scan can miss a P0, and blockers may sit anywhere.
+    const all = mapPoints(await fetchBacklogMatching(project, {}));
+    const byId = new Map(all.map(item => [item.id, item]));
+    const items = rankBacklog(
+      all.filter(
+        item =>
+          (includeCompleted || !isDoneStatus(project.workflow, item.status)) &&
+          (includeBlocked || !isBlocked(item, byId, project.workflow))
+      )
+    ).slice(0, limit);
 
     res.json({ data: items });
   } catch (error) {
@@ -329,12 +451,16 @@ app.post("/api/backlog", async (req, res) => {
     if (!project) {
       return;
     }
+    if (rejectIfArchived(project, res)) {
+      return;
+    }
     const {
       title,
       description,
       status = "todo",
       priority = "P2",
-      feature_id: rawFeatureId
+      feature_id: rawFeatureId,
+      dependencies: rawDependencies
     } = req.body as Partial<BacklogItem>;
 
     if (!title || !description) {
@@ -345,6 +471,12 @@ app.post("/api/backlog", async (req, res) => {
 
     const now = new Date().toISOString();
     const id = randomUUID();
+    let dependencies: string[];
+    try {
+      dependencies = await resolveDependencies(project, id, rawDependencies ?? []);
+    } catch (error) {
+      return res.status(400).json({ error: (error as Error).message });
+    }
     const feature_id =
       typeof rawFeatureId === "string" && rawFeatureId.trim().length > 0 ? rawFeatureId.trim() : null;
 
@@ -362,13 +494,19 @@ app.post("/api/backlog", async (req, res) => {
       sprint: null,
       story_points: null,
       acceptance_criteria: [],
-      dependencies: [],
+      dependencies,
       notes: null,
       category: null,
       created_at: now,
       updated_at: now
     };
 
+    const check = checkStatusChange(project.workflow, null, payload);
+    if (!check.ok) {
+      return res.status(400).json({ error: check.error, code: check.code });
+    }
+    payload.status = check.status;
+
     const vector = await embedBacklog(payload);
 
     await qdrant.upsert(project.backlogCollection, [
@@ -397,10 +535,14 @@ app.put("/api/backlog/:id", async (req, res) => {
     if (!project) {
       return;
     }
+    if (rejectIfArchived(project, res)) {
+      return;
+    }
     const id = req.params.id;
     const updates = req.body as Partial<BacklogItem>;
 
-    const existing = await fetchBacklogById(project, id);
+    const [point] = (await qdrant.retrieve(project.backlogCollection, [id])) ?? [];
+    const existing = mapPoint(point);
     if (!existing) {
       return res.status(404).json({ error: "Backlog item not found" });
     }
@@ -415,20 +557,39 @@ app.put("/api/backlog/:id", async (req, res) => {
       typeof merged.feature_id === "string" && merged.feature_id.trim().length > 0
         ? merged.feature_id.trim()
         : null;
+    if (updates.dependencies !== undefined) {
+      try {
+        merged.dependencies = await resolveDependencies(project, id, updates.dependencies);
+      } catch (error) {
+        return res.status(400).json({ error: (error as Error).message });
+      }
+    }
 
-    const shouldReembed =
-      updates.description !== undefined || updates.title !== undefined;
-    const vector = shouldReembed
-      ? await embedBacklog(merged)
-      : await embedBacklog(existing);
-
-    await qdrant.upsert(project.backlogCollection, [
-      {
-        id,
-        vector,
-        payload: merged
+    if (updates.status !== undefined) {
+      const check = checkStatusChange(project.workflow, existing.status, merged);
+      if (!check.ok) {
+        return res
+          .status(check.code === "unknown_status" ? 400 : 409)
+          .json({ error: check.error, code: check.code });
       }
-    ]);
+      merged.status = check.status;
+    }
+
+    // Planning edits (status, priority, owner, ...) keep the stored vector.
+    if (backlogText(merged) !== backlogText(existing)) {
+      // mapPoint drops archived/archived_at; start from the stored payload so an archived item stays archived.
+      await qdrant.upsert(project.backlogCollection, [
+        {
+          id,
+          vector: await embedBacklog(merged),
+          payload: { ...point.payload, ...merged }
+        }
+      ]);
+    } else {
+      await qdrant.setPayload(project.backlogCollection, id, merged);
+    }
+
+    await recordRevision(project, "backlog", id, existing, merged, "backlog-editor");
 
     res.json({ data: merged });
   } catch (error) {
@@ -437,6 +598,211 @@ app.put("/api/backlog/:id", async (req, res) => {
   }
 });
 
+// Same rules as the MCP bulk_update_backlog tool: items the workflow rejects are reported and left alone.
+app.post("/api/backlog/bulk", async (req, res) => {
+  try {
+    const project = await resolveProjectContext(req, res);
+    if (!project) {
+      return;
+    }
+    if (rejectIfArchived(project, res)) {
+      return;
+    }
+    const {
+      ids,
+      filter,
+      patch: rawPatch,
+      dry_run: dryRun = false,
+      updated_by: updatedBy
+    } = req.body as {
+      ids?: string[];
+      filter?: BulkFilter;
+      patch?: unknown;
+      dry_run?: boolean;
+      updated_by?: string;
+    };
+
+    if (Array.isArray(ids) === Boolean(filter)) {
+      return res.status(400).json({ error: "Provide either ids or filter" });
+    }
+    let patch: BacklogPatch;
+    try {
+      patch = parseBacklogPatch(rawPatch);
+    } catch (error) {
+      return res.status(400).json({ error: (error as Error).message });
+    }
+
+    let points: any[];
+    let notFound: string[] = [];
+    if (ids) {
+      const uniqueIds = Array.from(new Set(ids.filter(id => typeof id === "string" && id.trim()).map(id => id.trim())));
+      if (uniqueIds.length > MAX_BULK_ITEMS) {
+        return res.status(400).json({ error: `At most ${MAX_BULK_ITEMS} backlog items can be updated per call` });
+      }
+      points = uniqueIds.length > 0 ? (await qdrant.retrieve(project.backlogCollection, uniqueIds)) ?? [] : [];
+      const found = new Set(points.map(point => String(point.id)));
+      notFound = uniqueIds.filter(id => !found.has(id));
+    } else {
+      points = await fetchBacklogMatching(project, filter!);
+      if (points.length > MAX_BULK_ITEMS) {
+        return res.status(400).json({
+          error: `${points.length} backlog items match the filter; narrow it to at most ${MAX_BULK_ITEMS}`
+        });
+      }
+    }
+
+    const now = new Date().toISOString();
+    const changed: Array<{ before: BacklogItem; after: BacklogItem; payload: Record<string, unknown>; changes: FieldChange[] }> = [];
+    const unchanged: string[] = [];
+    const rejected: Array<{ id: string; title: string; error: string }> = [];
+    for (const point of points) {
+      const before = mapPoint(point)!;
+      const after = { ...applyBacklogPatch(before, patch), updated_at: now };
+      if (patch.status !== undefined) {
+        const check = checkStatusChange(project.workflow, before.status, after);
+        if (!check.ok) {
+          rejected.push({ id: before.id, title: before.title, error: check.error });
+          continue;
+        }
+        after.status = check.status;
+      }
+      const changes = diffRecords(before, after);
+      if (changes.length === 0) {
+        unchanged.push(before.id);
+      } else {
+        // Keep payload fields the board does not map, such as the archive flag.
+        changed.push({ before, after, payload: { ...point.payload, ...after }, changes });
+      }
+    }
+
+    if (!dryRun && changed.length > 0) {
+      // Only retagged items need new vectors; the rest share one payload update.
+      const reembed = changed.filter(({ before, after }) => backlogText(before) !== backlogText(after));
+      const payloadOnly = changed.filter(change => !reembed.includes(change));
+      if (reembed.length > 0) {
+        const vectors = await embedding.embedBatch(reembed.map(({ after }) => backlogText(after)));
+        await qdrant.upsert(
+          project.backlogCollection,
+          reembed.map(({ after, payload }, index) => ({ id: after.id, vector: vectors[index], payload }))
+        );
+      }
+      if (payloadOnly.length > 0) {
+        const [{ after: sample }] = payloadOnly;
+        const shared: Record<string, unknown> = { updated_at: sample.updated_at };
+        for (const field of ["status", "sprint", "owner", "feature_id"] as const) {
+          if (patch[field] !== undefined) {
+            shared[field] = sample[field];
+          }
+        }
+        await qdrant.setPayload(
+          project.backlogCollection,
+          payloadOnly.map(({ after }) => after.id),
+          shared
+        );
+      }
+      await recordRevisions(
+        project,
+        "backlog",
+        changed.map(({ before, after }) => ({ recordId: before.id, before, after })),
+        typeof updatedBy === "string" && updatedBy.trim() ? updatedBy.trim() : "backlog-editor"
+      );
+    }
+
+    res.json({
+      data: {
+        dry_run: dryRun,
+        matched: points.length,
+        changed: changed.length,
+        items: changed.map(({ after, changes }) => ({ id: after.id, title: after.title, changes })),
+        unchanged,
+        rejected,
+        not_found: notFound
+      }
+    });
+  } catch (error) {
+    console.error("Failed to bulk update backlog:", error);
+    res.status(500).json({ error: "Failed to bulk update backlog" });
+  }
+});
+
+// Comments and revisions of one item, for the board's item detail view.
+app.get("/api/backlog/:id/activity", async (req, res) => {
+  try {
+    const project = await resolveProjectContext(req, res);
+    if (!project) {
+      return;
+    }
+    const id = req.params.id;
+    const [comments, revisions] = await Promise.all([
+      fetchRecordComments(project, id),
+      fetchRecordRevisions(project, id)
+    ]);
+
+    res.json({
+      data: {
+        comments,
+        activity: sortActivity([
+          ...revisions.map(revision => revisionActivity(revision)),
+          ...comments.map(comment => commentActivity(comment))
+        ])
+      }
+    });
+  } catch (error) {
+    console.error("Failed to fetch backlog activity:", error);
+    res.status(500).json({ error: "Failed to fetch backlog activity" });
+  }
+});
+
+app.post("/api/backlog/:id/comments", async (req, res) => {
+  try {
+    const project = await resolveProjectContext(req, res);
+    if (!project) {
+      return;
+    }
+    if (rejectIfArchived(project, res)) {
+      return;
+    }
+    const id = req.params.id;
+    const { body, author, reply_to: replyTo } = req.body as {
+      body?: string;
+      author?: string;
+      reply_to?: string;
+    };
+
+    if (typeof body !== "string" || body.trim().length === 0) {
+      return res.status(400).json({ error: "body is required" });
+    }
+    if (!(await fetchBacklogById(project, id))) {
+      return res.status(404).json({ error: "Backlog item not found" });
+    }
+    if (replyTo) {
+      const comments = await fetchRecordComments(project, id);
+      if (!comments.some(comment => comment.id === replyTo)) {
+        return res.status(400).json({ error: `Comment '${replyTo}' is not a comment on this item` });
+      }
+    }
+
+    const comment: CommentRecord = {
+      id: randomUUID(),
+      record_type: "backlog",
+      record_id: id,
+      parent_id: replyTo ?? null,
+      author: typeof author === "string" && author.trim() ? author.trim() : "backlog-editor",
+      body,
+      created_at: new Date().toISOString()
+    };
+
+    const { id: commentId, ...payload } = comment;
+    const vector = await embedding.embed(commentText(payload));
+    await qdrant.upsert(project.commentCollection, [{ id: commentId, vector, payload }]);
+
+    res.status(201).json({ data: comment });
+  } catch (error) {
+    console.error("Failed to add comment:", error);
+    res.status(500).json({ error: "Failed to add comment" });
+  }
+});
+
 app.get("/api/features", async (req, res) => {
   try {
     const project = await resolveProjectContext(req, res);
@@ -457,6 +823,9 @@ app.put("/api/features/order", async (req, res) => {
     if (!project) {
       return;
     }
+    if (rejectIfArchived(project, res)) {
+      return;
+    }
 
     const body = req.body as { ids?: unknown };
     const idsRaw = Array.isArray(body.ids) ? body.ids : null;
@@ -522,6 +891,53 @@ app.put("/api/features/order", async (req, res) => {
   }
 });
 
+// The workflow is changed through the MCP set_backlog_workflow tool; the board builds its columns from it.
+app.get("/api/workflow", async (req, res) => {
+  const project = await resolveProjectContext(req, res);
+  if (!project) {
+    return;
+  }
+  res.json({ data: project.workflow });
+});
+
+// Sprints are created and closed through the MCP sprint tools; the board only filters by them.
+app.get("/api/sprints", async (req, res) => {
+  try {
+    const project = await resolveProjectContext(req, res);
+    if (!project) {
+      return;
+    }
+    const sprints: SprintRecord[] = [];
+    let offset: any = undefined;
+    do {
+      const response = await qdrant.scroll(
+        project.sprintCollection,
+        { must_not: [ARCHIVED_CONDITION] },
+        200,
+        offset
+      );
+      for (const point of response?.points ?? []) {
+        const payload = point.payload ?? {};
+        sprints.push({
+          id: typeof point.id === "string" ? point.id : String(point.id),
+          name: typeof payload.name === "string" ? payload.name : "",
+          goal: typeof payload.goal === "string" ? payload.goal : null,
+          start_date: typeof payload.start_date === "string" ? payload.start_date : "",
+          end_date: typeof payload.end_date === "string" ? payload.end_date : "",
+          capacity: typeof payload.capacity === "number" ? payload.capacity : 0,
+          closed_at: typeof payload.closed_at === "string" ? payload.closed_at : null
+        });
+      }
+      offset = response?.next_page_offset;
+    } while (offset);
+
+    res.json({ data: sprints.sort((a, b) => b.start_date.localeCompare(a.start_date)) });
+  } catch (error) {
+    console.error("Failed to fetch sprints:", error);
+    res.status(500).json({ error: "Failed to fetch sprints" });
+  }
+});
+
 app.get("/api/graph/search", async (req, res) => {
   const query = typeof req.query.query === "string" ? req.query.query.trim() : "";
   const limitParam = Number(req.query.limit ?? 12);
@@ -641,7 +1057,12 @@ async function fetchAllFeatures(project: ProjectContext): Promise<FeatureRecord[
   const pageSize = 200;
 
   do {
-    const response = await qdrant.scroll(project.featureCollection, undefined, pageSize, offset);
+    const response = await qdrant.scroll(
+      project.featureCollection,
+      { must_not: [ARCHIVED_CONDITION] },
+      pageSize,
+      offset
+    );
     const points = Array.isArray(response?.points) ? response.points : [];
     for (const point of points) {
       const mapped = mapFeaturePoint(point);
@@ -748,11 +1169,177 @@ function mapPoint(point: any): BacklogItem | undefined {
   };
 }
 
+async function fetchHandoffEntries(project: ProjectContext): Promise<HandoffResult[]> {
+  const entries: HandoffResult[] = [];
+  let offset: any = undefined;
+
+  do {
+    const response = await qdrant.scroll(project.handoffCollection, undefined, 200, offset);
+    for (const point of response?.points ?? []) {
+      const payload = point.payload ?? {};
+      entries.push({
+        id: typeof point.id === "string" ? point.id : String(point.id),
+        content: typeof payload.content === "string" ? payload.content : "",
+        updated_by: typeof payload.updated_by === "string" ? payload.updated_by : null,
+        session_id: typeof payload.session_id === "string" ? payload.session_id : null,
+        // The legacy single handoff point only carries updated_at.
+        updated_at:
+          typeof payload.created_at === "string"
+            ? payload.created_at
+            : typeof payload.updated_at === "string"
+              ? payload.updated_at
+              : null
+      });
+    }
+    offset = response?.next_page_offset;
+  } while (offset);
+
+  return entries.sort((a, b) => (b.updated_at ?? "").localeCompare(a.updated_at ?? ""));
+}
+
 async function fetchBacklogById(project: ProjectContext, id: string): Promise<BacklogItem | undefined> {
   const response = await qdrant.retrieve(project.backlogCollection, [id]);
   return mapPoint(response?.[0]);
 }
 
+async function fetchRecordComments(project: ProjectContext, recordId: string): Promise<CommentRecord[]> {
+  const filter = {
+    must: [
+      { key: "record_type", match: { value: "backlog" } },
+      { key: "record_id", match: { value: recordId } }
+    ]
+  };
+  const comments: CommentRecord[] = [];
+  let offset: any = undefined;
+  do {
+    const response = await qdrant.scroll(project.commentCollection, filter, 200, offset);
+    for (const point of response?.points ?? []) {
+      const payload = point.payload ?? {};
+      comments.push({
+        id: typeof point.id === "string" ? point.id : String(point.id),
+        record_type: "backlog",
+        record_id: recordId,
+        parent_id: typeof payload.parent_id === "string" ? payload.parent_id : null,
+        author: typeof payload.author === "string" ? payload.author : "",
+        body: typeof payload.body === "string" ? payload.body : "",
+        created_at: typeof payload.created_at === "string" ? payload.created_at : ""
+      });
+    }
+    offset = response?.next_page_offset;
+  } while (offset);
+
+  return comments.sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id.localeCompare(b.id));
+}
+
+async function fetchRecordRevisions(project: ProjectContext, recordId: string): Promise<RevisionLike[]> {
+  const filter = {
+    must: [
+      { key: "record_type", match: { value: "backlog" } },
+      { key: "record_id", match: { value: recordId } }
+    ]
+  };
+  const revisions: RevisionLike[] = [];
+  let offset: any = undefined;
+  do {
+    const response = await qdrant.scroll(project.revisionCollection, filter, 200, offset);
+    for (const point of response?.points ?? []) {
+      const payload = point.payload ?? {};
+      revisions.push({
+        id: typeof point.id === "string" ? point.id : String(point.id),
+        record_type: "backlog",
+        record_id: recordId,
+        action: payload.action === "revert" ? "revert" : "update",
+        author: typeof payload.author === "string" ? payload.author : null,
+        created_at: typeof payload.created_at === "string" ? payload.created_at : "",
+        changes: Array.isArray(payload.changes) ? payload.changes : []
+      });
+    }
+    offset = response?.next_page_offset;
+  } while (offset);
+
+  return revisions;
+}
+
+// Same existence and cycle rules as the MCP create/update tools; throws with the reason.
+async function resolveDependencies(project: ProjectContext, itemId: string, dependencies: unknown): Promise<string[]> {
+  if (!Array.isArray(dependencies) || dependencies.some(dependency => typeof dependency !== "string")) {
+    throw new Error("dependencies must be an array of backlog item ids");
+  }
+  const items = dependencies.some(dependency => dependency.trim())
+    ? mapPoints(await fetchBacklogMatching(project, { include_archived: true }))
+    : [];
+  return validateDependencies(itemId, dependencies, items);
+}
+
+async function fetchBacklogMatching(project: ProjectContext, params: BulkFilter): Promise<any[]> {
+  const must: any[] = [];
+  if (Array.isArray(params.tags) && params.tags.length > 0) {
+    must.push({ key: "tags", match: { any: params.tags } });
+  }
+  for (const field of ["status", "priority", "owner", "feature_id", "sprint"] as const) {
+    if (params[field]) {
+      must.push({ key: field, match: { value: params[field] } });
+    }
+  }
+  const filter = {
+    ...(must.length > 0 ? { must } : {}),
+    ...(params.include_archived ? {} : { must_not: [ARCHIVED_CONDITION] })
+  };
+
+  const points: any[] = [];
+  let offset: any = undefined;
+  do {
+    const response = await qdrant.scroll(project.backlogCollection, filter, 200, offset);
+    points.push(...(response?.points ?? []));
+    offset = response?.next_page_offset;
+  } while (offset);
+
+  return points;
+}
+
+// Mirrors the MCP RevisionService payload so get_record_history / revert_record see editor edits too.
+async function recordRevision(
+  project: ProjectContext,
+  recordType: "backlog",
+  recordId: string,
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  author: string | null
+) {
+  await recordRevisions(project, recordType, [{ recordId, before, after }], author);
+}
+
+async function recordRevisions(
+  project: ProjectContext,
+  recordType: "backlog",
+  entries: Array<{ recordId: string; before: Record<string, unknown>; after: Record<string, unknown> }>,
+  author: string | null
+) {
+  const createdAt = new Date().toISOString();
+  const revisions = entries
+    .map(({ recordId, before, after }) => ({
+      record_type: recordType,
+      record_id: recordId,
+      action: "update",
+      author,
+      created_at: createdAt,
+      changes: diffRecords(before, after),
+      before,
+      reverted_revision: null
+    }))
+    .filter(revision => revision.changes.length > 0);
+  if (revisions.length === 0) {
+    return;
+  }
+
+  const vectors = await embedding.embedBatch(revisions.map(revision => revisionText(revision)));
+
+  await qdrant.upsert(
+    project.revisionCollection,
+    revisions.map((payload, index) => ({ id: randomUUID(), vector: vectors[index], payload }))
+  );
+}
+
 function cleanUpdates(updates: Partial<BacklogItem>) {
   const cleaned: Record<string, unknown> = {};
   for (const [key, value] of Object.entries(updates)) {
@@ -763,6 +1350,30 @@ function cleanUpdates(updates: Partial<BacklogItem>) {
   return cleaned;
 }
 
+/**
+ * Blocked by its status or by a dependency that is still unfinished. Unknown and
+ * archived dependencies (absent from `byId`) no longer block, as in the MCP tools.
+ */
+function isBlocked(item: BacklogItem, byId: Map<string, BacklogItem>, workflow: BacklogWorkflow) {
+  return (
+    isBlockedStatus(workflow, item.status) ||
+    item.dependencies.some(dependency => {
+      const blocker = byId.get(dependency);
+      return blocker !== undefined && !isDoneStatus(workflow, blocker.status);
+    })
+  );
+}
+
+/** Priority first, then the oldest item, as the MCP ranking does. */
+function rankBacklog(items: BacklogItem[]): BacklogItem[] {
+  return [...items].sort(
+    (a, b) =>
+      priorityRank(a.priority) - priorityRank(b.priority) ||
+      a.created_at.localeCompare(b.created_at) ||
+      a.id.localeCompare(b.id)
+  );
+}
+
 function priorityRank(priority: string) {
   const normalized = priority.trim().toLowerCase();
   if (normalized === "p0" || normalized === "critical" || normalized === "blocker") {
@@ -887,41 +1498,6 @@ function normalizeId(value: unknown): string | undefined {
   return undefined;
 }
 
-async function embedBacklog(
-  item: Pick<
-    BacklogItem,
-    | "title"
-    | "description"
-    | "status"
-    | "priority"
-    | "feature_id"
-    | "next_steps"
-    | "completed_work"
-    | "acceptance_criteria"
-    | "dependencies"
-    | "notes"
-    | "tags"
-    | "owner"
-    | "category"
-    | "sprint"
-  >
-) {
-  const text = [
-    item.title,
-    item.description,
-    `Status: ${item.status}`,
-    `Priority: ${item.priority}`,
-    `Feature: ${item.feature_id ?? "unassigned"}`,
-    item.next_steps.join("\n"),
-    item.completed_work.join("\n"),
-    item.acceptance_criteria.join("\n"),
-    item.dependencies.join("\n"),
-    item.notes ?? "",
-    item.tags.join(", "),
-    item.owner ?? "",
-    item.category ?? "",
-    item.sprint ?? ""
-  ].join("\n\n");
-
-  return await embedding.embed(text);
+async function embedBacklog(item: Omit<BacklogItem, "id">) {
+  return await embedding.embed(backlogText(item));
 }
@@ -1,27 +1,34 @@
 import axios from "axios";
 
+import { EmbeddingProvider } from "../../../mcp/src/services/embedding.providers.js";
+
 export class EmbeddingService {
-  constructor(private url: string) {}
+  constructor(private provider: EmbeddingProvider) {}
 
   async embed(text: string): Promise<number[]> {
-    const response = await axios
-      .post(`${this.url}/embed`, { inputs: text })
-      .catch(error => {
-        if (axios.isAxiosError(error)) {
-          const detail =
-            typeof error.response?.data === "string"
-              ? error.response.data
-              : JSON.stringify(error.response?.data);
-          console.error("Embedding error:", detail || error.message);
-          throw new Error(`Failed to generate embedding: ${detail || error.message}`);
-        }
-        throw error;
-      });
+    const [vector] = await this.embedBatch([text]);
+    return vector;
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+    const vectors = await this.provider.embed(texts).catch(error => {
+      if (axios.isAxiosError(error)) {
+        const detail =
+          typeof error.response?.data === "string"
+            ? error.response.data
+            : JSON.stringify(error.response?.data);
+        console.error("Embedding error:", detail || error.message);
+        throw new Error(`Failed to generate embedding: ${detail || error.message}`);
+      }
+      throw error;
+    });
 
-    const data = response.data;
-    if (Array.isArray(data)) {
-      return data[0];
+    if (vectors.length !== texts.length || vectors.some(vector => !Array.isArray(vector))) {
+      throw new Error("Failed to generate embedding: provider returned no vector");
     }
-    return data;
+    return vectors;
   }
 }
@@ -49,10 +49,11 @@ export class QdrantService {
     });
   }
 
-  async setPayload(collection: string, id: string, payload: Record<string, unknown>) {
+  async setPayload(collection: string, ids: string | string[], payload: Record<string, unknown>) {
     return await this.client.setPayload(collection, {
+      wait: true,
       payload,
-      points: [id]
+      points: Array.isArray(ids) ? ids : [ids]
     });
   }
 }
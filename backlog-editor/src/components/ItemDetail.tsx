@@ -0,0 +1,240 @@
+import { useEffect, useState, type ReactElement } from "react";
+import DOMPurify from "dompurify";
+import { marked } from "marked";
+import { apiErrorMessage, apiRequest, formatTimestamp } from "../utils/api.js";
+import type { BacklogItem } from "../pages/BacklogBoard.js";
+
+type Comment = {
+  id: string;
+  parent_id: string | null;
+  author: string;
+  body: string;
+  created_at: string;
+};
+
+type ActivityEntry = {
+  id: string;
+  kind: "comment" | "status_change" | "reassignment" | "edit" | "revert";
+  author: string | null;
+  created_at: string;
+  summary: string;
+};
+
+type ActivityPayload = {
+  comments: Comment[];
+  activity: ActivityEntry[];
+};
+
+type ItemDetailProps = {
+  item: BacklogItem;
+  featureName: string | null;
+  onClose: () => void;
+};
+
+const ACTIVITY_LABELS: Record<ActivityEntry["kind"], string> = {
+  comment: "Comment",
+  status_change: "Status",
+  reassignment: "Assignment",
+  edit: "Edit",
+  revert: "Revert"
+};
+
+function renderMarkdown(source: string) {
+  const parsed = marked.parse(source, { async: false });
+  const html = typeof parsed === "string" ? parsed : "";
+  return typeof window === "undefined" ? html : DOMPurify.sanitize(html);
+}
+
+function ItemList({ title, entries }: { title: string; entries: string[] }) {
+  if (entries.length === 0) {
+    return null;
+  }
+  return (
+    <div className="item-detail__field">
+      <h5>{title}</h5>
+      <ul>
+        {entries.map((entry, index) => (
+          <li key={index}>{entry}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default function ItemDetail({ item, featureName, onClose }: ItemDetailProps) {
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [activity, setActivity] = useState<ActivityEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+  const [author, setAuthor] = useState("");
+  const [replyTo, setReplyTo] = useState<Comment | null>(null);
+  const [isPosting, setIsPosting] = useState(false);
+
+  useEffect(() => {
+    void loadActivity();
+  }, [item.id, item.updated_at]);
+
+  async function loadActivity() {
+    try {
+      setLoading(true);
+      const result = await apiRequest<{ data: ActivityPayload }>(`/api/backlog/${item.id}/activity`);
+      setComments(result.data.comments);
+      setActivity(result.data.activity);
+    } catch (err) {
+      console.error(err);
+      setError("Failed to load activity");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handlePostComment() {
+    if (!draft.trim()) {
+      return;
+    }
+    try {
+      setIsPosting(true);
+      await apiRequest(`/api/backlog/${item.id}/comments`, {
+        method: "POST",
+        body: JSON.stringify({
+          body: draft,
+          author: author || undefined,
+          reply_to: replyTo?.id
+        })
+      });
+      setDraft("");
+      setReplyTo(null);
+      setError(null);
+      await loadActivity();
+    } catch (err) {
+      console.error(err);
+      setError(apiErrorMessage(err, "Failed to add comment"));
+    } finally {
+      setIsPosting(false);
+    }
+  }
+
+  // Replies whose parent is gone are shown at the top level rather than dropped.
+  const isOrphan = (comment: Comment) =>
+    comment.parent_id !== null && !comments.some(candidate => candidate.id === comment.parent_id);
+
+  const renderThread = (parentId: string | null, depth: number): ReactElement[] =>
+    comments
+      .filter(comment => comment.parent_id === parentId || (parentId === null && isOrphan(comment)))
+      .map(comment => (
+        <li key={comment.id} className="item-detail__comment" style={{ marginLeft: `${Math.min(depth, 4)}rem` }}>
+          <div className="item-detail__comment-meta">
+            <strong>{comment.author}</strong> · {formatTimestamp(comment.created_at)}
+            <button type="button" onClick={() => setReplyTo(comment)}>
+              Reply
+            </button>
+          </div>
+          <div
+            className="item-detail__comment-body"
+            dangerouslySetInnerHTML={{ __html: renderMarkdown(comment.body) }}
+          />
+          <ul className="item-detail__comments">{renderThread(comment.id, depth + 1)}</ul>
+        </li>
+      ));
+
+  return (
+    <div className="item-detail" role="dialog" aria-modal="true" onClick={onClose}>
+      <div className="item-detail__panel" onClick={event => event.stopPropagation()}>
+        <header className="item-detail__header">
+          <div>
+            <h3>{item.title}</h3>
+            <span className="item-detail__meta">
+              {item.status} · {item.priority}
+              {item.owner && ` · ${item.owner}`}
+              {item.sprint && ` · ${item.sprint}`}
+              {item.story_points !== null && ` · ${item.story_points} pts`}
+              {featureName && ` · ${featureName}`}
+            </span>
+          </div>
+          <button type="button" className="handoff__toggle handoff__toggle--secondary" onClick={onClose}>
+            Close
+          </button>
+        </header>
+
+        {error && (
+          <div className="alert">
+            <span>{error}</span>
+            <button onClick={() => setError(null)}>Dismiss</button>
+          </div>
+        )}
+
+        <p className="item-detail__description">{item.description}</p>
+        <ItemList title="Acceptance criteria" entries={item.acceptance_criteria} />
+        <ItemList title="Next steps" entries={item.next_steps} />
+        <ItemList title="Completed work" entries={item.completed_work} />
+        {item.notes && (
+          <div className="item-detail__field">
+            <h5>Notes</h5>
+            <p>{item.notes}</p>
+          </div>
+        )}
+
+        <section className="item-detail__section">
+          <h4>Comments</h4>
+          {loading && comments.length === 0 ? (
+            <div className="board__empty">Loading…</div>
+          ) : comments.length === 0 ? (
+            <div className="board__empty">No comments yet</div>
+          ) : (
+            <ul className="item-detail__comments">{renderThread(null, 0)}</ul>
+          )}
+          <div className="item-detail__compose">
+            {replyTo && (
+              <div className="item-detail__replying">
+                Replying to {replyTo.author}
+                <button type="button" onClick={() => setReplyTo(null)}>
+                  Cancel
+                </button>
+              </div>
+            )}
+            <textarea
+              className="handoff__textarea"
+              rows={3}
+              placeholder="Leave feedback for the next agent (markdown)"
+              value={draft}
+              onChange={event => setDraft(event.target.value)}
+            />
+            <div className="handoff__actions">
+              <input
+                className="handoff__author"
+                placeholder="Your name (optional)"
+                value={author}
+                onChange={event => setAuthor(event.target.value)}
+              />
+              <button onClick={() => void handlePostComment()} disabled={isPosting || !draft.trim()}>
+                {isPosting ? "Posting…" : "Comment"}
+              </button>
+            </div>
+          </div>
+        </section>
+
+        <section className="item-detail__section">
+          <h4>Activity</h4>
+          {activity.length === 0 ? (
+            <div className="board__empty">{loading ? "Loading…" : "No activity yet"}</div>
+          ) : (
+            <ol className="item-detail__activity">
+              {activity.map(entry => (
+                <li key={entry.id}>
+                  <span className={`item-detail__kind item-detail__kind--${entry.kind}`}>
+                    {ACTIVITY_LABELS[entry.kind]}
+                  </span>
+                  <span className="item-detail__summary">{entry.summary}</span>
+                  <span className="item-detail__meta">
+                    {entry.author ?? "unknown"} · {formatTimestamp(entry.created_at)}
+                  </span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,10 @@
 import { useEffect, useMemo, useState, type DragEvent } from "react";
 import DOMPurify from "dompurify";
 import { marked } from "marked";
-import { apiRequest, formatTimestamp } from "../utils/api.js";
+import { apiErrorMessage, apiRequest, formatTimestamp } from "../utils/api.js";
+import ItemDetail from "../components/ItemDetail.js";
 
-type BacklogItem = {
+export type BacklogItem = {
   id: string;
   title: string;
   description: string;
@@ -37,9 +38,21 @@ type Feature = {
   created_at: string;
 };
 
+type Sprint = {
+  id: string;
+  name: string;
+  goal: string | null;
+  start_date: string;
+  end_date: string;
+  capacity: number;
+  closed_at: string | null;
+};
+
 type HandoffPayload = {
+  id?: string | null;
   content: string;
   updated_by?: string | null;
+  session_id?: string | null;
   updated_at?: string | null;
 };
 
@@ -47,25 +60,32 @@ type ApiResponse<T> = {
   data: T;
 };
 
-type StatusColumn = {
+type WorkflowState = {
   key: string;
   label: string;
   aliases?: string[];
+  done?: boolean;
+  blocked?: boolean;
 };
 
-const STATUS_COLUMNS: StatusColumn[] = [
-  { key: "todo", label: "To Do" },
-  { key: "in-progress", label: "In Progress", aliases: ["pending"] },
-  { key: "blocked", label: "Blocked" },
-  { key: "review", label: "In Review" },
-  { key: "done", label: "Done" }
-];
+// The project's backlog status workflow, set through the MCP set_backlog_workflow tool.
+type Workflow = {
+  states: WorkflowState[];
+  transitions: Record<string, string[]>;
+  required_fields: Record<string, string[]>;
+};
 
 const PRIORITY_OPTIONS = ["P0", "P1", "P2", "P3", "Backlog"];
 
+// Sprint filter values besides sprint names.
+const ALL_SPRINTS = "";
+const NO_SPRINT = "__none__";
+
 export default function BacklogBoard() {
   const [backlog, setBacklog] = useState<BacklogItem[]>([]);
   const [handoff, setHandoff] = useState<HandoffPayload>({ content: "" });
+  const [handoffHistory, setHandoffHistory] = useState<HandoffPayload[]>([]);
+  const [selectedHandoffId, setSelectedHandoffId] = useState<string | null>(null);
   const [handoffDraft, setHandoffDraft] = useState("");
   const [handoffAuthor, setHandoffAuthor] = useState("");
   const [loadingBacklog, setLoadingBacklog] = useState(true);
@@ -75,6 +95,10 @@ export default function BacklogBoard() {
   const [loadingFeatures, setLoadingFeatures] = useState(true);
   const [isSavingFeatureOrder, setIsSavingFeatureOrder] = useState(false);
   const [draggingFeatureId, setDraggingFeatureId] = useState<string | null>(null);
+  const [sprints, setSprints] = useState<Sprint[]>([]);
+  const [sprintFilter, setSprintFilter] = useState(ALL_SPRINTS);
+  const [workflow, setWorkflow] = useState<Workflow | null>(null);
+  const [detailItemId, setDetailItemId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isSavingHandoff, setIsSavingHandoff] = useState(false);
   const [newItem, setNewItem] = useState({
@@ -89,6 +113,8 @@ export default function BacklogBoard() {
     void loadBacklog();
     void loadHandoff();
     void loadFeatures();
+    void loadSprints();
+    void loadWorkflow();
   }, []);
 
   async function loadBacklog() {
@@ -107,8 +133,13 @@ export default function BacklogBoard() {
   async function loadHandoff() {
     try {
       setLoadingHandoff(true);
-      const result = await apiRequest<ApiResponse<HandoffPayload>>("/api/handoff");
+      const [result, history] = await Promise.all([
+        apiRequest<ApiResponse<HandoffPayload>>("/api/handoff"),
+        apiRequest<ApiResponse<HandoffPayload[]>>("/api/handoff/history")
+      ]);
       setHandoff(result.data);
+      setHandoffHistory(history.data ?? []);
+      setSelectedHandoffId(null);
       setHandoffDraft(result.data.content ?? "");
       setHandoffAuthor("");
       setHandoffView("preview");
@@ -133,22 +164,75 @@ export default function BacklogBoard() {
     }
   }
 
+  async function loadSprints() {
+    try {
+      const result = await apiRequest<ApiResponse<Sprint[]>>("/api/sprints");
+      setSprints(result.data ?? []);
+    } catch (err) {
+      console.error(err);
+      setError("Failed to load sprints");
+    }
+  }
+
+  async function loadWorkflow() {
+    try {
+      const result = await apiRequest<ApiResponse<Workflow>>("/api/workflow");
+      const states = result.data.states;
+      setWorkflow(result.data);
+      setNewItem(current =>
+        states.some(state => state.key === current.status) || states.length === 0
+          ? current
+          : { ...current, status: states[0].key }
+      );
+    } catch (err) {
+      console.error(err);
+      setError("Failed to load the backlog workflow");
+    }
+  }
+
   async function handleUpdateItem(id: string, changes: Partial<BacklogItem>) {
-    setBacklog(current =>
-      current.map(item => (item.id === id ? { ...item, ...changes } : item))
-    );
     try {
-      await apiRequest(`/api/backlog/${id}`, {
+      const response = await apiRequest<ApiResponse<BacklogItem>>(`/api/backlog/${id}`, {
         method: "PUT",
         body: JSON.stringify(changes)
       });
+      setBacklog(current => current.map(item => (item.id === id ? response.data : item)));
     } catch (err) {
       console.error(err);
-      setError("Failed to update backlog item");
+      setError(apiErrorMessage(err, "Failed to update backlog item"));
       void loadBacklog();
     }
   }
 
+  /**
+   * Moves an item to another status, first asking for any field the workflow
+   * requires there that the item is still missing (the board has no editor for them).
+   */
+  async function handleStatusChange(item: BacklogItem, status: string) {
+    const changes: Partial<BacklogItem> = { status };
+    const label = statusColumns.find(state => state.key === status)?.label ?? status;
+    for (const field of workflow?.required_fields[status] ?? []) {
+      const current = item[field as keyof BacklogItem];
+      if (Array.isArray(current) ? current.length > 0 : current !== null && current !== "") {
+        continue;
+      }
+      const answer = window.prompt(
+        `'${label}' requires ${field.replace(/_/g, " ")}.` +
+          (Array.isArray(current) ? " Separate entries with ';'." : "")
+      );
+      if (!answer?.trim()) {
+        return;
+      }
+      const value = Array.isArray(current)
+        ? answer.split(";").map(entry => entry.trim()).filter(Boolean)
+        : field === "story_points"
+          ? Number(answer)
+          : answer.trim();
+      Object.assign(changes, { [field]: value });
+    }
+    await handleUpdateItem(item.id, changes);
+  }
+
   async function handleCreateItem() {
     if (!newItem.title.trim() || !newItem.description.trim()) {
       setError("Title and description are required for new backlog items.");
@@ -177,7 +261,7 @@ export default function BacklogBoard() {
       });
     } catch (err) {
       console.error(err);
-      setError("Failed to create backlog item");
+      setError(apiErrorMessage(err, "Failed to create backlog item"));
     }
   }
 
@@ -189,10 +273,12 @@ export default function BacklogBoard() {
         updated_by: handoffAuthor || undefined
       };
       const response = await apiRequest<ApiResponse<HandoffPayload>>("/api/handoff", {
-        method: "PUT",
+        method: "POST",
         body: JSON.stringify(payload)
       });
       setHandoff(response.data);
+      setHandoffHistory(previous => [response.data, ...previous]);
+      setSelectedHandoffId(null);
       setError(null);
       setHandoffView("preview");
     } catch (err) {
@@ -209,15 +295,22 @@ export default function BacklogBoard() {
     setHandoffView("preview");
   }
 
+  const selectedHandoff = useMemo(
+    () => handoffHistory.find(entry => entry.id === selectedHandoffId) ?? null,
+    [handoffHistory, selectedHandoffId]
+  );
+  const displayedHandoff = selectedHandoff ?? handoff;
+  const previewSource = selectedHandoff ? selectedHandoff.content : handoffDraft;
+
   const renderedHandoff = useMemo(() => {
-    const source = handoffDraft ?? "";
+    const source = previewSource ?? "";
     const parsed = marked.parse(source, { async: false });
     const html = typeof parsed === "string" ? parsed : "";
     if (typeof window === "undefined") {
       return html;
     }
     return DOMPurify.sanitize(html);
-  }, [handoffDraft]);
+  }, [previewSource]);
 
   function normalizeFeatureList(list: Feature[]): Feature[] {
     const cleaned = list.map(feature => {
@@ -347,6 +440,9 @@ export default function BacklogBoard() {
     return map;
   }, [features]);
 
+  // Looked up from the board state so the detail view reflects edits made on the card.
+  const detailItem = detailItemId ? backlog.find(item => item.id === detailItemId) ?? null : null;
+
   const featureOptions = useMemo(
     () => [
       { value: "", label: "Unassigned" },
@@ -358,22 +454,64 @@ export default function BacklogBoard() {
     [features]
   );
 
+  // Sprint names typed on items before sprints were managed still get an option.
+  const sprintOptions = useMemo(() => {
+    const options = sprints.map(sprint => ({
+      value: sprint.name,
+      label: `${sprint.name} (${sprint.start_date} – ${sprint.end_date})${sprint.closed_at ? " · closed" : ""}`
+    }));
+    const known = new Set(sprints.map(sprint => sprint.name));
+    for (const item of backlog) {
+      if (item.sprint && !known.has(item.sprint)) {
+        known.add(item.sprint);
+        options.push({ value: item.sprint, label: item.sprint });
+      }
+    }
+    return options;
+  }, [sprints, backlog]);
+
+  const visibleBacklog = useMemo(() => {
+    if (sprintFilter === ALL_SPRINTS) {
+      return backlog;
+    }
+    if (sprintFilter === NO_SPRINT) {
+      return backlog.filter(item => !item.sprint);
+    }
+    return backlog.filter(item => item.sprint === sprintFilter);
+  }, [backlog, sprintFilter]);
+
+  const selectedSprint = sprints.find(sprint => sprint.name === sprintFilter);
+  const selectedSprintPoints = visibleBacklog.reduce((total, item) => total + (item.story_points ?? 0), 0);
+
+  const statusColumns = workflow?.states ?? [];
+
+  const findStatusColumn = (status: string | null) => {
+    const normalizedStatus = (status ?? "").trim().toLowerCase();
+    return statusColumns.find(
+      column => column.key === normalizedStatus || column.aliases?.includes(normalizedStatus)
+    );
+  };
+
+  // The current status plus the moves the workflow allows from it; unknown statuses may move anywhere.
+  const statusOptions = (item: BacklogItem) => {
+    const column = findStatusColumn(item.status);
+    if (!column) {
+      return [{ key: item.status, label: `(Unknown) ${item.status}` }, ...statusColumns];
+    }
+    const allowed = workflow?.transitions[column.key] ?? [];
+    return statusColumns.filter(state => state.key === column.key || allowed.includes(state.key));
+  };
+
   const backlogByStatus = useMemo(() => {
     const grouped: Record<string, BacklogItem[]> = {};
-    for (const column of STATUS_COLUMNS) {
+    for (const column of statusColumns) {
       grouped[column.key] = [];
     }
 
-    for (const item of backlog) {
-      const normalizedStatus = (item.status ?? "todo").toLowerCase();
-      const column = STATUS_COLUMNS.find(col => {
-        if (normalizedStatus === col.key.toLowerCase()) {
-          return true;
-        }
-        return col.aliases?.some(alias => alias.toLowerCase() === normalizedStatus);
-      });
+    for (const item of visibleBacklog) {
+      const column = findStatusColumn(item.status);
 
-      const targetKey = column?.key ?? "todo";
+      const targetKey = column?.key ?? statusColumns[0]?.key ?? "todo";
       if (!grouped[targetKey]) {
         grouped[targetKey] = [];
       }
@@ -387,7 +525,7 @@ export default function BacklogBoard() {
     }
 
     return grouped;
-  }, [backlog]);
+  }, [visibleBacklog, workflow]);
 
   return (
     <div className="board-page">
@@ -418,19 +556,34 @@ export default function BacklogBoard() {
           <div>
             <h3>Session Handoff Notes</h3>
             <div className="handoff__meta">
-              <span>Last updated: {formatTimestamp(handoff.updated_at)}</span>
-              {handoff.updated_by && <span> by {handoff.updated_by}</span>}
+              <span>
+                {selectedHandoff ? "Entry from" : "Last updated"}: {formatTimestamp(displayedHandoff.updated_at)}
+              </span>
+              {displayedHandoff.updated_by && <span> by {displayedHandoff.updated_by}</span>}
             </div>
           </div>
           <div className="handoff__toolbar">
             {handoffView === "preview" ? (
-              <button
-                className="handoff__toggle"
-                onClick={() => setHandoffView("raw")}
-                disabled={loadingHandoff}
-              >
-                Edit Markdown
-              </button>
+              <>
+                {selectedHandoff && (
+                  <button
+                    className="handoff__toggle handoff__toggle--secondary"
+                    onClick={() => setSelectedHandoffId(null)}
+                  >
+                    Back to Latest
+                  </button>
+                )}
+                <button
+                  className="handoff__toggle"
+                  onClick={() => {
+                    setSelectedHandoffId(null);
+                    setHandoffView("raw");
+                  }}
+                  disabled={loadingHandoff}
+                >
+                  New Entry
+                </button>
+              </>
             ) : (
               <>
                 <button
@@ -453,14 +606,14 @@ export default function BacklogBoard() {
         </div>
         {handoffView === "preview" ? (
           <div className="handoff__preview">
-            {handoffDraft.trim().length > 0 ? (
+            {previewSource.trim().length > 0 ? (
               <div
                 className="handoff__preview-content"
                 dangerouslySetInnerHTML={{ __html: renderedHandoff }}
               />
             ) : (
               <p className="handoff__placeholder">
-                No handoff notes yet. Click "Edit Markdown" to add context and next steps.
+                No handoff notes yet. Click "New Entry" to add context and next steps.
               </p>
             )}
           </div>
@@ -482,11 +635,31 @@ export default function BacklogBoard() {
                 placeholder="Updated by (optional)"
               />
               <button onClick={() => void handleSaveHandoff()} disabled={isSavingHandoff}>
-                {isSavingHandoff ? "Saving…" : "Save Handoff"}
+                {isSavingHandoff ? "Saving…" : "Add Handoff Entry"}
               </button>
             </div>
           </>
         )}
+        {handoffHistory.length > 1 && (
+          <ol className="handoff__timeline">
+            {handoffHistory.map((entry, index) => {
+              const isActive = selectedHandoffId ? entry.id === selectedHandoffId : index === 0;
+              return (
+                <li key={entry.id ?? index}>
+                  <button
+                    className={`handoff__timeline-entry${isActive ? " handoff__timeline-entry--active" : ""}`}
+                    onClick={() => setSelectedHandoffId(index === 0 ? null : entry.id ?? null)}
+                    disabled={handoffView === "raw"}
+                  >
+                    <span className="handoff__timeline-time">{formatTimestamp(entry.updated_at)}</span>
+                    <span className="handoff__timeline-author">{entry.updated_by ?? "unknown"}</span>
+                    <span className="handoff__timeline-preview">{entry.content.slice(0, 120)}</span>
+                  </button>
+                </li>
+              );
+            })}
+          </ol>
+        )}
       </section>
 
       <section className="features">
@@ -566,7 +739,7 @@ export default function BacklogBoard() {
                 value={newItem.status}
                 onChange={event => setNewItem({ ...newItem, status: event.target.value })}
               >
-                {STATUS_COLUMNS.map(column => (
+                {statusColumns.map(column => (
                   <option key={column.key} value={column.key}>
                     {column.label}
                   </option>
@@ -609,8 +782,29 @@ export default function BacklogBoard() {
         </div>
       </section>
 
+      <section className="board-filters">
+        <label>
+          Sprint
+          <select value={sprintFilter} onChange={event => setSprintFilter(event.target.value)}>
+            <option value={ALL_SPRINTS}>All items</option>
+            <option value={NO_SPRINT}>Not in a sprint</option>
+            {sprintOptions.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        {selectedSprint && (
+          <span className="board-filters__summary">
+            {selectedSprintPoints} / {selectedSprint.capacity} points
+            {selectedSprint.goal && ` · ${selectedSprint.goal}`}
+          </span>
+        )}
+      </section>
+
       <section className="board">
-        {STATUS_COLUMNS.map(column => (
+        {statusColumns.map(column => (
           <div key={column.key} className="board__column">
             <header className="board__column-header">
               <h4>{column.label}</h4>
@@ -651,12 +845,10 @@ export default function BacklogBoard() {
                       <label>
                         Status
                         <select
-                          value={item.status}
-                          onChange={event =>
-                            void handleUpdateItem(item.id, { status: event.target.value })
-                          }
+                          value={findStatusColumn(item.status)?.key ?? item.status}
+                          onChange={event => void handleStatusChange(item, event.target.value)}
                         >
-                          {STATUS_COLUMNS.map(option => (
+                          {statusOptions(item).map(option => (
                             <option key={option.key} value={option.key}>
                               {option.label}
                             </option>
@@ -707,7 +899,11 @@ export default function BacklogBoard() {
                       </label>
                     </div>
                     <footer className="card__footer">
+                      {item.sprint && <span>{item.sprint} · </span>}
                       <span>Updated: {formatTimestamp(item.updated_at)}</span>
+                      <button type="button" className="card__details" onClick={() => setDetailItemId(item.id)}>
+                        Comments &amp; activity
+                      </button>
                     </footer>
                   </article>
                 ))
@@ -716,6 +912,14 @@ export default function BacklogBoard() {
           </div>
         ))}
       </section>
+
+      {detailItem && (
+        <ItemDetail
+          item={detailItem}
+          featureName={detailItem.feature_id ? featureLookup.get(detailItem.feature_id)?.name ?? null : null}
+          onClose={() => setDetailItemId(null)}
+        />
+      )}
     </div>
   );
 }
@@ -79,6 +79,19 @@ export async function apiRequest<T>(input: RequestInfo, init?: RequestInit): Pro
   return (await response.json()) as T;
 }
 
+/** The `error` message of a failed apiRequest's JSON body, e.g. a workflow rule the server enforced. */
+export function apiErrorMessage(err: unknown, fallback: string): string {
+  if (!(err instanceof Error)) {
+    return fallback;
+  }
+  try {
+    const body = JSON.parse(err.message) as { error?: unknown };
+    return typeof body.error === "string" ? body.error : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
 export function formatTimestamp(value?: string | null) {
   if (!value) return "—";
   try {
@@ -9,6 +9,17 @@ async function bootstrap() {
 
         const server = new GameDevMCPServer();
         await server.start();
+
+        // Without this the last minute of metric counts is lost on every restart.
+        const shutdown = (signal: NodeJS.Signals) => {
+            console.error(`Received ${signal}, shutting down`);
+            server
+                .stop()
+                .catch((error) => console.error("Failed to shut down cleanly:", error))
+                .finally(() => process.exit(0));
+        };
+        process.once("SIGINT", shutdown);
+        process.once("SIGTERM", shutdown);
     } catch (error) {
         console.error("Failed to start Game Dev MCP Server:", error);
         process.exit(1);
@@ -0,0 +1,105 @@
+import { QdrantService } from "./services/qdrant.service.js";
+import { EmbeddingService } from "./services/embedding.service.js";
+import { createEmbeddingProvider } from "./services/embedding.providers.js";
+import { ProjectService } from "./services/project.service.js";
+import { describeCollectionVersions, migrateCollections, rollbackCollections } from "./utils/reembed.js";
+
+const USAGE = `Usage: node dist/reembed.js <command> [options]
+
+Commands:
+  status                  Show which collection each alias reads from and the versions kept
+  migrate --version <v>   Re-embed into <project>__<collection>__<v> with the configured provider and switch to it
+  rollback --version <v>  Switch back to a version kept by an earlier migration
+
+Options:
+  --project <id,...>          Limit to these projects (default: all)
+  --collections <name,...>    Limit to these collections (default: all except code_graph)
+  --previous-version <v>      Name for the original data on a collection's first migration (default: v1)`;
+
+function parseArgs(argv: string[]) {
+    const [command, ...rest] = argv;
+    const options: Record<string, string> = {};
+    for (let index = 0; index < rest.length; index++) {
+        const flag = rest[index];
+        const value = rest[index + 1];
+        if (!flag.startsWith("--") || value === undefined || value.startsWith("--")) {
+            throw new Error(`Expected '--option value', got '${flag}'`);
+        }
+        options[flag.slice(2)] = value;
+        index++;
+    }
+    return { command, options };
+}
+
+const list = (value: string | undefined) =>
+    value
+        ?.split(",")
+        .map((entry) => entry.trim())
+        .filter((entry) => entry.length > 0);
+
+function requireOption(options: Record<string, string>, name: string) {
+    if (!options[name]) {
+        throw new Error(`--${name} is required`);
+    }
+    return options[name];
+}
+
+async function main() {
+    const { command, options } = parseArgs(process.argv.slice(2));
+    if (!["status", "migrate", "rollback"].includes(command)) {
+        console.log(USAGE);
+        process.exit(command ? 1 : 0);
+    }
+
+    const qdrant = new QdrantService(process.env.QDRANT_URL || "http://localhost:6333");
+    const projects = new ProjectService(qdrant);
+    await projects.initialize();
+
+    const targets = {
+        qdrant,
+        projects,
+        projectIds: list(options.project),
+        collections: list(options.collections)
+    };
+
+    let result: unknown;
+    switch (command) {
+        case "status":
+            result = await describeCollectionVersions(targets);
+            break;
+        case "migrate": {
+            const embedding = new EmbeddingService(
+                createEmbeddingProvider({
+                    provider: process.env.EMBEDDING_PROVIDER,
+                    url: process.env.EMBEDDING_URL,
+                    model: process.env.EMBEDDING_MODEL,
+                    apiKey: process.env.EMBEDDING_API_KEY,
+                    dimension: process.env.EMBEDDING_DIMENSION ? Number(process.env.EMBEDDING_DIMENSION) : undefined
+                }),
+                undefined,
+                // No cacheDir: vectors cached for the previous model must not leak into the new collections.
+                {
+                    batchSize: Number(process.env.EMBEDDING_BATCH_SIZE || 32),
+                    maxRetries: Number(process.env.EMBEDDING_MAX_RETRIES || 3)
+                }
+            );
+            result = await migrateCollections({
+                ...targets,
+                embedding,
+                version: requireOption(options, "version"),
+                previousVersion: options["previous-version"]
+            });
+            break;
+        }
+        case "rollback":
+            result = await rollbackCollections({ ...targets, version: requireOption(options, "version") });
+            break;
+    }
+
+    console.log(JSON.stringify(result, null, 2));
+}
+
+main().catch((error) => {
+    console.error("[reembed] Failed:", error instanceof Error ? error.message : error);
+    process.exit(1);
+});
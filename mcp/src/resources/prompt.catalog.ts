@@ -0,0 +1,186 @@
+import { BacklogTool } from "../tools/backlog.tool.js";
+import { FeatureTool } from "../tools/feature.tool.js";
+import { HandoffTool } from "../tools/handoff.tool.js";
+import { resourceUri } from "./resource.catalog.js";
+
+type PromptArgument = {
+    name: string;
+    description: string;
+    required?: boolean;
+};
+
+type PromptMessage = {
+    role: "user" | "assistant";
+    content:
+        | { type: "text"; text: string }
+        | { type: "resource"; resource: { uri: string; mimeType: string; text: string } };
+};
+
+type PromptDefinition = {
+    name: string;
+    title: string;
+    description: string;
+    arguments: PromptArgument[];
+    build: (projectId: string, args: Record<string, string>) => Promise<PromptMessage[]>;
+};
+
+const text = (value: string): PromptMessage => ({ role: "user", content: { type: "text", text: value } });
+
+const asLimit = (value: string | undefined, fallback: number) => {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) && parsed > 0 ? Math.min(Math.floor(parsed), 20) : fallback;
+};
+
+const bulletList = (items: Array<{ id: string; title: string; status: string; priority: string }>) =>
+    items.length > 0
+        ? items.map((item) => `- [${item.priority}] ${item.title} (${item.status}, id ${item.id})`).join("\n")
+        : "- (none)";
+
+/**
+ * MCP prompts that bundle the reads an agent would otherwise make with several
+ * tool calls at the start or end of a session.
+ */
+export class PromptCatalog {
+    private prompts: PromptDefinition[];
+
+    constructor(
+        private handoff: HandoffTool,
+        private backlog: BacklogTool,
+        private features: FeatureTool
+    ) {
+        this.prompts = [
+            {
+                name: "start_session",
+                title: "Start session",
+                description: "Latest handoff plus the top open backlog items (and, given updated_by, what other agents did since your last handoff).",
+                arguments: [
+                    { name: "updated_by", description: "Your agent identifier; adds a digest of other agents' work." },
+                    { name: "limit", description: "How many backlog items to include (default 5, max 20)." }
+                ],
+                build: (projectId, args) => this.startSession(projectId, args)
+            },
+            {
+                name: "end_session",
+                title: "End session",
+                description: "Instructions and a template for writing this session's handoff entry with store_handoff.",
+                arguments: [{ name: "updated_by", description: "Your agent identifier.", required: true }],
+                build: (projectId, args) => this.endSession(projectId, args)
+            },
+            {
+                name: "review_feature",
+                title: "Review feature",
+                description: "A feature with every backlog item linked to it, ready for progress review.",
+                arguments: [{ name: "feature_id", description: "Feature identifier.", required: true }],
+                build: (projectId, args) => this.reviewFeature(projectId, args)
+            }
+        ];
+    }
+
+    list() {
+        return this.prompts.map(({ name, title, description, arguments: promptArguments }) => ({
+            name,
+            title,
+            description,
+            arguments: promptArguments
+        }));
+    }
+
+    async get(projectId: string, name: string, args: Record<string, string> = {}) {
+        const prompt = this.prompts.find((entry) => entry.name === name);
+        if (!prompt) {
+            throw new Error(`Unknown prompt '${name}'. Expected one of: ${this.prompts.map((entry) => entry.name).join(", ")}`);
+        }
+        const missing = prompt.arguments.filter((argument) => argument.required && !args[argument.name]);
+        if (missing.length > 0) {
+            throw new Error(`Prompt '${name}' requires: ${missing.map((argument) => argument.name).join(", ")}`);
+        }
+
+        return {
+            description: prompt.description,
+            messages: await prompt.build(projectId, args)
+        };
+    }
+
+    private async startSession(projectId: string, args: Record<string, string>): Promise<PromptMessage[]> {
+        const latest = await this.handoff.fetchHandoff(projectId);
+        const top = await this.backlog.getTopBacklogItems(projectId, { limit: asLimit(args.limit, 5) });
+
+        const messages: PromptMessage[] = [
+            text(`You are starting a work session on project '${projectId}'. Read the latest handoff and the open backlog below before doing anything else.`)
+        ];
+
+        if (latest.found) {
+            messages.push({
+                role: "user",
+                content: {
+                    type: "resource",
+                    resource: {
+                        uri: resourceUri(projectId, "handoff", "latest"),
+                        mimeType: "text/markdown",
+                        text: "content" in latest ? latest.content ?? "" : ""
+                    }
+                }
+            });
+        } else {
+            messages.push(text("No handoff has been written for this project yet."));
+        }
+
+        messages.push(text(`Top open backlog items:\n${bulletList(top.items)}`));
+
+        if (args.updated_by) {
+            const digest = await this.handoff.getDigest(projectId, { updated_by: args.updated_by });
+            const handoffs = digest.handoffs
+                .map((entry) => `- ${entry.updated_by ?? "unknown"} at ${entry.created_at ?? "unknown time"}: ${entry.content.substring(0, 200)}`)
+                .join("\n");
+            const changes = digest.backlog_changes
+                .map((item) => `- ${item.title} (${item.status}, updated ${item.updated_at ?? "unknown"})`)
+                .join("\n");
+            messages.push(
+                text(
+                    `Since ${digest.since ?? "the beginning"}, other agents wrote ${digest.handoff_count} handoff(s) and ${digest.backlog_change_count} backlog item(s) changed.\n\nHandoffs:\n${handoffs || "- (none)"}\n\nBacklog changes:\n${changes || "- (none)"}`
+                )
+            );
+        }
+
+        messages.push(text("Summarise where things stand, then confirm the next priority before starting work."));
+        return messages;
+    }
+
+    private async endSession(projectId: string, args: Record<string, string>): Promise<PromptMessage[]> {
+        const inProgress = await this.backlog.searchBacklogByTag(projectId, { status: "in-progress", limit: 20 });
+        return [
+            text(
+                [
+                    `Wrap up this session on project '${projectId}' by calling store_handoff with updated_by "${args.updated_by}".`,
+                    "Use this structure for the content:",
+                    "## Completed\n- ...\n## In progress\n- ...\n## Next steps\n- ...\n## Risks / open questions\n- ...",
+                    "Update the status and completed_work of any backlog item you touched with update_backlog_item first."
+                ].join("\n\n")
+            ),
+            text(`Backlog items currently in progress:\n${bulletList(inProgress.items)}`)
+        ];
+    }
+
+    private async reviewFeature(projectId: string, args: Record<string, string>): Promise<PromptMessage[]> {
+        const feature = await this.features.getFeature(projectId, { id: args.feature_id });
+        if (!feature.found) {
+            throw new Error(`Feature '${args.feature_id}' not found`);
+        }
+        const linked = await this.backlog.getAllBacklogItemsByFeature(projectId, args.feature_id);
+        return [
+            {
+                role: "user",
+                content: {
+                    type: "resource",
+                    resource: {
+                        uri: resourceUri(projectId, "feature", args.feature_id),
+                        mimeType: "application/json",
+                        text: JSON.stringify(feature.feature, null, 2)
+                    }
+                }
+            },
+            text(`Backlog items linked to this feature:\n${bulletList(linked)}`),
+            text("Review progress on this feature: what is done, what is blocked, and what should happen next.")
+        ];
+    }
+}
@@ -0,0 +1,258 @@
+import { QdrantService } from "../services/qdrant.service.js";
+import { ProjectService } from "../services/project.service.js";
+import { ArchitectureTool } from "../tools/architecture.tool.js";
+import { BacklogTool } from "../tools/backlog.tool.js";
+import { DialogueTool } from "../tools/dialogue.tool.js";
+import { FeatureTool } from "../tools/feature.tool.js";
+import { HandoffTool } from "../tools/handoff.tool.js";
+import { WorldbuildingTool } from "../tools/worldbuilding.tool.js";
+import { excludeArchived } from "../utils/archive.js";
+
+type RecordKind = "backlog" | "feature" | "adr" | "lore" | "dialogue";
+
+type RecordKindDefinition = {
+    collection: string;
+    label: string;
+    title: (payload: Record<string, any>) => string;
+    read: (projectId: string, id: string) => Promise<{ found: boolean } & Record<string, unknown>>;
+};
+
+type ListCursor = {
+    kind: number;
+    offset?: unknown;
+};
+
+export type ResourceChanges = {
+    updated: string[];
+    listChanged: boolean;
+};
+
+const PAGE_SIZE = 100;
+const MIME_TYPE = "application/json";
+const URI_PATTERN = /^game:\/\/([^/]+)\/([a-z]+)\/([^/]+)$/;
+
+// Record types accepted by delete_record / archive_record / revert_record that are also resources.
+const RECORD_TYPE_KINDS: Record<string, RecordKind> = {
+    backlog: "backlog",
+    feature: "feature",
+    architecture: "adr",
+    lore: "lore",
+    dialogue: "dialogue"
+};
+
+// Write tools whose successful calls change a single resource, identified by result.id or args.id.
+const WRITE_TOOL_KINDS: Record<string, { kind: RecordKind; creates: boolean }> = {
+    create_backlog_item: { kind: "backlog", creates: true },
+    update_backlog_item: { kind: "backlog", creates: false },
+    create_feature: { kind: "feature", creates: true },
+    update_feature: { kind: "feature", creates: false },
+    store_architecture_decision: { kind: "adr", creates: true },
+    store_lore_entry: { kind: "lore", creates: true },
+    store_dialogue_scene: { kind: "dialogue", creates: true }
+};
+
+export const resourceUri = (projectId: string, kind: RecordKind | "handoff", id: string) =>
+    `game://${projectId}/${kind}/${encodeURIComponent(id)}`;
+
+/**
+ * Publishes stored records as MCP resources addressed by
+ * `game://<project>/<kind>/<id>`, plus `game://<project>/handoff/latest`.
+ */
+export class ResourceCatalog {
+    private kinds: Record<RecordKind, RecordKindDefinition>;
+
+    constructor(
+        private qdrant: QdrantService,
+        private projects: ProjectService,
+        backlog: BacklogTool,
+        features: FeatureTool,
+        architecture: ArchitectureTool,
+        worldbuilding: WorldbuildingTool,
+        dialogue: DialogueTool,
+        private handoff: HandoffTool
+    ) {
+        this.kinds = {
+            backlog: {
+                collection: "backlog_items",
+                label: "Backlog item",
+                title: (payload) => `${payload.title ?? "Untitled"} [${payload.status ?? "unknown"}]`,
+                read: (projectId, id) => backlog.getBacklogItem(projectId, { id })
+            },
+            feature: {
+                collection: "features",
+                label: "Feature",
+                title: (payload) => payload.name ?? "Untitled",
+                read: (projectId, id) => features.getFeature(projectId, { id })
+            },
+            adr: {
+                collection: "architectural_patterns",
+                label: "Architecture decision",
+                title: (payload) => payload.decision ?? "Untitled",
+                read: (projectId, id) => architecture.getDecision(projectId, { id })
+            },
+            lore: {
+                collection: "world_building",
+                label: "Lore entry",
+                title: (payload) => payload.title ?? "Untitled",
+                read: (projectId, id) => worldbuilding.getLoreEntry(projectId, { id })
+            },
+            dialogue: {
+                collection: "dialogue_snippets",
+                label: "Dialogue scene",
+                title: (payload) => payload.scene ?? "Untitled",
+                read: (projectId, id) => dialogue.getScene(projectId, { scene_id: id })
+            }
+        };
+    }
+
+    listTemplates() {
+        return [
+            ...Object.entries(this.kinds).map(([kind, definition]) => ({
+                uriTemplate: `game://{project}/${kind}/{id}`,
+                name: `${kind}`,
+                title: definition.label,
+                description: `${definition.label} stored in the project's ${definition.collection} collection.`,
+                mimeType: MIME_TYPE
+            })),
+            {
+                uriTemplate: "game://{project}/handoff/latest",
+                name: "handoff",
+                title: "Latest handoff",
+                description: "Most recent entry of the project's handoff timeline.",
+                mimeType: MIME_TYPE
+            }
+        ];
+    }
+
+    /** Pages through every non-archived record, one kind at a time. */
+    async list(projectId: string, cursor?: string) {
+        const kinds = Object.keys(this.kinds) as RecordKind[];
+        const position = cursor ? this.decodeCursor(cursor) : { kind: 0 };
+        const resources: Array<Record<string, unknown>> = [];
+
+        if (!cursor) {
+            resources.push({
+                uri: resourceUri(projectId, "handoff", "latest"),
+                name: "handoff/latest",
+                title: "Latest handoff",
+                mimeType: MIME_TYPE
+            });
+        }
+
+        const kind = kinds[position.kind];
+        if (!kind) {
+            return { resources };
+        }
+
+        const definition = this.kinds[kind];
+        const response: any = await this.qdrant.scroll(
+            this.projects.collectionName(projectId, definition.collection),
+            excludeArchived(),
+            PAGE_SIZE,
+            position.offset
+        );
+        for (const point of response.points ?? []) {
+            const id = typeof point.id === "string" ? point.id : String(point.id);
+            resources.push({
+                uri: resourceUri(projectId, kind, id),
+                name: `${kind}/${id}`,
+                title: `${definition.label}: ${definition.title(point.payload ?? {})}`,
+                mimeType: MIME_TYPE
+            });
+        }
+
+        const next: ListCursor | undefined = response.next_page_offset
+            ? { kind: position.kind, offset: response.next_page_offset }
+            : position.kind + 1 < kinds.length
+              ? { kind: position.kind + 1 }
+              : undefined;
+
+        return {
+            resources,
+            ...(next ? { nextCursor: Buffer.from(JSON.stringify(next)).toString("base64url") } : {})
+        };
+    }
+
+    async read(projectId: string, uri: string) {
+        const match = uri.match(URI_PATTERN);
+        if (!match) {
+            throw new Error(`Unsupported resource URI '${uri}'. Expected game://<project>/<kind>/<id>`);
+        }
+        const [, uriProject, kind, rawId] = match;
+        if (this.projects.normalizeProjectId(uriProject) !== projectId) {
+            throw new Error(`Resource '${uri}' belongs to project '${uriProject}', but this session is bound to '${projectId}'`);
+        }
+        const id = decodeURIComponent(rawId);
+
+        let result: Record<string, unknown>;
+        if (kind === "handoff" && id === "latest") {
+            result = await this.handoff.fetchHandoff(projectId);
+        } else if (kind in this.kinds) {
+            result = await this.kinds[kind as RecordKind].read(projectId, id);
+        } else {
+            throw new Error(`Unknown resource kind '${kind}'. Expected one of: ${Object.keys(this.kinds).join(", ")}, handoff`);
+        }
+
+        if (result.found === false) {
+            throw new Error(`Resource '${uri}' not found`);
+        }
+
+        return {
+            contents: [
+                {
+                    uri,
+                    mimeType: MIME_TYPE,
+                    text: JSON.stringify(result, null, 2)
+                }
+            ]
+        };
+    }
+
+    /** Resources touched by a successful write tool call, so subscribers can be notified. */
+    changedBy(projectId: string, tool: string, args: Record<string, any>, result: Record<string, any>): ResourceChanges {
+        const direct = WRITE_TOOL_KINDS[tool];
+        if (direct) {
+            const id = result.id ?? args.id;
+            return {
+                updated: id ? [resourceUri(projectId, direct.kind, String(id))] : [],
+                listChanged: direct.creates
+            };
+        }
+
+        switch (tool) {
+            case "store_handoff":
+                return { updated: [resourceUri(projectId, "handoff", "latest")], listChanged: false };
+            case "assign_backlog_to_feature":
+                return {
+                    updated: [
+                        resourceUri(projectId, "backlog", String(args.backlog_id)),
+                        resourceUri(projectId, "feature", String(args.feature_id))
+                    ],
+                    listChanged: false
+                };
+            case "delete_record":
+            case "archive_record":
+            case "revert_record": {
+                const kind = RECORD_TYPE_KINDS[args.type];
+                return {
+                    updated: kind ? [resourceUri(projectId, kind, String(args.id))] : [],
+                    listChanged: Boolean(kind) && tool !== "revert_record"
+                };
+            }
+            default:
+                return { updated: [], listChanged: false };
+        }
+    }
+
+    private decodeCursor(cursor: string): ListCursor {
+        try {
+            const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+            if (typeof parsed?.kind === "number") {
+                return parsed;
+            }
+        } catch {
+            // fall through
+        }
+        throw new Error("Invalid resource list cursor");
+    }
+}
@@ -1,19 +1,38 @@
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
 import {
     CallToolRequestSchema,
+    ErrorCode,
+    GetPromptRequestSchema,
+    ListPromptsRequestSchema,
+    ListResourcesRequestSchema,
+    ListResourceTemplatesRequestSchema,
     ListToolsRequestSchema,
+    McpError,
+    ReadResourceRequestSchema,
+    SubscribeRequestSchema,
+    UnsubscribeRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 import express, { Request, Response, NextFunction } from "express";
 import { Server as HttpServer, IncomingMessage, ServerResponse } from "http";
 import { randomUUID } from "crypto";
+import { once } from "node:events";
 import path from "node:path";
+import { createInterface } from "node:readline";
 import { QdrantService } from "./services/qdrant.service.js";
 import { EmbeddingService } from "./services/embedding.service.js";
+import { createEmbeddingProvider } from "./services/embedding.providers.js";
 import { CacheService } from "./services/cache.service.js";
 import { Neo4jService } from "./services/neo4j.service.js";
 import { ProjectService } from "./services/project.service.js";
+import { ApiKeyPrincipal, ApiKeyRole, AuthService } from "./services/auth.service.js";
+import { RevisionService } from "./services/revision.service.js";
+import { LinkService } from "./services/link.service.js";
+import { CommentService } from "./services/comment.service.js";
+import { MetricsService } from "./services/metrics.service.js";
 import { ResearchTool } from "./tools/research.tool.js";
 import { PatternTool } from "./tools/pattern.tool.js";
 import { ArchitectureTool } from "./tools/architecture.tool.js";
@@ -29,126 +48,109 @@ import { GraphTool } from "./tools/graph.tool.js";
 import { HandoffTool } from "./tools/handoff.tool.js";
 import { BacklogTool } from "./tools/backlog.tool.js";
 import { FeatureTool } from "./tools/feature.tool.js";
+import { SnapshotTool } from "./tools/snapshot.tool.js";
+import { ProjectTool } from "./tools/project.tool.js";
+import { RecordTool } from "./tools/record.tool.js";
+import { LinkTool } from "./tools/link.tool.js";
+import { CommentTool } from "./tools/comment.tool.js";
+import { SprintTool } from "./tools/sprint.tool.js";
+import { RevisionTool } from "./tools/revision.tool.js";
+import { SearchTool } from "./tools/search.tool.js";
+import { ToolAccess, ToolRegistry } from "./tools/registry.js";
+import { ResourceCatalog } from "./resources/resource.catalog.js";
+import { PromptCatalog } from "./resources/prompt.catalog.js";
 import { snapshotAndResetProject } from "./utils/projectReset.js";
-
-type ToolHandler = (args: Record<string, unknown>, context: ToolExecutionContext) => Promise<unknown>;
-
-interface ToolExecutionContext {
+import { listProjectSnapshots, restoreProjectSnapshot } from "./utils/projectRestore.js";
+import { cloneProject, deleteProject, renameProject } from "./utils/projectLifecycle.js";
+import { exportProjectBundle, importProjectBundle, ImportMode } from "./utils/projectBundle.js";
+import { validateArguments } from "./utils/schemaValidation.js";
+
+const TOOL_ACCESS_ROLES: Record<ToolAccess, ApiKeyRole> = {
+    read: "read-only",
+    write: "writer",
+    admin: "admin"
+};
+
+// One MCP server instance per session: the SDK Server talks to a single transport at a time.
+interface McpSession {
+    id: string;
     projectId: string;
-    sessionId?: string;
+    kind: "streamable-http" | "sse" | "direct";
+    server: Server;
+    transport: Transport;
+    // API key id that opened the session; other keys cannot reuse it.
+    clientId: string;
+    createdAt: number;
+    lastActivityAt: number;
+    // Resource URIs the client subscribed to via resources/subscribe.
+    subscriptions: Set<string>;
 }
 
-interface ProjectTransportState {
-    transport: StreamableHTTPServerTransport;
-    hasActiveSession: boolean;
-    currentSessionId?: string;
-    sseSessions: Map<string, SSEServerTransport>;
+/** Backing services to use instead of the ones built from environment variables. */
+export interface ServerDependencies {
+    qdrant?: QdrantService;
+    embedding?: EmbeddingService;
+    neo4j?: Neo4jService;
 }
 
 export class GameDevMCPServer {
-    private server: Server;
     private qdrant: QdrantService;
     private embedding: EmbeddingService;
     private neo4j: Neo4jService;
     private cache: CacheService;
     private projectService: ProjectService;
-    private tools: Map<string, ToolHandler>;
+    private auth: AuthService;
+    private metrics: MetricsService;
+    private registry: ToolRegistry;
+    private resources!: ResourceCatalog;
+    private prompts!: PromptCatalog;
     private httpServer?: HttpServer;
-    private projectStates: Map<string, ProjectTransportState>;
-    private sessionProjectMap: Map<string, string>;
+    private sessions: Map<string, McpSession>;
+    private sessionIdleMs: number;
     private toolStats: Map<string, { writes: number; reads: number }>;
     private snapshotDir: string;
-    private readonly writeTools = new Set<string>([
-        "cache_research",
-        "store_pattern",
-        "store_architecture_decision",
-        "store_narrative_element",
-        "store_lore_entry",
-        "store_dialogue_scene",
-        "store_test_strategy",
-        "record_playtest_feedback",
-        "record_bug_fix",
-        "store_handoff",
-        "create_backlog_item",
-        "update_backlog_item",
-        "create_feature",
-        "update_feature",
-        "assign_backlog_to_feature",
-        "set_feature_lock"
-    ]);
-    private readonly readTools = new Set<string>([
-        "query_research",
-        "check_research_exists",
-        "find_similar_patterns",
-        "get_pattern_by_name",
-        "query_architecture",
-        "get_architecture_history",
-        "get_architecture_decision",
-        "validate_against_patterns",
-        "check_consistency",
-        "search_narrative_elements",
-        "get_narrative_outline",
-        "search_lore",
-        "list_lore",
-        "find_dialogue",
-        "get_dialogue_scene",
-        "query_test_strategies",
-        "list_test_strategies_by_focus",
-        "query_playtest_feedback",
-        "summarize_playtest_feedback",
-        "match_bug_fix",
-        "get_bug_fix",
-        "get_server_metadata",
-        "list_qdrant_collections",
-        "get_mcp_documentation",
-        "explore_graph_entity",
-        "search_graph_semantic",
-        "fetch_handoff",
-        "search_backlog_by_tag",
-        "search_backlog_semantic",
-        "get_top_backlog_items",
-        "get_backlog_item",
-        "list_features",
-        "get_feature",
-        "list_feature_backlog_items"
-    ]);
-
-    constructor() {
-        this.server = new Server(
-            {
-                name: "game-dev-mcp",
-                version: "1.0.0",
-            },
-            {
-                capabilities: {
-                    tools: {},
-                },
-            }
-        );
 
+    constructor(dependencies: ServerDependencies = {}) {
         // Initialize services
-        this.qdrant = new QdrantService(
-            process.env.QDRANT_URL || "http://localhost:6333"
+        this.metrics = new MetricsService(
+            path.resolve(process.env.METRICS_DIR || path.join(process.cwd(), "metrics"))
         );
-        this.embedding = new EmbeddingService(
-            process.env.EMBEDDING_URL || "http://localhost:8080"
+        this.qdrant = dependencies.qdrant ?? new QdrantService(
+            process.env.QDRANT_URL || "http://localhost:6333",
+            this.metrics
         );
-        this.neo4j = new Neo4jService(
+        this.embedding = dependencies.embedding ?? new EmbeddingService(
+            createEmbeddingProvider({
+                provider: process.env.EMBEDDING_PROVIDER,
+                url: process.env.EMBEDDING_URL,
+                model: process.env.EMBEDDING_MODEL,
+                apiKey: process.env.EMBEDDING_API_KEY,
+                dimension: process.env.EMBEDDING_DIMENSION ? Number(process.env.EMBEDDING_DIMENSION) : undefined
+            }),
+            this.metrics,
+            {
+                cacheDir: path.resolve(process.env.EMBEDDING_CACHE_DIR || path.join(process.cwd(), "vector-cache")),
+                memoryCacheSize: Number(process.env.EMBEDDING_CACHE_SIZE || 5000),
+                batchSize: Number(process.env.EMBEDDING_BATCH_SIZE || 32),
+                maxRetries: Number(process.env.EMBEDDING_MAX_RETRIES || 3)
+            }
+        );
+        this.neo4j = dependencies.neo4j ?? new Neo4jService(
             process.env.NEO4J_URL || "bolt://localhost:7687",
             process.env.NEO4J_USER || "neo4j",
             process.env.NEO4J_PASSWORD || "password"
         );
         this.cache = new CacheService();
         this.projectService = new ProjectService(this.qdrant);
-        this.projectStates = new Map();
-        this.sessionProjectMap = new Map();
+        this.auth = new AuthService(this.projectService);
+        this.sessions = new Map();
+        this.sessionIdleMs = Number(process.env.MCP_SESSION_IDLE_MS || 30 * 60 * 1000);
         this.toolStats = new Map();
         this.snapshotDir = path.resolve(process.env.SNAPSHOT_DIR || path.join(process.cwd(), "snapshots"));
 
         // Initialize tools
-        this.tools = new Map();
+        this.registry = new ToolRegistry();
         this.initializeTools();
-        this.setupHandlers();
     }
 
     private initializeTools() {
@@ -163,7 +165,6 @@ export class GameDevMCPServer {
         const validationTool = new ValidationTool(
             this.qdrant,
             this.embedding,
-            this.cache,
             this.projectService
         );
         const narrativeTool = new NarrativeTool(
@@ -205,182 +206,69 @@ export class GameDevMCPServer {
             this.projectService,
             process.env.GRAPH_COLLECTION || "code_graph"
         );
+        const revisionService = new RevisionService(this.qdrant, this.embedding, this.projectService);
         const handoffTool = new HandoffTool(this.qdrant, this.embedding, this.projectService);
-        const backlogTool = new BacklogTool(this.qdrant, this.embedding, this.projectService);
-        const featureTool = new FeatureTool(this.qdrant, this.embedding, this.projectService, backlogTool);
-
-        const resolveProject = (context: ToolExecutionContext): string => {
-            const projectId = context.projectId ?? this.projectService.getDefaultProject();
-            return this.projectService.requireProject(projectId);
-        };
-
-        // Register research tools
-        this.tools.set("cache_research", async (args, context) =>
-            researchTool.cacheResearch(resolveProject(context), (args ?? {}) as any)
-        );
-        this.tools.set("query_research", async (args, context) =>
-            researchTool.queryResearch(resolveProject(context), (args ?? {}) as any)
-        );
-        this.tools.set("check_research_exists", async (args, context) =>
-            researchTool.checkExists(resolveProject(context), (args ?? {}) as any)
-        );
-
-        // Register pattern tools
-        this.tools.set("store_pattern", async (args, context) =>
-            patternTool.storePattern(resolveProject(context), (args ?? {}) as any)
-        );
-        this.tools.set("find_similar_patterns", async (args, context) =>
-            patternTool.findSimilar(resolveProject(context), (args ?? {}) as any)
-        );
-        this.tools.set("get_pattern_by_name", async (args, context) =>
-            patternTool.getByName(resolveProject(context), (args ?? {}) as any)
-        );
-
-        // Register architecture tools
-        this.tools.set("store_architecture_decision", async (args, context) =>
-            architectureTool.storeDecision(resolveProject(context), (args ?? {}) as any)
-        );
-        this.tools.set("query_architecture", async (args, context) =>
-            architectureTool.queryDecisions(resolveProject(context), (args ?? {}) as any)
-        );
-        this.tools.set("get_architecture_history", async (args, context) =>
-            architectureTool.getHistory(resolveProject(context), (args ?? {}) as any)
-        );
-        this.tools.set("get_architecture_decision", async (args, context) =>
-            architectureTool.getDecision(resolveProject(context), (args ?? {}) as any)
-        );
-
-        // Register validation tools
-        this.tools.set("validate_against_patterns", async (args, context) =>
-            validationTool.validatePatterns(resolveProject(context), (args ?? {}) as any)
-        );
-        this.tools.set("check_consistency", async (args, context) =>
-            validationTool.checkConsistency(resolveProject(context), (args ?? {}) as any)
-        );
-
-        // Register narrative tools
-        this.tools.set("store_narrative_element", async (args, context) =>
-            narrativeTool.storeNarrativeElement(resolveProject(context), (args ?? {}) as any)
-        );
-        this.tools.set("search_narrative_elements", async (args, context) =>
-            narrativeTool.searchNarrativeElements(resolveProject(context), (args ?? {}) as any)
-        );
-        this.tools.set("get_narrative_outline", async (args, context) =>
-            narrativeTool.getNarrativeOutline(resolveProject(context), (args ?? {}) as any)
-        );
-
-        // Register worldbuilding tools
-        this.tools.set("store_lore_entry", async (args, context) =>
-            worldbuildingTool.storeLoreEntry(resolveProject(context), (args ?? {}) as any)
-        );
-        this.tools.set("search_lore", async (args, context) =>
-            worldbuildingTool.searchLore(resolveProject(context), (args ?? {}) as any)
-        );
-        this.tools.set("list_lore", async (args, context) =>
-            worldbuildingTool.listLore(resolveProject(context), (args ?? {}) as any)
-        );
-
-        // Register dialogue tools
-        this.tools.set("store_dialogue_scene", async (args, context) =>
-            dialogueTool.storeDialogueScene(resolveProject(context), (args ?? {}) as any)
-        );
-        this.tools.set("find_dialogue", async (args, context) =>
-            dialogueTool.findDialogue(resolveProject(context), (args ?? {}) as any)
-        );
-        this.tools.set("get_dialogue_scene", async (args, context) =>
-            dialogueTool.getScene(resolveProject(context), (args ?? {}) as any)
-        );
-
-        // Register testing tools
-        this.tools.set("store_test_strategy", async (args, context) =>
-            testingTool.storeTestStrategy(resolveProject(context), (args ?? {}) as any)
-        );
-        this.tools.set("query_test_strategies", async (args, context) =>
-            testingTool.queryTestStrategies(resolveProject(context), (args ?? {}) as any)
-        );
-        this.tools.set("list_test_strategies_by_focus", async (args, context) =>
-            testingTool.listByFocusArea(resolveProject(context), (args ?? {}) as any)
-        );
-
-        // Register feedback tools
-        this.tools.set("record_playtest_feedback", async (args, context) =>
-            feedbackTool.recordFeedback(resolveProject(context), (args ?? {}) as any)
-        );
-        this.tools.set("query_playtest_feedback", async (args, context) =>
-            feedbackTool.queryFeedback(resolveProject(context), (args ?? {}) as any)
-        );
-        this.tools.set("summarize_playtest_feedback", async (args, context) =>
-            feedbackTool.summarizeFeedback(resolveProject(context), (args ?? {}) as any)
-        );
-        this.tools.set("record_bug_fix", async (args, context) =>
-            bugFixTool.recordBugFix(resolveProject(context), (args ?? {}) as any)
-        );
-        this.tools.set("match_bug_fix", async (args, context) =>
-            bugFixTool.matchBugFix(resolveProject(context), (args ?? {}) as any)
-        );
-        this.tools.set("get_bug_fix", async (args, context) =>
-            bugFixTool.getBugFix(resolveProject(context), (args ?? {}) as any)
-        );
-        this.tools.set("explore_graph_entity", async (args, context) =>
-            graphTool.exploreGraph(resolveProject(context), (args ?? {}) as any)
-        );
-        this.tools.set("search_graph_semantic", async (args, context) =>
-            graphTool.searchGraph(resolveProject(context), (args ?? {}) as any)
-        );
-        this.tools.set("store_handoff", async (args, context) =>
-            handoffTool.storeHandoff(resolveProject(context), (args ?? {}) as any)
-        );
-        this.tools.set("fetch_handoff", async (_args, context) =>
-            handoffTool.fetchHandoff(resolveProject(context))
-        );
-        this.tools.set("create_backlog_item", async (args, context) =>
-            backlogTool.createBacklogItem(resolveProject(context), (args ?? {}) as any)
-        );
-        this.tools.set("update_backlog_item", async (args, context) =>
-            backlogTool.updateBacklogItem(resolveProject(context), (args ?? {}) as any)
-        );
-        this.tools.set("search_backlog_by_tag", async (args, context) =>
-            backlogTool.searchBacklogByTag(resolveProject(context), (args ?? {}) as any)
-        );
-        this.tools.set("search_backlog_semantic", async (args, context) =>
-            backlogTool.searchBacklogSemantics(resolveProject(context), (args ?? {}) as any)
-        );
-        this.tools.set("get_top_backlog_items", async (args, context) =>
-            backlogTool.getTopBacklogItems(resolveProject(context), (args ?? {}) as any)
-        );
-        this.tools.set("get_backlog_item", async (args, context) =>
-            backlogTool.getBacklogItem(resolveProject(context), (args ?? {}) as any)
-        );
-
-        this.tools.set("create_feature", async (args, context) =>
-            featureTool.createFeature(resolveProject(context), (args ?? {}) as any)
-        );
-        this.tools.set("update_feature", async (args, context) =>
-            featureTool.updateFeature(resolveProject(context), (args ?? {}) as any)
-        );
-        this.tools.set("list_features", async (args, context) =>
-            featureTool.listFeatures(resolveProject(context), (args ?? {}) as any)
-        );
-        this.tools.set("get_feature", async (args, context) =>
-            featureTool.getFeature(resolveProject(context), (args ?? {}) as any)
-        );
-        this.tools.set("assign_backlog_to_feature", async (args, context) =>
-            featureTool.assignBacklogItem(resolveProject(context), (args ?? {}) as any)
-        );
-        this.tools.set("list_feature_backlog_items", async (args, context) =>
-            featureTool.listFeatureBacklogItems(resolveProject(context), (args ?? {}) as any)
+        const backlogTool = new BacklogTool(this.qdrant, this.embedding, this.projectService, revisionService);
+        const featureTool = new FeatureTool(
+            this.qdrant,
+            this.embedding,
+            this.projectService,
+            backlogTool,
+            revisionService
         );
-        this.tools.set("set_feature_lock", async (args, context) =>
-            featureTool.setFeatureLock(resolveProject(context), (args ?? {}) as any)
+        const sprintTool = new SprintTool(this.qdrant, this.embedding, this.projectService, backlogTool);
+        const revisionTool = new RevisionTool(revisionService, backlogTool, featureTool);
+        const snapshotTool = new SnapshotTool(this.projectService, this.snapshotDir);
+        const projectTool = new ProjectTool(
+            this.qdrant,
+            this.projectService,
+            this.neo4j,
+            this.snapshotDir,
+            (projectId) => this.closeProjectSessions(projectId)
         );
-
-        // Register metadata/discovery tools
-        this.tools.set("get_server_metadata", async () => metadataTool.getServerMetadata());
-        this.tools.set("list_qdrant_collections", async (_args, context) =>
-            metadataTool.listCollections(resolveProject(context))
+        const linkService = new LinkService(this.qdrant, this.embedding, this.projectService, this.neo4j);
+        const commentService = new CommentService(this.qdrant, this.embedding, this.projectService);
+        const recordTool = new RecordTool(this.qdrant, this.cache, this.projectService, linkService, commentService);
+        const linkTool = new LinkTool(this.qdrant, this.projectService, linkService);
+        const commentTool = new CommentTool(this.qdrant, this.projectService, commentService, revisionService);
+        const searchTool = new SearchTool(this.qdrant, this.embedding, this.projectService);
+
+        this.resources = new ResourceCatalog(
+            this.qdrant,
+            this.projectService,
+            backlogTool,
+            featureTool,
+            architectureTool,
+            worldbuildingTool,
+            dialogueTool,
+            handoffTool
         );
-        this.tools.set("get_mcp_documentation", async (args) =>
-            metadataTool.getDocumentation((args ?? {}) as any)
+        this.prompts = new PromptCatalog(handoffTool, backlogTool, featureTool);
+
+        this.registry.register(
+            searchTool,
+            researchTool,
+            patternTool,
+            architectureTool,
+            validationTool,
+            narrativeTool,
+            worldbuildingTool,
+            dialogueTool,
+            testingTool,
+            feedbackTool,
+            bugFixTool,
+            graphTool,
+            handoffTool,
+            backlogTool,
+            featureTool,
+            sprintTool,
+            recordTool,
+            linkTool,
+            commentTool,
+            revisionTool,
+            metadataTool,
+            snapshotTool,
+            projectTool
         );
     }
 
@@ -457,119 +345,121 @@ export class GameDevMCPServer {
         return false;
     }
 
-    private buildTransport(projectId: string): StreamableHTTPServerTransport {
+    private createSessionServer(projectId: string): Server {
+        const server = new Server(
+            {
+                name: "game-dev-mcp",
+                version: "1.0.0",
+            },
+            {
+                capabilities: {
+                    tools: {},
+                    resources: { subscribe: true, listChanged: true },
+                    prompts: {},
+                },
+            }
+        );
+        this.setupHandlers(server, projectId);
+        return server;
+    }
+
+    private async openStreamableSession(projectId: string, clientId: string): Promise<StreamableHTTPServerTransport> {
+        const server = this.createSessionServer(projectId);
         const transport = new StreamableHTTPServerTransport({
             sessionIdGenerator: () => randomUUID(),
             enableJsonResponse: true,
-            onsessioninitialized: async (sessionId) => {
-                if (sessionId) {
-                    this.handleSessionInitialized(projectId, sessionId);
-                }
-            },
-            onsessionclosed: async (sessionId) => {
-                this.handleSessionClosed(projectId, sessionId);
+            onsessioninitialized: (sessionId) => {
+                const now = Date.now();
+                this.sessions.set(sessionId, {
+                    id: sessionId,
+                    projectId,
+                    kind: "streamable-http",
+                    server,
+                    transport,
+                    clientId,
+                    createdAt: now,
+                    lastActivityAt: now,
+                    subscriptions: new Set()
+                });
+                console.info("[MCP] Streamable HTTP session initialized", { projectId, sessionId, clientId });
             }
         });
+        transport.onclose = () => {
+            if (transport.sessionId) {
+                this.forgetSession(transport.sessionId);
+            }
+        };
         transport.onerror = (error) => {
             console.error("[MCP] Streamable HTTP transport error", {
                 projectId,
+                sessionId: transport.sessionId,
                 error: error instanceof Error ? error.message : String(error)
             });
         };
+        await server.connect(transport);
         return transport;
     }
 
-    private async ensureTransport(projectId: string): Promise<ProjectTransportState> {
-        let state = this.projectStates.get(projectId);
-        if (state) {
-            return state;
+    /** The session, if it exists, belongs to the project in the URL and was opened with the same API key. */
+    private findSession(sessionId: string, projectId: string, clientId: string): McpSession | undefined {
+        const session = this.sessions.get(sessionId);
+        if (!session || session.projectId !== projectId || session.clientId !== clientId) {
+            return undefined;
         }
-        const transport = this.buildTransport(projectId);
-        await this.server.connect(transport);
-        state = {
-            transport,
-            hasActiveSession: false,
-            currentSessionId: undefined,
-            sseSessions: new Map()
-        };
-        this.projectStates.set(projectId, state);
-        return state;
+        session.lastActivityAt = Date.now();
+        return session;
     }
 
-    private async resetTransport(projectId: string): Promise<ProjectTransportState> {
-        const state = this.projectStates.get(projectId);
-        if (!state) {
-            return this.ensureTransport(projectId);
+    private forgetSession(sessionId: string) {
+        const session = this.sessions.get(sessionId);
+        if (!session) {
+            return;
         }
-
-        console.warn("[MCP] Resetting Streamable HTTP transport for project", {
-            projectId,
-            previousSessionId: state.currentSessionId
+        this.sessions.delete(sessionId);
+        console.info("[MCP] Session closed", {
+            projectId: session.projectId,
+            sessionId,
+            kind: session.kind
         });
+    }
 
-        await this.closeProjectSseSessions(projectId);
-
-        if (state.currentSessionId) {
-            this.sessionProjectMap.delete(state.currentSessionId);
+    private async closeSession(sessionId: string) {
+        const session = this.sessions.get(sessionId);
+        if (!session) {
+            return;
         }
-
+        this.forgetSession(sessionId);
         try {
-            await state.transport.close();
+            await session.server.close();
         } catch (error) {
-            console.error("[MCP] Error closing previous transport", {
-                projectId,
+            console.warn("[MCP] Failed to close session", {
+                projectId: session.projectId,
+                sessionId,
                 error: error instanceof Error ? error.message : String(error)
             });
         }
-
-        this.projectStates.delete(projectId);
-        return this.ensureTransport(projectId);
-    }
-
-    private async closeProjectSseSessions(projectId: string) {
-        const state = this.projectStates.get(projectId);
-        if (!state || state.sseSessions.size === 0) {
-            return;
-        }
-
-        const sessions = Array.from(state.sseSessions.values());
-        state.sseSessions.clear();
-        for (const session of sessions) {
-            try {
-                await session.close();
-            } catch (error) {
-                console.warn("[MCP] Failed to close SSE session", {
-                    projectId,
-                    sessionId: session.sessionId,
-                    error: error instanceof Error ? error.message : String(error)
-                });
-            } finally {
-                this.sessionProjectMap.delete(session.sessionId);
-            }
-        }
     }
 
-    private handleSessionInitialized(projectId: string, sessionId: string) {
-        const state = this.projectStates.get(projectId);
-        if (state) {
-            state.hasActiveSession = true;
-            state.currentSessionId = sessionId;
+    private async closeProjectSessions(projectId: string) {
+        const sessionIds = Array.from(this.sessions.values())
+            .filter((session) => session.projectId === projectId)
+            .map((session) => session.id);
+        for (const sessionId of sessionIds) {
+            await this.closeSession(sessionId);
         }
-        this.sessionProjectMap.set(sessionId, projectId);
-        console.info("[MCP] Streamable HTTP session initialized", { projectId, sessionId });
     }
 
-    private handleSessionClosed(projectId: string, sessionId?: string) {
-        if (!sessionId) {
-            return;
-        }
-        const state = this.projectStates.get(projectId);
-        if (state && state.currentSessionId === sessionId) {
-            state.hasActiveSession = false;
-            state.currentSessionId = undefined;
+    private async closeIdleSessions() {
+        const cutoff = Date.now() - this.sessionIdleMs;
+        const idle = Array.from(this.sessions.values()).filter((session) => session.lastActivityAt < cutoff);
+        for (const session of idle) {
+            console.info("[MCP] Closing idle session", {
+                projectId: session.projectId,
+                sessionId: session.id,
+                idleMs: Date.now() - session.lastActivityAt
+            });
+            await this.closeSession(session.id);
         }
-        this.sessionProjectMap.delete(sessionId);
-        console.info("[MCP] Streamable HTTP session closed", { projectId, sessionId });
     }
 
     private isInitializationRequest(body: unknown): boolean {
@@ -787,739 +677,175 @@ export class GameDevMCPServer {
         res.write = patchedWrite;
     }
 
-    private setupHandlers() {
+    private publishResourceChanges(
+        projectId: string,
+        tool: string,
+        args: Record<string, unknown>,
+        result: Record<string, unknown>
+    ) {
+        const changes = this.resources.changedBy(projectId, tool, args, result);
+        if (changes.updated.length === 0 && !changes.listChanged) {
+            return;
+        }
+
+        for (const session of this.sessions.values()) {
+            if (session.projectId !== projectId) {
+                continue;
+            }
+            const notifications: Array<Promise<void>> = changes.updated
+                .filter((uri) => session.subscriptions.has(uri))
+                .map((uri) => session.server.sendResourceUpdated({ uri }));
+            if (changes.listChanged) {
+                notifications.push(session.server.sendResourceListChanged());
+            }
+            Promise.all(notifications).catch((error) => {
+                console.warn("[MCP] Failed to notify session of resource changes", {
+                    projectId,
+                    sessionId: session.id,
+                    error: error instanceof Error ? error.message : String(error)
+                });
+            });
+        }
+    }
+
+    private setupHandlers(server: Server, projectId: string) {
+        const sessionOf = (sessionId: string | undefined) => {
+            const session = sessionId ? this.sessions.get(sessionId) : undefined;
+            if (!session) {
+                throw new McpError(ErrorCode.InvalidRequest, "Resource subscriptions need an active session");
+            }
+            return session;
+        };
+
+        // Records published as game://<project>/<kind>/<id> resources
+        server.setRequestHandler(ListResourcesRequestSchema, async (request) =>
+            this.resources.list(projectId, request.params?.cursor)
+        );
+
+        server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+            resourceTemplates: this.resources.listTemplates()
+        }));
+
+        server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+            try {
+                return await this.resources.read(projectId, request.params.uri);
+            } catch (error) {
+                throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+            }
+        });
+
+        server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+            sessionOf(extra?.sessionId).subscriptions.add(request.params.uri);
+            return {};
+        });
+
+        server.setRequestHandler(UnsubscribeRequestSchema, async (request, extra) => {
+            sessionOf(extra?.sessionId).subscriptions.delete(request.params.uri);
+            return {};
+        });
+
+        // Prompts bundling session start/end reads
+        server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+            prompts: this.prompts.list()
+        }));
+
+        server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+            try {
+                return await this.prompts.get(projectId, request.params.name, request.params.arguments ?? {});
+            } catch (error) {
+                throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+            }
+        });
+
         // List available tools
-        this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
-            tools: [
-                {
-                    name: "cache_research",
-                    description: "Cache research findings for future reuse. Prevents redundant research on same topics.",
-                    inputSchema: {
-                        type: "object",
-                        properties: {
-                            topic: { type: "string", description: "Research topic identifier (e.g., 'ECS-architecture', 'procedural-dungeon-generation')" },
-                            findings: { type: "string", description: "Full research findings text" },
-                            sources: { type: "array", items: { type: "string" }, description: "URLs or references" },
-                            tags: { type: "array", items: { type: "string" }, description: "Categorization tags" }
-                        },
-                        required: ["topic", "findings"]
-                    }
-                },
-                {
-                    name: "store_handoff",
-                    description: "Store the end-of-session handoff notes in markdown for future agents.",
-                    inputSchema: {
-                        type: "object",
-                        properties: {
-                            content: { type: "string", description: "Markdown content describing the current state." },
-                            updated_by: { type: "string", description: "Agent identifier." },
-                            tags: { type: "array", items: { type: "string" }, description: "Optional tags." }
-                        },
-                        required: ["content"]
-                    }
-                },
-                {
-                    name: "fetch_handoff",
-                    description: "Retrieve the most recent handoff notes at the start of a session.",
-                    inputSchema: {
-                        type: "object",
-                        properties: {},
-                        additionalProperties: false
-                    }
-                },
-                {
-                    name: "create_backlog_item",
-                    description: "Create a new product backlog item with full agile metadata for prioritisation.",
-                    inputSchema: {
-                        type: "object",
-                        properties: {
-                            title: { type: "string", description: "Concise title for the backlog item." },
-                            description: { type: "string", description: "Detailed problem or user story statement." },
-                            status: { type: "string", description: "Workflow status (e.g., 'todo', 'in-progress', 'blocked', 'done')." },
-                            priority: { type: "string", description: "Priority bucket (e.g., 'P0', 'P1', 'P2', 'P3')." },
-                            next_steps: { type: "array", items: { type: "string" }, description: "Immediate actions required to progress the item." },
-                            completed_work: { type: "array", items: { type: "string" }, description: "Deliverables already finished for this item." },
-                            tags: { type: "array", items: { type: "string" }, description: "Searchable labels such as 'rendering', 'multiplayer'." },
-                            owner: { type: "string", description: "Primary assignee or DRI for the backlog item." },
-                            due_date: { type: "string", description: "Optional ISO8601 due date for time-bound items." },
-                            sprint: { type: "string", description: "Iteration or milestone identifier (e.g., 'Sprint 14')." },
-                            story_points: { type: "number", description: "Relative sizing value for planning poker / velocity tracking." },
-                            acceptance_criteria: { type: "array", items: { type: "string" }, description: "Testable acceptance criteria or success conditions." },
-                            dependencies: { type: "array", items: { type: "string" }, description: "Related item IDs or external blockers." },
-                            notes: { type: "string", description: "Freeform notes, research links, or context." },
-                            category: { type: "string", description: "Optional thematic grouping (e.g., 'tech-debt', 'narrative', 'systems')." },
-                            feature_id: { type: "string", description: "Optional feature identifier that groups related backlog items." }
-                        },
-                        required: ["title", "description", "status", "priority"]
-                    }
-                },
-                {
-                    name: "update_backlog_item",
-                    description: "Update fields on an existing backlog item by ID while preserving untouched data.",
-                    inputSchema: {
-                        type: "object",
-                        properties: {
-                            id: { type: "string", description: "Existing backlog item identifier returned from creation." },
-                            title: { type: "string" },
-                            description: { type: "string" },
-                            status: { type: "string" },
-                            priority: { type: "string" },
-                            next_steps: { type: "array", items: { type: "string" } },
-                            completed_work: { type: "array", items: { type: "string" } },
-                            tags: { type: "array", items: { type: "string" } },
-                            owner: { type: "string" },
-                            due_date: { type: "string" },
-                            sprint: { type: "string" },
-                            story_points: { type: "number" },
-                            acceptance_criteria: { type: "array", items: { type: "string" } },
-                            dependencies: { type: "array", items: { type: "string" } },
-                            notes: { type: "string" },
-                            category: { type: "string" },
-                            feature_id: { type: "string" }
-                        },
-                        required: ["id"]
+        server.setRequestHandler(ListToolsRequestSchema, async () => ({
+            tools: this.registry.describe()
+        }));
+
+        // Handle tool calls
+        server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+            const { name, arguments: args } = request.params;
+
+            const tool = this.registry.get(name);
+            if (!tool) {
+                throw new Error(`Unknown tool: ${name}`);
+            }
+
+            const startedAt = performance.now();
+            try {
+                const sessionId = extra?.sessionId;
+
+                const principal = this.auth.fromAuthInfo(extra?.authInfo);
+                if (!principal) {
+                    throw new Error("Missing or invalid API key");
+                }
+                const requiredRole = TOOL_ACCESS_ROLES[tool.access];
+                const targetProjects = [
+                    projectId,
+                    ...(tool.projectArgs ?? [])
+                        .map((arg) => args?.[arg])
+                        .filter((value): value is string => typeof value === "string")
+                ];
+                if (!this.auth.authorize(principal, requiredRole, targetProjects)) {
+                    throw new Error(
+                        `API key '${principal.id}' (${principal.role}) may not call ${name} on ${targetProjects.join(", ")}; requires ${requiredRole}`
+                    );
+                }
+
+                // Only after the access check, so callers without access learn nothing about the schema.
+                const issues = validateArguments(args ?? {}, tool.inputSchema);
+                if (issues.length > 0) {
+                    throw new McpError(
+                        ErrorCode.InvalidParams,
+                        `Invalid arguments for ${name}: ${issues
+                            .map((issue) => `${issue.path} ${issue.message}`)
+                            .join("; ")}`,
+                        { tool: name, issues }
+                    );
+                }
+
+                if (tool.access === "write" && this.projectService.isProjectArchived(projectId)) {
+                    throw new Error(`Project '${projectId}' is archived and read-only`);
+                }
+
+                const result = await tool.handler(
+                    this.projectService.requireProject(projectId),
+                    (args ?? {}) as Record<string, unknown>,
+                    {
+                        projectId,
+                        sessionId: sessionId ?? undefined
                     }
-                },
-                {
-                    name: "search_backlog_by_tag",
-                    description: "Filter backlog items by labels, status, priority, or owner without semantic search.",
-                    inputSchema: {
-                        type: "object",
-                        properties: {
-                            tags: { type: "array", items: { type: "string" }, description: "One or more tags to match (logical ANY)." },
-                            status: { type: "string", description: "Optional workflow status filter." },
-                            priority: { type: "string", description: "Optional priority filter." },
-                            owner: { type: "string", description: "Optional owner / DRI filter." },
-                            limit: { type: "number", description: "Maximum results to return (default 25)." },
-                            feature_id: { type: "string", description: "Optional feature identifier to filter associated PBIs." }
+                );
+                if (tool.access !== "read" && this.wasSuccessfulWrite(result)) {
+                    this.incrementToolStat(name, 'writes');
+                    this.publishResourceChanges(projectId, name, args ?? {}, result as Record<string, unknown>);
+                }
+                if (tool.access === "read" && this.hasReadableContent(result)) {
+                    this.incrementToolStat(name, 'reads');
+                }
+                this.metrics.recordToolCall(name, projectId, performance.now() - startedAt, true);
+                return {
+                    content: [
+                        {
+                            type: "text",
+                            text: JSON.stringify(result, null, 2)
                         }
-                    }
-                },
-                {
-                    name: "search_backlog_semantic",
-                    description: "Semantic search across backlog items using embeddings with optional structured filters.",
-                    inputSchema: {
-                        type: "object",
-                        properties: {
-                            query: { type: "string", description: "Natural language description of the item you need." },
-                            tags: { type: "array", items: { type: "string" }, description: "Optional tags to narrow the scope." },
-                            status: { type: "string", description: "Optional status restriction." },
-                            priority: { type: "string", description: "Optional priority filter." },
-                            owner: { type: "string", description: "Optional owner filter." },
-                            limit: { type: "number", description: "Maximum results to return (default 10)." },
-                            min_score: { type: "number", description: "Similarity threshold between 0-1 (default 0.55)." },
-                            feature_id: { type: "string", description: "Optional feature identifier to filter associated PBIs." }
-                        },
-                        required: ["query"]
-                    }
-                },
-                {
-                    name: "get_top_backlog_items",
-                    description: "Return the highest-priority unfinished backlog items (defaults to top 5).",
-                    inputSchema: {
-                        type: "object",
-                        properties: {
-                            limit: { type: "number", description: "Maximum number of items to return (default 5, max 20)." },
-                            includeCompleted: { type: "boolean", description: "Set true to include completed items in the ranking." }
-                        }
-                    }
-                },
-                {
-                    name: "get_backlog_item",
-                    description: "Retrieve a single backlog item by ID with full metadata.",
-                    inputSchema: {
-                        type: "object",
-                        properties: {
-                            id: { type: "string", description: "Backlog item identifier." }
-                        },
-                        required: ["id"],
-                        additionalProperties: false
-                    }
-                },
-                {
-                    name: "create_feature",
-                    description: "Create a new feature definition that groups multiple backlog items.",
-                    inputSchema: {
-                        type: "object",
-                        properties: {
-                            name: { type: "string", description: "Feature title." },
-                            description: { type: "string", description: "Optional narrative or outcome statement." },
-                            tags: { type: "array", items: { type: "string" }, description: "Optional labels for planning queries." },
-                            status: { type: "string", description: "Lifecycle state (e.g., proposed, in-progress, delivered)." },
-                            owner: { type: "string", description: "Optional directly responsible individual." },
-                            priority: { type: "number", description: "Optional numeric rank (1 = highest priority). Lower numbers sort first." }
-                        },
-                        required: ["name"],
-                        additionalProperties: false
-                    }
-                },
-                {
-                    name: "update_feature",
-                    description: "Modify fields on an existing feature by ID.",
-                    inputSchema: {
-                        type: "object",
-                        properties: {
-                            id: { type: "string", description: "Feature identifier." },
-                            name: { type: "string" },
-                            description: { type: "string" },
-                            tags: { type: "array", items: { type: "string" } },
-                            status: { type: "string" },
-                            owner: { type: "string" },
-                            priority: { type: "number", description: "Numeric rank (1 = highest priority). Lower numbers sort first." }
-                        },
-                        required: ["id"],
-                        additionalProperties: false
-                    }
-                },
-                {
-                    name: "list_features",
-                    description: "List features with optional tag/status filters or a semantic query.",
-                    inputSchema: {
-                        type: "object",
-                        properties: {
-                            limit: { type: "number", description: "Maximum number of features to return (default 25)." },
-                            tags: { type: "array", items: { type: "string" }, description: "Optional tag filter." },
-                            status: { type: "string", description: "Optional status filter." },
-                            query: { type: "string", description: "Optional semantic search query." }
-                        },
-                        additionalProperties: false
-                    }
-                },
-                {
-                    name: "get_feature",
-                    description: "Retrieve a single feature by ID.",
-                    inputSchema: {
-                        type: "object",
-                        properties: {
-                            id: { type: "string", description: "Feature identifier." }
-                        },
-                        required: ["id"],
-                        additionalProperties: false
-                    }
-                },
-                {
-                    name: "assign_backlog_to_feature",
-                    description: "Link an existing backlog item to a feature for rollout tracking.",
-                    inputSchema: {
-                        type: "object",
-                        properties: {
-                            feature_id: { type: "string", description: "Feature identifier." },
-                            backlog_id: { type: "string", description: "Backlog item identifier." }
-                        },
-                        required: ["feature_id", "backlog_id"],
-                        additionalProperties: false
-                    }
-                },
-                {
-                    name: "list_feature_backlog_items",
-                    description: "Return backlog items associated with a given feature.",
-                    inputSchema: {
-                        type: "object",
-                        properties: {
-                            feature_id: { type: "string", description: "Feature identifier to inspect." }
-                        },
-                        required: ["feature_id"],
-                        additionalProperties: false
-                    }
-                },
-                {
-                    name: "set_feature_lock",
-                    description: "Toggle the feature creation lock for the current project.",
-                    inputSchema: {
-                        type: "object",
-                        properties: {
-                            locked: { type: "boolean", description: "Set true to block new features, false to allow them." }
-                        },
-                        required: ["locked"],
-                        additionalProperties: false
-                    }
-                },
-                {
-                    name: "record_bug_fix",
-                    description: "Store a canonical fix pattern alongside the incorrect code patterns it replaces.",
-                    inputSchema: {
-                        type: "object",
-                        properties: {
-                            issue: { type: "string", description: "Short identifier for the recurring bug or refactor (e.g., 'config-loader-null-check')." },
-                            summary: { type: "string", description: "Context describing when this bug appears and why the fix is preferred." },
-                            correct_pattern: { type: "string", description: "Code snippet or instructions that represent the proven fix." },
-                            incorrect_patterns: { type: "array", items: { type: "string" }, description: "Example snippets or anti-pattern descriptions that should trigger this fix." },
-                            error_messages: { type: "array", items: { type: "string" }, description: "Representative error log lines or messages that should map directly to this fix." },
-                            tags: { type: "array", items: { type: "string" }, description: "Optional tags (e.g., 'typescript', 'api-layer')." },
-                            source: { type: "string", description: "Optional link or reference explaining the fix (PR, issue, doc)." }
-                        },
-                        required: ["issue", "summary", "correct_pattern", "incorrect_patterns"]
-                    }
-                },
-                {
-                    name: "match_bug_fix",
-                    description: "Match an error report or code snippet to known bug fixes and retrieve their canonical patch.",
-                    inputSchema: {
-                        type: "object",
-                        properties: {
-                            query: { type: "string", description: "Symptoms, log snippets, or problematic code to match against stored fixes." },
-                            errorMessage: { type: "string", description: "Exact error message to look up before falling back to semantic similarity." },
-                            limit: { type: "number", description: "Max fixes to return", default: 5 },
-                            minScore: { type: "number", description: "Minimum similarity score (0-1)", default: 0.6 },
-                            tag: { type: "string", description: "Optional tag filter (e.g., 'typescript')." }
-                        },
-                        required: ["query"]
-                    }
-                },
-                {
-                    name: "get_bug_fix",
-                    description: "Fetch a stored bug fix by its issue identifier.",
-                    inputSchema: {
-                        type: "object",
-                        properties: {
-                            issue: { type: "string", description: "Identifier used when the fix was recorded." }
-                        },
-                        required: ["issue"]
-                    }
-                },
-                {
-                    name: "explore_graph_entity",
-                    description: "Inspect a knowledge-graph entity plus its inbound/outbound Neo4j relationships.",
-                    inputSchema: {
-                        type: "object",
-                        properties: {
-                            entityId: { type: "string", description: "Graph entity identifier (e.g., 'file:src/server.ts')." },
-                            maxNeighbors: { type: "number", description: "Maximum relationships to return (1-100).", default: 25 }
-                        },
-                        required: ["entityId"]
-                    }
-                },
-                {
-                    name: "search_graph_semantic",
-                    description: "Semantic search over the knowledge-graph embeddings (stored in Qdrant) to find relevant entities.",
-                    inputSchema: {
-                        type: "object",
-                        properties: {
-                            query: { type: "string", description: "Natural-language request or code snippet describing what you want to find." },
-                            limit: { type: "number", description: "Maximum results to return (1-20).", default: 10 },
-                            type: { type: "string", description: "Optional entity type filter (e.g., 'file', 'class', 'function')." },
-                            minScore: { type: "number", description: "Optional similarity threshold (0-1).", default: 0.55 }
-                        },
-                        required: ["query"]
-                    }
-                },
-                {
-                    name: "query_research",
-                    description: "Query cached research by semantic similarity. Returns relevant past research.",
-                    inputSchema: {
-                        type: "object",
-                        properties: {
-                            query: { type: "string", description: "What you're looking for" },
-                            limit: { type: "number", description: "Max results to return", default: 5 },
-                            min_score: { type: "number", description: "Minimum similarity score (0-1)", default: 0.7 }
-                        },
-                        required: ["query"]
-                    }
-                },
-                {
-                    name: "check_research_exists",
-                    description: "Check if research already exists for a topic before starting new research.",
-                    inputSchema: {
-                        type: "object",
-                        properties: {
-                            topic: { type: "string", description: "Topic to check" }
-                        },
-                        required: ["topic"]
-                    }
-                },
-                {
-                    name: "store_pattern",
-                    description: "Store a code or design pattern for future reference and consistency.",
-                    inputSchema: {
-                        type: "object",
-                        properties: {
-                            name: { type: "string", description: "Pattern name (e.g., 'component-lifecycle')" },
-                            description: { type: "string", description: "What this pattern does" },
-                            code: { type: "string", description: "Code example" },
-                            usage: { type: "string", description: "When to use this pattern" },
-                            category: { type: "string", description: "Pattern category (architecture/gameplay/rendering/etc)" }
-                        },
-                        required: ["name", "description", "code"]
-                    }
-                },
-                {
-                    name: "find_similar_patterns",
-                    description: "Find patterns similar to current work to maintain consistency.",
-                    inputSchema: {
-                        type: "object",
-                        properties: {
-                            description: { type: "string", description: "Describe what you're implementing" },
-                            category: { type: "string", description: "Filter by category" },
-                            limit: { type: "number", default: 5 }
-                        },
-                        required: ["description"]
-                    }
-                },
-                {
-                    name: "get_pattern_by_name",
-                    description: "Retrieve exact pattern by name.",
-                    inputSchema: {
-                        type: "object",
-                        properties: {
-                            name: { type: "string", description: "Exact pattern name" }
-                        },
-                        required: ["name"]
-                    }
-                },
-                {
-                    name: "store_architecture_decision",
-                    description: "Record architectural decisions with rationale for future reference.",
-                    inputSchema: {
-                        type: "object",
-                        properties: {
-                            decision: { type: "string", description: "What was decided" },
-                            rationale: { type: "string", description: "Why this decision was made" },
-                            alternatives: { type: "array", items: { type: "string" }, description: "Options considered" },
-                            scope: { type: "string", description: "What this decision affects" },
-                            date: { type: "string", description: "ISO date of decision" }
-                        },
-                        required: ["decision", "rationale"]
-                    }
-                },
-                {
-                    name: "query_architecture",
-                    description: "Query architectural decisions by topic.",
-                    inputSchema: {
-                        type: "object",
-                        properties: {
-                            query: { type: "string", description: "What to search for" },
-                            limit: { type: "number", default: 5 }
-                        },
-                        required: ["query"]
-                    }
-                },
-                {
-                    name: "validate_against_patterns",
-                    description: "Validate code/design against established patterns to catch inconsistencies.",
-                    inputSchema: {
-                        type: "object",
-                        properties: {
-                            content: { type: "string", description: "Code or design to validate" },
-                            type: { type: "string", description: "What's being validated (code/architecture/test)" }
-                        },
-                        required: ["content", "type"]
-                    }
-                },
-                {
-                    name: "check_consistency",
-                    description: "Check if new work is consistent with existing patterns and decisions.",
-                    inputSchema: {
-                        type: "object",
-                        properties: {
-                            description: { type: "string", description: "Describe the new work" },
-                            category: { type: "string", description: "Category of work" }
-                        },
-                        required: ["description"]
-                    }
-                },
-                {
-                    name: "store_narrative_element",
-                    description: "Store story beats, quests, character arcs, or thematic notes for the game's narrative.",
-                    inputSchema: {
-                        type: "object",
-                        properties: {
-                            title: { type: "string", description: "Name of the narrative element" },
-                            type: { type: "string", description: "Element type (act, quest, character, beat, faction, lore, theme, mechanic)" },
-                            summary: { type: "string", description: "Short synopsis" },
-                            details: { type: "string", description: "Extended notes or script" },
-                            act: { type: "string", description: "Act identifier" },
-                            chapter: { type: "string", description: "Chapter identifier" },
-                            tags: { type: "array", items: { type: "string" }, description: "Classification tags" },
-                            related_ids: { type: "array", items: { type: "string" }, description: "IDs of related narrative elements" },
-                            order: { type: "number", description: "Ordering index within act/chapter" },
-                            author: { type: "string", description: "Contributor name" },
-                            status: { type: "string", description: "Draft/approved/deprecated" },
-                            attachments: { type: "array", items: { type: "string" }, description: "External references or asset IDs" }
-                        },
-                        required: ["title", "type", "summary"]
-                    }
-                },
-                {
-                    name: "search_narrative_elements",
-                    description: "Search narrative library for similar elements (acts, quests, characters) by semantic meaning.",
-                    inputSchema: {
-                        type: "object",
-                        properties: {
-                            query: { type: "string", description: "What you want to find" },
-                            type: { type: "string", description: "Filter by element type" },
-                            tags: { type: "array", items: { type: "string" }, description: "Filter by tags" },
-                            limit: { type: "number", default: 5 },
-                            min_score: { type: "number", default: 0.62 }
-                        },
-                        required: ["query"]
-                    }
-                },
-                {
-                    name: "get_narrative_outline",
-                    description: "Retrieve ordered narrative elements for an act/chapter to keep story structure aligned.",
-                    inputSchema: {
-                        type: "object",
-                        properties: {
-                            act: { type: "string", description: "Act identifier" },
-                            chapter: { type: "string", description: "Chapter identifier" },
-                            type: { type: "string", description: "Filter by element type" },
-                            limit: { type: "number", default: 50 },
-                            order: { type: "string", enum: ["asc", "desc"], default: "asc" }
-                        }
-                    }
-                },
-                {
-                    name: "store_lore_entry",
-                    description: "Store worldbuilding lore such as factions, locations, artifacts, and historical notes.",
-                    inputSchema: {
-                        type: "object",
-                        properties: {
-                            title: { type: "string" },
-                            category: { type: "string", description: "Type of lore (faction, location, artifact, history, culture)" },
-                            content: { type: "string", description: "Rich lore description" },
-                            region: { type: "string" },
-                            era: { type: "string" },
-                            factions: { type: "array", items: { type: "string" }, description: "Related factions" },
-                            tags: { type: "array", items: { type: "string" } },
-                            related_ids: { type: "array", items: { type: "string" } },
-                            attachments: { type: "array", items: { type: "string" } }
-                        },
-                        required: ["title", "category", "content"]
-                    }
-                },
-                {
-                    name: "search_lore",
-                    description: "Semantically search lore database by region, category, or tags.",
-                    inputSchema: {
-                        type: "object",
-                        properties: {
-                            query: { type: "string" },
-                            category: { type: "string" },
-                            region: { type: "string" },
-                            tags: { type: "array", items: { type: "string" } },
-                            limit: { type: "number", default: 5 },
-                            min_score: { type: "number", default: 0.6 }
-                        },
-                        required: ["query"]
-                    }
-                },
-                {
-                    name: "list_lore",
-                    description: "List lore entries for coordination (e.g., all regions or factions).",
-                    inputSchema: {
-                        type: "object",
-                        properties: {
-                            region: { type: "string" },
-                            category: { type: "string" },
-                            limit: { type: "number", default: 50 }
-                        }
-                    }
-                },
-                {
-                    name: "store_dialogue_scene",
-                    description: "Store branching dialogue scripts with character context and tone.",
-                    inputSchema: {
-                        type: "object",
-                        properties: {
-                            scene: { type: "string", description: "Unique scene identifier" },
-                            characters: { type: "array", items: { type: "string" }, description: "Characters present" },
-                            context: { type: "string", description: "Scene setup and intent" },
-                            script: { type: "string", description: "Dialogue script with branching notes" },
-                            branching: { type: "object", additionalProperties: { type: "string" }, description: "Branch key to script snippet" },
-                            tags: { type: "array", items: { type: "string" } },
-                            tone: { type: "string" }
-                        },
-                        required: ["scene", "characters", "context", "script"]
-                    }
-                },
-                {
-                    name: "find_dialogue",
-                    description: "Search stored dialogue scenes/snippets for reuse or consistency checks.",
-                    inputSchema: {
-                        type: "object",
-                        properties: {
-                            query: { type: "string" },
-                            character: { type: "string" },
-                            tone: { type: "string" },
-                            tags: { type: "array", items: { type: "string" } },
-                            limit: { type: "number", default: 5 },
-                            min_score: { type: "number", default: 0.58 }
-                        },
-                        required: ["query"]
-                    }
-                },
-                {
-                    name: "get_dialogue_scene",
-                    description: "Fetch a dialogue scene by its identifier including branches and metadata.",
-                    inputSchema: {
-                        type: "object",
-                        properties: {
-                            scene_id: { type: "string", description: "Scene identifier" }
-                        },
-                        required: ["scene_id"]
-                    }
-                },
-                {
-                    name: "store_test_strategy",
-                    description: "Document a test strategy covering hybrid gameplay, narrative branches, or engine systems.",
-                    inputSchema: {
-                        type: "object",
-                        properties: {
-                            title: { type: "string" },
-                            focus_area: { type: "string", description: "System or gameplay area under test" },
-                            scenario: { type: "string", description: "Test scenario narrative" },
-                            coverage: { type: "array", items: { type: "string" }, description: "Checklist of covered behaviors" },
-                            automated: { type: "boolean", description: "Whether automated tests exist" },
-                            status: { type: "string" },
-                            tags: { type: "array", items: { type: "string" } },
-                            author: { type: "string" }
-                        },
-                        required: ["title", "focus_area", "scenario", "coverage"]
-                    }
-                },
-                {
-                    name: "query_test_strategies",
-                    description: "Search test strategies to avoid regression gaps and share coverage plans.",
-                    inputSchema: {
-                        type: "object",
-                        properties: {
-                            query: { type: "string" },
-                            focus_area: { type: "string" },
-                            automated: { type: "boolean" },
-                            tags: { type: "array", items: { type: "string" } },
-                            limit: { type: "number", default: 5 },
-                            min_score: { type: "number", default: 0.6 }
-                        },
-                        required: ["query"]
-                    }
-                },
-                {
-                    name: "list_test_strategies_by_focus",
-                    description: "List up to 100 test strategies for a given focus area.",
-                    inputSchema: {
-                        type: "object",
-                        properties: {
-                            focusArea: { type: "string", description: "Focus area identifier" }
-                        },
-                        required: ["focusArea"]
-                    }
-                },
-                {
-                    name: "record_playtest_feedback",
-                    description: "Record structured gameplay or narrative feedback from playtests.",
-                    inputSchema: {
-                        type: "object",
-                        properties: {
-                            source: { type: "string", description: "Who/what generated the feedback" },
-                            experience: { type: "string", description: "Summary of the session" },
-                            positives: { type: "array", items: { type: "string" } },
-                            negatives: { type: "array", items: { type: "string" } },
-                            suggestions: { type: "array", items: { type: "string" } },
-                            build: { type: "string", description: "Build identifier" },
-                            tags: { type: "array", items: { type: "string" } },
-                            severity: { type: "string", enum: ["low", "medium", "high", "critical"] }
-                        },
-                        required: ["source", "experience", "positives", "negatives"]
-                    }
-                },
-                {
-                    name: "query_playtest_feedback",
-                    description: "Search recorded feedback for similar issues or player sentiment.",
-                    inputSchema: {
-                        type: "object",
-                        properties: {
-                            query: { type: "string" },
-                            severity: { type: "string", enum: ["low", "medium", "high", "critical"] },
-                            tags: { type: "array", items: { type: "string" } },
-                            limit: { type: "number", default: 10 },
-                            min_score: { type: "number", default: 0.55 }
-                        },
-                        required: ["query"]
-                    }
-                },
-                {
-                    name: "summarize_playtest_feedback",
-                    description: "Summarize recent playtest feedback counts by severity and highlight common tags.",
-                    inputSchema: {
-                        type: "object",
-                        properties: {
-                            limit: { type: "number", default: 200 },
-                            since: { type: "string", description: "ISO timestamp to filter feedback newer than this" }
-                        }
-                    }
-                },
-                {
-                    name: "get_server_metadata",
-                    description: "Overview of server capabilities, version, and connected services for Claude configuration.",
-                    inputSchema: {
-                        type: "object",
-                        properties: {}
-                    }
-                },
-                {
-                    name: "list_qdrant_collections",
-                    description: "Return Qdrant collection metadata including purpose, vector size, and primary agents.",
-                    inputSchema: {
-                        type: "object",
-                        properties: {}
-                    }
-                },
-                {
-                    name: "get_mcp_documentation",
-                    description: "Fetch integration documentation so Claude can self-onboard to this MCP server.",
-                    inputSchema: {
-                        type: "object",
-                        properties: {
-                            section: { type: "string", description: "Optional heading to extract (e.g., 'Tool Catalog')." }
-                        }
-                    }
-                }
-            ]
-        }));
-
-        // Handle tool calls
-        this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
-            const { name, arguments: args } = request.params;
-
-            const tool = this.tools.get(name);
-            if (!tool) {
-                throw new Error(`Unknown tool: ${name}`);
-            }
-
-            try {
-                const sessionId = extra?.sessionId;
-                const projectId =
-                    (sessionId ? this.sessionProjectMap.get(sessionId) : undefined) ??
-                    this.projectService.getDefaultProject();
-
-                const result = await tool((args ?? {}) as Record<string, unknown>, {
-                    projectId,
-                    sessionId: sessionId ?? undefined
-                });
-                if (this.writeTools.has(name) && this.wasSuccessfulWrite(result)) {
-                    this.incrementToolStat(name, 'writes');
-                }
-                if (this.readTools.has(name) && this.hasReadableContent(result)) {
-                    this.incrementToolStat(name, 'reads');
-                }
-                return {
-                    content: [
-                        {
-                            type: "text",
-                            text: JSON.stringify(result, null, 2)
-                        }
-                    ]
-                };
-            } catch (error) {
-                const err = error instanceof Error ? error : new Error(String(error));
-                return {
-                    content: [
-                        {
-                            type: "text",
-                            text: JSON.stringify({
-                                error: err.message,
-                                tool: name
-                            })
+                    ]
+                };
+            } catch (error) {
+                this.metrics.recordToolCall(name, projectId, performance.now() - startedAt, false);
+                if (error instanceof McpError) {
+                    throw error;
+                }
+                const err = error instanceof Error ? error : new Error(String(error));
+                return {
+                    content: [
+                        {
+                            type: "text",
+                            text: JSON.stringify({
+                                error: err.message,
+                                tool: name
+                            })
                         }
                     ],
                     isError: true
@@ -1528,13 +854,84 @@ export class GameDevMCPServer {
         });
     }
 
+    /** Loads projects, API keys and metrics. `start` calls this before listening. */
+    async initialize() {
+        await this.projectService.initialize();
+        await this.auth.initialize();
+        await this.metrics.initialize();
+    }
+
+    /**
+     * Serves one project over a transport the caller created, without HTTP. Tool calls
+     * are authorised from the authInfo the transport forwards; with API keys disabled
+     * they run as admin. Used for in-process clients such as the test suite.
+     */
+    async connect(projectId: string, transport: Transport) {
+        const normalized = this.projectService.requireProject(projectId);
+        const server = this.createSessionServer(normalized);
+        if (transport.sessionId) {
+            const now = Date.now();
+            this.sessions.set(transport.sessionId, {
+                id: transport.sessionId,
+                projectId: normalized,
+                kind: "direct",
+                server,
+                transport,
+                clientId: "direct",
+                createdAt: now,
+                lastActivityAt: now,
+                subscriptions: new Set()
+            });
+            const sessionId = transport.sessionId;
+            server.onclose = () => this.forgetSession(sessionId);
+        }
+        await server.connect(transport);
+        return server;
+    }
+
     async start() {
         const port = Number(process.env.PORT || 3000);
-        await this.projectService.initialize();
+        await this.initialize();
+
+        if (this.sessionIdleMs > 0) {
+            const sweep = setInterval(() => {
+                void this.closeIdleSessions();
+            }, Math.min(60_000, this.sessionIdleMs));
+            sweep.unref();
+        }
 
         const app = express();
         app.use(express.json({ limit: "4mb" }));
 
+        // Every route needs a valid key; routes then check role and project scope via authorizeOr403.
+        app.use((req: Request, res: Response, next: NextFunction) => {
+            const authorization = req.header("Authorization");
+            const principal = this.auth.authenticate(authorization);
+            if (!principal) {
+                res.setHeader("WWW-Authenticate", 'Bearer realm="game-dev-mcp"');
+                res.status(401).json({ error: "Missing or invalid API key" });
+                return;
+            }
+            res.locals.principal = principal;
+            if (this.auth.isEnabled()) {
+                // The MCP transports forward req.auth to tool handlers as extra.authInfo.
+                const token = authorization!.replace(/^Bearer\s+/i, "").trim();
+                (req as Request & { auth?: AuthInfo }).auth = this.auth.toAuthInfo(principal, token);
+            }
+            next();
+        });
+
+        const authorizeOr403 = (res: Response, role: ApiKeyRole, projectIds: string[]): boolean => {
+            const principal = res.locals.principal as ApiKeyPrincipal;
+            if (this.auth.authorize(principal, role, projectIds)) {
+                return true;
+            }
+            res.status(403).json({
+                error: `API key '${principal.id}' (${principal.role}) lacks ${role} access to ${projectIds.join(", ") || "this route"}`
+            });
+            return false;
+        };
+
         const rawRouterPath = process.env.MCP_PATH || "/mcp";
         const routerPath = rawRouterPath.startsWith("/") ? rawRouterPath : `/${rawRouterPath}`;
         const defaultProject = this.projectService.getDefaultProject();
@@ -1564,25 +961,57 @@ export class GameDevMCPServer {
             return projectId;
         };
 
+        const readableProject = (projectId: string | undefined, res: Response): string | undefined =>
+            projectId && authorizeOr403(res, "read-only", [projectId]) ? projectId : undefined;
+
+        const sendSessionNotFound = (res: Response) => {
+            res.status(404).json({
+                jsonrpc: "2.0",
+                error: {
+                    code: -32001,
+                    message: "Session not found"
+                },
+                id: null
+            });
+        };
+
         const handlePost = async (projectId: string, req: Request, res: Response, next: NextFunction) => {
             try {
-                let state = await this.ensureTransport(projectId);
-                const isInitialization = this.isInitializationRequest(req.body);
-
-                if (isInitialization) {
-                    state = await this.resetTransport(projectId);
-                } else if (state.hasActiveSession) {
-                    const sessionHeader = this.getSessionHeaderFromRequest(req);
-                    if (!sessionHeader || sessionHeader !== state.currentSessionId) {
-                        state = await this.resetTransport(projectId);
+                const clientId = (res.locals.principal as ApiKeyPrincipal).id;
+                const baseUrl = this.getPublicBaseUrl(req);
+
+                // An initialize request always opens a fresh session next to the existing ones.
+                if (this.isInitializationRequest(req.body)) {
+                    const transport = await this.openStreamableSession(projectId, clientId);
+                    if (baseUrl) {
+                        this.patchSseResponse(res, baseUrl);
                     }
+                    await transport.handleRequest(req, res, req.body);
+                    return;
                 }
 
-                const baseUrl = this.getPublicBaseUrl(req);
+                const sessionId = this.getSessionHeaderFromRequest(req);
+                if (!sessionId) {
+                    res.status(400).json({
+                        jsonrpc: "2.0",
+                        error: {
+                            code: -32000,
+                            message: "Bad Request: Mcp-Session-Id header is required"
+                        },
+                        id: null
+                    });
+                    return;
+                }
+
+                const session = this.findSession(sessionId, projectId, clientId);
+                if (!session || session.kind !== "streamable-http") {
+                    sendSessionNotFound(res);
+                    return;
+                }
                 if (baseUrl) {
                     this.patchSseResponse(res, baseUrl);
                 }
-                await state.transport.handleRequest(req, res, req.body);
+                await (session.transport as StreamableHTTPServerTransport).handleRequest(req, res, req.body);
             } catch (error) {
                 next(error);
             }
@@ -1590,12 +1019,19 @@ export class GameDevMCPServer {
 
         const handleGeneric = async (projectId: string, req: Request, res: Response, next: NextFunction) => {
             try {
-                const state = await this.ensureTransport(projectId);
+                const sessionId = this.getSessionHeaderFromRequest(req);
+                const session = sessionId
+                    ? this.findSession(sessionId, projectId, (res.locals.principal as ApiKeyPrincipal).id)
+                    : undefined;
+                if (!session || session.kind !== "streamable-http") {
+                    sendSessionNotFound(res);
+                    return;
+                }
                 const baseUrl = this.getPublicBaseUrl(req);
                 if (baseUrl) {
                     this.patchSseResponse(res, baseUrl);
                 }
-                await state.transport.handleRequest(req, res);
+                await (session.transport as StreamableHTTPServerTransport).handleRequest(req, res);
             } catch (error) {
                 next(error);
             }
@@ -1627,8 +1063,10 @@ export class GameDevMCPServer {
             });
         };
 
-        registerMcpRoutes(routerPath, () => defaultProject);
-        registerMcpRoutes(`/:project${routerPath}`, (req, res) => ensureProjectOr404(req.params.project, res));
+        registerMcpRoutes(routerPath, (_req, res) => readableProject(defaultProject, res));
+        registerMcpRoutes(`/:project${routerPath}`, (req, res) =>
+            readableProject(ensureProjectOr404(req.params.project, res), res)
+        );
 
         const handleSse = async (projectId: string, req: Request, res: Response, next: NextFunction) => {
             try {
@@ -1637,23 +1075,33 @@ export class GameDevMCPServer {
                     this.patchSseResponse(res, baseUrl);
                 }
 
-                const state = await this.ensureTransport(projectId);
+                const server = this.createSessionServer(projectId);
                 const endpoint = `/${projectId}/messages`;
                 const transport = new SSEServerTransport(endpoint, res);
                 transport.onclose = () => {
-                    state.sseSessions.delete(transport.sessionId);
-                    this.sessionProjectMap.delete(transport.sessionId);
+                    this.forgetSession(transport.sessionId);
                 };
                 transport.onerror = (error) => {
                     console.error("[MCP] SSE transport error", {
                         projectId,
+                        sessionId: transport.sessionId,
                         error: error instanceof Error ? error.message : String(error)
                     });
                 };
 
-                this.sessionProjectMap.set(transport.sessionId, projectId);
-                state.sseSessions.set(transport.sessionId, transport);
-                await this.server.connect(transport);
+                const now = Date.now();
+                this.sessions.set(transport.sessionId, {
+                    id: transport.sessionId,
+                    projectId,
+                    kind: "sse",
+                    server,
+                    transport,
+                    clientId: (res.locals.principal as ApiKeyPrincipal).id,
+                    createdAt: now,
+                    lastActivityAt: now,
+                    subscriptions: new Set()
+                });
+                await server.connect(transport);
             } catch (error) {
                 next(error);
             }
@@ -1669,8 +1117,10 @@ export class GameDevMCPServer {
             });
         };
 
-        registerSseRoute("/sse", () => defaultProject);
-        registerSseRoute("/:project/sse", (req, res) => ensureProjectOr404(req.params.project, res));
+        registerSseRoute("/sse", (_req, res) => readableProject(defaultProject, res));
+        registerSseRoute("/:project/sse", (req, res) =>
+            readableProject(ensureProjectOr404(req.params.project, res), res)
+        );
 
         const handleMessagePost = async (projectId: string, req: Request, res: Response) => {
             const querySessionId = req.query.sessionId;
@@ -1696,15 +1146,14 @@ export class GameDevMCPServer {
                 return;
             }
 
-            const state = this.projectStates.get(projectId);
-            const transport = state?.sseSessions.get(sessionId);
-            if (!transport) {
+            const session = this.findSession(sessionId, projectId, (res.locals.principal as ApiKeyPrincipal).id);
+            if (!session || session.kind !== "sse") {
                 res.status(404).json({ error: "Session not found" });
                 return;
             }
 
             try {
-                await transport.handlePostMessage(req, res, req.body);
+                await (session.transport as SSEServerTransport).handlePostMessage(req, res, req.body);
             } catch (error) {
                 console.error("Error handling SSE message:", error);
                 if (!res.headersSent) {
@@ -1723,14 +1172,19 @@ export class GameDevMCPServer {
             });
         };
 
-        registerMessageRoute("/messages", () => defaultProject);
-        registerMessageRoute("/:project/messages", (req, res) => ensureProjectOr404(req.params.project, res));
+        registerMessageRoute("/messages", (_req, res) => readableProject(defaultProject, res));
+        registerMessageRoute("/:project/messages", (req, res) =>
+            readableProject(ensureProjectOr404(req.params.project, res), res)
+        );
 
         app.post("/project", async (req, res) => {
             const rawId = typeof req.body?.id === "string" ? req.body.id : typeof req.body?.name === "string" ? req.body.name : "";
             if (!rawId || rawId.trim().length === 0) {
                 return res.status(400).json({ error: "Project id is required" });
             }
+            if (!authorizeOr403(res, "admin", [rawId])) {
+                return;
+            }
 
             try {
                 const result = await this.projectService.createProject(rawId);
@@ -1753,6 +1207,127 @@ export class GameDevMCPServer {
             }
         });
 
+        const sendLifecycleError = (res: Response, action: string, projectId: string, error: unknown) => {
+            const message = error instanceof Error ? error.message : String(error);
+            if (/^Unknown project/.test(message)) {
+                res.status(404).json({ error: message });
+                return;
+            }
+            if (/already exists/.test(message)) {
+                res.status(409).json({ error: message });
+                return;
+            }
+            if (/cannot be|must contain/.test(message)) {
+                res.status(400).json({ error: message });
+                return;
+            }
+            console.error(`[MCP] Failed to ${action} project`, {
+                projectId,
+                error: error instanceof Error ? error.stack ?? error.message : message
+            });
+            res.status(500).json({ error: `Failed to ${action} project` });
+        };
+
+        const lifecycleServices = {
+            qdrant: this.qdrant,
+            projects: this.projectService,
+            neo4j: this.neo4j
+        };
+
+        app.get("/projects", (_req, res) => {
+            const principal = res.locals.principal as ApiKeyPrincipal;
+            res.json({
+                defaultProject: this.projectService.getDefaultProject(),
+                projects: this.projectService
+                    .listProjects()
+                    .filter((projectId) => this.auth.canAccessProject(principal, projectId))
+                    .map((projectId) => ({
+                        id: projectId,
+                        archived: this.projectService.isProjectArchived(projectId),
+                        featureCreationLocked: this.projectService.isFeatureCreationLocked(projectId)
+                    }))
+            });
+        });
+
+        app.post("/project/:id/clone", async (req, res) => {
+            const target = typeof req.body?.target === "string" ? req.body.target : "";
+            if (!target || target.trim().length === 0) {
+                return res.status(400).json({ error: "Target project id is required" });
+            }
+            if (!authorizeOr403(res, "admin", [req.params.id, target])) {
+                return;
+            }
+
+            try {
+                const result = await cloneProject(lifecycleServices, req.params.id, target);
+                res.status(201).json({ success: true, ...result });
+            } catch (error) {
+                sendLifecycleError(res, "clone", req.params.id, error);
+            }
+        });
+
+        app.post("/project/:id/rename", async (req, res) => {
+            const target = typeof req.body?.id === "string" ? req.body.id : "";
+            if (!target || target.trim().length === 0) {
+                return res.status(400).json({ error: "New project id is required" });
+            }
+            if (!authorizeOr403(res, "admin", [req.params.id, target])) {
+                return;
+            }
+
+            try {
+                const result = await renameProject(lifecycleServices, req.params.id, target);
+                await this.closeProjectSessions(result.source);
+                res.json({ success: true, ...result });
+            } catch (error) {
+                sendLifecycleError(res, "rename", req.params.id, error);
+            }
+        });
+
+        app.post("/project/:id/archive", async (req, res) => {
+            if (!authorizeOr403(res, "admin", [req.params.id])) {
+                return;
+            }
+            const archived = req.body?.archived === undefined ? true : Boolean(req.body.archived);
+
+            try {
+                await this.projectService.setProjectArchived(req.params.id, archived);
+                res.json({
+                    success: true,
+                    project: this.projectService.requireProject(req.params.id),
+                    archived
+                });
+            } catch (error) {
+                sendLifecycleError(res, "archive", req.params.id, error);
+            }
+        });
+
+        app.delete("/project/:id", async (req, res) => {
+            if (!authorizeOr403(res, "admin", [req.params.id])) {
+                return;
+            }
+            const snapshotFlag = req.body?.snapshot ?? req.query.snapshot;
+            const snapshotEnabled =
+                snapshotFlag === undefined ? true : snapshotFlag !== false && snapshotFlag !== "false";
+
+            try {
+                const result = await deleteProject({
+                    ...lifecycleServices,
+                    projectId: req.params.id,
+                    snapshotDir: this.snapshotDir,
+                    snapshot: snapshotEnabled
+                });
+                await this.closeProjectSessions(result.project);
+                res.json({
+                    success: true,
+                    project: result.project,
+                    snapshot_path: result.snapshotPath
+                });
+            } catch (error) {
+                sendLifecycleError(res, "delete", req.params.id, error);
+            }
+        });
+
         app.post("/reset", async (req, res) => {
             const rawId = typeof req.body?.id === "string" ? req.body.id : "";
             const snapshotFlag = req.body?.snapshot;
@@ -1762,6 +1337,9 @@ export class GameDevMCPServer {
                 console.warn("[MCP] Project reset rejected: missing project id", { body: req.body });
                 return res.status(400).json({ error: "Project id is required" });
             }
+            if (!authorizeOr403(res, "admin", [rawId])) {
+                return;
+            }
 
             let projectId: string;
             try {
@@ -1811,18 +1389,291 @@ export class GameDevMCPServer {
             }
         });
 
+        app.get("/:project/snapshots", async (req, res) => {
+            let projectId: string;
+            try {
+                projectId = this.projectService.normalizeProjectId(req.params.project);
+            } catch (error) {
+                return res.status(400).json({ error: error instanceof Error ? error.message : String(error) });
+            }
+            if (!authorizeOr403(res, "read-only", [projectId])) {
+                return;
+            }
+
+            try {
+                const snapshots = await listProjectSnapshots({ projectId, snapshotDir: this.snapshotDir });
+                res.json({ project: projectId, snapshots });
+            } catch (error) {
+                console.error("[MCP] Failed to list snapshots", {
+                    projectId,
+                    error: error instanceof Error ? error.message : String(error)
+                });
+                res.status(500).json({ error: "Failed to list snapshots" });
+            }
+        });
+
+        app.get("/:project/export", async (req, res) => {
+            const projectId = readableProject(ensureProjectOr404(req.params.project, res), res);
+            if (!projectId) {
+                return;
+            }
+            const collections = typeof req.query.collections === "string"
+                ? req.query.collections.split(",").map((name) => name.trim()).filter(Boolean)
+                : undefined;
+
+            const lines = exportProjectBundle({
+                ...lifecycleServices,
+                projectId,
+                includeVectors: req.query.vectors === "true",
+                includeGraph: req.query.graph !== "false",
+                collections
+            });
+
+            try {
+                // The header is produced before anything is read, so bad arguments still get a JSON error.
+                const first = await lines.next();
+                const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+                res.setHeader("Content-Type", "application/x-ndjson");
+                res.setHeader("Content-Disposition", `attachment; filename="${projectId}-${timestamp}.jsonl"`);
+                res.write(`${JSON.stringify(first.value)}\n`);
+                for await (const line of lines) {
+                    if (!res.write(`${JSON.stringify(line)}\n`)) {
+                        await once(res, "drain");
+                    }
+                }
+                res.end();
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                if (!res.headersSent) {
+                    res.status(/^Unknown collection/.test(message) ? 400 : 500).json({ error: message });
+                    return;
+                }
+                console.error("[MCP] Project export failed", { projectId, error: message });
+                res.destroy(error instanceof Error ? error : undefined);
+            }
+        });
+
+        app.post("/:project/import", async (req, res) => {
+            const mode = (typeof req.query.mode === "string" ? req.query.mode : "merge") as ImportMode;
+            if (mode !== "merge" && mode !== "replace") {
+                return res.status(400).json({ error: "mode must be 'merge' or 'replace'" });
+            }
+            if (req.is("application/json")) {
+                return res.status(415).json({ error: "Send the bundle as application/x-ndjson" });
+            }
+
+            let projectId: string;
+            try {
+                projectId = this.projectService.normalizeProjectId(req.params.project);
+            } catch (error) {
+                return res.status(400).json({ error: error instanceof Error ? error.message : String(error) });
+            }
+            if (!authorizeOr403(res, "admin", [projectId])) {
+                return;
+            }
+            const snapshotFlag = req.query.snapshot;
+
+            try {
+                const result = await importProjectBundle(
+                    {
+                        ...lifecycleServices,
+                        embedding: this.embedding,
+                        projectId,
+                        mode,
+                        reembed: req.query.reembed === "true",
+                        snapshotDir: this.snapshotDir,
+                        snapshot: snapshotFlag === undefined ? true : snapshotFlag !== "false"
+                    },
+                    createInterface({ input: req, crlfDelay: Infinity })
+                );
+                // Tool result caches may hold records the import replaced.
+                this.cache.clear();
+
+                res.json({
+                    success: true,
+                    project: result.project,
+                    source: result.source,
+                    mode: result.mode,
+                    created_project: result.createdProject,
+                    safety_snapshot_path: result.safetySnapshotPath,
+                    collections: result.collections,
+                    graph: result.graph,
+                    warnings: result.warnings
+                });
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                if (/^(Not a |Bundle |The bundle)/.test(message)) {
+                    return res.status(400).json({ success: false, error: message });
+                }
+                if (/is archived/.test(message)) {
+                    return res.status(409).json({ success: false, error: message });
+                }
+                console.error("[MCP] Project import failed", {
+                    projectId,
+                    error: error instanceof Error ? error.stack ?? error.message : message
+                });
+                res.status(500).json({ success: false, error: message });
+            }
+        });
+
+        app.post("/restore", async (req, res) => {
+            const rawId = typeof req.body?.id === "string" ? req.body.id : "";
+            const rawTarget = typeof req.body?.target === "string" ? req.body.target : "";
+            const timestamp = typeof req.body?.timestamp === "string" ? req.body.timestamp.trim() : undefined;
+            const snapshotFlag = req.body?.snapshot;
+            const snapshotEnabled = snapshotFlag === undefined ? true : Boolean(snapshotFlag);
+
+            if (!rawId || rawId.trim().length === 0) {
+                console.warn("[MCP] Project restore rejected: missing project id", { body: req.body });
+                return res.status(400).json({ error: "Project id is required" });
+            }
+
+            let sourceProjectId: string;
+            let targetProjectId: string;
+            try {
+                sourceProjectId = this.projectService.normalizeProjectId(rawId);
+                targetProjectId = rawTarget.trim().length > 0
+                    ? this.projectService.normalizeProjectId(rawTarget)
+                    : sourceProjectId;
+            } catch (error) {
+                return res.status(400).json({ error: error instanceof Error ? error.message : String(error) });
+            }
+            if (!authorizeOr403(res, "admin", [sourceProjectId, targetProjectId])) {
+                return;
+            }
+
+            console.info("[MCP] Project restore requested", {
+                sourceProjectId,
+                targetProjectId,
+                timestamp: timestamp ?? "latest",
+                snapshot: snapshotEnabled
+            });
+
+            try {
+                const result = await restoreProjectSnapshot({
+                    sourceProjectId,
+                    targetProjectId,
+                    timestamp: timestamp || undefined,
+                    snapshotDir: this.snapshotDir,
+                    qdrant: this.qdrant,
+                    projects: this.projectService,
+                    neo4j: this.neo4j,
+                    snapshot: snapshotEnabled
+                });
+
+                res.status(202).json({
+                    success: true,
+                    project: result.target,
+                    source: result.source,
+                    timestamp: result.timestamp,
+                    created_project: result.createdProject,
+                    safety_snapshot_path: result.safetySnapshotPath,
+                    collections: result.collections,
+                    graph: result.graph,
+                    message: `Project '${result.target}' restored from '${result.source}' snapshot ${result.timestamp}`
+                });
+            } catch (error) {
+                if (error instanceof Error && /^(No snapshots|Snapshot .* not found)/.test(error.message)) {
+                    return res.status(404).json({ success: false, error: error.message });
+                }
+                console.error("[MCP] Project restore failed", {
+                    sourceProjectId,
+                    targetProjectId,
+                    error: error instanceof Error ? error.stack ?? error.message : String(error)
+                });
+                res.status(500).json({
+                    success: false,
+                    error: error instanceof Error ? error.message : String(error)
+                });
+            }
+        });
+
+        app.get("/sessions", (req, res) => {
+            const principal = res.locals.principal as ApiKeyPrincipal;
+            if (!authorizeOr403(res, "admin", [])) {
+                return;
+            }
+            const project = typeof req.query.project === "string" ? req.query.project : undefined;
+            const now = Date.now();
+            const sessions = Array.from(this.sessions.values())
+                .filter((session) => this.auth.canAccessProject(principal, session.projectId))
+                .filter((session) => !project || session.projectId === normalizeProjectParam(project))
+                .sort((a, b) => a.createdAt - b.createdAt)
+                .map((session) => ({
+                    id: session.id,
+                    project: session.projectId,
+                    transport: session.kind,
+                    client_id: session.clientId,
+                    client_info: session.server.getClientVersion() ?? null,
+                    created_at: new Date(session.createdAt).toISOString(),
+                    last_activity_at: new Date(session.lastActivityAt).toISOString(),
+                    idle_ms: now - session.lastActivityAt,
+                    expires_at: new Date(session.lastActivityAt + this.sessionIdleMs).toISOString()
+                }));
+
+            res.json({
+                idle_timeout_ms: this.sessionIdleMs,
+                count: sessions.length,
+                sessions
+            });
+        });
+
+        app.delete("/sessions/:id", async (req, res) => {
+            const session = this.sessions.get(req.params.id);
+            if (!session) {
+                return res.status(404).json({ error: `Session '${req.params.id}' not found` });
+            }
+            if (!authorizeOr403(res, "admin", [session.projectId])) {
+                return;
+            }
+            await this.closeSession(session.id);
+            res.json({ success: true, id: session.id, project: session.projectId });
+        });
+
+        // Usage numbers cover every project, so they need an admin key with access to all of them.
+        const authorizeMetricsOr403 = (res: Response) => authorizeOr403(res, "admin", this.projectService.listProjects());
+
         app.get("/stats", (_req, res) => {
-            const stats = Array.from(this.toolStats.entries()).map(([tool, counts]) => ({
-                tool,
-                writes: counts.writes,
-                reads: counts.reads
-            }));
+            if (!authorizeMetricsOr403(res)) {
+                return;
+            }
+            const stats = this.registry.list().map(({ name, access }) => {
+                const counts = this.toolStats.get(name) ?? { writes: 0, reads: 0 };
+                return {
+                    tool: name,
+                    access,
+                    writes: counts.writes,
+                    reads: counts.reads
+                };
+            });
 
             res.json({
                 stats
             });
         });
 
+        app.get("/stats/daily", async (req, res) => {
+            if (!authorizeMetricsOr403(res)) {
+                return;
+            }
+            const days = Math.min(Math.max(Number(req.query.days) || 7, 1), 90);
+            try {
+                res.json({ days: await this.metrics.listRollups(days) });
+            } catch (error) {
+                console.error("[MCP] Failed to read metric rollups", {
+                    error: error instanceof Error ? error.message : String(error)
+                });
+                res.status(500).json({ error: "Failed to read metric rollups" });
+            }
+        });
+
+        app.get("/metrics", (_req, res) => {
+            if (!authorizeMetricsOr403(res)) {
+                return;
+            }
+            res.type("text/plain; version=0.0.4").send(this.metrics.renderPrometheus());
+        });
+
         app.use((err: unknown, _req: Request, res: Response, _next: NextFunction) => {
             const error = err instanceof Error ? err : new Error(String(err));
             if (!res.headersSent) {
@@ -1858,4 +1709,19 @@ export class GameDevMCPServer {
             this.httpServer.on("error", reject);
         });
     }
+
+    /** Closes open sessions and the HTTP listener, then writes the pending metric rollup. */
+    async stop() {
+        await Promise.all(Array.from(this.sessions.keys()).map((sessionId) => this.closeSession(sessionId)));
+        const httpServer = this.httpServer;
+        if (httpServer) {
+            this.httpServer = undefined;
+            await new Promise<void>((resolve) => {
+                httpServer.close(() => resolve());
+                // Streaming responses would otherwise keep close() waiting.
+                httpServer.closeAllConnections();
+            });
+        }
+        await this.metrics.flush();
+    }
 }
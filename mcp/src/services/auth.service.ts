@@ -0,0 +1,166 @@
+import { createHash } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+
+import { ProjectService } from "./project.service.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const projectRoot = path.resolve(__dirname, "../..");
+const configDir = process.env.CONFIG_DIR ? path.resolve(process.env.CONFIG_DIR) : path.join(projectRoot, "config");
+const apiKeysFilePath = path.join(configDir, "api-keys.json");
+
+export type ApiKeyRole = "read-only" | "writer" | "admin";
+
+const ROLE_RANK: Record<ApiKeyRole, number> = {
+    "read-only": 0,
+    writer: 1,
+    admin: 2
+};
+
+const ALL_PROJECTS = "*";
+
+type ApiKeyEntry = {
+    id: string;
+    key_sha256: string;
+    role: ApiKeyRole;
+    projects: string[];
+};
+
+type ApiKeysFile = {
+    keys: ApiKeyEntry[];
+};
+
+export type ApiKeyPrincipal = {
+    id: string;
+    role: ApiKeyRole;
+    projects: string[];
+};
+
+// Used for every request when config/api-keys.json does not exist.
+const ANONYMOUS_ADMIN: ApiKeyPrincipal = {
+    id: "anonymous",
+    role: "admin",
+    projects: [ALL_PROJECTS]
+};
+
+export function hashApiKey(token: string): string {
+    return createHash("sha256").update(token, "utf-8").digest("hex");
+}
+
+/**
+ * Bearer-token authentication backed by config/api-keys.json. The file stores
+ * SHA-256 hashes only; each key carries one role and the projects it may touch
+ * ("*" for all). Without the file every request is treated as an admin.
+ */
+export class AuthService {
+    private keys = new Map<string, ApiKeyPrincipal>();
+    private enabled = false;
+
+    constructor(private projects: ProjectService) {}
+
+    async initialize() {
+        let raw: string;
+        try {
+            raw = await readFile(apiKeysFilePath, "utf-8");
+        } catch (error: any) {
+            if (error && error.code === "ENOENT") {
+                console.warn(`[Auth] ${apiKeysFilePath} not found; API key authentication is disabled`);
+                return;
+            }
+            throw error;
+        }
+
+        const parsed = JSON.parse(raw) as Partial<ApiKeysFile>;
+        const entries = Array.isArray(parsed.keys) ? parsed.keys : [];
+        for (const entry of entries) {
+            const principal = this.parseEntry(entry);
+            this.keys.set(entry.key_sha256.trim().toLowerCase(), principal);
+        }
+        this.enabled = true;
+        console.info("[Auth] API key authentication enabled", { keys: this.keys.size });
+    }
+
+    isEnabled(): boolean {
+        return this.enabled;
+    }
+
+    /** Resolves an Authorization header to a principal, or undefined when the key is missing or unknown. */
+    authenticate(authorization: string | undefined): ApiKeyPrincipal | undefined {
+        if (!this.enabled) {
+            return ANONYMOUS_ADMIN;
+        }
+        const match = authorization?.match(/^Bearer\s+(\S+)\s*$/i);
+        if (!match) {
+            return undefined;
+        }
+        return this.keys.get(hashApiKey(match[1]));
+    }
+
+    hasRole(principal: ApiKeyPrincipal, role: ApiKeyRole): boolean {
+        return ROLE_RANK[principal.role] >= ROLE_RANK[role];
+    }
+
+    canAccessProject(principal: ApiKeyPrincipal, projectId: string): boolean {
+        if (principal.projects.includes(ALL_PROJECTS)) {
+            return true;
+        }
+        try {
+            return principal.projects.includes(this.projects.normalizeProjectId(projectId));
+        } catch {
+            return false;
+        }
+    }
+
+    authorize(principal: ApiKeyPrincipal, role: ApiKeyRole, projectIds: string[]): boolean {
+        return (
+            this.hasRole(principal, role) &&
+            projectIds.every((projectId) => this.canAccessProject(principal, projectId))
+        );
+    }
+
+    /** Shape the MCP transports forward to request handlers as `extra.authInfo`. */
+    toAuthInfo(principal: ApiKeyPrincipal, token: string): AuthInfo {
+        return {
+            token,
+            clientId: principal.id,
+            scopes: [principal.role],
+            extra: { projects: principal.projects }
+        };
+    }
+
+    fromAuthInfo(authInfo: AuthInfo | undefined): ApiKeyPrincipal | undefined {
+        if (!this.enabled) {
+            return ANONYMOUS_ADMIN;
+        }
+        if (!authInfo) {
+            return undefined;
+        }
+        return this.keys.get(hashApiKey(authInfo.token));
+    }
+
+    private parseEntry(entry: ApiKeyEntry): ApiKeyPrincipal {
+        const label = entry?.id || "<unnamed>";
+        if (!entry?.id || typeof entry.key_sha256 !== "string" || !/^[0-9a-f]{64}$/i.test(entry.key_sha256.trim())) {
+            throw new Error(`API key '${label}' must have an id and a 64-character hex key_sha256`);
+        }
+        if (!(entry.role in ROLE_RANK)) {
+            throw new Error(
+                `API key '${label}' has unknown role '${entry.role}'. Expected one of: ${Object.keys(ROLE_RANK).join(", ")}`
+            );
+        }
+        if (!Array.isArray(entry.projects) || entry.projects.length === 0) {
+            throw new Error(`API key '${label}' must list at least one project (or "*")`);
+        }
+        return {
+            id: entry.id,
+            role: entry.role,
+            projects: entry.projects.map((projectId) =>
+                projectId === ALL_PROJECTS ? ALL_PROJECTS : this.projects.normalizeProjectId(projectId)
+            )
+        };
+    }
+}
@@ -0,0 +1,126 @@
+import { randomUUID } from "crypto";
+
+import { QdrantService } from "./qdrant.service.js";
+import { EmbeddingService } from "./embedding.service.js";
+import { ProjectService } from "./project.service.js";
+import { commentText } from "../utils/embeddingText.js";
+
+export type CommentRecordType = "backlog" | "feature";
+
+export type RecordComment = {
+    id: string;
+    record_type: CommentRecordType;
+    record_id: string;
+    parent_id: string | null;
+    author: string;
+    body: string;
+    created_at: string;
+};
+
+export type CommentThread = RecordComment & {
+    replies: CommentThread[];
+};
+
+type CommentInput = {
+    recordType: CommentRecordType;
+    recordId: string;
+    author: string;
+    body: string;
+    parentId?: string | null;
+};
+
+/**
+ * Discussion on backlog items and features. Unlike `notes`, which every update
+ * overwrites, comments are append-only and can reply to each other.
+ */
+export class CommentService {
+    private collection = "record_comments";
+
+    constructor(
+        private qdrant: QdrantService,
+        private embedding: EmbeddingService,
+        private projects: ProjectService
+    ) {}
+
+    async addComment(projectId: string, input: CommentInput): Promise<RecordComment> {
+        const comment: RecordComment = {
+            id: randomUUID(),
+            record_type: input.recordType,
+            record_id: input.recordId,
+            parent_id: input.parentId ?? null,
+            author: input.author,
+            body: input.body,
+            created_at: new Date().toISOString()
+        };
+
+        const vector = await this.embedding.embed(commentText(comment));
+        const { id, ...payload } = comment;
+        await this.qdrant.upsert(this.getCollection(projectId), [{ id, vector, payload }]);
+
+        return comment;
+    }
+
+    async getComment(projectId: string, commentId: string): Promise<RecordComment | undefined> {
+        const [point] = (await this.qdrant.retrieve(this.getCollection(projectId), [commentId])) ?? [];
+        return point ? this.mapPoint(point) : undefined;
+    }
+
+    /** Comments oldest first, on one record or, without a record id, on every record of the type (or project). */
+    async listComments(projectId: string, recordType?: CommentRecordType, recordId?: string) {
+        const must = [
+            ...(recordType ? [{ key: "record_type", match: { value: recordType } }] : []),
+            ...(recordId ? [{ key: "record_id", match: { value: recordId } }] : [])
+        ];
+        const points = await this.qdrant.scrollAll(this.getCollection(projectId), must.length ? { must } : undefined);
+        return points
+            .map((point) => this.mapPoint(point))
+            .sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id.localeCompare(b.id));
+    }
+
+    /** Removes a record's comments; called when the record is deleted. */
+    async deleteForRecord(projectId: string, recordType: CommentRecordType, recordId: string) {
+        const comments = await this.listComments(projectId, recordType, recordId);
+        if (comments.length > 0) {
+            await this.qdrant.deletePoints(
+                this.getCollection(projectId),
+                comments.map((comment) => comment.id)
+            );
+        }
+        return comments.length;
+    }
+
+    private mapPoint(point: any): RecordComment {
+        const payload = point.payload ?? {};
+        return {
+            id: typeof point.id === "string" ? point.id : String(point.id),
+            record_type: payload.record_type,
+            record_id: payload.record_id ?? "",
+            parent_id: typeof payload.parent_id === "string" ? payload.parent_id : null,
+            author: typeof payload.author === "string" ? payload.author : "",
+            body: typeof payload.body === "string" ? payload.body : "",
+            created_at: payload.created_at ?? ""
+        };
+    }
+
+    private getCollection(projectId: string) {
+        return this.projects.collectionName(projectId, this.collection);
+    }
+}
+
+/** Nests replies under the comment they answer; replies to missing comments become top-level. */
+export function buildThreads(comments: RecordComment[]): CommentThread[] {
+    const threads = new Map<string, CommentThread>(
+        comments.map((comment) => [comment.id, { ...comment, replies: [] }])
+    );
+    const roots: CommentThread[] = [];
+    for (const comment of comments) {
+        const thread = threads.get(comment.id)!;
+        const parent = comment.parent_id ? threads.get(comment.parent_id) : undefined;
+        if (parent) {
+            parent.replies.push(thread);
+        } else {
+            roots.push(thread);
+        }
+    }
+    return roots;
+}
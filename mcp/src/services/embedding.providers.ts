@@ -0,0 +1,148 @@
+import axios from "axios";
+
+/**
+ * Turns texts into vectors, one per input and in input order. Providers throw the
+ * underlying HTTP error unchanged; EmbeddingService decides whether to retry it.
+ */
+export interface EmbeddingProvider {
+    /** Provider and model identity. It is part of every embedding cache key. */
+    readonly id: string;
+    embed(texts: string[]): Promise<number[][]>;
+}
+
+export type EmbeddingProviderName = "tei" | "openai" | "hash";
+
+export interface EmbeddingProviderConfig {
+    provider?: string;
+    url?: string;
+    model?: string;
+    apiKey?: string;
+    dimension?: number;
+}
+
+/**
+ * Hugging Face Text Embeddings Inference: `POST /embed` with `{ inputs }`. TEI picks
+ * the model itself; `model` only names it in the id, so swapping the model behind
+ * the same URL also changes the cache key.
+ */
+export class TeiEmbeddingProvider implements EmbeddingProvider {
+    readonly id: string;
+
+    constructor(
+        private url: string,
+        model?: string
+    ) {
+        this.id = `tei:${url}${model ? `:${model}` : ""}`;
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        const response = await axios.post(`${this.url}/embed`, { inputs: texts });
+        return response.data;
+    }
+}
+
+/** Any OpenAI-compatible `POST /v1/embeddings` endpoint (OpenAI, vLLM, Ollama, LM Studio, ...). */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+    readonly id: string;
+    private endpoint: string;
+
+    constructor(
+        url: string,
+        private model: string,
+        private apiKey?: string,
+        private dimension?: number
+    ) {
+        const base = url.replace(/\/$/, "");
+        this.endpoint = base.endsWith("/v1") ? `${base}/embeddings` : `${base}/v1/embeddings`;
+        this.id = `openai:${this.endpoint}:${model}${dimension ? `:${dimension}` : ""}`;
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        const response = await axios.post(
+            this.endpoint,
+            {
+                model: this.model,
+                input: texts,
+                ...(this.dimension ? { dimensions: this.dimension } : {})
+            },
+            this.apiKey ? { headers: { Authorization: `Bearer ${this.apiKey}` } } : undefined
+        );
+        const data: Array<{ index: number; embedding: number[] }> = response.data?.data ?? [];
+        return [...data].sort((a, b) => a.index - b.index).map((entry) => entry.embedding);
+    }
+}
+
+const FNV_OFFSET = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+
+const fnv1a = (value: string) => {
+    let hash = FNV_OFFSET;
+    for (let index = 0; index < value.length; index++) {
+        hash ^= value.charCodeAt(index);
+        hash = Math.imul(hash, FNV_PRIME) >>> 0;
+    }
+    return hash;
+};
+
+/**
+ * Deterministic offline embedder for tests and local development. Words and
+ * their character trigrams are hashed into `dimension` signed buckets and the
+ * result is L2-normalised, so texts sharing words or word fragments score as
+ * similar. It needs no network, but carries no real semantics.
+ *
+ * The backlog editor server imports this module too, so both services produce
+ * the same vectors.
+ */
+export class HashEmbeddingProvider implements EmbeddingProvider {
+    readonly id: string;
+
+    constructor(private dimension: number) {
+        this.id = `hash:${dimension}`;
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        return texts.map((text) => this.vectorFor(text));
+    }
+
+    private vectorFor(text: string) {
+        const vector = new Array<number>(this.dimension).fill(0);
+        for (const word of text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? []) {
+            const padded = `#${word}#`;
+            const features = [word];
+            for (let index = 0; index + 3 <= padded.length; index++) {
+                features.push(padded.slice(index, index + 3));
+            }
+            for (const feature of features) {
+                const hash = fnv1a(feature);
+                vector[hash % this.dimension] += hash >>> 31 ? -1 : 1;
+            }
+        }
+
+        const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+        if (norm === 0) {
+            // Cosine similarity is undefined for a zero vector.
+            vector[0] = 1;
+            return vector;
+        }
+        return vector.map((value) => value / norm);
+    }
+}
+
+export function createEmbeddingProvider(config: EmbeddingProviderConfig): EmbeddingProvider {
+    const name = (config.provider || "tei").toLowerCase() as EmbeddingProviderName;
+    const url = config.url || "http://localhost:8080";
+
+    switch (name) {
+        case "tei":
+            return new TeiEmbeddingProvider(url, config.model);
+        case "openai":
+            if (!config.model) {
+                throw new Error("EMBEDDING_MODEL is required when EMBEDDING_PROVIDER=openai");
+            }
+            return new OpenAIEmbeddingProvider(url, config.model, config.apiKey, config.dimension);
+        case "hash":
+            return new HashEmbeddingProvider(config.dimension ?? 768);
+        default:
+            throw new Error(`Unknown EMBEDDING_PROVIDER '${config.provider}'. Expected one of: tei, openai, hash`);
+    }
+}
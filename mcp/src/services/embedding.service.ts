@@ -1,50 +1,224 @@
 
 import axios from "axios";
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
 
+import { EmbeddingProvider } from "./embedding.providers.js";
+import { MetricsService } from "./metrics.service.js";
+
+export interface EmbeddingServiceOptions {
+    /** Directory for the on-disk vector cache. Without it vectors are only cached in memory. */
+    cacheDir?: string;
+    /** Vectors kept in memory; the least recently used are evicted first. */
+    memoryCacheSize?: number;
+    /** Most texts sent to the provider in one request. */
+    batchSize?: number;
+    /** Retries of a failed provider request. Only network errors, 429 and 5xx responses are retried. */
+    maxRetries?: number;
+    /** Delay before the first retry; doubles on every further attempt. */
+    retryDelayMs?: number;
+}
+
+type QueuedText = {
+    text: string;
+    resolve: (vector: number[]) => void;
+    reject: (error: unknown) => void;
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const isRetryable = (error: unknown) => {
+    if (!axios.isAxiosError(error)) {
+        return false;
+    }
+    const status = error.response?.status;
+    return status === undefined || status === 429 || status >= 500;
+};
+
+const describeError = (error: unknown) => {
+    if (axios.isAxiosError(error)) {
+        const detail =
+            typeof error.response?.data === "string"
+                ? error.response.data
+                : JSON.stringify(error.response?.data);
+        return detail || error.message;
+    }
+    return error instanceof Error ? error.message : String(error);
+};
+
+/**
+ * Embeds text through the configured provider. Vectors are cached by a hash of
+ * the provider id and text, in memory and (with `cacheDir`) on disk, so
+ * unchanged text is never embedded twice. Concurrent `embed` calls are coalesced
+ * into batched requests, and flaky requests are retried with backoff.
+ */
 export class EmbeddingService {
-    private url: string;
+    private cacheDir?: string;
+    private memoryCacheSize: number;
+    private batchSize: number;
+    private maxRetries: number;
+    private retryDelayMs: number;
+    private memory = new Map<string, number[]>();
+    private inFlight = new Map<string, Promise<number[]>>();
+    private queue: QueuedText[] = [];
+    private flushScheduled = false;
 
-    constructor(url: string) {
-        this.url = url;
+    constructor(
+        private provider: EmbeddingProvider,
+        private metrics?: MetricsService,
+        options: EmbeddingServiceOptions = {}
+    ) {
+        this.cacheDir = options.cacheDir;
+        this.memoryCacheSize = Math.max(options.memoryCacheSize ?? 5000, 0);
+        this.batchSize = Math.max(options.batchSize ?? 32, 1);
+        this.maxRetries = Math.max(options.maxRetries ?? 3, 0);
+        this.retryDelayMs = Math.max(options.retryDelayMs ?? 250, 0);
     }
 
+    private timed<T>(operation: string, fn: () => Promise<T>): Promise<T> {
+        return this.metrics ? this.metrics.time("embedding", operation, fn) : fn();
+    }
+
     async embed(text: string): Promise<number[]> {
-        const response = await axios
-            .post(`${this.url}/embed`, { inputs: text })
-            .catch((error) => {
-                if (axios.isAxiosError(error)) {
-                    const detail =
-                        typeof error.response?.data === "string"
-                            ? error.response.data
-                            : JSON.stringify(error.response?.data);
-                    console.error("Embedding error:", detail || error.message);
-                    throw new Error(
-                        `Failed to generate embedding: ${detail || error.message}`
-                    );
-                }
-                console.error("Embedding error:", error);
-                throw new Error("Failed to generate embedding");
-            });
-        return response.data[0]; // Returns array of floats
+        const key = this.cacheKey(text);
+        const cached = this.recall(key);
+        if (cached) {
+            return cached;
+        }
+
+        let pending = this.inFlight.get(key);
+        if (!pending) {
+            pending = this.load(key, text).finally(() => this.inFlight.delete(key));
+            this.inFlight.set(key, pending);
+        }
+        return await pending;
     }
 
     async embedBatch(texts: string[]): Promise<number[][]> {
-        const response = await axios
-            .post(`${this.url}/embed`, { inputs: texts })
-            .catch((error) => {
-                if (axios.isAxiosError(error)) {
-                    const detail =
-                        typeof error.response?.data === "string"
-                            ? error.response.data
-                            : JSON.stringify(error.response?.data);
-                    console.error("Batch embedding error:", detail || error.message);
-                    throw new Error(
-                        `Failed to generate batch embeddings: ${detail || error.message}`
-                    );
+        return await Promise.all(texts.map((text) => this.embed(text)));
+    }
+
+    private async load(key: string, text: string): Promise<number[]> {
+        const stored = await this.readFromDisk(key);
+        if (stored) {
+            this.remember(key, stored);
+            return stored;
+        }
+
+        const vector = await new Promise<number[]>((resolve, reject) => {
+            this.queue.push({ text, resolve, reject });
+            this.scheduleFlush();
+        });
+        this.remember(key, vector);
+        await this.writeToDisk(key, vector);
+        return vector;
+    }
+
+    // Texts queued in the same tick go out together, `batchSize` at a time.
+    private scheduleFlush() {
+        if (this.flushScheduled) {
+            return;
+        }
+        this.flushScheduled = true;
+        setImmediate(() => {
+            this.flushScheduled = false;
+            void this.flush();
+        });
+    }
+
+    private async flush() {
+        while (this.queue.length > 0) {
+            const batch = this.queue.splice(0, this.batchSize);
+            try {
+                const vectors = await this.request(batch.map((entry) => entry.text));
+                batch.forEach((entry, index) => {
+                    const vector = vectors[index];
+                    if (Array.isArray(vector)) {
+                        entry.resolve(vector);
+                    } else {
+                        entry.reject(new Error("Failed to generate embedding: service returned fewer vectors than inputs"));
+                    }
+                });
+            } catch (error) {
+                batch.forEach((entry) => entry.reject(error));
+            }
+        }
+    }
+
+    private async request(texts: string[]): Promise<number[][]> {
+        const operation = texts.length === 1 ? "embed" : "embed_batch";
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await this.timed(operation, () => this.provider.embed(texts));
+            } catch (error) {
+                const detail = describeError(error);
+                if (attempt >= this.maxRetries || !isRetryable(error)) {
+                    console.error("Embedding error:", detail);
+                    throw new Error(`Failed to generate embedding${texts.length === 1 ? "" : "s"}: ${detail}`);
                 }
-                console.error("Batch embedding error:", error);
-                throw new Error("Failed to generate batch embeddings");
-            });
-        return response.data;
+                const delayMs = this.retryDelayMs * 2 ** attempt;
+                console.warn("[Embedding] Request failed, retrying", { attempt: attempt + 1, delayMs, error: detail });
+                await sleep(delayMs);
+            }
+        }
+    }
+
+    private cacheKey(text: string) {
+        return createHash("sha256").update(this.provider.id).update("\n").update(text).digest("hex");
+    }
+
+    private recall(key: string) {
+        const vector = this.memory.get(key);
+        if (vector) {
+            // Re-insert so the Map's insertion order doubles as LRU order.
+            this.memory.delete(key);
+            this.memory.set(key, vector);
+        }
+        return vector;
+    }
+
+    private remember(key: string, vector: number[]) {
+        if (this.memoryCacheSize === 0) {
+            return;
+        }
+        this.memory.delete(key);
+        this.memory.set(key, vector);
+        if (this.memory.size > this.memoryCacheSize) {
+            this.memory.delete(this.memory.keys().next().value!);
+        }
+    }
+
+    private cachePath(key: string) {
+        return path.join(this.cacheDir!, key.slice(0, 2), `${key}.json`);
+    }
+
+    private async readFromDisk(key: string): Promise<number[] | undefined> {
+        if (!this.cacheDir) {
+            return undefined;
+        }
+        try {
+            const parsed = JSON.parse(await readFile(this.cachePath(key), "utf-8"));
+            return Array.isArray(parsed) ? parsed : undefined;
+        } catch (error: any) {
+            if (error?.code !== "ENOENT") {
+                console.warn("[Embedding] Ignoring unreadable cache entry", { key, error: describeError(error) });
+            }
+            return undefined;
+        }
+    }
+
+    // A failed cache write only costs a future re-embed, so it is logged rather than thrown.
+    private async writeToDisk(key: string, vector: number[]) {
+        if (!this.cacheDir) {
+            return;
+        }
+        try {
+            const file = this.cachePath(key);
+            await mkdir(path.dirname(file), { recursive: true });
+            await writeFile(file, JSON.stringify(vector), "utf-8");
+        } catch (error) {
+            console.warn("[Embedding] Failed to write cache entry", { key, error: describeError(error) });
+        }
     }
 }
@@ -0,0 +1,185 @@
+import { randomUUID } from "crypto";
+
+import { QdrantService } from "./qdrant.service.js";
+import { EmbeddingService } from "./embedding.service.js";
+import { ProjectService } from "./project.service.js";
+import { Neo4jService } from "./neo4j.service.js";
+import { linkText } from "../utils/embeddingText.js";
+
+export const LINK_TYPES = ["implements", "blocks", "documents", "tests", "supersedes"] as const;
+
+export type LinkType = (typeof LINK_TYPES)[number];
+
+export type LinkDirection = "outbound" | "inbound" | "both";
+
+export type RecordRef = {
+    type: string;
+    id: string;
+};
+
+export type RecordLink = {
+    id: string;
+    source_type: string;
+    source_id: string;
+    target_type: string;
+    target_id: string;
+    link_type: LinkType;
+    note: string | null;
+    created_by: string | null;
+    created_at: string;
+};
+
+type LinkInput = {
+    source: RecordRef & { title: string | null };
+    target: RecordRef & { title: string | null };
+    linkType: LinkType;
+    note?: string | null;
+    createdBy?: string | null;
+};
+
+/** Id of the Neo4j node that stands in for a record. */
+export const recordNodeId = (ref: RecordRef) => `record:${ref.type}:${ref.id}`;
+
+const endpointFilter = (side: "source" | "target", ref: RecordRef, linkType?: LinkType) => ({
+    must: [
+        { key: `${side}_type`, match: { value: ref.type } },
+        { key: `${side}_id`, match: { value: ref.id } },
+        ...(linkType ? [{ key: "link_type", match: { value: linkType } }] : [])
+    ]
+});
+
+/**
+ * Typed links between records of any collection. Qdrant holds the links; each one
+ * is mirrored into Neo4j as a relationship between `Record` nodes so graph queries
+ * can walk from code entities to the backlog, ADRs and tests that mention them.
+ * A failed mirror is reported, not fatal: the Qdrant copy stays authoritative.
+ */
+export class LinkService {
+    private collection = "record_links";
+
+    constructor(
+        private qdrant: QdrantService,
+        private embedding: EmbeddingService,
+        private projects: ProjectService,
+        private neo4j: Neo4jService
+    ) {}
+
+    async link(projectId: string, input: LinkInput) {
+        const existing = await this.findLink(projectId, input.source, input.target, input.linkType);
+        let link = existing;
+
+        if (!link) {
+            link = {
+                id: randomUUID(),
+                source_type: input.source.type,
+                source_id: input.source.id,
+                target_type: input.target.type,
+                target_id: input.target.id,
+                link_type: input.linkType,
+                note: input.note ?? null,
+                created_by: input.createdBy ?? null,
+                created_at: new Date().toISOString()
+            };
+
+            const vector = await this.embedding.embed(linkText(link));
+            const { id, ...payload } = link;
+            await this.qdrant.upsert(this.getCollection(projectId), [{ id, vector, payload }]);
+        }
+
+        const graphSynced = await this.mirror("upsert", () =>
+            this.neo4j.upsertRecordLink(projectId, {
+                linkId: link.id,
+                type: link.link_type.toUpperCase(),
+                source: {
+                    id: recordNodeId(input.source),
+                    recordType: input.source.type,
+                    recordId: input.source.id,
+                    name: input.source.title
+                },
+                target: {
+                    id: recordNodeId(input.target),
+                    recordType: input.target.type,
+                    recordId: input.target.id,
+                    name: input.target.title
+                },
+                properties: { created_at: link.created_at, created_by: link.created_by, note: link.note }
+            })
+        );
+
+        return { link, created: !existing, graphSynced };
+    }
+
+    /** Removes links from source to target, of one type or of every type. */
+    async unlink(projectId: string, source: RecordRef, target: RecordRef, linkType?: LinkType) {
+        const links = (await this.listLinks(projectId, source, "outbound", linkType)).filter(
+            (link) => link.target_type === target.type && link.target_id === target.id
+        );
+        const graphSynced = await this.remove(projectId, links);
+        return { links, graphSynced };
+    }
+
+    /** Removes every link that starts or ends at the record; called when the record is deleted. */
+    async unlinkRecord(projectId: string, ref: RecordRef) {
+        const links = await this.listLinks(projectId, ref, "both");
+        const graphSynced = await this.remove(projectId, links);
+        return { links, graphSynced };
+    }
+
+    async listLinks(projectId: string, ref: RecordRef, direction: LinkDirection, linkType?: LinkType) {
+        const collection = this.getCollection(projectId);
+        const sides: Array<"source" | "target"> =
+            direction === "both" ? ["source", "target"] : [direction === "outbound" ? "source" : "target"];
+
+        const links: RecordLink[] = [];
+        for (const side of sides) {
+            const points = await this.qdrant.scrollAll(collection, endpointFilter(side, ref, linkType));
+            links.push(...points.map((point) => this.mapPoint(point)));
+        }
+        return links.sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id.localeCompare(b.id));
+    }
+
+    private async findLink(projectId: string, source: RecordRef, target: RecordRef, linkType: LinkType) {
+        const links = await this.listLinks(projectId, source, "outbound", linkType);
+        return links.find((link) => link.target_type === target.type && link.target_id === target.id);
+    }
+
+    private async remove(projectId: string, links: RecordLink[]) {
+        if (links.length === 0) {
+            return true;
+        }
+        const ids = links.map((link) => link.id);
+        await this.qdrant.deletePoints(this.getCollection(projectId), ids);
+        return this.mirror("delete", () => this.neo4j.deleteRecordLinks(projectId, ids));
+    }
+
+    private async mirror(operation: string, write: () => Promise<unknown>) {
+        try {
+            await write();
+            return true;
+        } catch (error) {
+            console.error(`[LinkService] Neo4j ${operation} failed`, {
+                error: error instanceof Error ? error.message : String(error)
+            });
+            return false;
+        }
+    }
+
+    private mapPoint(point: any): RecordLink {
+        const payload = point.payload ?? {};
+        return {
+            id: typeof point.id === "string" ? point.id : String(point.id),
+            source_type: payload.source_type ?? "",
+            source_id: payload.source_id ?? "",
+            target_type: payload.target_type ?? "",
+            target_id: payload.target_id ?? "",
+            link_type: payload.link_type,
+            note: typeof payload.note === "string" ? payload.note : null,
+            created_by: typeof payload.created_by === "string" ? payload.created_by : null,
+            created_at: payload.created_at ?? ""
+        };
+    }
+
+    private getCollection(projectId: string) {
+        return this.projects.collectionName(projectId, this.collection);
+    }
+}
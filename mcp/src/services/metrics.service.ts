@@ -0,0 +1,257 @@
+import { mkdir, readFile, readdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+export type DependencyName = "embedding" | "qdrant";
+
+// Upper bounds in seconds, shared by tool and dependency histograms.
+const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+const FLUSH_INTERVAL_MS = 60 * 1000;
+
+type Histogram = {
+    bucketCounts: number[];
+    sum: number;
+    count: number;
+};
+
+type CallSeries = {
+    labels: Record<string, string>;
+    calls: number;
+    errors: number;
+    latency: Histogram;
+};
+
+type RollupEntry = {
+    calls: number;
+    errors: number;
+    total_ms: number;
+    max_ms: number;
+};
+
+export type ToolRollup = RollupEntry & { tool: string; project: string };
+export type DependencyRollup = RollupEntry & { dependency: DependencyName; operation: string };
+
+export type DailyRollup = {
+    date: string;
+    updated_at: string;
+    tools: ToolRollup[];
+    dependencies: DependencyRollup[];
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const escapeLabel = (value: string) => value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+const formatLabels = (labels: Record<string, string>) => {
+    const entries = Object.entries(labels);
+    return entries.length > 0
+        ? `{${entries.map(([key, value]) => `${key}="${escapeLabel(value)}"`).join(",")}}`
+        : "";
+};
+
+/**
+ * Tool and dependency call metrics. Counters and latency histograms live in
+ * memory and are rendered for Prometheus; per-day totals are also written to
+ * `<metricsDir>/<YYYY-MM-DD>.json` so usage survives restarts.
+ */
+export class MetricsService {
+    private toolSeries = new Map<string, CallSeries>();
+    private dependencySeries = new Map<string, CallSeries>();
+    private rollupDate = today();
+    private toolRollups = new Map<string, ToolRollup>();
+    private dependencyRollups = new Map<string, DependencyRollup>();
+    private dirty = false;
+
+    constructor(private metricsDir: string) {}
+
+    async initialize() {
+        await mkdir(this.metricsDir, { recursive: true });
+        const existing = await this.readRollup(this.rollupDate);
+        if (existing) {
+            for (const entry of existing.tools) {
+                this.toolRollups.set(`${entry.tool}|${entry.project}`, { ...entry });
+            }
+            for (const entry of existing.dependencies) {
+                this.dependencyRollups.set(`${entry.dependency}|${entry.operation}`, { ...entry });
+            }
+        }
+
+        const timer = setInterval(() => {
+            this.flush().catch((error) => {
+                console.error("[Metrics] Failed to write daily rollup", {
+                    error: error instanceof Error ? error.message : String(error)
+                });
+            });
+        }, FLUSH_INTERVAL_MS);
+        timer.unref();
+    }
+
+    recordToolCall(tool: string, project: string, durationMs: number, ok: boolean) {
+        this.observe(this.toolSeries, `${tool}|${project}`, { tool, project }, durationMs, ok);
+        this.rollOver();
+        const key = `${tool}|${project}`;
+        const rollup = this.toolRollups.get(key) ?? { tool, project, calls: 0, errors: 0, total_ms: 0, max_ms: 0 };
+        this.toolRollups.set(key, this.accumulate(rollup, durationMs, ok));
+    }
+
+    recordDependencyCall(dependency: DependencyName, operation: string, durationMs: number, ok: boolean) {
+        this.observe(this.dependencySeries, `${dependency}|${operation}`, { dependency, operation }, durationMs, ok);
+        this.rollOver();
+        const key = `${dependency}|${operation}`;
+        const rollup =
+            this.dependencyRollups.get(key) ?? { dependency, operation, calls: 0, errors: 0, total_ms: 0, max_ms: 0 };
+        this.dependencyRollups.set(key, this.accumulate(rollup, durationMs, ok));
+    }
+
+    async time<T>(dependency: DependencyName, operation: string, fn: () => Promise<T>): Promise<T> {
+        const startedAt = performance.now();
+        try {
+            const result = await fn();
+            this.recordDependencyCall(dependency, operation, performance.now() - startedAt, true);
+            return result;
+        } catch (error) {
+            this.recordDependencyCall(dependency, operation, performance.now() - startedAt, false);
+            throw error;
+        }
+    }
+
+    async flush() {
+        if (!this.dirty) {
+            return;
+        }
+        this.dirty = false;
+        await this.writeRollup(this.currentRollup());
+    }
+
+    /** Daily rollups for the last `days` days (today included), newest first. */
+    async listRollups(days: number): Promise<DailyRollup[]> {
+        const files = (await readdir(this.metricsDir).catch(() => [] as string[]))
+            .filter((file) => /^\d{4}-\d{2}-\d{2}\.json$/.test(file))
+            .map((file) => file.slice(0, 10))
+            .filter((date) => date !== this.rollupDate)
+            .sort()
+            .reverse()
+            .slice(0, Math.max(days - 1, 0));
+
+        const rollups: DailyRollup[] = [this.currentRollup()];
+        for (const date of files) {
+            const rollup = await this.readRollup(date);
+            if (rollup) {
+                rollups.push(rollup);
+            }
+        }
+        return rollups;
+    }
+
+    renderPrometheus(): string {
+        const lines: string[] = [];
+        this.renderCalls(lines, "mcp_tool", "MCP tool", this.toolSeries);
+        this.renderCalls(lines, "mcp_dependency", "Embedding service and Qdrant", this.dependencySeries);
+        return `${lines.join("\n")}\n`;
+    }
+
+    private renderCalls(lines: string[], prefix: string, subject: string, series: Map<string, CallSeries>) {
+        const all = Array.from(series.values());
+
+        lines.push(`# HELP ${prefix}_calls_total ${subject} calls since the server started.`);
+        lines.push(`# TYPE ${prefix}_calls_total counter`);
+        for (const entry of all) {
+            lines.push(`${prefix}_calls_total${formatLabels({ ...entry.labels, outcome: "success" })} ${entry.calls - entry.errors}`);
+            lines.push(`${prefix}_calls_total${formatLabels({ ...entry.labels, outcome: "error" })} ${entry.errors}`);
+        }
+
+        lines.push(`# HELP ${prefix}_duration_seconds ${subject} call latency.`);
+        lines.push(`# TYPE ${prefix}_duration_seconds histogram`);
+        for (const entry of all) {
+            LATENCY_BUCKETS.forEach((bound, index) => {
+                lines.push(
+                    `${prefix}_duration_seconds_bucket${formatLabels({ ...entry.labels, le: String(bound) })} ${entry.latency.bucketCounts[index]}`
+                );
+            });
+            lines.push(`${prefix}_duration_seconds_bucket${formatLabels({ ...entry.labels, le: "+Inf" })} ${entry.latency.count}`);
+            lines.push(`${prefix}_duration_seconds_sum${formatLabels(entry.labels)} ${entry.latency.sum}`);
+            lines.push(`${prefix}_duration_seconds_count${formatLabels(entry.labels)} ${entry.latency.count}`);
+        }
+    }
+
+    private observe(
+        series: Map<string, CallSeries>,
+        key: string,
+        labels: Record<string, string>,
+        durationMs: number,
+        ok: boolean
+    ) {
+        const entry = series.get(key) ?? {
+            labels,
+            calls: 0,
+            errors: 0,
+            latency: { bucketCounts: LATENCY_BUCKETS.map(() => 0), sum: 0, count: 0 }
+        };
+        const seconds = durationMs / 1000;
+        entry.calls += 1;
+        entry.errors += ok ? 0 : 1;
+        entry.latency.count += 1;
+        entry.latency.sum += seconds;
+        LATENCY_BUCKETS.forEach((bound, index) => {
+            if (seconds <= bound) {
+                entry.latency.bucketCounts[index] += 1;
+            }
+        });
+        series.set(key, entry);
+    }
+
+    private accumulate<T extends RollupEntry>(rollup: T, durationMs: number, ok: boolean): T {
+        this.dirty = true;
+        return {
+            ...rollup,
+            calls: rollup.calls + 1,
+            errors: rollup.errors + (ok ? 0 : 1),
+            total_ms: Math.round((rollup.total_ms + durationMs) * 1000) / 1000,
+            max_ms: Math.max(rollup.max_ms, Math.round(durationMs * 1000) / 1000)
+        };
+    }
+
+    // At midnight the finished day is written out and a fresh rollup starts.
+    private rollOver() {
+        const date = today();
+        if (date === this.rollupDate) {
+            return;
+        }
+        const finished = this.currentRollup();
+        this.writeRollup(finished).catch((error) => {
+            console.error("[Metrics] Failed to write daily rollup", {
+                date: finished.date,
+                error: error instanceof Error ? error.message : String(error)
+            });
+        });
+        this.rollupDate = date;
+        this.toolRollups.clear();
+        this.dependencyRollups.clear();
+        this.dirty = false;
+    }
+
+    private currentRollup(): DailyRollup {
+        return {
+            date: this.rollupDate,
+            updated_at: new Date().toISOString(),
+            tools: Array.from(this.toolRollups.values()).sort((a, b) => b.calls - a.calls),
+            dependencies: Array.from(this.dependencyRollups.values()).sort((a, b) => b.calls - a.calls)
+        };
+    }
+
+    private async readRollup(date: string): Promise<DailyRollup | null> {
+        try {
+            const raw = await readFile(path.join(this.metricsDir, `${date}.json`), "utf-8");
+            return JSON.parse(raw) as DailyRollup;
+        } catch (error: any) {
+            if (error && error.code === "ENOENT") {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    private async writeRollup(rollup: DailyRollup) {
+        await writeFile(path.join(this.metricsDir, `${rollup.date}.json`), JSON.stringify(rollup, null, 2), "utf-8");
+    }
+}
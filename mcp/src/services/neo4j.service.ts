@@ -24,6 +24,35 @@ export interface GraphEntitySummary {
     metadata?: Record<string, unknown>;
 }
 
+export interface GraphSnapshot {
+    nodes: Array<{
+        id: string;
+        labels: string[];
+        properties: Record<string, unknown>;
+    }>;
+    relationships: Array<{
+        type: string;
+        sourceId: string;
+        targetId: string;
+        properties: Record<string, unknown>;
+    }>;
+}
+
+export interface RecordNode {
+    id: string;
+    recordType: string;
+    recordId: string;
+    name: string | null;
+}
+
+export interface RecordLinkEdge {
+    linkId: string;
+    type: string;
+    source: RecordNode;
+    target: RecordNode;
+    properties?: Record<string, unknown>;
+}
+
 export class Neo4jService {
     private driver: Driver;
 
@@ -219,6 +248,142 @@ export class Neo4jService {
         }
     }
 
+    async restoreProject(projectId: string, snapshot: GraphSnapshot) {
+        const session = this.driver.session();
+        let nodes = 0;
+        let relationships = 0;
+        try {
+            const nodesByLabels = new Map<string, GraphSnapshot["nodes"]>();
+            for (const node of snapshot.nodes) {
+                const labels = Array.from(
+                    new Set(["Entity", ...(node.labels ?? []).map((label) => this.sanitizeIdentifier(label))])
+                )
+                    .filter(Boolean)
+                    .sort();
+                const key = labels.join(":");
+                const group = nodesByLabels.get(key) ?? [];
+                group.push(node);
+                nodesByLabels.set(key, group);
+            }
+
+            for (const [labels, group] of nodesByLabels) {
+                await session.run(
+                    `
+                    UNWIND $nodes AS node
+                    CREATE (n:${labels})
+                    SET n = node.properties, n.id = node.id, n.project = $project
+                    `,
+                    {
+                        project: projectId,
+                        nodes: group.map((node) => ({
+                            id: node.id,
+                            properties: node.properties ?? {}
+                        }))
+                    }
+                );
+                nodes += group.length;
+            }
+
+            const relationshipsByType = new Map<string, GraphSnapshot["relationships"]>();
+            for (const relationship of snapshot.relationships) {
+                const type = this.sanitizeIdentifier(relationship.type);
+                if (!type) {
+                    continue;
+                }
+                const group = relationshipsByType.get(type) ?? [];
+                group.push(relationship);
+                relationshipsByType.set(type, group);
+            }
+
+            for (const [type, group] of relationshipsByType) {
+                const result = await session.run(
+                    `
+                    UNWIND $relationships AS rel
+                    MATCH (source:Entity {id: rel.sourceId, project: $project})
+                    MATCH (target:Entity {id: rel.targetId, project: $project})
+                    CREATE (source)-[r:${type}]->(target)
+                    SET r = rel.properties, r.project = $project
+                    RETURN count(r) AS created
+                    `,
+                    {
+                        project: projectId,
+                        relationships: group.map((relationship) => ({
+                            sourceId: relationship.sourceId,
+                            targetId: relationship.targetId,
+                            properties: relationship.properties ?? {}
+                        }))
+                    }
+                );
+                relationships += Number(result.records[0]?.get("created") ?? 0);
+            }
+
+            return { nodes, relationships };
+        } finally {
+            await session.close();
+        }
+    }
+
+    /**
+     * Mirrors a record link as a relationship between `Record` entities, creating
+     * the endpoint nodes on first use. Relationships are keyed by `linkId`, so
+     * repeating the call only refreshes names and properties.
+     */
+    async upsertRecordLink(projectId: string, link: RecordLinkEdge) {
+        const type = this.sanitizeIdentifier(link.type);
+        if (!type) {
+            throw new Error(`Invalid relationship type '${link.type}'`);
+        }
+
+        const session = this.driver.session();
+        try {
+            await session.run(
+                `
+                MERGE (source:Entity:Record {id: $source.id, project: $project})
+                SET source.type = $source.recordType, source.recordId = $source.recordId, source.name = $source.name
+                MERGE (target:Entity:Record {id: $target.id, project: $project})
+                SET target.type = $target.recordType, target.recordId = $target.recordId, target.name = $target.name
+                MERGE (source)-[rel:${type} {linkId: $linkId, project: $project}]->(target)
+                SET rel += $properties
+                `,
+                {
+                    project: projectId,
+                    source: link.source,
+                    target: link.target,
+                    linkId: link.linkId,
+                    properties: link.properties ?? {}
+                }
+            );
+        } finally {
+            await session.close();
+        }
+    }
+
+    /** Removes mirrored link relationships, then any `Record` node left without relationships. */
+    async deleteRecordLinks(projectId: string, linkIds: string[]) {
+        if (linkIds.length === 0) {
+            return;
+        }
+
+        const session = this.driver.session();
+        try {
+            await session.run(
+                `
+                MATCH (source:Record {project: $project})-[rel]->(target:Record {project: $project})
+                WHERE rel.linkId IN $linkIds
+                DELETE rel
+                WITH collect(source) + collect(target) AS endpoints
+                UNWIND endpoints AS node
+                WITH DISTINCT node
+                WHERE NOT (node)--()
+                DELETE node
+                `,
+                { project: projectId, linkIds }
+            );
+        } finally {
+            await session.close();
+        }
+    }
+
     async clearProject(projectId: string) {
         const session = this.driver.session();
         try {
@@ -274,6 +439,10 @@ export class Neo4jService {
         };
     }
 
+    private sanitizeIdentifier(value: string): string {
+        return (value ?? "").replace(/[^A-Za-z0-9_]/g, "");
+    }
+
     private safeParseJSON<T = Record<string, unknown>>(
         text: string | undefined
     ): T | undefined {
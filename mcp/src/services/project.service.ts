@@ -3,12 +3,14 @@ import path from "node:path";
 import { fileURLToPath } from "node:url";
 
 import { QdrantService, CollectionOptions } from "./qdrant.service.js";
+import { BacklogWorkflow, DEFAULT_WORKFLOW, parseWorkflow } from "../utils/workflow.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 const projectRoot = path.resolve(__dirname, "../..");
-const projectsFilePath = path.join(projectRoot, "config", "projects.json");
-const collectionsFilePath = path.join(projectRoot, "config", "collections.json");
+const configDir = process.env.CONFIG_DIR ? path.resolve(process.env.CONFIG_DIR) : path.join(projectRoot, "config");
+const projectsFilePath = path.join(configDir, "projects.json");
+const collectionsFilePath = path.join(configDir, "collections.json");
 
 type CollectionConfig = {
     name: string;
@@ -26,6 +28,8 @@ type ProjectsFile = {
     locks?: {
         features?: string[];
     };
+    archived?: string[];
+    workflows?: Record<string, BacklogWorkflow>;
 };
 
 export class ProjectService {
@@ -33,6 +37,8 @@ export class ProjectService {
     private defaultProject = "default";
     private collections: CollectionConfig[] = [];
     private featureLocks = new Set<string>();
+    private archivedProjects = new Set<string>();
+    private workflows = new Map<string, BacklogWorkflow>();
 
     constructor(private qdrant: QdrantService) {}
 
@@ -40,6 +46,10 @@ export class ProjectService {
         await this.loadCollectionsConfig();
         await this.loadProjectsFile();
         await this.ensureDefaultProject();
+        // Collections added to config/collections.json after a project was created are provisioned here.
+        for (const projectId of this.projects) {
+            await this.ensureProjectCollections(projectId);
+        }
     }
 
     getDefaultProject(): string {
@@ -73,6 +83,44 @@ export class ProjectService {
         await this.saveProjectsFile();
     }
 
+    isProjectArchived(projectId: string): boolean {
+        return this.archivedProjects.has(this.normalizeProjectId(projectId));
+    }
+
+    async setProjectArchived(projectId: string, archived: boolean): Promise<void> {
+        const normalized = this.requireProject(projectId);
+        if (archived && normalized === this.defaultProject) {
+            throw new Error("The default project cannot be archived");
+        }
+        if (archived) {
+            this.archivedProjects.add(normalized);
+        } else {
+            this.archivedProjects.delete(normalized);
+        }
+        await this.saveProjectsFile();
+    }
+
+    /** The project's backlog status workflow, or the default one when none is configured. */
+    getBacklogWorkflow(projectId: string): BacklogWorkflow {
+        return this.workflows.get(this.normalizeProjectId(projectId)) ?? DEFAULT_WORKFLOW;
+    }
+
+    hasCustomBacklogWorkflow(projectId: string): boolean {
+        return this.workflows.has(this.normalizeProjectId(projectId));
+    }
+
+    /** Stores a validated workflow for the project; null restores the default. */
+    async setBacklogWorkflow(projectId: string, workflow: BacklogWorkflow | null): Promise<BacklogWorkflow> {
+        const normalized = this.requireProject(projectId);
+        if (workflow) {
+            this.workflows.set(normalized, parseWorkflow(workflow));
+        } else {
+            this.workflows.delete(normalized);
+        }
+        await this.saveProjectsFile();
+        return this.getBacklogWorkflow(normalized);
+    }
+
     requireProject(projectId: string): string {
         const normalized = this.normalizeProjectId(projectId);
         if (!this.projects.has(normalized)) {
@@ -81,6 +129,18 @@ export class ProjectService {
         return normalized;
     }
 
+    normalizeProjectId(projectId: string): string {
+        const trimmed = projectId.trim().toLowerCase();
+        const sanitized = trimmed
+            .replace(/[^a-z0-9-_]/g, "-")
+            .replace(/-+/g, "-")
+            .replace(/^-+|-+$/g, "");
+        if (!sanitized) {
+            throw new Error("Project identifier must contain alphanumeric characters");
+        }
+        return sanitized;
+    }
+
     collectionName(projectId: string, baseCollection: string): string {
         return `${projectId}__${baseCollection}`;
     }
@@ -105,18 +165,12 @@ export class ProjectService {
             throw new Error(`Project '${projectId}' already exists`);
         }
 
-        for (const definition of this.collections) {
-            const collectionName = this.collectionName(projectId, definition.name);
-            await this.qdrant.ensureCollection(collectionName, {
-                size: definition.dimension,
-                distance: definition.distance,
-                onDiskPayload: definition.onDiskPayload,
-                optimizersConfig: definition.optimizersConfig
-            });
-        }
+        await this.ensureProjectCollections(projectId);
 
         this.projects.add(projectId);
         this.featureLocks.delete(projectId);
+        this.archivedProjects.delete(projectId);
+        this.workflows.delete(projectId);
         await this.saveProjectsFile();
 
         return {
@@ -125,6 +179,43 @@ export class ProjectService {
         };
     }
 
+    async deleteProject(rawProjectId: string) {
+        const projectId = this.requireProject(rawProjectId);
+        if (projectId === this.defaultProject) {
+            throw new Error("The default project cannot be deleted");
+        }
+
+        for (const definition of this.collections) {
+            await this.qdrant.deleteCollection(this.collectionName(projectId, definition.name));
+        }
+
+        // Older versions the re-embed command keeps for rollback (`<project>__<collection>__<version>`).
+        const { collections } = await this.qdrant.listCollections();
+        for (const { name } of collections) {
+            if (this.collections.some((definition) => name.startsWith(`${this.collectionName(projectId, definition.name)}__`))) {
+                await this.qdrant.deleteCollection(name);
+            }
+        }
+
+        this.projects.delete(projectId);
+        this.featureLocks.delete(projectId);
+        this.archivedProjects.delete(projectId);
+        this.workflows.delete(projectId);
+        await this.saveProjectsFile();
+    }
+
+    private async ensureProjectCollections(projectId: string) {
+        for (const definition of this.collections) {
+            const collectionName = this.collectionName(projectId, definition.name);
+            await this.qdrant.ensureCollection(collectionName, {
+                size: definition.dimension,
+                distance: definition.distance,
+                onDiskPayload: definition.onDiskPayload,
+                optimizersConfig: definition.optimizersConfig
+            });
+        }
+    }
+
     private async ensureDefaultProject() {
         const desiredDefault =
             process.env.DEFAULT_PROJECT?.trim().toLowerCase() ||
@@ -173,6 +264,30 @@ export class ProjectService {
                         this.featureLocks.add(project);
                     }
                 });
+
+            const archivedEntries = parsed.archived ?? [];
+            archivedEntries
+                .map((project) => this.normalizeProjectId(project))
+                .forEach((project) => {
+                    if (this.projects.has(project)) {
+                        this.archivedProjects.add(project);
+                    }
+                });
+
+            for (const [project, workflow] of Object.entries(parsed.workflows ?? {})) {
+                const normalized = this.normalizeProjectId(project);
+                if (!this.projects.has(normalized)) {
+                    continue;
+                }
+                try {
+                    this.workflows.set(normalized, parseWorkflow(workflow));
+                } catch (error) {
+                    console.warn(
+                        `[ProjectService] Ignoring invalid backlog workflow for '${normalized}', using the default:`,
+                        error instanceof Error ? error.message : error
+                    );
+                }
+            }
         } catch (error: any) {
             if (error?.code !== "ENOENT") {
                 throw error;
@@ -191,19 +306,16 @@ export class ProjectService {
         if (featureLocks.length > 0) {
             payload.locks = { features: featureLocks };
         }
-        await writeFile(projectsFilePath, JSON.stringify(payload, null, 2), "utf8");
-    }
-
-    private normalizeProjectId(projectId: string): string {
-        const trimmed = projectId.trim().toLowerCase();
-        const sanitized = trimmed
-            .replace(/[^a-z0-9-_]/g, "-")
-            .replace(/-+/g, "-")
-            .replace(/^-+|-+$/g, "");
-        if (!sanitized) {
-            throw new Error("Project identifier must contain alphanumeric characters");
+        const archived = Array.from(this.archivedProjects.values()).sort();
+        if (archived.length > 0) {
+            payload.archived = archived;
         }
-        return sanitized;
+        if (this.workflows.size > 0) {
+            payload.workflows = Object.fromEntries(
+                Array.from(this.workflows.entries()).sort(([a], [b]) => a.localeCompare(b))
+            );
+        }
+        await writeFile(projectsFilePath, JSON.stringify(payload, null, 2), "utf8");
     }
 
     private normalizeCollectionName(name: string): string {
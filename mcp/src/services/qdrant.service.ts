@@ -1,5 +1,7 @@
 import { QdrantClient } from "@qdrant/js-client-rest";
 
+import { MetricsService } from "./metrics.service.js";
+
 type Distance =
     | "Cosine"
     | "Euclid"
@@ -12,18 +14,88 @@ export interface CollectionOptions {
     optimizersConfig?: Record<string, unknown>;
 }
 
+export type SearchMode = "semantic" | "keyword" | "hybrid";
+
+export interface TextSearchRequest {
+    query: string;
+    /** Payload fields scored in keyword mode; string, number and string[] values are used. */
+    fields: string[];
+    /** Produces the dense query vector. Not called in keyword mode. */
+    embed: () => Promise<number[]>;
+    mode?: SearchMode;
+    limit?: number;
+    filter?: any;
+    /** Minimum cosine similarity of semantic matches. Keyword matches only need one query term. */
+    scoreThreshold?: number;
+}
+
+export interface TextSearchResult {
+    id: string | number;
+    payload?: Record<string, unknown> | null;
+    score: number;
+}
+
+// Keyword scoring reads every payload the filter matches through scroll, this many at a time.
+const KEYWORD_PAGE_SIZE = 250;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+// Reciprocal rank fusion constant; larger values flatten the difference between ranks.
+const RRF_K = 60;
+
+const TOKEN_PATTERN = /[\p{L}\p{N}_]+(?:[-.:][\p{L}\p{N}_]+)*/gu;
+
+const STOPWORDS = new Set([
+    "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "in", "is", "it",
+    "of", "on", "or", "that", "the", "this", "to", "was", "with"
+]);
+
+// Compound identifiers such as `quest-042` or `Physics.Step` are kept whole and also split into their parts.
+const tokenize = (text: string) => {
+    const tokens: string[] = [];
+    for (const word of text.toLowerCase().match(TOKEN_PATTERN) ?? []) {
+        const parts = word.split(/[-.:]/);
+        if (parts.length > 1) {
+            tokens.push(word);
+        }
+        for (const part of parts) {
+            if (part.length > 1 && !STOPWORDS.has(part)) {
+                tokens.push(part);
+            }
+        }
+    }
+    return tokens;
+};
+
+const payloadText = (payload: Record<string, unknown>, fields: string[]) =>
+    fields
+        .flatMap((field) => {
+            const value = payload[field];
+            if (typeof value === "string" || typeof value === "number") {
+                return [String(value)];
+            }
+            return Array.isArray(value) ? value.filter((entry) => typeof entry === "string") : [];
+        })
+        .join("\n");
+
 export class QdrantService {
     private client: QdrantClient;
 
-    constructor(url: string) {
-        this.client = new QdrantClient({ url });
+    /** `client` replaces the REST client, e.g. with an in-memory stand-in. */
+    constructor(url: string, private metrics?: MetricsService, client?: QdrantClient) {
+        this.client = client ?? new QdrantClient({ url });
+    }
+
+    private timed<T>(operation: string, fn: () => Promise<T>): Promise<T> {
+        return this.metrics ? this.metrics.time("qdrant", operation, fn) : fn();
     }
 
     async upsert(collection: string, points: any[]) {
-        return await this.client.upsert(collection, {
-            wait: true,
-            points
-        });
+        return await this.timed("upsert", () =>
+            this.client.upsert(collection, {
+                wait: true,
+                points
+            })
+        );
     }
 
     async search(
@@ -34,49 +106,246 @@ export class QdrantService {
         scoreThreshold?: number,
         withVector: boolean = false
     ) {
-        return await this.client.search(collection, {
-            vector,
-            limit,
-            filter,
-            score_threshold: scoreThreshold,
-            with_payload: true,
-            with_vector: withVector
-        });
+        return await this.timed("search", () =>
+            this.client.search(collection, {
+                vector,
+                limit,
+                filter,
+                score_threshold: scoreThreshold,
+                with_payload: true,
+                with_vector: withVector
+            })
+        );
     }
 
-    async scroll(collection: string, filter?: any, limit: number = 100, offset?: any) {
-        return await this.client.scroll(collection, {
-            filter,
-            limit,
-            with_payload: true,
-            with_vector: false,
-            offset
-        });
+    /**
+     * Query text search in the given mode. Semantic mode is a plain vector search;
+     * keyword mode ranks payload text by BM25; hybrid mode fuses both rankings with
+     * reciprocal rank fusion. Keyword scores are relative to the best hit (1);
+     * a hybrid result ranked first by both searches scores 1.
+     */
+    async searchText(collection: string, request: TextSearchRequest): Promise<TextSearchResult[]> {
+        const { query, fields, embed, mode = "semantic", limit = 5, filter, scoreThreshold } = request;
+
+        if (mode === "semantic") {
+            return (await this.search(collection, await embed(), limit, filter, scoreThreshold)) as TextSearchResult[];
+        }
+
+        if (mode === "keyword") {
+            return await this.keywordSearch(collection, query, fields, limit, filter);
+        }
+
+        const poolSize = Math.max(limit * 3, 20);
+        const [semantic, keyword] = await Promise.all([
+            embed().then((vector) => this.search(collection, vector, poolSize, filter, scoreThreshold)),
+            this.keywordSearch(collection, query, fields, poolSize, filter)
+        ]);
+
+        const fused = new Map<string, TextSearchResult>();
+        for (const ranking of [semantic as TextSearchResult[], keyword]) {
+            ranking.forEach((point, rank) => {
+                const key = String(point.id);
+                const entry = fused.get(key) ?? { id: point.id, payload: point.payload, score: 0 };
+                entry.score += 1 / (RRF_K + rank + 1);
+                fused.set(key, entry);
+            });
+        }
+
+        const best = 2 / (RRF_K + 1);
+        return Array.from(fused.values())
+            .sort((a, b) => b.score - a.score)
+            .slice(0, limit)
+            .map((entry) => ({ ...entry, score: entry.score / best }));
+    }
+
+    private async keywordSearch(
+        collection: string,
+        query: string,
+        fields: string[],
+        limit: number,
+        filter?: any
+    ): Promise<TextSearchResult[]> {
+        const termSet = new Set(tokenize(query));
+        const terms = Array.from(termSet);
+        if (terms.length === 0) {
+            return [];
+        }
+
+        // The whole collection is scanned so no match is missed, but only documents containing
+        // a query term are kept; the rest only add to the corpus statistics BM25 needs.
+        const matches: Array<{ point: TextSearchResult; counts: Map<string, number>; length: number }> = [];
+        const documentFrequency = new Map<string, number>();
+        let documentCount = 0;
+        let totalLength = 0;
+        let offset: any = undefined;
+        do {
+            const page: any = await this.scroll(collection, filter, KEYWORD_PAGE_SIZE, offset);
+            for (const point of page.points ?? []) {
+                const tokens = tokenize(payloadText(point.payload ?? {}, fields));
+                documentCount += 1;
+                totalLength += tokens.length;
+
+                const counts = new Map<string, number>();
+                for (const token of tokens) {
+                    if (termSet.has(token)) {
+                        counts.set(token, (counts.get(token) ?? 0) + 1);
+                    }
+                }
+                if (counts.size > 0) {
+                    for (const term of counts.keys()) {
+                        documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+                    }
+                    matches.push({ point: { id: point.id, payload: point.payload, score: 0 }, counts, length: tokens.length });
+                }
+            }
+            offset = page.next_page_offset ?? undefined;
+        } while (offset !== undefined);
+
+        if (matches.length === 0) {
+            return [];
+        }
+
+        const averageLength = totalLength / documentCount || 1;
+        const idf = new Map(
+            terms.map((term) => {
+                const frequency = documentFrequency.get(term) ?? 0;
+                return [term, Math.log(1 + (documentCount - frequency + 0.5) / (frequency + 0.5))];
+            })
+        );
+
+        const scored = matches
+            .map(({ point, counts, length }) => {
+                let score = 0;
+                for (const [term, occurrences] of counts) {
+                    score +=
+                        (idf.get(term)! * occurrences * (BM25_K1 + 1)) /
+                        (occurrences + BM25_K1 * (1 - BM25_B + (BM25_B * length) / averageLength));
+                }
+                return { ...point, score };
+            })
+            .sort((a, b) => b.score - a.score)
+            .slice(0, limit);
+
+        const top = scored[0]?.score ?? 1;
+        return scored.map((point) => ({ ...point, score: point.score / top }));
+    }
+
+    async scroll(
+        collection: string,
+        filter?: any,
+        limit: number = 100,
+        offset?: any,
+        withVector: boolean = false
+    ) {
+        return await this.timed("scroll", () =>
+            this.client.scroll(collection, {
+                filter,
+                limit,
+                with_payload: true,
+                with_vector: withVector,
+                offset
+            })
+        );
+    }
+
+    /** Every point matching the filter, read page by page. */
+    async scrollAll(collection: string, filter?: any, pageSize: number = 256) {
+        const points: any[] = [];
+        let offset: unknown = undefined;
+        do {
+            const response: any = await this.scroll(collection, filter, pageSize, offset);
+            points.push(...(response.points ?? []));
+            offset = response.next_page_offset ?? undefined;
+        } while (offset !== undefined);
+        return points;
     }
 
     async retrieve(collection: string, ids: string[]) {
-        return await this.client.retrieve(collection, {
-            ids,
-            with_payload: true,
-            with_vector: false
-        });
+        return await this.timed("retrieve", () =>
+            this.client.retrieve(collection, {
+                ids,
+                with_payload: true,
+                with_vector: false
+            })
+        );
     }
 
     async delete(collection: string, filter: any) {
-        return await this.client.delete(collection, {
-            filter
-        });
+        return await this.timed("delete", () =>
+            this.client.delete(collection, {
+                wait: true,
+                filter
+            })
+        );
     }
 
-    async setPayload(collection: string, id: string, payload: Record<string, unknown>) {
-        return await this.client.setPayload(collection, {
-            payload,
-            points: [id]
-        });
+    async deletePoints(collection: string, ids: string[]) {
+        return await this.timed("delete", () =>
+            this.client.delete(collection, {
+                wait: true,
+                points: ids
+            })
+        );
+    }
+
+    /** Merges `payload` into one point, or into each of several points. */
+    async setPayload(collection: string, ids: string | string[], payload: Record<string, unknown>) {
+        return await this.timed("set_payload", () =>
+            this.client.setPayload(collection, {
+                wait: true,
+                payload,
+                points: Array.isArray(ids) ? ids : [ids]
+            })
+        );
     }
 
     async listCollections() {
-        return await this.client.getCollections();
+        return await this.timed("list_collections", () => this.client.getCollections());
+    }
+
+    /** The collection an alias points at, or undefined when `name` is not an alias. */
+    async resolveAlias(name: string): Promise<string | undefined> {
+        const { aliases } = await this.timed("get_aliases", () => this.client.getAliases());
+        return aliases.find((alias) => alias.alias_name === name)?.collection_name;
+    }
+
+    /**
+     * Points `alias` at `collection`. Dropping the old alias and creating the new one
+     * happen in a single request, so readers never see the alias missing.
+     */
+    async switchAlias(alias: string, collection: string) {
+        const current = await this.resolveAlias(alias);
+        await this.timed("update_aliases", () =>
+            this.client.updateCollectionAliases({
+                actions: [
+                    ...(current ? [{ delete_alias: { alias_name: alias } }] : []),
+                    { create_alias: { collection_name: collection, alias_name: alias } }
+                ]
+            })
+        );
+    }
+
+    async deleteAlias(alias: string) {
+        await this.timed("update_aliases", () =>
+            this.client.updateCollectionAliases({ actions: [{ delete_alias: { alias_name: alias } }] })
+        );
+    }
+
+    /** Vector size and point count of a collection (or alias target), or undefined when it does not exist. */
+    async describeCollection(name: string): Promise<{ vectorSize?: number; points: number } | undefined> {
+        const target = (await this.resolveAlias(name)) ?? name;
+        try {
+            const info: any = await this.client.getCollection(target);
+            const vectors = info.config?.params?.vectors;
+            const { count } = await this.client.count(target, { exact: true });
+            return { vectorSize: typeof vectors?.size === "number" ? vectors.size : undefined, points: count };
+        } catch (error: any) {
+            const status = typeof error?.status === "number" ? error.status : error?.response?.status;
+            if (status === 404) {
+                return undefined;
+            }
+            throw error;
+        }
     }
 
     async ensureCollection(name: string, options: CollectionOptions) {
@@ -90,6 +359,11 @@ export class QdrantService {
             }
         }
 
+        // A collection migrated by the re-embed command is reached through an alias.
+        if (await this.resolveAlias(name)) {
+            return { created: false };
+        }
+
         await this.client.createCollection(name, {
             vectors: {
                 size: options.size,
@@ -102,7 +376,13 @@ export class QdrantService {
         return { created: true };
     }
 
+    /** Deletes a collection. For an alias, the alias and the collection it points at are deleted. */
     async deleteCollection(name: string) {
+        const target = await this.resolveAlias(name);
+        if (target) {
+            await this.deleteAlias(name);
+            name = target;
+        }
         try {
             await this.client.deleteCollection(name);
         } catch (error: any) {
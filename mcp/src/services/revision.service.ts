@@ -0,0 +1,153 @@
+import { randomUUID } from "crypto";
+
+import { QdrantService } from "./qdrant.service.js";
+import { EmbeddingService } from "./embedding.service.js";
+import { ProjectService } from "./project.service.js";
+import { revisionText } from "../utils/embeddingText.js";
+import { diffRecords, FieldChange } from "../utils/recordDiff.js";
+
+export type RevisionRecordType = "backlog" | "feature";
+
+export type RevisionAction = "update" | "revert";
+
+export type RecordRevision = {
+    id: string;
+    record_type: RevisionRecordType;
+    record_id: string;
+    action: RevisionAction;
+    author: string | null;
+    created_at: string;
+    changes: FieldChange[];
+    before: Record<string, unknown>;
+    reverted_revision: string | null;
+};
+
+/** Passed by the revert path so the resulting revision points back at what it undid. */
+export type RevisionContext = {
+    action?: RevisionAction;
+    revertedRevision?: string;
+};
+
+type RecordRevisionInput = {
+    recordType: RevisionRecordType;
+    recordId: string;
+    before: Record<string, unknown>;
+    after: Record<string, unknown>;
+    author?: string | null;
+    action?: RevisionAction;
+    revertedRevision?: string | null;
+};
+
+/**
+ * Append-only log of record overwrites. Each revision keeps the full state the
+ * record had before the write, so any revision can be undone by restoring it.
+ */
+export class RevisionService {
+    private collection = "record_revisions";
+
+    constructor(
+        private qdrant: QdrantService,
+        private embedding: EmbeddingService,
+        private projects: ProjectService
+    ) {}
+
+    async recordRevision(projectId: string, input: RecordRevisionInput): Promise<RecordRevision | null> {
+        const [revision] = await this.recordRevisions(projectId, [input]);
+        return revision ?? null;
+    }
+
+    /** Logs several writes with one embedding batch and one upsert; writes that changed nothing are skipped. */
+    async recordRevisions(projectId: string, inputs: RecordRevisionInput[]): Promise<RecordRevision[]> {
+        const createdAt = new Date().toISOString();
+        const revisions: RecordRevision[] = [];
+        for (const input of inputs) {
+            const changes = diffRecords(input.before, input.after);
+            if (changes.length === 0) {
+                continue;
+            }
+            revisions.push({
+                id: randomUUID(),
+                record_type: input.recordType,
+                record_id: input.recordId,
+                action: input.action ?? "update",
+                author: input.author ?? null,
+                created_at: createdAt,
+                changes,
+                before: input.before,
+                reverted_revision: input.revertedRevision ?? null
+            });
+        }
+        if (revisions.length === 0) {
+            return [];
+        }
+
+        const vectors = await this.embedding.embedBatch(revisions.map((revision) => revisionText(revision)));
+
+        await this.qdrant.upsert(
+            this.getCollection(projectId),
+            revisions.map(({ id, ...payload }, index) => ({
+                id,
+                vector: vectors[index],
+                payload
+            }))
+        );
+
+        return revisions;
+    }
+
+    async listRevisions(projectId: string, recordType: RevisionRecordType, recordId: string) {
+        const collection = this.getCollection(projectId);
+        const filter = {
+            must: [
+                { key: "record_type", match: { value: recordType } },
+                { key: "record_id", match: { value: recordId } }
+            ]
+        };
+
+        const revisions: RecordRevision[] = [];
+        let offset: unknown = undefined;
+        do {
+            const response: any = await this.qdrant.scroll(collection, filter, 200, offset);
+            for (const point of response.points ?? []) {
+                revisions.push(this.mapPoint(point));
+            }
+            offset = response.next_page_offset;
+        } while (offset);
+
+        return revisions.sort((a, b) => b.created_at.localeCompare(a.created_at));
+    }
+
+    /** Every revision in the project, or of one record type, newest first. */
+    async listProjectRevisions(projectId: string, recordType?: RevisionRecordType) {
+        const filter = recordType ? { must: [{ key: "record_type", match: { value: recordType } }] } : undefined;
+        const points = await this.qdrant.scrollAll(this.getCollection(projectId), filter);
+        return points
+            .map((point) => this.mapPoint(point))
+            .sort((a, b) => b.created_at.localeCompare(a.created_at));
+    }
+
+    async getRevision(projectId: string, revisionId: string): Promise<RecordRevision | undefined> {
+        const response = await this.qdrant.retrieve(this.getCollection(projectId), [revisionId]);
+        const point = response?.[0];
+        return point ? this.mapPoint(point) : undefined;
+    }
+
+    private mapPoint(point: any): RecordRevision {
+        const payload = point.payload ?? {};
+        return {
+            id: typeof point.id === "string" ? point.id : String(point.id),
+            record_type: payload.record_type,
+            record_id: payload.record_id ?? "",
+            action: payload.action === "revert" ? "revert" : "update",
+            author: typeof payload.author === "string" ? payload.author : null,
+            created_at: payload.created_at ?? "",
+            changes: Array.isArray(payload.changes) ? payload.changes : [],
+            before: payload.before ?? {},
+            reverted_revision: typeof payload.reverted_revision === "string" ? payload.reverted_revision : null
+        };
+    }
+
+    private getCollection(projectId: string) {
+        return this.projects.collectionName(projectId, this.collection);
+    }
+}
@@ -1,13 +1,16 @@
 import { randomUUID } from "crypto";
 
-import { QdrantService } from "../services/qdrant.service.js";
+import { QdrantService, SearchMode } from "../services/qdrant.service.js";
 import { EmbeddingService } from "../services/embedding.service.js";
 import { CacheService } from "../services/cache.service.js";
 import { ProjectService } from "../services/project.service.js";
+import { excludeArchived } from "../utils/archive.js";
 import {
     ArchitectureDecisionInput,
     ArchitectureDecisionRecord,
 } from "../types/index.js";
+import { ToolDefinition } from "./registry.js";
+import { architectureText } from "../utils/embeddingText.js";
 
 type QueryArgs = {
     query: string;
@@ -15,12 +18,15 @@ type QueryArgs = {
     scope?: string;
     tags?: string[];
     min_score?: number;
+    mode?: SearchMode;
+    include_archived?: boolean;
 };
 
 type HistoryArgs = {
     limit?: number;
     scope?: string;
     tag?: string;
+    include_archived?: boolean;
 };
 
 type ArchitectureDecisionSummary = {
@@ -40,6 +46,74 @@ export class ArchitectureTool {
         private projects: ProjectService
     ) {}
 
+    getToolDefinitions(): ToolDefinition[] {
+        return [
+            {
+                name: "store_architecture_decision",
+                description: "Record architectural decisions with rationale for future reference.",
+                access: "write",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        decision: { type: "string", description: "What was decided" },
+                        rationale: { type: "string", description: "Why this decision was made" },
+                        alternatives: { type: "array", items: { type: "string" }, description: "Options considered" },
+                        scope: { type: "string", description: "What this decision affects" },
+                        date: { type: "string", description: "ISO date of decision" }
+                    },
+                    required: ["decision", "rationale"]
+                },
+                handler: (projectId, args) => this.storeDecision(projectId, args)
+            },
+            {
+                name: "query_architecture",
+                description: "Query architectural decisions by topic.",
+                access: "read",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        query: { type: "string", description: "What to search for" },
+                        limit: { type: "number", default: 5 },
+                        include_archived: { type: "boolean", description: "Include soft-archived records (default false)." },
+                        mode: { type: "string", enum: ["semantic", "keyword", "hybrid"], description: "semantic (default) matches meaning, keyword matches exact terms such as class names, quest ids or error codes, hybrid fuses both rankings." }
+                    },
+                    required: ["query"]
+                },
+                handler: (projectId, args) => this.queryDecisions(projectId, args)
+            },
+            {
+                name: "get_architecture_history",
+                description: "List recent architecture decisions (newest first), optionally narrowed by scope or tag.",
+                access: "read",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        limit: { type: "number", default: 20 },
+                        scope: { type: "string", description: "Only decisions with this scope" },
+                        tag: { type: "string", description: "Only decisions carrying this tag" },
+                        include_archived: { type: "boolean", description: "Include soft-archived records (default false)." }
+                    },
+                    additionalProperties: false
+                },
+                handler: (projectId, args) => this.getHistory(projectId, args)
+            },
+            {
+                name: "get_architecture_decision",
+                description: "Fetch a single architecture decision by id.",
+                access: "read",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        id: { type: "string", description: "Decision identifier returned by store_architecture_decision" }
+                    },
+                    required: ["id"],
+                    additionalProperties: false
+                },
+                handler: (projectId, args) => this.getDecision(projectId, args)
+            }
+        ];
+    }
+
     async storeDecision(projectId: string, args: ArchitectureDecisionInput & {
         status?: string;
         author?: string;
@@ -60,9 +134,7 @@ export class ArchitectureTool {
         const createdAt = date ?? new Date().toISOString();
         const id = randomUUID();
 
-        const vector = await this.embedWithCache(
-            `${decision}\n${rationale}\n${alternatives.join("\n")}\n${scope}`
-        );
+        const vector = await this.embedding.embed(architectureText({ decision, rationale, alternatives, scope }));
 
         await this.qdrant.upsert(this.getCollection(projectId), [
             {
@@ -100,19 +172,21 @@ export class ArchitectureTool {
             scope,
             tags,
             min_score = 0.6,
+            include_archived = false,
+            mode,
         } = args;
 
-        const vector = await this.embedWithCache(query);
-
-        const filter = this.buildFilter(scope, tags);
+        const filter = excludeArchived(this.buildFilter(scope, tags), include_archived);
 
-        const results: any[] = await this.qdrant.search(
-            this.getCollection(projectId),
-            vector,
+        const results: any[] = await this.qdrant.searchText(this.getCollection(projectId), {
+            query,
+            fields: ["decision", "rationale", "alternatives", "scope", "tags", "notes"],
+            embed: () => this.embedding.embed(query),
+            mode,
             limit,
             filter,
-            min_score
-        );
+            scoreThreshold: min_score
+        });
 
         return {
             count: results.length,
@@ -123,10 +197,10 @@ export class ArchitectureTool {
     }
 
     async getHistory(projectId: string, args: HistoryArgs = {}) {
-        const { limit = 20, scope, tag } = args;
-        const filter = this.buildFilter(scope, tag ? [tag] : undefined);
+        const { limit = 20, scope, tag, include_archived = false } = args;
+        const filter = excludeArchived(this.buildFilter(scope, tag ? [tag] : undefined), include_archived);
 
-        const cacheKey = `architecture:${projectId}:history:${limit}:${scope ?? ""}:${tag ?? ""}`;
+        const cacheKey = `architecture:${projectId}:history:${limit}:${scope ?? ""}:${tag ?? ""}:${include_archived}`;
         const cached = this.cache.get<ArchitectureDecisionSummary[]>(cacheKey);
         if (cached) {
             return {
@@ -137,7 +211,7 @@ export class ArchitectureTool {
         }
 
         const response: any = await this.qdrant.scroll(
-            this.collection,
+            this.getCollection(projectId),
             filter,
             limit
         );
@@ -181,18 +255,6 @@ export class ArchitectureTool {
         };
     }
 
-    private async embedWithCache(text: string) {
-        const key = `embedding:${text}`;
-        const cached = this.cache.get<number[]>(key);
-        if (cached) {
-            return cached;
-        }
-
-        const vector = await this.embedding.embed(text);
-        this.cache.set(key, vector, 60 * 60 * 1000); // cache embeddings for an hour
-        return vector;
-    }
-
     private mapPoint(point: any): ArchitectureDecisionRecord {
         const payload = point.payload ?? {};
         const id = typeof point.id === "string" ? point.id : String(point.id);
@@ -1,8 +1,24 @@
 import { randomUUID } from "crypto";
 
-import { QdrantService } from "../services/qdrant.service.js";
+import { QdrantService, SearchMode } from "../services/qdrant.service.js";
 import { EmbeddingService } from "../services/embedding.service.js";
 import { ProjectService } from "../services/project.service.js";
+import { RevisionContext, RevisionService } from "../services/revision.service.js";
+import { excludeArchived, isArchivedPayload } from "../utils/archive.js";
+import { applyBacklogPatch, BacklogPatch, MAX_BULK_ITEMS, parseBacklogPatch } from "../utils/backlogPatch.js";
+import { validateDependencies } from "../utils/dependencies.js";
+import { backlogText } from "../utils/embeddingText.js";
+import { pageOf, scrollPage } from "../utils/pagination.js";
+import { diffRecords, FieldChange } from "../utils/recordDiff.js";
+import {
+    BacklogWorkflow,
+    checkStatusChange,
+    findState,
+    isBlockedStatus,
+    isDoneStatus,
+    REQUIRABLE_FIELDS
+} from "../utils/workflow.js";
+import { ToolDefinition } from "./registry.js";
 
 type CreateBacklogArgs = {
     title: string;
@@ -23,8 +39,30 @@ type CreateBacklogArgs = {
     feature_id?: string | null;
 };
 
-type UpdateBacklogArgs = Partial<CreateBacklogArgs> & {
+type NullableBacklogField = "owner" | "due_date" | "sprint" | "story_points" | "notes" | "category";
+
+/** null clears a nullable field; revert_record relies on it to restore empty values. */
+export type UpdateBacklogArgs = Partial<Omit<CreateBacklogArgs, NullableBacklogField>> & {
+    [field in NullableBacklogField]?: CreateBacklogArgs[field] | null;
+} & {
     id: string;
+    updated_by?: string;
+};
+
+type BulkUpdateArgs = {
+    ids?: string[];
+    filter?: {
+        status?: string;
+        priority?: string;
+        owner?: string;
+        tags?: string[];
+        feature_id?: string;
+        sprint?: string;
+        include_archived?: boolean;
+    };
+    patch: BacklogPatch;
+    dry_run?: boolean;
+    updated_by?: string;
 };
 
 type TagSearchArgs = {
@@ -34,19 +72,38 @@ type TagSearchArgs = {
     owner?: string;
     limit?: number;
     feature_id?: string;
+    include_archived?: boolean;
+    cursor?: string;
 };
 
 type SemanticSearchArgs = TagSearchArgs & {
     query: string;
     min_score?: number;
+    mode?: SearchMode;
 };
 
 type TopBacklogArgs = {
     limit?: number;
     includeCompleted?: boolean;
+    include_archived?: boolean;
+    include_blocked?: boolean;
+    cursor?: string;
+};
+
+type UnblockedBacklogArgs = {
+    limit?: number;
+    feature_id?: string;
+    include_archived?: boolean;
+    cursor?: string;
+};
+
+type DependencyGraphArgs = {
+    feature_id?: string;
+    include_completed?: boolean;
+    include_archived?: boolean;
 };
 
-type BacklogRecord = {
+export type BacklogRecord = {
     id: string;
     title: string;
     description: string;
@@ -64,11 +121,38 @@ type BacklogRecord = {
     notes: string | null;
     category: string | null;
     feature_id: string | null;
+    archived: boolean;
+    archived_at: string | null;
     created_at: string;
     updated_at: string;
     score?: number;
 };
 
+// Fields that make up an item's embedding text; planning fields such as status stay out of it.
+type EmbeddedBacklogFields = Pick<
+    BacklogRecord,
+    | "title"
+    | "description"
+    | "next_steps"
+    | "completed_work"
+    | "tags"
+    | "acceptance_criteria"
+    | "dependencies"
+    | "notes"
+    | "category"
+>;
+
+type SetWorkflowArgs = {
+    workflow?: BacklogWorkflow;
+    reset?: boolean;
+};
+
+type BulkChange = {
+    before: Omit<BacklogRecord, "score">;
+    after: Omit<BacklogRecord, "score">;
+    changes: FieldChange[];
+};
+
 type BacklogSummary = {
     id: string;
     title: string;
@@ -82,14 +166,288 @@ export class BacklogTool {
     constructor(
         private qdrant: QdrantService,
         private embedding: EmbeddingService,
-        private projects: ProjectService
+        private projects: ProjectService,
+        private revisions: RevisionService
     ) {}
 
+    getToolDefinitions(): ToolDefinition[] {
+        return [
+            {
+                name: "create_backlog_item",
+                description: "Create a new product backlog item with full agile metadata for prioritisation.",
+                access: "write",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        title: { type: "string", description: "Concise title for the backlog item." },
+                        description: { type: "string", description: "Detailed problem or user story statement." },
+                        status: { type: "string", description: "Workflow status (e.g., 'todo', 'in-progress', 'blocked', 'done'); must be a state of the project's workflow (get_backlog_workflow)." },
+                        priority: { type: "string", description: "Priority bucket (e.g., 'P0', 'P1', 'P2', 'P3')." },
+                        next_steps: { type: "array", items: { type: "string" }, description: "Immediate actions required to progress the item." },
+                        completed_work: { type: "array", items: { type: "string" }, description: "Deliverables already finished for this item." },
+                        tags: { type: "array", items: { type: "string" }, description: "Searchable labels such as 'rendering', 'multiplayer'." },
+                        owner: { type: "string", description: "Primary assignee or DRI for the backlog item." },
+                        due_date: { type: "string", description: "Optional ISO8601 due date for time-bound items." },
+                        sprint: { type: "string", description: "Iteration or milestone identifier (e.g., 'Sprint 14')." },
+                        story_points: { type: "number", description: "Relative sizing value for planning poker / velocity tracking." },
+                        acceptance_criteria: { type: "array", items: { type: "string" }, description: "Testable acceptance criteria or success conditions." },
+                        dependencies: { type: "array", items: { type: "string" }, description: "IDs of backlog items that must be done before this one. Unknown IDs and cycles are rejected." },
+                        notes: { type: "string", description: "Freeform notes, research links, or context." },
+                        category: { type: "string", description: "Optional thematic grouping (e.g., 'tech-debt', 'narrative', 'systems')." },
+                        feature_id: { type: ["string", "null"], description: "Optional feature identifier that groups related backlog items." }
+                    },
+                    required: ["title", "description", "status", "priority"]
+                },
+                handler: (projectId, args) => this.createBacklogItem(projectId, args)
+            },
+            {
+                name: "update_backlog_item",
+                description: "Update fields on an existing backlog item by ID while preserving untouched data.",
+                access: "write",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        id: { type: "string", description: "Existing backlog item identifier returned from creation." },
+                        title: { type: "string" },
+                        description: { type: "string" },
+                        status: { type: "string", description: "New workflow status; only moves allowed by get_backlog_workflow are accepted, and the fields the new state requires must be filled in." },
+                        priority: { type: "string" },
+                        next_steps: { type: "array", items: { type: "string" } },
+                        completed_work: { type: "array", items: { type: "string" } },
+                        tags: { type: "array", items: { type: "string" } },
+                        owner: { type: "string" },
+                        due_date: { type: "string" },
+                        sprint: { type: ["string", "null"], description: "Sprint name; null takes the item out of its sprint. Prefer plan_sprint, which checks capacity." },
+                        story_points: { type: "number" },
+                        acceptance_criteria: { type: "array", items: { type: "string" } },
+                        dependencies: { type: "array", items: { type: "string" }, description: "Replaces the item's dependencies (backlog item IDs); unknown IDs and cycles are rejected." },
+                        notes: { type: "string" },
+                        category: { type: "string" },
+                        feature_id: { type: ["string", "null"], description: "Feature identifier; null unlinks the item." },
+                        updated_by: { type: "string", description: "Agent or person making the change (recorded in the revision history)." }
+                    },
+                    required: ["id"]
+                },
+                handler: (projectId, args) => this.updateBacklogItem(projectId, args)
+            },
+            {
+                name: "bulk_update_backlog",
+                description:
+                    "Apply one planning patch (status, sprint, owner, feature, tags to add or remove) to a list of backlog items or to every item matching a filter, in one batched write with a revision per changed item. Status changes follow the project's workflow per item; items it rejects are reported and left as they are. Use dry_run to preview the changes first.",
+                access: "write",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        ids: {
+                            type: "array",
+                            items: { type: "string" },
+                            minItems: 1,
+                            maxItems: MAX_BULK_ITEMS,
+                            description: `Backlog item identifiers to patch (at most ${MAX_BULK_ITEMS}). Provide either ids or filter.`
+                        },
+                        filter: {
+                            type: "object",
+                            properties: {
+                                status: { type: "string", description: "Only items with this status." },
+                                priority: { type: "string", description: "Only items with this priority." },
+                                owner: { type: "string", description: "Only items with this owner." },
+                                tags: { type: "array", items: { type: "string" }, description: "Only items with any of these tags." },
+                                feature_id: { type: "string", description: "Only items of this feature." },
+                                sprint: { type: "string", description: "Only items in this sprint." },
+                                include_archived: { type: "boolean", description: "Include soft-archived records (default false)." }
+                            },
+                            additionalProperties: false,
+                            description: `Patch every matching item instead of a list of ids; fails if more than ${MAX_BULK_ITEMS} match.`
+                        },
+                        patch: {
+                            type: "object",
+                            properties: {
+                                status: { type: "string", description: "New workflow status." },
+                                sprint: { type: ["string", "null"], description: "Sprint name; null takes the items out of their sprint. Unlike plan_sprint, capacity is not checked." },
+                                owner: { type: ["string", "null"], description: "New owner; null clears it." },
+                                feature_id: { type: ["string", "null"], description: "Feature identifier; null unlinks the items." },
+                                add_tags: { type: "array", items: { type: "string" }, description: "Tags to add where missing." },
+                                remove_tags: { type: "array", items: { type: "string" }, description: "Tags to remove." }
+                            },
+                            additionalProperties: false
+                        },
+                        dry_run: { type: "boolean", description: "Report what would change without writing anything (default false)." },
+                        updated_by: { type: "string", description: "Agent or person making the change (recorded in the revision history)." }
+                    },
+                    required: ["patch"],
+                    additionalProperties: false
+                },
+                handler: (projectId, args) => this.bulkUpdateBacklog(projectId, args)
+            },
+            {
+                name: "search_backlog_by_tag",
+                description: "Filter backlog items by labels, status, priority, or owner without semantic search.",
+                access: "read",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        tags: { type: "array", items: { type: "string" }, description: "One or more tags to match (logical ANY)." },
+                        status: { type: "string", description: "Optional workflow status filter." },
+                        priority: { type: "string", description: "Optional priority filter." },
+                        owner: { type: "string", description: "Optional owner / DRI filter." },
+                        limit: { type: "number", description: "Maximum results to return (default 25)." },
+                        feature_id: { type: "string", description: "Optional feature identifier to filter associated PBIs." },
+                        include_archived: { type: "boolean", description: "Include soft-archived records (default false)." },
+                        cursor: { type: "string", description: "next_cursor from the previous page." }
+                    }
+                },
+                handler: (projectId, args) => this.searchBacklogByTag(projectId, args)
+            },
+            {
+                name: "search_backlog_semantic",
+                description: "Semantic search across backlog items using embeddings with optional structured filters.",
+                access: "read",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        query: { type: "string", description: "Natural language description of the item you need." },
+                        tags: { type: "array", items: { type: "string" }, description: "Optional tags to narrow the scope." },
+                        status: { type: "string", description: "Optional status restriction." },
+                        priority: { type: "string", description: "Optional priority filter." },
+                        owner: { type: "string", description: "Optional owner filter." },
+                        limit: { type: "number", description: "Maximum results to return (default 10)." },
+                        min_score: { type: "number", description: "Similarity threshold between 0-1 (default 0.55)." },
+                        mode: { type: "string", enum: ["semantic", "keyword", "hybrid"], description: "semantic (default) matches meaning, keyword matches exact terms such as class names, quest ids or error codes, hybrid fuses both rankings." },
+                        feature_id: { type: "string", description: "Optional feature identifier to filter associated PBIs." },
+                        include_archived: { type: "boolean", description: "Include soft-archived records (default false)." }
+                    },
+                    required: ["query"]
+                },
+                handler: (projectId, args) => this.searchBacklogSemantics(projectId, args)
+            },
+            {
+                name: "get_top_backlog_items",
+                description: "Return the highest-priority unfinished backlog items (defaults to top 5), skipping blocked items. Ranks every matching item; page further with next_cursor.",
+                access: "read",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        limit: { type: "number", description: "Maximum number of items to return (default 5, max 20)." },
+                        includeCompleted: { type: "boolean", description: "Set true to include completed items in the ranking." },
+                        include_archived: { type: "boolean", description: "Include soft-archived records (default false)." },
+                        include_blocked: { type: "boolean", description: "Also rank items with status 'blocked' or unfinished dependencies (default false)." },
+                        cursor: { type: "string", description: "next_cursor from the previous page." }
+                    }
+                },
+                handler: (projectId, args) => this.getTopBacklogItems(projectId, args)
+            },
+            {
+                name: "get_unblocked_backlog_items",
+                description: "List unfinished backlog items whose dependencies are all done, ranked by priority. Page further with next_cursor.",
+                access: "read",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        limit: { type: "number", description: "Maximum number of items to return (default 25, max 100)." },
+                        feature_id: { type: "string", description: "Optional feature identifier to filter associated PBIs." },
+                        include_archived: { type: "boolean", description: "Include soft-archived records (default false)." },
+                        cursor: { type: "string", description: "next_cursor from the previous page." }
+                    },
+                    additionalProperties: false
+                },
+                handler: (projectId, args) => this.getUnblockedBacklogItems(projectId, args)
+            },
+            {
+                name: "get_backlog_dependency_graph",
+                description: "Return the backlog dependency DAG: items with their blockers, 'depends on' edges and a topological order (dependencies first).",
+                access: "read",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        feature_id: { type: "string", description: "Only include items of this feature (their dependencies are still listed by id)." },
+                        include_completed: { type: "boolean", description: "Include finished items (default true)." },
+                        include_archived: { type: "boolean", description: "Include soft-archived records (default false)." }
+                    },
+                    additionalProperties: false
+                },
+                handler: (projectId, args) => this.getDependencyGraph(projectId, args)
+            },
+            {
+                name: "get_backlog_item",
+                description: "Retrieve a single backlog item by ID with full metadata.",
+                access: "read",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        id: { type: "string", description: "Backlog item identifier." }
+                    },
+                    required: ["id"],
+                    additionalProperties: false
+                },
+                handler: (projectId, args) => this.getBacklogItem(projectId, args)
+            },
+            {
+                name: "get_backlog_workflow",
+                description: "Return the project's backlog status workflow: its states, the allowed transitions and the fields each state requires.",
+                access: "read",
+                inputSchema: {
+                    type: "object",
+                    properties: {},
+                    additionalProperties: false
+                },
+                handler: (projectId) => this.getWorkflow(projectId)
+            },
+            {
+                name: "set_backlog_workflow",
+                description:
+                    "Replace the project's backlog status workflow, or reset it to the default. Status changes made through update_backlog_item and the backlog editor must follow it.",
+                access: "admin",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        workflow: {
+                            type: "object",
+                            properties: {
+                                states: {
+                                    type: "array",
+                                    minItems: 1,
+                                    items: {
+                                        type: "object",
+                                        properties: {
+                                            key: { type: "string", minLength: 1, description: "Status value stored on items (e.g., 'in-review')." },
+                                            label: { type: "string", description: "Display name, e.g. a board column title." },
+                                            aliases: { type: "array", items: { type: "string" }, description: "Other spellings that mean this state." },
+                                            done: { type: "boolean", description: "Finished: leaves the top-items ranking and unblocks dependents." },
+                                            blocked: { type: "boolean", description: "Parked: skipped when ranking top items." }
+                                        },
+                                        required: ["key"],
+                                        additionalProperties: false
+                                    }
+                                },
+                                transitions: {
+                                    type: "object",
+                                    additionalProperties: { type: "array", items: { type: "string" } },
+                                    description: "Allowed next states per state key; a state without an entry is final."
+                                },
+                                required_fields: {
+                                    type: "object",
+                                    additionalProperties: { type: "array", items: { type: "string", enum: REQUIRABLE_FIELDS } },
+                                    description: "Fields that must be filled in before an item enters the state, e.g. { \"done\": [\"completed_work\"] }."
+                                }
+                            },
+                            required: ["states", "transitions"],
+                            additionalProperties: false
+                        },
+                        reset: { type: "boolean", description: "Set true to go back to the default workflow." }
+                    },
+                    additionalProperties: false
+                },
+                handler: (projectId, args) => this.setWorkflow(projectId, args)
+            }
+        ];
+    }
+
     async createBacklogItem(projectId: string, args: CreateBacklogArgs) {
         const now = new Date().toISOString();
         const id = randomUUID();
 
         const normalizedFeatureId = this.normalizeFeatureId(args.feature_id);
+        const dependencies = await this.resolveDependencies(projectId, id, args.dependencies ?? []);
         const payload = {
             title: args.title,
             description: args.description,
@@ -103,13 +461,14 @@ export class BacklogTool {
             sprint: args.sprint ?? null,
             story_points: args.story_points ?? null,
             acceptance_criteria: args.acceptance_criteria ?? [],
-            dependencies: args.dependencies ?? [],
+            dependencies,
             notes: args.notes ?? null,
             category: args.category ?? null,
             feature_id: normalizedFeatureId,
             created_at: now,
             updated_at: now
         };
+        payload.status = this.enforceWorkflow(projectId, null, payload);
 
         const vector = await this.embedForItem(payload);
 
@@ -128,8 +487,8 @@ export class BacklogTool {
         };
     }
 
-    async updateBacklogItem(projectId: string, args: UpdateBacklogArgs) {
-        const { id, ...updates } = args;
+    async updateBacklogItem(projectId: string, args: UpdateBacklogArgs, revision: RevisionContext = {}) {
+        const { id, updated_by, ...updates } = args;
         const existing = await this.fetchById(projectId, id);
 
         if (!existing) {
@@ -139,6 +498,12 @@ export class BacklogTool {
             };
         }
 
+        // Items stored before dependencies were validated keep their entries until they are edited.
+        const dependencies =
+            updates.dependencies === undefined
+                ? existing.dependencies
+                : await this.resolveDependencies(projectId, id, updates.dependencies);
+
         const now = new Date().toISOString();
         const { score: _score, ...existingData } = existing;
         const merged = {
@@ -148,23 +513,40 @@ export class BacklogTool {
             completed_work: updates.completed_work ?? existingData.completed_work,
             tags: updates.tags ?? existingData.tags,
             acceptance_criteria: updates.acceptance_criteria ?? existingData.acceptance_criteria,
-            dependencies: updates.dependencies ?? existingData.dependencies,
+            dependencies,
             feature_id:
-                Object.prototype.hasOwnProperty.call(updates, "feature_id")
+                updates.feature_id !== undefined
                     ? this.normalizeFeatureId(updates.feature_id)
                     : existingData.feature_id,
             updated_at: now
         };
+        // A revert restores an earlier state as it was, even where the workflow would not allow the move.
+        if (updates.status !== undefined && revision.action !== "revert") {
+            merged.status = this.enforceWorkflow(projectId, existingData.status, merged);
+        }
 
-        const vector = await this.embedForItem(merged);
+        // Status changes and other planning edits keep the stored vector.
+        if (backlogText(merged) === backlogText(existingData)) {
+            await this.qdrant.setPayload(this.getCollection(projectId), id, merged);
+        } else {
+            await this.qdrant.upsert(this.getCollection(projectId), [
+                {
+                    id,
+                    vector: await this.embedForItem(merged),
+                    payload: merged
+                }
+            ]);
+        }
 
-        await this.qdrant.upsert(this.getCollection(projectId), [
-            {
-                id,
-                vector,
-                payload: merged
-            }
-        ]);
+        await this.revisions.recordRevision(projectId, {
+            recordType: "backlog",
+            recordId: id,
+            before: existingData,
+            after: merged,
+            author: updated_by,
+            action: revision.action,
+            revertedRevision: revision.revertedRevision
+        });
 
         return {
             success: true,
@@ -173,22 +555,134 @@ export class BacklogTool {
         };
     }
 
-    async searchBacklogByTag(projectId: string, args: TagSearchArgs) {
-        const { tags = [], status, priority, owner, limit = 25 } = args;
-        const filter = this.buildFilter({ tags, status, priority, owner, feature_id: args.feature_id });
+    async bulkUpdateBacklog(projectId: string, args: BulkUpdateArgs) {
+        if (!args.ids === !args.filter) {
+            throw new Error("Provide either ids or filter");
+        }
+        const patch = parseBacklogPatch(args.patch);
 
-        const response: any = await this.qdrant.scroll(
-            this.getCollection(projectId),
-            filter,
-            limit
+        let targets: BacklogRecord[];
+        let notFound: string[] = [];
+        if (args.ids) {
+            const ids = Array.from(new Set(args.ids.map((id) => id.trim()).filter(Boolean)));
+            if (ids.length > MAX_BULK_ITEMS) {
+                throw new Error(`At most ${MAX_BULK_ITEMS} backlog items can be updated per call`);
+            }
+            targets = await this.getBacklogItemsByIds(projectId, ids);
+            const found = new Set(targets.map((record) => record.id));
+            notFound = ids.filter((id) => !found.has(id));
+        } else {
+            const { include_archived = false, ...filter } = args.filter!;
+            const points = await this.qdrant.scrollAll(
+                this.getCollection(projectId),
+                excludeArchived(this.buildFilter(filter), include_archived)
+            );
+            targets = this.rank(points.map((point) => this.mapPoint(point)));
+            if (targets.length > MAX_BULK_ITEMS) {
+                throw new Error(
+                    `${targets.length} backlog items match the filter; narrow it to at most ${MAX_BULK_ITEMS}`
+                );
+            }
+        }
+
+        const workflow = this.projects.getBacklogWorkflow(projectId);
+        const now = new Date().toISOString();
+        const changed: BulkChange[] = [];
+        const unchanged: string[] = [];
+        const rejected: Array<{ id: string; title: string; error: string }> = [];
+        for (const { score: _score, ...before } of targets) {
+            const after = { ...applyBacklogPatch(before, patch), updated_at: now };
+            if (patch.status !== undefined) {
+                const check = checkStatusChange(workflow, before.status, after);
+                if (!check.ok) {
+                    rejected.push({ id: before.id, title: before.title, error: check.error });
+                    continue;
+                }
+                after.status = check.status;
+            }
+            const changes = diffRecords(before, after);
+            if (changes.length === 0) {
+                unchanged.push(before.id);
+            } else {
+                changed.push({ before, after, changes });
+            }
+        }
+
+        if (!args.dry_run && changed.length > 0) {
+            await this.writeBulk(projectId, patch, changed);
+            await this.revisions.recordRevisions(
+                projectId,
+                changed.map(({ before, after }) => ({
+                    recordType: "backlog" as const,
+                    recordId: before.id,
+                    before,
+                    after,
+                    author: args.updated_by
+                }))
+            );
+        }
+
+        return {
+            success: true,
+            dry_run: Boolean(args.dry_run),
+            matched: targets.length,
+            changed: changed.length,
+            items: changed.map(({ after, changes }) => ({ id: after.id, title: after.title, changes })),
+            unchanged,
+            rejected,
+            not_found: notFound,
+            message: args.dry_run
+                ? `Dry run: ${changed.length} of ${targets.length} backlog items would change`
+                : `Updated ${changed.length} of ${targets.length} backlog items`
+        };
+    }
+
+    async getWorkflow(projectId: string) {
+        return {
+            custom: this.projects.hasCustomBacklogWorkflow(projectId),
+            workflow: this.projects.getBacklogWorkflow(projectId)
+        };
+    }
+
+    async setWorkflow(projectId: string, args: SetWorkflowArgs) {
+        if (!args.workflow === !args.reset) {
+            throw new Error("Provide either a workflow or reset: true");
+        }
+        const workflow = await this.projects.setBacklogWorkflow(projectId, args.reset ? null : args.workflow!);
+
+        // Items whose status the new workflow does not know may move to any state until they are moved once.
+        const unmapped = new Map<string, number>();
+        for (const record of await this.loadAll(projectId)) {
+            if (!record.archived && !findState(workflow, record.status)) {
+                unmapped.set(record.status, (unmapped.get(record.status) ?? 0) + 1);
+            }
+        }
+
+        return {
+            success: true,
+            custom: !args.reset,
+            workflow,
+            unmapped_statuses: Array.from(unmapped.entries())
+                .sort(([a], [b]) => a.localeCompare(b))
+                .map(([status, count]) => ({ status, count })),
+            message: args.reset ? "Backlog workflow reset to the default" : "Backlog workflow updated"
+        };
+    }
+
+    async searchBacklogByTag(projectId: string, args: TagSearchArgs) {
+        const { tags = [], status, priority, owner, limit = 25, include_archived = false } = args;
+        const filter = excludeArchived(
+            this.buildFilter({ tags, status, priority, owner, feature_id: args.feature_id }),
+            include_archived
         );
 
-        const points = response.points ?? [];
-        const items = points.map((point: any) => this.mapSummaryFromPoint(point));
+        const page = await scrollPage(this.qdrant, this.getCollection(projectId), filter, limit, args.cursor);
+        const items = page.items.map((point: any) => this.mapSummaryFromPoint(point));
 
         return {
             count: items.length,
-            items
+            items,
+            next_cursor: page.next_cursor
         };
     }
 
@@ -200,19 +694,25 @@ export class BacklogTool {
             priority,
             owner,
             limit = 10,
-            min_score = 0.55
+            min_score = 0.55,
+            include_archived = false,
+            mode
         } = args;
 
-        const vector = await this.embedding.embed(query);
-        const filter = this.buildFilter({ tags, status, priority, owner, feature_id: args.feature_id });
+        const filter = excludeArchived(
+            this.buildFilter({ tags, status, priority, owner, feature_id: args.feature_id }),
+            include_archived
+        );
 
-        const results: any[] = await this.qdrant.search(
-            this.getCollection(projectId),
-            vector,
+        const results: any[] = await this.qdrant.searchText(this.getCollection(projectId), {
+            query,
+            fields: ["title", "description", "next_steps", "completed_work", "acceptance_criteria", "notes", "tags", "category"],
+            embed: () => this.embedding.embed(query),
+            mode,
             limit,
             filter,
-            min_score
-        );
+            scoreThreshold: min_score
+        });
 
         const items = results.map((point) => this.mapSummaryFromPoint(point));
 
@@ -223,37 +723,118 @@ export class BacklogTool {
     }
 
     async getTopBacklogItems(projectId: string, args: TopBacklogArgs = {}) {
-        const { includeCompleted = false } = args;
+        const { includeCompleted = false, include_archived = false, include_blocked = false } = args;
         const normalizedLimit = Math.min(Math.max(1, args.limit ?? 5), 20);
 
-        const filter = includeCompleted
-            ? undefined
-            : {
-                  must_not: [
-                      {
-                          key: "status",
-                          match: { any: ["done", "completed", "archived"] }
-                      }
-                  ]
-              };
-
-        const response: any = await this.qdrant.scroll(
-            this.getCollection(projectId),
-            filter,
-            normalizedLimit * 5
+        // Rank the whole backlog; a partial scan can miss a P0, and blockers may sit anywhere.
+        const workflow = this.projects.getBacklogWorkflow(projectId);
+        const records = await this.loadAll(projectId);
+        const byId = new Map(records.map((record) => [record.id, record]));
+
+        const candidates = records.filter(
+            (record) => (includeCompleted || !isDoneStatus(workflow, record.status)) && (include_archived || !record.archived)
+        );
+        const ranked = this.rank(
+            include_blocked ? candidates : candidates.filter((record) => !this.isBlocked(record, byId, workflow))
+        );
+
+        const page = pageOf(ranked, normalizedLimit, args.cursor);
+
+        return {
+            count: page.items.length,
+            total: ranked.length,
+            blocked_skipped: candidates.length - ranked.length,
+            items: page.items.map((record) => this.mapSummaryFromRecord(record)),
+            next_cursor: page.next_cursor
+        };
+    }
+
+    async getUnblockedBacklogItems(projectId: string, args: UnblockedBacklogArgs = {}) {
+        const { include_archived = false } = args;
+        const normalizedLimit = Math.min(Math.max(1, args.limit ?? 25), 100);
+        const featureId = this.normalizeFeatureId(args.feature_id);
+
+        const workflow = this.projects.getBacklogWorkflow(projectId);
+        const records = await this.loadAll(projectId);
+        const byId = new Map(records.map((record) => [record.id, record]));
+
+        const ranked = this.rank(
+            records.filter(
+                (record) =>
+                    !isDoneStatus(workflow, record.status) &&
+                    (include_archived || !record.archived) &&
+                    (!featureId || record.feature_id === featureId) &&
+                    !this.isBlocked(record, byId, workflow)
+            )
+        );
+        const page = pageOf(ranked, normalizedLimit, args.cursor);
+
+        return {
+            count: page.items.length,
+            total: ranked.length,
+            items: page.items.map((record) => ({
+                ...this.mapSummaryFromRecord(record),
+                dependencies: record.dependencies.filter((dependency) => byId.has(dependency))
+            })),
+            next_cursor: page.next_cursor
+        };
+    }
+
+    async getDependencyGraph(projectId: string, args: DependencyGraphArgs = {}) {
+        const { include_completed = true, include_archived = false } = args;
+        const featureId = this.normalizeFeatureId(args.feature_id);
+
+        const workflow = this.projects.getBacklogWorkflow(projectId);
+        const records = await this.loadAll(projectId);
+        const byId = new Map(records.map((record) => [record.id, record]));
+        const included = records.filter(
+            (record) =>
+                (include_completed || !isDoneStatus(workflow, record.status)) &&
+                (include_archived || !record.archived) &&
+                (!featureId || record.feature_id === featureId)
         );
+        const includedIds = new Set(included.map((record) => record.id));
 
-        const points = (response.points ?? []) as any[];
+        const nodes = included.map((record) => ({
+            ...this.mapSummaryFromRecord(record),
+            feature_id: record.feature_id,
+            done: isDoneStatus(workflow, record.status),
+            blocked: this.isBlocked(record, byId, workflow),
+            dependencies: record.dependencies.filter((dependency) => byId.has(dependency)),
+            blocked_by: this.openDependencies(record, byId, workflow),
+            // Free-text entries from before dependencies were validated, or ids of deleted items.
+            unresolved_dependencies: record.dependencies.filter((dependency) => !byId.has(dependency))
+        }));
 
-        const sortedRecords = points
-            .map((point) => this.mapPoint(point))
-            .sort((a, b) => this.priorityRank(a.priority) - this.priorityRank(b.priority));
+        const edges = nodes.flatMap((node) =>
+            node.dependencies
+                .filter((dependency) => includedIds.has(dependency))
+                .map((dependency) => ({ from: node.id, to: dependency }))
+        );
 
-        const topRecords = sortedRecords.slice(0, normalizedLimit);
+        // Kahn's algorithm; whatever cannot be ordered sits on a cycle stored before validation existed.
+        const remaining = new Map(
+            nodes.map((node) => [node.id, new Set(node.dependencies.filter((dependency) => includedIds.has(dependency)))])
+        );
+        const order: string[] = [];
+        let ready = this.rank(included.filter((record) => remaining.get(record.id)!.size === 0)).map((record) => record.id);
+        while (ready.length > 0) {
+            order.push(...ready);
+            for (const id of ready) {
+                remaining.delete(id);
+            }
+            for (const pending of remaining.values()) {
+                ready.forEach((id) => pending.delete(id));
+            }
+            ready = this.rank(included.filter((record) => remaining.get(record.id)?.size === 0)).map((record) => record.id);
+        }
 
         return {
-            count: topRecords.length,
-            items: topRecords.map((record) => this.mapSummaryFromRecord(record))
+            count: nodes.length,
+            nodes,
+            edges,
+            order,
+            cyclic: Array.from(remaining.keys())
         };
     }
 
@@ -273,24 +854,128 @@ export class BacklogTool {
         };
     }
 
-    async getBacklogItemsByFeature(projectId: string, featureId: string, limit: number = 200) {
+    async getBacklogItemsByFeature(projectId: string, featureId: string, limit: number = 100, cursor?: string) {
+        const normalized = this.normalizeFeatureId(featureId);
+        if (!normalized) {
+            return { items: [], next_cursor: null };
+        }
+
+        const page = await scrollPage(this.qdrant, this.getCollection(projectId), this.featureFilter(normalized), limit, cursor);
+        return {
+            items: page.items.map((point: any) => this.mapSummaryFromPoint(point)),
+            next_cursor: page.next_cursor
+        };
+    }
+
+    async getAllBacklogItemsByFeature(projectId: string, featureId: string) {
         const normalized = this.normalizeFeatureId(featureId);
         if (!normalized) {
             return [];
         }
 
-        const filter = {
+        const points = await this.qdrant.scrollAll(this.getCollection(projectId), this.featureFilter(normalized));
+        return points.map((point: any) => this.mapSummaryFromPoint(point));
+    }
+
+    async getBacklogItemsBySprint(projectId: string, sprint: string): Promise<BacklogRecord[]> {
+        const filter = excludeArchived({
             must: [
                 {
-                    key: "feature_id",
-                    match: { value: normalized }
+                    key: "sprint",
+                    match: { value: sprint }
                 }
             ]
-        };
+        });
 
-        const response: any = await this.qdrant.scroll(this.getCollection(projectId), filter, limit);
-        const points = response.points ?? [];
-        return points.map((point: any) => this.mapSummaryFromPoint(point));
+        const points = await this.qdrant.scrollAll(this.getCollection(projectId), filter);
+        return this.rank(points.map((point) => this.mapPoint(point)));
+    }
+
+    async getBacklogItemsByIds(projectId: string, ids: string[]): Promise<BacklogRecord[]> {
+        if (ids.length === 0) {
+            return [];
+        }
+        const points = await this.qdrant.retrieve(this.getCollection(projectId), ids);
+        return (points ?? []).map((point: any) => this.mapPoint(point));
+    }
+
+    private async loadAll(projectId: string) {
+        const points = await this.qdrant.scrollAll(this.getCollection(projectId));
+        return points.map((point) => this.mapPoint(point));
+    }
+
+    private rank(records: BacklogRecord[]) {
+        return [...records].sort(
+            (a, b) =>
+                this.priorityRank(a.priority) - this.priorityRank(b.priority) ||
+                a.created_at.localeCompare(b.created_at) ||
+                a.id.localeCompare(b.id)
+        );
+    }
+
+    /** Dependencies that are known backlog items and still unfinished; archived items no longer block. */
+    private openDependencies(record: BacklogRecord, byId: Map<string, BacklogRecord>, workflow: BacklogWorkflow) {
+        return record.dependencies.filter((dependency) => {
+            const blocker = byId.get(dependency);
+            return blocker !== undefined && !blocker.archived && !isDoneStatus(workflow, blocker.status);
+        });
+    }
+
+    private isBlocked(record: BacklogRecord, byId: Map<string, BacklogRecord>, workflow: BacklogWorkflow) {
+        return isBlockedStatus(workflow, record.status) || this.openDependencies(record, byId, workflow).length > 0;
+    }
+
+    /**
+     * Writes a bulk patch in two calls at most: items whose embedding text changed (tags)
+     * are re-embedded in one batch and upserted together, the rest share one payload update.
+     */
+    private async writeBulk(projectId: string, patch: BacklogPatch, changed: BulkChange[]) {
+        const collection = this.getCollection(projectId);
+        const reembed = changed.filter(({ before, after }) => backlogText(before) !== backlogText(after));
+        const payloadOnly = changed.filter((change) => !reembed.includes(change));
+
+        if (reembed.length > 0) {
+            const vectors = await this.embedding.embedBatch(reembed.map(({ after }) => backlogText(after)));
+            await this.qdrant.upsert(
+                collection,
+                reembed.map(({ after }, index) => ({ id: after.id, vector: vectors[index], payload: after }))
+            );
+        }
+
+        if (payloadOnly.length > 0) {
+            // Apart from tags, a patch sets the same values on every item.
+            const [{ after: sample }] = payloadOnly;
+            const shared: Record<string, unknown> = { updated_at: sample.updated_at };
+            for (const field of ["status", "sprint", "owner", "feature_id"] as const) {
+                if (patch[field] !== undefined) {
+                    shared[field] = sample[field];
+                }
+            }
+            await this.qdrant.setPayload(
+                collection,
+                payloadOnly.map(({ after }) => after.id),
+                shared
+            );
+        }
+    }
+
+    /** Checks a status change against the project's workflow and returns the canonical status to store. */
+    private enforceWorkflow(projectId: string, previousStatus: string | null, record: Record<string, unknown>) {
+        const check = checkStatusChange(this.projects.getBacklogWorkflow(projectId), previousStatus, record);
+        if (!check.ok) {
+            throw new Error(check.error);
+        }
+        return check.status;
+    }
+
+    /**
+     * Normalizes a dependency list and checks that every entry is an existing backlog
+     * item and that depending on them would not close a cycle back to `itemId`.
+     */
+    private async resolveDependencies(projectId: string, itemId: string, dependencies: string[]) {
+        // Only read the backlog when there is something to check.
+        const items = dependencies.some((dependency) => dependency.trim()) ? await this.loadAll(projectId) : [];
+        return validateDependencies(itemId, dependencies, items);
     }
 
     private priorityRank(priority: string): number {
@@ -319,7 +1004,7 @@ export class BacklogTool {
         return this.mapPoint(point);
     }
 
-    private cleanUpdates(updates: Partial<CreateBacklogArgs>) {
+    private cleanUpdates(updates: Omit<UpdateBacklogArgs, "id" | "updated_by">) {
         const cleaned: Record<string, unknown> = {};
         for (const [key, value] of Object.entries(updates)) {
             if (value !== undefined) {
@@ -335,6 +1020,7 @@ export class BacklogTool {
         priority?: string;
         owner?: string;
         feature_id?: string;
+        sprint?: string;
     }) {
         const must: any[] = [];
 
@@ -373,6 +1059,13 @@ export class BacklogTool {
             });
         }
 
+        if (params.sprint) {
+            must.push({
+                key: "sprint",
+                match: { value: params.sprint }
+            });
+        }
+
         if (must.length === 0) {
             return undefined;
         }
@@ -401,6 +1094,8 @@ export class BacklogTool {
             notes: payload.notes ?? null,
             category: payload.category ?? null,
             feature_id: typeof payload.feature_id === "string" ? payload.feature_id : null,
+            archived: isArchivedPayload(payload),
+            archived_at: typeof payload.archived_at === "string" ? payload.archived_at : null,
             created_at: payload.created_at ?? "",
             updated_at: payload.updated_at ?? "",
             score: point.score
@@ -427,48 +1122,25 @@ export class BacklogTool {
         };
     }
 
-    private async embedForItem(payload: {
-        title: string;
-        description: string;
-        status: string;
-        priority: string;
-        next_steps: string[];
-        completed_work: string[];
-        tags: string[];
-        owner: string | null;
-        due_date: string | null;
-        sprint: string | null;
-        story_points: number | null;
-        acceptance_criteria: string[];
-        dependencies: string[];
-        notes: string | null;
-        category: string | null;
-        feature_id: string | null;
-    }) {
-        const text = [
-            payload.title,
-            payload.description,
-            `Status: ${payload.status}`,
-            `Priority: ${payload.priority}`,
-            payload.next_steps.join("\n"),
-            payload.completed_work.join("\n"),
-            payload.acceptance_criteria.join("\n"),
-            payload.dependencies.join("\n"),
-            payload.notes ?? "",
-            payload.tags.join(", "),
-            payload.owner ?? "",
-            payload.category ?? "",
-            payload.sprint ?? "",
-            payload.feature_id ?? ""
-        ].join("\n\n");
-
-        return await this.embedding.embed(text);
+    private async embedForItem(payload: EmbeddedBacklogFields) {
+        return await this.embedding.embed(backlogText(payload));
     }
 
     private getCollection(projectId: string) {
         return this.projects.collectionName(projectId, this.collection);
     }
 
+    private featureFilter(featureId: string) {
+        return excludeArchived({
+            must: [
+                {
+                    key: "feature_id",
+                    match: { value: featureId }
+                }
+            ]
+        });
+    }
+
     private normalizeFeatureId(value: unknown): string | null {
         if (typeof value === "string") {
             const trimmed = value.trim();
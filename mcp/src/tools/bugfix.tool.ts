@@ -1,8 +1,11 @@
 import { randomUUID } from "crypto";
 
-import { QdrantService } from "../services/qdrant.service.js";
+import { QdrantService, SearchMode } from "../services/qdrant.service.js";
 import { EmbeddingService } from "../services/embedding.service.js";
 import { ProjectService } from "../services/project.service.js";
+import { excludeArchived } from "../utils/archive.js";
+import { ToolDefinition } from "./registry.js";
+import { bugFixText } from "../utils/embeddingText.js";
 
 type RecordBugFixArgs = {
     issue: string;
@@ -19,7 +22,9 @@ type MatchBugFixArgs = {
     errorMessage?: string;
     limit?: number;
     minScore?: number;
+    mode?: SearchMode;
     tag?: string;
+    include_archived?: boolean;
 };
 
 type GetBugFixArgs = {
@@ -34,7 +39,7 @@ type BugFixMatch = {
     error_messages: string[];
     tags: string[];
     score: number;
-    match_reason: "error_message" | "semantic";
+    match_reason: "error_message" | SearchMode;
 };
 
 const asString = (value: unknown): string | undefined =>
@@ -54,6 +59,62 @@ export class BugFixTool {
         private projects: ProjectService
     ) {}
 
+    getToolDefinitions(): ToolDefinition[] {
+        return [
+            {
+                name: "record_bug_fix",
+                description: "Store a canonical fix pattern alongside the incorrect code patterns it replaces.",
+                access: "write",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        issue: { type: "string", description: "Short identifier for the recurring bug or refactor (e.g., 'config-loader-null-check')." },
+                        summary: { type: "string", description: "Context describing when this bug appears and why the fix is preferred." },
+                        correct_pattern: { type: "string", description: "Code snippet or instructions that represent the proven fix." },
+                        incorrect_patterns: { type: "array", items: { type: "string" }, minItems: 1, description: "Example snippets or anti-pattern descriptions that should trigger this fix." },
+                        error_messages: { type: "array", items: { type: "string" }, description: "Representative error log lines or messages that should map directly to this fix." },
+                        tags: { type: "array", items: { type: "string" }, description: "Optional tags (e.g., 'typescript', 'api-layer')." },
+                        source: { type: "string", description: "Optional link or reference explaining the fix (PR, issue, doc)." }
+                    },
+                    required: ["issue", "summary", "correct_pattern", "incorrect_patterns"]
+                },
+                handler: (projectId, args) => this.recordBugFix(projectId, args)
+            },
+            {
+                name: "match_bug_fix",
+                description: "Match an error report or code snippet to known bug fixes and retrieve their canonical patch.",
+                access: "read",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        query: { type: "string", description: "Symptoms, log snippets, or problematic code to match against stored fixes." },
+                        errorMessage: { type: "string", description: "Exact error message to look up before falling back to semantic similarity." },
+                        limit: { type: "number", description: "Max fixes to return", default: 5 },
+                        minScore: { type: "number", description: "Minimum similarity score (0-1)", default: 0.6 },
+                        mode: { type: "string", enum: ["semantic", "keyword", "hybrid"], description: "semantic (default) matches meaning, keyword matches exact terms such as class names, quest ids or error codes, hybrid fuses both rankings." },
+                        tag: { type: "string", description: "Optional tag filter (e.g., 'typescript')." },
+                        include_archived: { type: "boolean", description: "Include soft-archived records (default false)." }
+                    },
+                    required: ["query"]
+                },
+                handler: (projectId, args) => this.matchBugFix(projectId, args)
+            },
+            {
+                name: "get_bug_fix",
+                description: "Fetch a stored bug fix by its issue identifier.",
+                access: "read",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        issue: { type: "string", description: "Identifier used when the fix was recorded." }
+                    },
+                    required: ["issue"]
+                },
+                handler: (projectId, args) => this.getBugFix(projectId, args)
+            }
+        ];
+    }
+
     async recordBugFix(projectId: string, args: RecordBugFixArgs) {
         const {
             issue,
@@ -65,23 +126,14 @@ export class BugFixTool {
             source = ""
         } = args;
 
-        if (!incorrect_patterns || incorrect_patterns.length === 0) {
-            throw new Error("At least one incorrect pattern must be provided");
-        }
-
         const normalizedErrors = error_messages
             .map((msg) => msg.trim())
             .filter((msg) => msg.length > 0);
         const normalizedLookup = normalizedErrors.map((msg) => msg.toLowerCase());
 
-        const searchCorpus = [
-            issue,
-            summary,
-            correct_pattern,
-            ...incorrect_patterns,
-            ...normalizedErrors
-        ].join("\n\n");
-        const vector = await this.embedding.embed(searchCorpus);
+        const vector = await this.embedding.embed(
+            bugFixText({ issue, summary, correct_pattern, incorrect_patterns, error_messages: normalizedErrors })
+        );
         const id = randomUUID();
 
         await this.qdrant.upsert(this.getCollection(projectId), [
@@ -116,7 +168,9 @@ export class BugFixTool {
             errorMessage,
             limit = 5,
             minScore = 0.6,
-            tag
+            tag,
+            include_archived = false,
+            mode = "semantic"
         } = args;
         const matches: BugFixMatch[] = [];
         const seen = new Set<string>();
@@ -124,7 +178,7 @@ export class BugFixTool {
         if (errorMessage) {
             const normalized = errorMessage.trim();
             if (normalized.length > 0) {
-                const errorFilter: Record<string, unknown> = {
+                const errorFilter: Record<string, any> = {
                     must: [
                         {
                             key: "error_messages_normalized",
@@ -146,7 +200,7 @@ export class BugFixTool {
 
                 const errorMatches = await this.qdrant.scroll(
                     this.getCollection(projectId),
-                    errorFilter,
+                    excludeArchived(errorFilter, include_archived),
                     limit
                 );
 
@@ -174,9 +228,7 @@ export class BugFixTool {
             }
         }
 
-        const vector = await this.embedding.embed(
-            [query, errorMessage?.trim() ?? ""].filter(Boolean).join("\n\n")
-        );
+        const searchQuery = [query, errorMessage?.trim() ?? ""].filter(Boolean).join("\n\n");
 
         const filter = tag
             ? {
@@ -191,13 +243,15 @@ export class BugFixTool {
             }
             : undefined;
 
-        const results = await this.qdrant.search(
-            this.getCollection(projectId),
-            vector,
+        const results = await this.qdrant.searchText(this.getCollection(projectId), {
+            query: searchQuery,
+            fields: ["issue", "summary", "correct_pattern", "incorrect_patterns", "error_messages", "tags"],
+            embed: () => this.embedding.embed(searchQuery),
+            mode,
             limit,
-            filter,
-            minScore
-        );
+            filter: excludeArchived(filter, include_archived),
+            scoreThreshold: minScore
+        });
 
         for (const result of results) {
             const payload = (result.payload ?? {}) as Record<string, unknown>;
@@ -216,7 +270,7 @@ export class BugFixTool {
                 error_messages: asStringArray(payload.error_messages),
                 tags: asStringArray(payload.tags),
                 score: typeof result.score === "number" ? result.score : 0,
-                match_reason: "semantic"
+                match_reason: mode
             });
             if (matches.length >= limit) {
                 break;
@@ -228,14 +282,17 @@ export class BugFixTool {
 
     async getBugFix(projectId: string, args: GetBugFixArgs) {
         const { issue } = args;
-        const results = await this.qdrant.scroll(this.getCollection(projectId), {
-            must: [
-                {
-                    key: "issue",
-                    match: { value: issue }
-                }
-            ]
-        });
+        const results = await this.qdrant.scroll(
+            this.getCollection(projectId),
+            excludeArchived({
+                must: [
+                    {
+                        key: "issue",
+                        match: { value: issue }
+                    }
+                ]
+            })
+        );
 
         if (results.points.length === 0) {
             return {
@@ -0,0 +1,213 @@
+import { QdrantService } from "../services/qdrant.service.js";
+import { ProjectService } from "../services/project.service.js";
+import { RevisionService } from "../services/revision.service.js";
+import { buildThreads, CommentRecordType, CommentService } from "../services/comment.service.js";
+import { ActivityEntry, ActivityKind, commentActivity, revisionActivity, sortActivity } from "../utils/activity.js";
+import { pageOf } from "../utils/pagination.js";
+import { RECORD_TYPES } from "./record.tool.js";
+import { ToolDefinition } from "./registry.js";
+
+type AddCommentArgs = {
+    id: string;
+    body: string;
+    author: string;
+    reply_to?: string;
+};
+
+type ListCommentsArgs = {
+    type: CommentRecordType;
+    id: string;
+};
+
+type ActivityFeedArgs = {
+    type?: CommentRecordType;
+    id?: string;
+    kinds?: ActivityKind[];
+    limit?: number;
+    cursor?: string;
+};
+
+const COMMENT_RECORD_TYPES: CommentRecordType[] = ["backlog", "feature"];
+
+const ACTIVITY_KINDS: ActivityKind[] = ["comment", "status_change", "reassignment", "edit", "revert"];
+
+const RECORD_LABELS: Record<CommentRecordType, string> = {
+    backlog: "Backlog item",
+    feature: "Feature"
+};
+
+const commentProperties = (recordLabel: string) => ({
+    id: { type: "string" as const, description: `${recordLabel} identifier.` },
+    body: { type: "string" as const, minLength: 1, description: "Comment text (markdown)." },
+    author: { type: "string" as const, minLength: 1, description: "Agent or person writing the comment." },
+    reply_to: { type: "string" as const, description: "Comment id to reply to; it must be on the same record." }
+});
+
+export class CommentTool {
+    constructor(
+        private qdrant: QdrantService,
+        private projects: ProjectService,
+        private comments: CommentService,
+        private revisions: RevisionService
+    ) {}
+
+    getToolDefinitions(): ToolDefinition[] {
+        return [
+            {
+                name: "add_backlog_comment",
+                description:
+                    "Comment on a backlog item, or reply to an earlier comment. Comments are kept with author and timestamp, unlike notes, which each update overwrites; use them for review feedback and questions the next agent should see.",
+                access: "write",
+                inputSchema: {
+                    type: "object",
+                    properties: commentProperties("Backlog item"),
+                    required: ["id", "body", "author"],
+                    additionalProperties: false
+                },
+                handler: (projectId, args) => this.addComment(projectId, "backlog", args)
+            },
+            {
+                name: "add_feature_comment",
+                description: "Comment on a feature, or reply to an earlier comment.",
+                access: "write",
+                inputSchema: {
+                    type: "object",
+                    properties: commentProperties("Feature"),
+                    required: ["id", "body", "author"],
+                    additionalProperties: false
+                },
+                handler: (projectId, args) => this.addComment(projectId, "feature", args)
+            },
+            {
+                name: "list_comments",
+                description: "Return the comment threads on a backlog item or feature, oldest first, with replies nested under the comment they answer.",
+                access: "read",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        type: { type: "string", enum: COMMENT_RECORD_TYPES, description: "Kind of record." },
+                        id: { type: "string", description: "Record identifier." }
+                    },
+                    required: ["type", "id"],
+                    additionalProperties: false
+                },
+                handler: (projectId, args) => this.listComments(projectId, args)
+            },
+            {
+                name: "get_activity_feed",
+                description:
+                    "List recent activity (comments, status changes, reassignments, edits, reverts) newest first, for one backlog item or feature or for the whole project. Page further with next_cursor.",
+                access: "read",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        type: { type: "string", enum: COMMENT_RECORD_TYPES, description: "Only activity on this kind of record." },
+                        id: { type: "string", description: "Only activity on this record (requires type)." },
+                        kinds: {
+                            type: "array",
+                            items: { type: "string", enum: ACTIVITY_KINDS },
+                            description: "Only these kinds of activity."
+                        },
+                        limit: { type: "number", description: "Maximum entries to return (default 20, max 100)." },
+                        cursor: { type: "string", description: "next_cursor from the previous page." }
+                    },
+                    additionalProperties: false
+                },
+                handler: (projectId, args) => this.getActivityFeed(projectId, args)
+            }
+        ];
+    }
+
+    async addComment(projectId: string, recordType: CommentRecordType, args: AddCommentArgs) {
+        const title = await this.fetchTitles(projectId, [{ record_type: recordType, record_id: args.id }]);
+        if (!title.has(`${recordType}:${args.id}`)) {
+            return {
+                success: false,
+                message: `${RECORD_LABELS[recordType]} '${args.id}' not found`
+            };
+        }
+
+        if (args.reply_to) {
+            const parent = await this.comments.getComment(projectId, args.reply_to);
+            if (!parent || parent.record_type !== recordType || parent.record_id !== args.id) {
+                throw new Error(`Comment '${args.reply_to}' is not a comment on ${recordType} '${args.id}'`);
+            }
+        }
+
+        const comment = await this.comments.addComment(projectId, {
+            recordType,
+            recordId: args.id,
+            author: args.author.trim(),
+            body: args.body,
+            parentId: args.reply_to
+        });
+
+        return {
+            success: true,
+            id: comment.id,
+            comment,
+            message: `Comment added to ${recordType} '${title.get(`${recordType}:${args.id}`) ?? args.id}'`
+        };
+    }
+
+    async listComments(projectId: string, args: ListCommentsArgs) {
+        const comments = await this.comments.listComments(projectId, args.type, args.id);
+        return {
+            type: args.type,
+            id: args.id,
+            count: comments.length,
+            threads: buildThreads(comments)
+        };
+    }
+
+    async getActivityFeed(projectId: string, args: ActivityFeedArgs = {}) {
+        if (args.id && !args.type) {
+            throw new Error("type is required when id is given");
+        }
+        const limit = Math.min(Math.max(args.limit ?? 20, 1), 100);
+
+        const [revisions, comments] = await Promise.all([
+            args.id
+                ? this.revisions.listRevisions(projectId, args.type!, args.id)
+                : this.revisions.listProjectRevisions(projectId, args.type),
+            this.comments.listComments(projectId, args.type, args.id)
+        ]);
+
+        const kinds = args.kinds?.length ? new Set(args.kinds) : null;
+        const entries = sortActivity([
+            ...revisions.map((revision) => revisionActivity(revision)),
+            ...comments.map((comment) => commentActivity(comment))
+        ]).filter((entry) => !kinds || kinds.has(entry.kind));
+
+        const page = pageOf(entries, limit, args.cursor);
+        const titles = await this.fetchTitles(projectId, page.items);
+
+        return {
+            count: page.items.length,
+            total: entries.length,
+            items: page.items.map((entry) => ({
+                ...entry,
+                record_title: titles.get(`${entry.record_type}:${entry.record_id}`) ?? null
+            })),
+            next_cursor: page.next_cursor
+        };
+    }
+
+    /** Current titles keyed by `<type>:<id>`; records that no longer exist are missing from the map. */
+    private async fetchTitles(projectId: string, refs: Array<Pick<ActivityEntry, "record_type" | "record_id">>) {
+        const titles = new Map<string, string | null>();
+        for (const type of COMMENT_RECORD_TYPES) {
+            const ids = Array.from(new Set(refs.filter((ref) => ref.record_type === type).map((ref) => ref.record_id)));
+            if (ids.length === 0) {
+                continue;
+            }
+            const definition = RECORD_TYPES[type];
+            const points = (await this.qdrant.retrieve(this.projects.collectionName(projectId, definition.collection), ids)) ?? [];
+            for (const point of points) {
+                const title = point.payload?.[definition.titleField];
+                titles.set(`${type}:${point.id}`, typeof title === "string" ? title : null);
+            }
+        }
+        return titles;
+    }
+}
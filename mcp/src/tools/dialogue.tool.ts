@@ -1,10 +1,13 @@
 import { randomUUID } from "crypto";
 
-import { QdrantService } from "../services/qdrant.service.js";
+import { QdrantService, SearchMode } from "../services/qdrant.service.js";
 import { EmbeddingService } from "../services/embedding.service.js";
 import { CacheService } from "../services/cache.service.js";
 import { ProjectService } from "../services/project.service.js";
+import { excludeArchived } from "../utils/archive.js";
 import { DialogueSceneInput, DialogueSceneRecord } from "../types/index.js";
+import { ToolDefinition } from "./registry.js";
+import { dialogueText } from "../utils/embeddingText.js";
 
 type StoreArgs = DialogueSceneInput & {
     scene?: string;
@@ -17,6 +20,8 @@ type SearchArgs = {
     tags?: string[];
     limit?: number;
     min_score?: number;
+    mode?: SearchMode;
+    include_archived?: boolean;
 };
 
 type SceneArgs = {
@@ -33,6 +38,63 @@ export class DialogueTool {
         private projects: ProjectService
     ) {}
 
+    getToolDefinitions(): ToolDefinition[] {
+        return [
+            {
+                name: "store_dialogue_scene",
+                description: "Store branching dialogue scripts with character context and tone.",
+                access: "write",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        scene: { type: "string", minLength: 1, description: "Unique scene identifier" },
+                        characters: { type: "array", items: { type: "string" }, description: "Characters present" },
+                        context: { type: "string", description: "Scene setup and intent" },
+                        script: { type: "string", description: "Dialogue script with branching notes" },
+                        branching: { type: "object", additionalProperties: { type: "string" }, description: "Branch key to script snippet" },
+                        tags: { type: "array", items: { type: "string" } },
+                        tone: { type: "string" }
+                    },
+                    required: ["scene", "characters", "context", "script"]
+                },
+                handler: (projectId, args) => this.storeDialogueScene(projectId, args)
+            },
+            {
+                name: "find_dialogue",
+                description: "Search stored dialogue scenes/snippets for reuse or consistency checks.",
+                access: "read",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        query: { type: "string" },
+                        character: { type: "string" },
+                        tone: { type: "string" },
+                        tags: { type: "array", items: { type: "string" } },
+                        limit: { type: "number", default: 5 },
+                        min_score: { type: "number", default: 0.58 },
+                        mode: { type: "string", enum: ["semantic", "keyword", "hybrid"], description: "semantic (default) matches meaning, keyword matches exact terms such as class names, quest ids or error codes, hybrid fuses both rankings." },
+                        include_archived: { type: "boolean", description: "Include soft-archived records (default false)." }
+                    },
+                    required: ["query"]
+                },
+                handler: (projectId, args) => this.findDialogue(projectId, args)
+            },
+            {
+                name: "get_dialogue_scene",
+                description: "Fetch a dialogue scene by its identifier including branches and metadata.",
+                access: "read",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        scene_id: { type: "string", description: "Scene identifier" }
+                    },
+                    required: ["scene_id"]
+                },
+                handler: (projectId, args) => this.getScene(projectId, args)
+            }
+        ];
+    }
+
     async storeDialogueScene(projectId: string, args: StoreArgs) {
         const {
             scene,
@@ -44,16 +106,10 @@ export class DialogueTool {
             tone,
         } = args;
 
-        if (!scene) {
-            throw new Error("Scene identifier is required");
-        }
-
         const timestamp = new Date().toISOString();
         const id = randomUUID();
 
-        const vector = await this.embedding.embed(
-            `${scene}\n${characters.join(",")}\n${context}\n${script}`
-        );
+        const vector = await this.embedding.embed(dialogueText({ scene, characters, context, script }));
 
         await this.qdrant.upsert(this.getCollection(projectId), [
             {
@@ -91,18 +147,21 @@ export class DialogueTool {
             tags,
             limit = 5,
             min_score = 0.58,
+            include_archived = false,
+            mode,
         } = args;
 
-        const vector = await this.embedding.embed(query);
-        const filter = this.buildFilter({ character, tone, tags });
+        const filter = excludeArchived(this.buildFilter({ character, tone, tags }), include_archived);
 
-        const results: any[] = await this.qdrant.search(
-            this.getCollection(projectId),
-            vector,
+        const results: any[] = await this.qdrant.searchText(this.getCollection(projectId), {
+            query,
+            fields: ["scene", "characters", "context", "script", "tags"],
+            embed: () => this.embedding.embed(query),
+            mode,
             limit,
             filter,
-            min_score
-        );
+            scoreThreshold: min_score
+        });
 
         return {
             count: results.length,
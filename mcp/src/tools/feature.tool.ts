@@ -1,9 +1,13 @@
 import { randomUUID } from "crypto";
 
-import { QdrantService } from "../services/qdrant.service.js";
+import { QdrantService, SearchMode } from "../services/qdrant.service.js";
 import { EmbeddingService } from "../services/embedding.service.js";
 import { ProjectService } from "../services/project.service.js";
+import { RevisionContext, RevisionService } from "../services/revision.service.js";
+import { excludeArchived, isArchivedPayload } from "../utils/archive.js";
 import { BacklogTool } from "./backlog.tool.js";
+import { ToolDefinition } from "./registry.js";
+import { featureText } from "../utils/embeddingText.js";
 
 interface CreateFeatureArgs {
     name: string;
@@ -16,6 +20,7 @@ interface CreateFeatureArgs {
 
 interface UpdateFeatureArgs extends Partial<CreateFeatureArgs> {
     id: string;
+    updated_by?: string;
 }
 
 interface ListFeaturesArgs {
@@ -23,6 +28,8 @@ interface ListFeaturesArgs {
     tags?: string[];
     status?: string;
     query?: string;
+    mode?: SearchMode;
+    include_archived?: boolean;
 }
 
 interface AssignBacklogArgs {
@@ -40,6 +47,8 @@ interface FeatureRecord {
     created_at: string;
     updated_at: string;
     priority: number;
+    archived: boolean;
+    archived_at: string | null;
     score?: number;
 }
 
@@ -57,9 +66,132 @@ export class FeatureTool {
         private qdrant: QdrantService,
         private embedding: EmbeddingService,
         private projects: ProjectService,
-        private backlog: BacklogTool
+        private backlog: BacklogTool,
+        private revisions: RevisionService
     ) {}
 
+    getToolDefinitions(): ToolDefinition[] {
+        return [
+            {
+                name: "create_feature",
+                description: "Create a new feature definition that groups multiple backlog items.",
+                access: "write",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        name: { type: "string", description: "Feature title." },
+                        description: { type: "string", description: "Optional narrative or outcome statement." },
+                        tags: { type: "array", items: { type: "string" }, description: "Optional labels for planning queries." },
+                        status: { type: "string", description: "Lifecycle state (e.g., proposed, in-progress, delivered)." },
+                        owner: { type: "string", description: "Optional directly responsible individual." },
+                        priority: { type: "number", description: "Optional numeric rank (1 = highest priority). Lower numbers sort first." }
+                    },
+                    required: ["name"],
+                    additionalProperties: false
+                },
+                handler: (projectId, args) => this.createFeature(projectId, args)
+            },
+            {
+                name: "update_feature",
+                description: "Modify fields on an existing feature by ID.",
+                access: "write",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        id: { type: "string", description: "Feature identifier." },
+                        name: { type: "string" },
+                        description: { type: ["string", "null"] },
+                        tags: { type: "array", items: { type: "string" } },
+                        status: { type: "string" },
+                        owner: { type: "string" },
+                        priority: { type: "number", description: "Numeric rank (1 = highest priority). Lower numbers sort first." },
+                        updated_by: { type: "string", description: "Agent or person making the change (recorded in the revision history)." }
+                    },
+                    required: ["id"],
+                    additionalProperties: false
+                },
+                handler: (projectId, args) => this.updateFeature(projectId, args)
+            },
+            {
+                name: "list_features",
+                description: "List features with optional tag/status filters or a semantic query.",
+                access: "read",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        limit: { type: "number", description: "Maximum number of features to return (default 25)." },
+                        tags: { type: "array", items: { type: "string" }, description: "Optional tag filter." },
+                        status: { type: "string", description: "Optional status filter." },
+                        query: { type: "string", description: "Optional semantic search query." },
+                        mode: { type: "string", enum: ["semantic", "keyword", "hybrid"], description: "semantic (default) matches meaning, keyword matches exact terms such as class names, quest ids or error codes, hybrid fuses both rankings." },
+                        include_archived: { type: "boolean", description: "Include soft-archived records (default false)." }
+                    },
+                    additionalProperties: false
+                },
+                handler: (projectId, args) => this.listFeatures(projectId, args)
+            },
+            {
+                name: "get_feature",
+                description: "Retrieve a single feature by ID.",
+                access: "read",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        id: { type: "string", description: "Feature identifier." }
+                    },
+                    required: ["id"],
+                    additionalProperties: false
+                },
+                handler: (projectId, args) => this.getFeature(projectId, args)
+            },
+            {
+                name: "assign_backlog_to_feature",
+                description: "Link an existing backlog item to a feature for rollout tracking.",
+                access: "write",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        feature_id: { type: "string", description: "Feature identifier." },
+                        backlog_id: { type: "string", description: "Backlog item identifier." }
+                    },
+                    required: ["feature_id", "backlog_id"],
+                    additionalProperties: false
+                },
+                handler: (projectId, args) => this.assignBacklogItem(projectId, args)
+            },
+            {
+                name: "list_feature_backlog_items",
+                description: "Return backlog items associated with a given feature. Page further with next_cursor.",
+                access: "read",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        feature_id: { type: "string", description: "Feature identifier to inspect." },
+                        limit: { type: "number", description: "Maximum items to return (default 100)." },
+                        cursor: { type: "string", description: "next_cursor from the previous page." }
+                    },
+                    required: ["feature_id"],
+                    additionalProperties: false
+                },
+                handler: (projectId, args) => this.listFeatureBacklogItems(projectId, args)
+            },
+            {
+                name: "set_feature_lock",
+                description: "Toggle the feature creation lock for the current project.",
+                access: "write",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        locked: { type: "boolean", description: "Set true to block new features, false to allow them." }
+                    },
+                    required: ["locked"],
+                    additionalProperties: false
+                },
+                handler: (projectId, args) => this.setFeatureLock(projectId, args)
+            }
+        ];
+    }
+
     async createFeature(projectId: string, args: CreateFeatureArgs) {
         const normalizedProject = this.projects.requireProject(projectId);
         if (this.projects.isFeatureCreationLocked(normalizedProject)) {
@@ -101,7 +233,7 @@ export class FeatureTool {
         };
     }
 
-    async updateFeature(projectId: string, args: UpdateFeatureArgs) {
+    async updateFeature(projectId: string, args: UpdateFeatureArgs, revision: RevisionContext = {}) {
         const normalizedProject = this.projects.requireProject(projectId);
         const existing = await this.fetchFeature(normalizedProject, args.id);
         if (!existing) {
@@ -151,6 +283,16 @@ export class FeatureTool {
             );
         }
 
+        await this.revisions.recordRevision(normalizedProject, {
+            recordType: "feature",
+            recordId: args.id,
+            before: { ...existing },
+            after: merged,
+            author: args.updated_by,
+            action: revision.action,
+            revertedRevision: revision.revertedRevision
+        });
+
         if (priority !== existing.priority) {
             await this.normalizeFeaturePriorities(normalizedProject);
         }
@@ -167,18 +309,24 @@ export class FeatureTool {
         const limit = Math.min(Math.max(args.limit ?? 25, 1), 100);
 
         const normalizedFeatures = await this.normalizeFeaturePriorities(normalizedProject);
-        const filteredFeatures = this.applyFeatureFilters(normalizedFeatures, args.tags, args.status);
+        const includeArchived = args.include_archived === true;
+        const visibleFeatures = includeArchived
+            ? normalizedFeatures
+            : normalizedFeatures.filter((feature) => !feature.archived);
+        const filteredFeatures = this.applyFeatureFilters(visibleFeatures, args.tags, args.status);
 
         if (args.query && args.query.trim().length > 0) {
-            const vector = await this.embedding.embed(args.query.trim());
-            const filter = this.buildFeatureFilter(args.tags, args.status);
-            const results: any[] = await this.qdrant.search(
-                this.getCollection(normalizedProject),
-                vector,
+            const query = args.query.trim();
+            const filter = excludeArchived(this.buildFeatureFilter(args.tags, args.status), includeArchived);
+            const results: any[] = await this.qdrant.searchText(this.getCollection(normalizedProject), {
+                query,
+                fields: ["name", "description", "tags", "owner"],
+                embed: () => this.embedding.embed(query),
+                mode: args.mode,
                 limit,
                 filter,
-                0.55
-            );
+                scoreThreshold: 0.55
+            });
             const featureIndex = new Map(filteredFeatures.map((feature) => [feature.id, feature]));
             const mapped = results
                 .map((result: any) => {
@@ -262,7 +410,7 @@ export class FeatureTool {
         };
     }
 
-    async listFeatureBacklogItems(projectId: string, args: { feature_id: string }) {
+    async listFeatureBacklogItems(projectId: string, args: { feature_id: string; limit?: number; cursor?: string }) {
         const normalizedProject = this.projects.requireProject(projectId);
         const feature = await this.fetchFeature(normalizedProject, args.feature_id);
         if (!feature) {
@@ -272,11 +420,13 @@ export class FeatureTool {
             };
         }
 
-        const items = await this.backlog.getBacklogItemsByFeature(normalizedProject, feature.id);
+        const limit = Math.min(Math.max(args.limit ?? 100, 1), 200);
+        const page = await this.backlog.getBacklogItemsByFeature(normalizedProject, feature.id, limit, args.cursor);
         return {
             feature: feature.id,
-            count: items.length,
-            items
+            count: page.items.length,
+            items: page.items,
+            next_cursor: page.next_cursor
         };
     }
 
@@ -344,6 +494,8 @@ export class FeatureTool {
             created_at: created,
             updated_at: updated,
             priority: this.normalizePriority(payload.priority),
+            archived: isArchivedPayload(payload),
+            archived_at: typeof payload.archived_at === "string" ? payload.archived_at : null,
             score
         };
     }
@@ -358,21 +510,7 @@ export class FeatureTool {
     }
 
     private async fetchAllFeaturePoints(projectId: string, filter?: any) {
-        const collection = this.getCollection(projectId);
-        const results: any[] = [];
-        let offset: any = undefined;
-        const pageSize = 200;
-
-        do {
-            const response: any = await this.qdrant.scroll(collection, filter, pageSize, offset);
-            const points = Array.isArray(response?.points) ? response.points : [];
-            if (points.length > 0) {
-                results.push(...points);
-            }
-            offset = response?.next_page_offset;
-        } while (offset);
-
-        return results;
+        return await this.qdrant.scrollAll(this.getCollection(projectId), filter, 200);
     }
 
     private async normalizeFeaturePriorities(projectId: string): Promise<FeatureRecord[]> {
@@ -454,6 +592,8 @@ export class FeatureTool {
             status: feature.status ?? null,
             owner: feature.owner ?? null,
             priority: feature.priority,
+            archived: feature.archived,
+            archived_at: feature.archived_at,
             created_at: feature.created_at,
             updated_at: feature.updated_at
         };
@@ -516,7 +656,7 @@ export class FeatureTool {
     }
 
     private async embedFeature(name: string, description: string) {
-        return await this.embedding.embed(`${name}\n\n${description}`.trim());
+        return await this.embedding.embed(featureText({ name, description }));
     }
 
     private getCollection(projectId: string) {
@@ -1,10 +1,14 @@
 import { randomUUID } from "crypto";
 
-import { QdrantService } from "../services/qdrant.service.js";
+import { QdrantService, SearchMode } from "../services/qdrant.service.js";
 import { EmbeddingService } from "../services/embedding.service.js";
 import { CacheService } from "../services/cache.service.js";
 import { ProjectService } from "../services/project.service.js";
+import { excludeArchived } from "../utils/archive.js";
+import { pageOf } from "../utils/pagination.js";
 import { GameplayFeedbackInput } from "../types/index.js";
+import { ToolDefinition } from "./registry.js";
+import { feedbackText } from "../utils/embeddingText.js";
 
 type QueryArgs = {
     query: string;
@@ -12,11 +16,15 @@ type QueryArgs = {
     tags?: string[];
     limit?: number;
     min_score?: number;
+    mode?: SearchMode;
+    include_archived?: boolean;
 };
 
 type SummaryArgs = {
     limit?: number;
     since?: string;
+    include_archived?: boolean;
+    cursor?: string;
 };
 
 export class FeedbackTool {
@@ -29,6 +37,65 @@ export class FeedbackTool {
         private projects: ProjectService
     ) {}
 
+    getToolDefinitions(): ToolDefinition[] {
+        return [
+            {
+                name: "record_playtest_feedback",
+                description: "Record structured gameplay or narrative feedback from playtests.",
+                access: "write",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        source: { type: "string", description: "Who/what generated the feedback" },
+                        experience: { type: "string", description: "Summary of the session" },
+                        positives: { type: "array", items: { type: "string" } },
+                        negatives: { type: "array", items: { type: "string" } },
+                        suggestions: { type: "array", items: { type: "string" } },
+                        build: { type: "string", description: "Build identifier" },
+                        tags: { type: "array", items: { type: "string" } },
+                        severity: { type: "string", enum: ["low", "medium", "high", "critical"] }
+                    },
+                    required: ["source", "experience", "positives", "negatives"]
+                },
+                handler: (projectId, args) => this.recordFeedback(projectId, args)
+            },
+            {
+                name: "query_playtest_feedback",
+                description: "Search recorded feedback for similar issues or player sentiment.",
+                access: "read",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        query: { type: "string" },
+                        severity: { type: "string", enum: ["low", "medium", "high", "critical"] },
+                        tags: { type: "array", items: { type: "string" } },
+                        limit: { type: "number", default: 10 },
+                        min_score: { type: "number", default: 0.55 },
+                        mode: { type: "string", enum: ["semantic", "keyword", "hybrid"], description: "semantic (default) matches meaning, keyword matches exact terms such as class names, quest ids or error codes, hybrid fuses both rankings." },
+                        include_archived: { type: "boolean", description: "Include soft-archived records (default false)." }
+                    },
+                    required: ["query"]
+                },
+                handler: (projectId, args) => this.queryFeedback(projectId, args)
+            },
+            {
+                name: "summarize_playtest_feedback",
+                description: "Summarize playtest feedback counts by severity and highlight common tags. Counts cover all matching feedback; the feedback list is paged newest first with next_cursor.",
+                access: "read",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        limit: { type: "number", default: 200, description: "Maximum feedback entries per page." },
+                        since: { type: "string", description: "ISO timestamp to filter feedback newer than this" },
+                        include_archived: { type: "boolean", description: "Include soft-archived records (default false)." },
+                        cursor: { type: "string", description: "next_cursor from the previous page." }
+                    }
+                },
+                handler: (projectId, args) => this.summarizeFeedback(projectId, args)
+            }
+        ];
+    }
+
     async recordFeedback(projectId: string, args: GameplayFeedbackInput) {
         const {
             source,
@@ -44,9 +111,7 @@ export class FeedbackTool {
         const id = randomUUID();
         const timestamp = new Date().toISOString();
 
-        const vector = await this.embedding.embed(
-            `${experience}\nPositives: ${positives.join(", ")}\nNegatives: ${negatives.join(", ")}\nSuggestions: ${suggestions.join(", ")}`
-        );
+        const vector = await this.embedding.embed(feedbackText({ experience, positives, negatives, suggestions }));
 
         await this.qdrant.upsert(this.getCollection(projectId), [
             {
@@ -82,18 +147,21 @@ export class FeedbackTool {
             tags,
             limit = 10,
             min_score = 0.55,
+            include_archived = false,
+            mode,
         } = args;
 
-        const vector = await this.embedding.embed(query);
-        const filter = this.buildFilter({ severity, tags });
+        const filter = excludeArchived(this.buildFilter({ severity, tags }), include_archived);
 
-        const results: any[] = await this.qdrant.search(
-            this.getCollection(projectId),
-            vector,
+        const results: any[] = await this.qdrant.searchText(this.getCollection(projectId), {
+            query,
+            fields: ["experience", "positives", "negatives", "suggestions", "build", "tags"],
+            embed: () => this.embedding.embed(query),
+            mode,
             limit,
             filter,
-            min_score
-        );
+            scoreThreshold: min_score
+        });
 
         return {
             count: results.length,
@@ -102,14 +170,30 @@ export class FeedbackTool {
     }
 
     async summarizeFeedback(projectId: string, args: SummaryArgs = {}) {
-        const { limit = 200, since } = args;
-        const cacheKey = `feedback:${projectId}:summary:${limit}:${since ?? ""}`;
+        const { limit = 200, since, include_archived = false, cursor } = args;
+        // The summary over all matching feedback is cached; pages are sliced from it.
+        const cacheKey = `feedback:${projectId}:summary:${since ?? ""}:${include_archived}`;
         const cached = this.cache.get<any>(cacheKey);
-        if (cached) {
-            return { ...cached, cached: true };
+        const summary = cached ?? (await this.buildSummary(projectId, since, include_archived));
+        if (!cached) {
+            this.cache.set(cacheKey, summary, 10 * 60 * 1000);
         }
 
-        const filter = since
+        const page = pageOf(summary.feedback as any[], limit, cursor);
+
+        return {
+            count: page.items.length,
+            total: summary.count,
+            bySeverity: summary.bySeverity,
+            topTags: summary.topTags,
+            feedback: page.items,
+            next_cursor: page.next_cursor,
+            cached: Boolean(cached),
+        };
+    }
+
+    private async buildSummary(projectId: string, since: string | undefined, include_archived: boolean) {
+        const baseFilter = since
             ? {
                 must: [
                     {
@@ -121,15 +205,12 @@ export class FeedbackTool {
                 ],
             }
             : undefined;
+        const filter = excludeArchived(baseFilter, include_archived);
 
-        const response: any = await this.qdrant.scroll(
-            this.getCollection(projectId),
-            filter,
-            limit
-        );
-
-        const points: any[] = response.points ?? [];
-        const feedback = points.map(point => this.mapPoint(point));
+        const points = await this.qdrant.scrollAll(this.getCollection(projectId), filter);
+        const feedback = points
+            .map(point => this.mapPoint(point))
+            .sort((a, b) => String(b.created_at ?? "").localeCompare(String(a.created_at ?? "")));
 
         const bySeverity = feedback.reduce<Record<string, number>>((acc, item) => {
             const severity = item.severity ?? "unknown";
@@ -144,7 +225,7 @@ export class FeedbackTool {
             return acc;
         }, {});
 
-        const summary = {
+        return {
             count: feedback.length,
             bySeverity,
             topTags: Object.entries(tagCounts)
@@ -152,12 +233,7 @@ export class FeedbackTool {
                 .slice(0, 10)
                 .map(([tag, count]) => ({ tag, count })),
             feedback,
-            cached: false,
         };
-
-        this.cache.set(cacheKey, summary, 10 * 60 * 1000);
-
-        return summary;
     }
 
     private mapPoint(point: any) {
@@ -1,11 +1,12 @@
 import { EmbeddingService } from "../services/embedding.service.js";
-import { QdrantService } from "../services/qdrant.service.js";
+import { QdrantService, SearchMode } from "../services/qdrant.service.js";
 import { ProjectService } from "../services/project.service.js";
 import {
     GraphRelationship,
     GraphEntitySummary,
     Neo4jService
 } from "../services/neo4j.service.js";
+import { ToolDefinition } from "./registry.js";
 
 interface ExploreGraphArgs {
     entityId: string;
@@ -17,6 +18,7 @@ interface SearchGraphArgs {
     limit?: number;
     type?: string;
     minScore?: number;
+    mode?: SearchMode;
 }
 
 export class GraphTool {
@@ -28,13 +30,45 @@ export class GraphTool {
         private collectionBaseName: string
     ) {}
 
+    getToolDefinitions(): ToolDefinition[] {
+        return [
+            {
+                name: "explore_graph_entity",
+                description: "Inspect a knowledge-graph entity plus its inbound/outbound Neo4j relationships.",
+                access: "read",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        entityId: { type: "string", minLength: 1, description: "Graph entity identifier (e.g., 'file:src/server.ts')." },
+                        maxNeighbors: { type: "number", description: "Maximum relationships to return (1-100).", default: 25 }
+                    },
+                    required: ["entityId"]
+                },
+                handler: (projectId, args) => this.exploreGraph(projectId, args)
+            },
+            {
+                name: "search_graph_semantic",
+                description: "Semantic search over the knowledge-graph embeddings (stored in Qdrant) to find relevant entities.",
+                access: "read",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        query: { type: "string", pattern: "\\S", description: "Natural-language request or code snippet describing what you want to find." },
+                        limit: { type: "number", description: "Maximum results to return (1-20).", default: 10 },
+                        type: { type: "string", description: "Optional entity type filter (e.g., 'file', 'class', 'function')." },
+                        minScore: { type: "number", description: "Optional similarity threshold (0-1).", default: 0.55 },
+                        mode: { type: "string", enum: ["semantic", "keyword", "hybrid"], description: "semantic (default) matches meaning, keyword matches exact terms such as class names, quest ids or error codes, hybrid fuses both rankings." }
+                    },
+                    required: ["query"]
+                },
+                handler: (projectId, args) => this.searchGraph(projectId, args)
+            }
+        ];
+    }
+
     async exploreGraph(projectId: string, args: ExploreGraphArgs) {
         const { entityId, maxNeighbors = 25 } = args;
 
-        if (!entityId) {
-            throw new Error("entityId is required");
-        }
-
         const result = await this.neo4j.getEntityWithNeighbors(
             projectId,
             entityId,
@@ -56,13 +90,8 @@ export class GraphTool {
     }
 
     async searchGraph(projectId: string, args: SearchGraphArgs) {
-        const { query, limit = 10, type, minScore = 0.55 } = args;
-
-        if (!query || query.trim().length === 0) {
-            throw new Error("query is required");
-        }
+        const { query, limit = 10, type, minScore = 0.55, mode } = args;
 
-        const vector = await this.embedding.embed(query);
         const filter = type
             ? {
                 must: [
@@ -74,13 +103,15 @@ export class GraphTool {
             }
             : undefined;
 
-        const results = await this.qdrant.search(
-            this.projects.collectionName(projectId, this.collectionBaseName),
-            vector,
-            Math.max(1, Math.min(limit, 20)),
+        const results = await this.qdrant.searchText(this.projects.collectionName(projectId, this.collectionBaseName), {
+            query,
+            fields: ["entityId", "name", "path", "semanticDescription", "purpose", "architecturalRole"],
+            embed: () => this.embedding.embed(query),
+            mode,
+            limit: Math.max(1, Math.min(limit, 20)),
             filter,
-            minScore
-        );
+            scoreThreshold: minScore
+        });
 
         return {
             count: results.length,
@@ -1,17 +1,55 @@
-import { QdrantService } from "../services/qdrant.service.js";
+import { randomUUID } from "crypto";
+
+import { QdrantService, SearchMode } from "../services/qdrant.service.js";
 import { EmbeddingService } from "../services/embedding.service.js";
 import { ProjectService } from "../services/project.service.js";
+import { ToolDefinition } from "./registry.js";
+import { excludeArchived } from "../utils/archive.js";
+import { handoffText } from "../utils/embeddingText.js";
 
 type StoreArgs = {
     content: string;
     updated_by?: string;
+    session_id?: string;
     tags?: string[];
 };
 
+type FetchArgs = {
+    include_history?: boolean;
+    limit?: number;
+    updated_by?: string;
+};
+
+type SearchArgs = {
+    query: string;
+    updated_by?: string;
+    limit?: number;
+    min_score?: number;
+    mode?: SearchMode;
+};
+
+type DigestArgs = {
+    updated_by: string;
+    since?: string;
+    limit?: number;
+};
+
+type HandoffEntry = {
+    id: string;
+    content: string;
+    updated_by: string | null;
+    session_id: string | null;
+    tags: string[];
+    created_at: string | null;
+    score?: number;
+};
+
+const asString = (value: unknown): string | null =>
+    typeof value === "string" ? value : null;
+
 export class HandoffTool {
     private collection = "handoff_notes";
-    // Use a deterministic UUID so Qdrant accepts the ID format across versions.
-    private handoffId = "11111111-1111-1111-1111-111111111111";
+    private backlogCollection = "backlog_items";
 
     constructor(
         private qdrant: QdrantService,
@@ -19,12 +57,84 @@ export class HandoffTool {
         private projects: ProjectService
     ) {}
 
+    getToolDefinitions(): ToolDefinition[] {
+        return [
+            {
+                name: "store_handoff",
+                description: "Append an end-of-session handoff entry (markdown) to the project's handoff timeline.",
+                access: "write",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        content: { type: "string", pattern: "\\S", description: "Markdown content describing the current state." },
+                        updated_by: { type: "string", description: "Agent identifier." },
+                        session_id: { type: "string", description: "Optional session identifier (defaults to the MCP session id)." },
+                        tags: { type: "array", items: { type: "string" }, description: "Optional tags." }
+                    },
+                    required: ["content"]
+                },
+                handler: (projectId, args, context) =>
+                    this.storeHandoff(projectId, { ...args, session_id: args.session_id ?? context.sessionId })
+            },
+            {
+                name: "fetch_handoff",
+                description: "Retrieve the latest handoff entry at the start of a session, optionally with earlier entries.",
+                access: "read",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        include_history: { type: "boolean", description: "Also return summaries of earlier entries (newest first)." },
+                        limit: { type: "number", description: "Maximum history entries to return (default 10, max 100)." },
+                        updated_by: { type: "string", description: "Only consider entries written by this agent." }
+                    },
+                    additionalProperties: false
+                },
+                handler: (projectId, args) => this.fetchHandoff(projectId, args)
+            },
+            {
+                name: "search_handoffs",
+                description: "Semantic search across past handoff entries.",
+                access: "read",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        query: { type: "string", description: "What you're looking for." },
+                        updated_by: { type: "string", description: "Only search entries written by this agent." },
+                        limit: { type: "number", description: "Maximum results to return (default 5)." },
+                        min_score: { type: "number", description: "Similarity threshold between 0-1 (default 0.5)." },
+                        mode: { type: "string", enum: ["semantic", "keyword", "hybrid"], description: "semantic (default) matches meaning, keyword matches exact terms such as class names, quest ids or error codes, hybrid fuses both rankings." }
+                    },
+                    required: ["query"],
+                    additionalProperties: false
+                },
+                handler: (projectId, args) => this.searchHandoffs(projectId, args)
+            },
+            {
+                name: "get_handoff_digest",
+                description: "Summarize what happened since your last session: other agents' handoff entries and backlog items updated after your most recent handoff.",
+                access: "read",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        updated_by: { type: "string", description: "Your agent identifier (as used in store_handoff)." },
+                        since: { type: "string", description: "ISO date or timestamp (with an optional UTC offset) overriding the time of your last handoff." },
+                        limit: { type: "number", description: "Maximum entries per section (default 20, max 100)." }
+                    },
+                    required: ["updated_by"],
+                    additionalProperties: false
+                },
+                handler: (projectId, args) => this.getDigest(projectId, args)
+            }
+        ];
+    }
+
     async storeHandoff(projectId: string, args: StoreArgs) {
-        const { content, updated_by, tags = [] } = args;
+        const { content, updated_by, session_id, tags = [] } = args;
         const trimmed = content.trim();
 
         const logContext = {
             updatedBy: updated_by ?? null,
+            sessionId: session_id ?? null,
             contentLength: trimmed.length,
             contentPreview: trimmed.substring(0, 120),
             tags
@@ -32,25 +142,9 @@ export class HandoffTool {
 
         console.info("[HandoffTool] storeHandoff invoked", logContext);
 
-        let existingContent: string | undefined;
-        try {
-            const existing = await this.fetchPoint(projectId);
-            existingContent = existing?.payload?.content as string | undefined;
-            console.info("[HandoffTool] existing handoff retrieved", {
-                hasExisting: Boolean(existingContent),
-                existingLength: existingContent?.length ?? 0
-            });
-        } catch (error) {
-            console.error("[HandoffTool] failed to fetch existing handoff", {
-                error: error instanceof Error ? error.message : String(error)
-            });
-        }
-
-        const updated = trimmed.length > 0 && trimmed !== (existingContent ?? "");
-
         let vector: number[] = [];
         try {
-            vector = await this.embedding.embed(trimmed || "handoff");
+            vector = await this.embedding.embed(handoffText({ content: trimmed }));
             console.info("[HandoffTool] embedding generated", {
                 vectorLength: vector.length
             });
@@ -61,24 +155,27 @@ export class HandoffTool {
             throw error;
         }
 
+        const id = randomUUID();
         const now = new Date().toISOString();
 
         try {
             const result = await this.qdrant.upsert(this.getCollection(projectId), [
                 {
-                    id: this.handoffId,
+                    id,
                     vector,
                     payload: {
                         content: trimmed,
                         updated_by: updated_by ?? null,
+                        session_id: session_id ?? null,
                         tags,
+                        created_at: now,
                         updated_at: now
                     }
                 }
             ]);
             console.info("[HandoffTool] Qdrant upsert completed", {
                 resultStatus: result?.status ?? "unknown",
-                updated
+                id
             });
         } catch (error) {
             console.error("[HandoffTool] Qdrant upsert failed", {
@@ -89,44 +186,149 @@ export class HandoffTool {
 
         return {
             success: true,
-            updated,
-            updated_at: now,
-            message: updated ? "Handoff updated" : "Handoff unchanged"
+            id,
+            created_at: now,
+            message: "Handoff entry added"
         };
     }
 
-    async fetchHandoff(projectId: string) {
-        const point = await this.fetchPoint(projectId);
-        if (!point) {
+    async fetchHandoff(projectId: string, args: FetchArgs = {}) {
+        const limit = Math.min(Math.max(args.limit ?? 10, 1), 100);
+        const entries = await this.listEntries(projectId, args.updated_by);
+        const latest = entries[0];
+        if (!latest) {
             return {
                 found: false,
                 message: "No handoff information available"
             };
         }
 
-        const payload = point.payload ?? {};
-
         return {
             found: true,
-            content: (payload.content as string) ?? "",
-            updated_by: payload.updated_by ?? null,
-            updated_at: payload.updated_at ?? null,
-            tags: payload.tags ?? []
+            id: latest.id,
+            content: latest.content,
+            updated_by: latest.updated_by,
+            session_id: latest.session_id,
+            updated_at: latest.created_at,
+            tags: latest.tags,
+            total_entries: entries.length,
+            ...(args.include_history
+                ? { history: entries.slice(1, limit + 1).map((entry) => this.summarize(entry)) }
+                : {})
         };
     }
 
-    private async fetchPoint(projectId: string): Promise<{ payload?: Record<string, unknown> } | undefined> {
-        const response = await this.qdrant.retrieve(this.getCollection(projectId), [this.handoffId]);
-        const point = response?.[0];
-        if (!point) {
-            return undefined;
+    async searchHandoffs(projectId: string, args: SearchArgs) {
+        const { query, updated_by, limit = 5, min_score = 0.5, mode } = args;
+        const filter = updated_by
+            ? { must: [{ key: "updated_by", match: { value: updated_by } }] }
+            : undefined;
+
+        const results: any[] = await this.qdrant.searchText(this.getCollection(projectId), {
+            query,
+            fields: ["content", "tags", "updated_by"],
+            embed: () => this.embedding.embed(query),
+            mode,
+            limit,
+            filter,
+            scoreThreshold: min_score
+        });
+
+        const entries = results.map((point) => this.mapPoint(point));
+        return {
+            count: entries.length,
+            entries
+        };
+    }
+
+    /**
+     * Everything other agents handed off (and every backlog item touched) after the
+     * caller's most recent handoff entry, or after `since` when given.
+     */
+    async getDigest(projectId: string, args: DigestArgs) {
+        const limit = Math.min(Math.max(args.limit ?? 20, 1), 100);
+        const entries = await this.listEntries(projectId);
+
+        const lastOwn = entries.find((entry) => entry.updated_by === args.updated_by);
+        const sinceValue = args.since ?? lastOwn?.created_at ?? null;
+        // Compare instants, not strings: `since` may be a bare date or carry a UTC offset.
+        const sinceTime = sinceValue === null ? null : Date.parse(sinceValue);
+        if (sinceTime !== null && Number.isNaN(sinceTime)) {
+            throw new Error(`Invalid since '${sinceValue}'; pass an ISO date or timestamp such as 2026-10-01T09:00:00Z`);
         }
+        const since = sinceTime === null ? null : new Date(sinceTime).toISOString();
+        const isNewer = (timestamp: string | null) =>
+            sinceTime === null || (timestamp !== null && Date.parse(timestamp) > sinceTime);
+
+        const handoffs = entries
+            .filter((entry) => entry.updated_by !== args.updated_by && isNewer(entry.created_at))
+            .slice(0, limit);
+
+        const backlogChanges = (await this.qdrant.scrollAll(this.getBacklogCollection(projectId), excludeArchived()))
+            .map((point) => {
+                const payload = point.payload ?? {};
+                return {
+                    id: typeof point.id === "string" ? point.id : String(point.id),
+                    title: asString(payload.title) ?? "",
+                    status: asString(payload.status) ?? "",
+                    priority: asString(payload.priority) ?? "",
+                    updated_at: asString(payload.updated_at)
+                };
+            })
+            .filter((item) => isNewer(item.updated_at))
+            .sort((a, b) => (b.updated_at ?? "").localeCompare(a.updated_at ?? ""))
+            .slice(0, limit);
+
+        return {
+            updated_by: args.updated_by,
+            since,
+            last_own_handoff: lastOwn ? this.summarize(lastOwn) : null,
+            handoff_count: handoffs.length,
+            handoffs,
+            backlog_change_count: backlogChanges.length,
+            backlog_changes: backlogChanges
+        };
+    }
+
+    /** Entries newest first. The legacy single handoff point has no created_at, so updated_at stands in. */
+    async listEntries(projectId: string, updatedBy?: string): Promise<HandoffEntry[]> {
+        const filter = updatedBy
+            ? { must: [{ key: "updated_by", match: { value: updatedBy } }] }
+            : undefined;
+        const points = await this.qdrant.scrollAll(this.getCollection(projectId), filter);
+        return points
+            .map((point) => this.mapPoint(point))
+            .sort((a, b) => (b.created_at ?? "").localeCompare(a.created_at ?? ""));
+    }
+
+    private summarize(entry: HandoffEntry) {
+        return {
+            id: entry.id,
+            updated_by: entry.updated_by,
+            session_id: entry.session_id,
+            created_at: entry.created_at,
+            preview: entry.content.substring(0, 200)
+        };
+    }
 
-        const payload = point.payload ?? undefined;
-        return { payload: payload as Record<string, unknown> | undefined };
+    private mapPoint(point: any): HandoffEntry {
+        const payload = point.payload ?? {};
+        return {
+            id: typeof point.id === "string" ? point.id : String(point.id),
+            content: asString(payload.content) ?? "",
+            updated_by: asString(payload.updated_by),
+            session_id: asString(payload.session_id),
+            tags: Array.isArray(payload.tags) ? payload.tags : [],
+            created_at: asString(payload.created_at) ?? asString(payload.updated_at),
+            ...(typeof point.score === "number" ? { score: point.score } : {})
+        };
     }
 
     private getCollection(projectId: string) {
         return this.projects.collectionName(projectId, this.collection);
     }
+
+    private getBacklogCollection(projectId: string) {
+        return this.projects.collectionName(projectId, this.backlogCollection);
+    }
 }
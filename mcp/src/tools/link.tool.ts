@@ -0,0 +1,257 @@
+import { QdrantService } from "../services/qdrant.service.js";
+import { ProjectService } from "../services/project.service.js";
+import { LINK_TYPES, LinkDirection, LinkService, LinkType, RecordRef } from "../services/link.service.js";
+import { RECORD_TYPES, RECORD_TYPE_NAMES } from "./record.tool.js";
+import { ToolDefinition } from "./registry.js";
+
+type LinkArgs = {
+    source_type: string;
+    source_id: string;
+    link_type: LinkType;
+    target_type: string;
+    target_id: string;
+    note?: string;
+    created_by?: string;
+};
+
+type UnlinkArgs = Omit<LinkArgs, "link_type" | "note" | "created_by"> & {
+    link_type?: LinkType;
+};
+
+type LinkedArgs = {
+    type: string;
+    id: string;
+    direction?: LinkDirection;
+    link_types?: LinkType[];
+    record_types?: string[];
+    include_archived?: boolean;
+};
+
+type LinkedRecord = {
+    type: string;
+    id: string;
+    title: string | null;
+    status: string | null;
+    archived: boolean;
+};
+
+const asString = (value: unknown): string | null =>
+    typeof value === "string" ? value : null;
+
+const endpointProperties = (side: "source" | "target") => ({
+    [`${side}_type`]: { type: "string", enum: RECORD_TYPE_NAMES, description: `Kind of the ${side} record.` },
+    [`${side}_id`]: { type: "string", description: `Identifier of the ${side} record.` }
+});
+
+export class LinkTool {
+    constructor(
+        private qdrant: QdrantService,
+        private projects: ProjectService,
+        private links: LinkService
+    ) {}
+
+    getToolDefinitions(): ToolDefinition[] {
+        return [
+            {
+                name: "link_records",
+                description:
+                    "Link two records of any type, read as '<source> <link_type> <target>' (e.g. a backlog item implements a feature, a test strategy tests it, an ADR supersedes another). Linking the same pair twice is a no-op. Links are mirrored into Neo4j.",
+                access: "write",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        ...endpointProperties("source"),
+                        link_type: { type: "string", enum: [...LINK_TYPES], description: "How the source relates to the target." },
+                        ...endpointProperties("target"),
+                        note: { type: "string", description: "Optional context for the link." },
+                        created_by: { type: "string", description: "Agent or person creating the link." }
+                    },
+                    required: ["source_type", "source_id", "link_type", "target_type", "target_id"],
+                    additionalProperties: false
+                },
+                handler: (projectId, args) => this.linkRecords(projectId, args)
+            },
+            {
+                name: "unlink_records",
+                description: "Remove the links from a source record to a target record, of one link_type or of every type.",
+                access: "write",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        ...endpointProperties("source"),
+                        link_type: { type: "string", enum: [...LINK_TYPES], description: "Only remove links of this type." },
+                        ...endpointProperties("target")
+                    },
+                    required: ["source_type", "source_id", "target_type", "target_id"],
+                    additionalProperties: false
+                },
+                handler: (projectId, args) => this.unlinkRecords(projectId, args)
+            },
+            {
+                name: "get_linked_records",
+                description:
+                    "List the records linked to or from a record, with their title and status, e.g. a feature's implementing backlog items, ADRs, tests and bug fixes in one call.",
+                access: "read",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        type: { type: "string", enum: RECORD_TYPE_NAMES, description: "Kind of record." },
+                        id: { type: "string", description: "Record identifier." },
+                        direction: {
+                            type: "string",
+                            enum: ["outbound", "inbound", "both"],
+                            description: "outbound = links this record made, inbound = links pointing at it (default both)."
+                        },
+                        link_types: {
+                            type: "array",
+                            items: { type: "string", enum: [...LINK_TYPES] },
+                            description: "Only follow these link types."
+                        },
+                        record_types: {
+                            type: "array",
+                            items: { type: "string", enum: RECORD_TYPE_NAMES },
+                            description: "Only return linked records of these kinds."
+                        },
+                        include_archived: { type: "boolean", description: "Include archived linked records." }
+                    },
+                    required: ["type", "id"],
+                    additionalProperties: false
+                },
+                handler: (projectId, args) => this.getLinkedRecords(projectId, args)
+            }
+        ];
+    }
+
+    async linkRecords(projectId: string, args: LinkArgs) {
+        const source = { type: args.source_type, id: args.source_id };
+        const target = { type: args.target_type, id: args.target_id };
+        if (source.type === target.type && source.id === target.id) {
+            throw new Error("A record cannot be linked to itself");
+        }
+
+        const [sourceRecord, targetRecord] = await Promise.all([
+            this.fetchRecord(projectId, source),
+            this.fetchRecord(projectId, target)
+        ]);
+        if (!sourceRecord || !targetRecord) {
+            const missing = sourceRecord ? target : source;
+            return {
+                success: false,
+                message: `Record '${missing.id}' not found in ${missing.type}`
+            };
+        }
+
+        const { link, created, graphSynced } = await this.links.link(projectId, {
+            source: { ...source, title: sourceRecord.title },
+            target: { ...target, title: targetRecord.title },
+            linkType: args.link_type,
+            note: args.note,
+            createdBy: args.created_by
+        });
+
+        return {
+            success: true,
+            id: link.id,
+            created,
+            graph_synced: graphSynced,
+            link,
+            message: created
+                ? `Linked ${source.type} '${sourceRecord.title ?? source.id}' ${link.link_type} ${target.type} '${targetRecord.title ?? target.id}'`
+                : "The records were already linked"
+        };
+    }
+
+    async unlinkRecords(projectId: string, args: UnlinkArgs) {
+        const source = { type: args.source_type, id: args.source_id };
+        const target = { type: args.target_type, id: args.target_id };
+        const { links, graphSynced } = await this.links.unlink(projectId, source, target, args.link_type);
+
+        if (links.length === 0) {
+            return {
+                success: false,
+                message: `No ${args.link_type ? `${args.link_type} link` : "link"} from ${source.type} '${source.id}' to ${target.type} '${target.id}'`
+            };
+        }
+
+        return {
+            success: true,
+            removed: links.length,
+            link_types: links.map((link) => link.link_type),
+            graph_synced: graphSynced
+        };
+    }
+
+    async getLinkedRecords(projectId: string, args: LinkedArgs) {
+        const ref = { type: args.type, id: args.id };
+        const record = await this.fetchRecord(projectId, ref);
+        if (!record) {
+            return {
+                success: false,
+                message: `Record '${args.id}' not found in ${args.type}`
+            };
+        }
+
+        const direction = args.direction ?? "both";
+        const linkTypes = args.link_types?.length ? new Set(args.link_types) : null;
+        const recordTypes = args.record_types?.length ? new Set(args.record_types) : null;
+
+        const links = (await this.links.listLinks(projectId, ref, direction)).filter((link) => {
+            const outbound = link.source_type === ref.type && link.source_id === ref.id;
+            const otherType = outbound ? link.target_type : link.source_type;
+            return (!linkTypes || linkTypes.has(link.link_type)) && (!recordTypes || recordTypes.has(otherType));
+        });
+
+        const linked = [];
+        for (const link of links) {
+            const outbound = link.source_type === ref.type && link.source_id === ref.id;
+            const other = outbound
+                ? { type: link.target_type, id: link.target_id }
+                : { type: link.source_type, id: link.source_id };
+            const otherRecord = await this.fetchRecord(projectId, other);
+            if (!otherRecord || (otherRecord.archived && !args.include_archived)) {
+                continue;
+            }
+            linked.push({
+                link_id: link.id,
+                link_type: link.link_type,
+                direction: outbound ? "outbound" : "inbound",
+                record: otherRecord,
+                note: link.note,
+                created_by: link.created_by,
+                created_at: link.created_at
+            });
+        }
+
+        return {
+            type: args.type,
+            id: args.id,
+            title: record.title,
+            count: linked.length,
+            links: linked
+        };
+    }
+
+    private async fetchRecord(projectId: string, ref: RecordRef): Promise<LinkedRecord | null> {
+        const definition = RECORD_TYPES[ref.type];
+        if (!definition) {
+            throw new Error(
+                `Unknown record type '${ref.type}'. Expected one of: ${RECORD_TYPE_NAMES.join(", ")}`
+            );
+        }
+
+        const collection = this.projects.collectionName(projectId, definition.collection);
+        const [point] = (await this.qdrant.retrieve(collection, [ref.id])) ?? [];
+        if (!point) {
+            return null;
+        }
+
+        const payload = (point.payload ?? {}) as Record<string, unknown>;
+        return {
+            type: ref.type,
+            id: ref.id,
+            title: asString(payload[definition.titleField]),
+            status: asString(payload.status),
+            archived: payload.archived === true
+        };
+    }
+}
@@ -4,11 +4,13 @@ import { fileURLToPath } from "url";
 
 import { CacheService } from "../services/cache.service.js";
 import { ProjectService } from "../services/project.service.js";
+import { ToolDefinition } from "./registry.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 const projectRoot = path.resolve(__dirname, "../..");
-const collectionsPath = path.join(projectRoot, "config", "collections.json");
+const configDir = process.env.CONFIG_DIR ? path.resolve(process.env.CONFIG_DIR) : path.join(projectRoot, "config");
+const collectionsPath = path.join(configDir, "collections.json");
 const documentationPath = path.join(projectRoot, "docs", "mcp", "usage.md");
 
 async function readFileSafe(filePath: string): Promise<string | null> {
@@ -25,6 +27,43 @@ async function readFileSafe(filePath: string): Promise<string | null> {
 export class MetadataTool {
     constructor(private cache: CacheService, private projects: ProjectService) {}
 
+    getToolDefinitions(): ToolDefinition[] {
+        return [
+            {
+                name: "get_server_metadata",
+                description: "Overview of server capabilities, version, and connected services for Claude configuration.",
+                access: "read",
+                inputSchema: {
+                    type: "object",
+                    properties: {}
+                },
+                handler: () => this.getServerMetadata()
+            },
+            {
+                name: "list_qdrant_collections",
+                description: "Return Qdrant collection metadata including purpose, vector size, and primary agents.",
+                access: "read",
+                inputSchema: {
+                    type: "object",
+                    properties: {}
+                },
+                handler: (projectId) => this.listCollections(projectId)
+            },
+            {
+                name: "get_mcp_documentation",
+                description: "Fetch integration documentation so Claude can self-onboard to this MCP server.",
+                access: "read",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        section: { type: "string", description: "Optional heading to extract (e.g., 'Tool Catalog')." }
+                    }
+                },
+                handler: (_projectId, args) => this.getDocumentation(args)
+            }
+        ];
+    }
+
     async getServerMetadata() {
         const projects = this.projects.listProjects();
         const defaultProject = this.projects.getDefaultProject();
@@ -35,7 +74,8 @@ export class MetadataTool {
             description: "MCP server supporting game development workflows (research, architecture, narrative, testing, feedback) backed by Qdrant.",
             services: {
                 qdrant: process.env.QDRANT_URL || "http://qdrant:6333",
-                embeddings: process.env.EMBEDDING_URL || "http://embedding-service:80"
+                embeddings: process.env.EMBEDDING_URL || "http://embedding-service:80",
+                embedding_provider: process.env.EMBEDDING_PROVIDER || "tei"
             },
             projects: {
                 default: defaultProject,
@@ -1,14 +1,17 @@
 import { randomUUID } from "crypto";
 
-import { QdrantService } from "../services/qdrant.service.js";
+import { QdrantService, SearchMode } from "../services/qdrant.service.js";
 import { EmbeddingService } from "../services/embedding.service.js";
 import { CacheService } from "../services/cache.service.js";
 import { ProjectService } from "../services/project.service.js";
+import { excludeArchived } from "../utils/archive.js";
 import {
     NarrativeElementInput,
     NarrativeElementRecord,
     NarrativeElementType,
 } from "../types/index.js";
+import { ToolDefinition } from "./registry.js";
+import { narrativeText } from "../utils/embeddingText.js";
 
 type StoreArgs = NarrativeElementInput & {
     details?: string;
@@ -21,6 +24,8 @@ type SearchArgs = {
     tags?: string[];
     limit?: number;
     min_score?: number;
+    mode?: SearchMode;
+    include_archived?: boolean;
 };
 
 type OutlineArgs = {
@@ -29,6 +34,7 @@ type OutlineArgs = {
     type?: NarrativeElementType;
     limit?: number;
     order?: "asc" | "desc";
+    include_archived?: boolean;
 };
 
 export class NarrativeTool {
@@ -41,6 +47,71 @@ export class NarrativeTool {
         private projects: ProjectService
     ) {}
 
+    getToolDefinitions(): ToolDefinition[] {
+        return [
+            {
+                name: "store_narrative_element",
+                description: "Store story beats, quests, character arcs, or thematic notes for the game's narrative.",
+                access: "write",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        title: { type: "string", description: "Name of the narrative element" },
+                        type: { type: "string", description: "Element type (act, quest, character, beat, faction, lore, theme, mechanic)" },
+                        summary: { type: "string", description: "Short synopsis" },
+                        details: { type: "string", description: "Extended notes or script" },
+                        act: { type: "string", description: "Act identifier" },
+                        chapter: { type: "string", description: "Chapter identifier" },
+                        tags: { type: "array", items: { type: "string" }, description: "Classification tags" },
+                        related_ids: { type: "array", items: { type: "string" }, description: "IDs of related narrative elements" },
+                        order: { type: "number", description: "Ordering index within act/chapter" },
+                        author: { type: "string", description: "Contributor name" },
+                        status: { type: "string", description: "Draft/approved/deprecated" },
+                        attachments: { type: "array", items: { type: "string" }, description: "External references or asset IDs" }
+                    },
+                    required: ["title", "type", "summary"]
+                },
+                handler: (projectId, args) => this.storeNarrativeElement(projectId, args)
+            },
+            {
+                name: "search_narrative_elements",
+                description: "Search narrative library for similar elements (acts, quests, characters) by semantic meaning.",
+                access: "read",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        query: { type: "string", description: "What you want to find" },
+                        type: { type: "string", description: "Filter by element type" },
+                        tags: { type: "array", items: { type: "string" }, description: "Filter by tags" },
+                        limit: { type: "number", default: 5 },
+                        min_score: { type: "number", default: 0.62 },
+                        mode: { type: "string", enum: ["semantic", "keyword", "hybrid"], description: "semantic (default) matches meaning, keyword matches exact terms such as class names, quest ids or error codes, hybrid fuses both rankings." },
+                        include_archived: { type: "boolean", description: "Include soft-archived records (default false)." }
+                    },
+                    required: ["query"]
+                },
+                handler: (projectId, args) => this.searchNarrativeElements(projectId, args)
+            },
+            {
+                name: "get_narrative_outline",
+                description: "Retrieve ordered narrative elements for an act/chapter to keep story structure aligned.",
+                access: "read",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        act: { type: "string", description: "Act identifier" },
+                        chapter: { type: "string", description: "Chapter identifier" },
+                        type: { type: "string", description: "Filter by element type" },
+                        limit: { type: "number", default: 50 },
+                        order: { type: "string", enum: ["asc", "desc"], default: "asc" },
+                        include_archived: { type: "boolean", description: "Include soft-archived records (default false)." }
+                    }
+                },
+                handler: (projectId, args) => this.getNarrativeOutline(projectId, args)
+            }
+        ];
+    }
+
     async storeNarrativeElement(projectId: string, args: StoreArgs) {
         const {
             title,
@@ -60,9 +131,7 @@ export class NarrativeTool {
         const timestamp = new Date().toISOString();
         const id = randomUUID();
 
-        const vector = await this.embedWithCache(
-            `${title}\n${type}\n${summary}\n${details}\n${tags.join(",")}`
-        );
+        const vector = await this.embedding.embed(narrativeText({ title, type, summary, details, tags }));
 
         await this.qdrant.upsert(this.getCollection(projectId), [
             {
@@ -105,18 +174,21 @@ export class NarrativeTool {
             tags,
             limit = 5,
             min_score = 0.62,
+            include_archived = false,
+            mode,
         } = args;
 
-        const vector = await this.embedWithCache(query);
-        const filter = this.buildFilter({ type, tags });
+        const filter = excludeArchived(this.buildFilter({ type, tags }), include_archived);
 
-        const results: any[] = await this.qdrant.search(
-            this.getCollection(projectId),
-            vector,
+        const results: any[] = await this.qdrant.searchText(this.getCollection(projectId), {
+            query,
+            fields: ["title", "summary", "details", "act", "chapter", "tags"],
+            embed: () => this.embedding.embed(query),
+            mode,
             limit,
             filter,
-            min_score
-        );
+            scoreThreshold: min_score
+        });
 
         return {
             count: results.length,
@@ -131,9 +203,10 @@ export class NarrativeTool {
             type,
             limit = 50,
             order = "asc",
+            include_archived = false,
         } = args;
 
-        const cacheKey = `narrative:${projectId}:outline:${act ?? ""}:${chapter ?? ""}:${type ?? ""}:${limit}:${order}`;
+        const cacheKey = `narrative:${projectId}:outline:${act ?? ""}:${chapter ?? ""}:${type ?? ""}:${limit}:${order}:${include_archived}`;
         const cached = this.cache.get<NarrativeElementRecord[]>(cacheKey);
         if (cached) {
             return {
@@ -143,7 +216,7 @@ export class NarrativeTool {
             };
         }
 
-        const filter = this.buildFilter({ type, act, chapter });
+        const filter = excludeArchived(this.buildFilter({ type, act, chapter }), include_archived);
         const response: any = await this.qdrant.scroll(
             this.getCollection(projectId),
             filter,
@@ -175,18 +248,6 @@ export class NarrativeTool {
         };
     }
 
-    private async embedWithCache(text: string) {
-        const key = `embedding:${text}`;
-        const cached = this.cache.get<number[]>(key);
-        if (cached) {
-            return cached;
-        }
-
-        const vector = await this.embedding.embed(text);
-        this.cache.set(key, vector, 2 * 60 * 60 * 1000);
-        return vector;
-    }
-
     private mapPoint(point: any): NarrativeElementRecord {
         const payload = point.payload ?? {};
         const id = typeof point.id === "string" ? point.id : String(point.id);
@@ -1,8 +1,11 @@
 import { randomUUID } from "crypto";
 
-import { QdrantService } from "../services/qdrant.service.js";
+import { QdrantService, SearchMode } from "../services/qdrant.service.js";
 import { EmbeddingService } from "../services/embedding.service.js";
 import { ProjectService } from "../services/project.service.js";
+import { excludeArchived } from "../utils/archive.js";
+import { ToolDefinition } from "./registry.js";
+import { patternText } from "../utils/embeddingText.js";
 
 export class PatternTool {
     private collection = "code_implementations";
@@ -13,6 +16,58 @@ export class PatternTool {
         private projects: ProjectService
     ) {}
 
+    getToolDefinitions(): ToolDefinition[] {
+        return [
+            {
+                name: "store_pattern",
+                description: "Store a code or design pattern for future reference and consistency.",
+                access: "write",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        name: { type: "string", description: "Pattern name (e.g., 'component-lifecycle')" },
+                        description: { type: "string", description: "What this pattern does" },
+                        code: { type: "string", description: "Code example" },
+                        usage: { type: "string", description: "When to use this pattern" },
+                        category: { type: "string", description: "Pattern category (architecture/gameplay/rendering/etc)" }
+                    },
+                    required: ["name", "description", "code"]
+                },
+                handler: (projectId, args) => this.storePattern(projectId, args)
+            },
+            {
+                name: "find_similar_patterns",
+                description: "Find patterns similar to current work to maintain consistency.",
+                access: "read",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        description: { type: "string", description: "Describe what you're implementing" },
+                        category: { type: "string", description: "Filter by category" },
+                        limit: { type: "number", default: 5 },
+                        include_archived: { type: "boolean", description: "Include soft-archived records (default false)." },
+                        mode: { type: "string", enum: ["semantic", "keyword", "hybrid"], description: "semantic (default) matches meaning, keyword matches exact terms such as class names, quest ids or error codes, hybrid fuses both rankings." }
+                    },
+                    required: ["description"]
+                },
+                handler: (projectId, args) => this.findSimilar(projectId, args)
+            },
+            {
+                name: "get_pattern_by_name",
+                description: "Retrieve exact pattern by name.",
+                access: "read",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        name: { type: "string", description: "Exact pattern name" }
+                    },
+                    required: ["name"]
+                },
+                handler: (projectId, args) => this.getByName(projectId, args)
+            }
+        ];
+    }
+
     async storePattern(projectId: string, args: {
         name: string;
         description: string;
@@ -23,8 +78,7 @@ export class PatternTool {
         const { name, description, code, usage = "", category = "general" } = args;
 
         // Create searchable text
-        const searchText = `${name}\n${description}\n${usage}`;
-        const vector = await this.embedding.embed(searchText);
+        const vector = await this.embedding.embed(patternText({ name, description, usage }));
 
         const id = randomUUID();
 
@@ -56,10 +110,10 @@ export class PatternTool {
         description: string;
         category?: string;
         limit?: number;
+        include_archived?: boolean;
+        mode?: SearchMode;
     }) {
-        const { description, category, limit = 5 } = args;
-
-        const vector = await this.embedding.embed(description);
+        const { description, category, limit = 5, include_archived = false, mode } = args;
 
         const filter = category
             ? {
@@ -72,13 +126,15 @@ export class PatternTool {
             }
             : undefined;
 
-        const results = await this.qdrant.search(
-            this.getCollection(projectId),
-            vector,
+        const results = await this.qdrant.searchText(this.getCollection(projectId), {
+            query: description,
+            fields: ["name", "description", "code", "usage", "category"],
+            embed: () => this.embedding.embed(description),
+            mode,
             limit,
-            filter,
-            0.65
-        );
+            filter: excludeArchived(filter, include_archived),
+            scoreThreshold: 0.65
+        });
 
         return {
             count: results.length,
@@ -99,14 +155,14 @@ export class PatternTool {
     async getByName(projectId: string, args: { name: string }) {
         const { name } = args;
 
-        const results = await this.qdrant.scroll(this.getCollection(projectId), {
+        const results = await this.qdrant.scroll(this.getCollection(projectId), excludeArchived({
             must: [
                 {
                     key: "name",
                     match: { value: name }
                 }
             ]
-        });
+        }));
 
         if (results.points.length === 0) {
             return {
@@ -0,0 +1,166 @@
+import { QdrantService } from "../services/qdrant.service.js";
+import { ProjectService } from "../services/project.service.js";
+import { Neo4jService } from "../services/neo4j.service.js";
+import { cloneProject, deleteProject, renameProject } from "../utils/projectLifecycle.js";
+import { ToolDefinition } from "./registry.js";
+
+type CloneArgs = {
+    target: string;
+    source?: string;
+};
+
+type RenameArgs = {
+    new_id: string;
+    project?: string;
+};
+
+type ArchiveArgs = {
+    archived?: boolean;
+    project?: string;
+};
+
+type DeleteArgs = {
+    project: string;
+    confirm: boolean;
+    snapshot?: boolean;
+};
+
+export class ProjectTool {
+    constructor(
+        private qdrant: QdrantService,
+        private projects: ProjectService,
+        private neo4j: Neo4jService,
+        private snapshotDir: string,
+        // Lets the server close transports still bound to a project id that no longer exists.
+        private onProjectRemoved: (projectId: string) => Promise<void> = async () => {}
+    ) {}
+
+    getToolDefinitions(): ToolDefinition[] {
+        return [
+            {
+                name: "clone_project",
+                description: "Copy every collection and graph entity of a project into a new project id.",
+                access: "admin",
+                projectArgs: ["source", "target"],
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        target: { type: "string", description: "New project identifier to create." },
+                        source: { type: "string", description: "Project to copy (defaults to the current project)." }
+                    },
+                    required: ["target"],
+                    additionalProperties: false
+                },
+                handler: (projectId, args) => this.cloneProject(projectId, args)
+            },
+            {
+                name: "rename_project",
+                description: "Move a project (collections, graph entities, locks) to a new id. The default project cannot be renamed.",
+                access: "admin",
+                projectArgs: ["project", "new_id"],
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        new_id: { type: "string", description: "New project identifier." },
+                        project: { type: "string", description: "Project to rename (defaults to the current project)." }
+                    },
+                    required: ["new_id"],
+                    additionalProperties: false
+                },
+                handler: (projectId, args) => this.renameProject(projectId, args)
+            },
+            {
+                name: "archive_project",
+                description: "Mark a project read-only (write tools are rejected) or restore it to read-write.",
+                access: "admin",
+                projectArgs: ["project"],
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        archived: { type: "boolean", description: "Set false to unarchive (default true)." },
+                        project: { type: "string", description: "Project to update (defaults to the current project)." }
+                    },
+                    additionalProperties: false
+                },
+                handler: (projectId, args) => this.archiveProject(projectId, args)
+            },
+            {
+                name: "delete_project",
+                description: "Delete a project and its collections. A snapshot is written first unless snapshot=false.",
+                access: "admin",
+                projectArgs: ["project"],
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        project: { type: "string", description: "Project to delete (must be named explicitly)." },
+                        confirm: { type: "boolean", enum: [true], description: "Must be true to proceed." },
+                        snapshot: { type: "boolean", description: "Write a restorable snapshot before deleting (default true)." }
+                    },
+                    required: ["project", "confirm"],
+                    additionalProperties: false
+                },
+                handler: (projectId, args) => this.deleteProject(projectId, args)
+            }
+        ];
+    }
+
+    async cloneProject(projectId: string, args: CloneArgs) {
+        const result = await cloneProject(this.services(), args.source ?? projectId, args.target);
+        return {
+            success: true,
+            id: result.target,
+            ...result,
+            message: `Project '${result.source}' cloned to '${result.target}'`
+        };
+    }
+
+    async renameProject(projectId: string, args: RenameArgs) {
+        const result = await renameProject(this.services(), args.project ?? projectId, args.new_id);
+        await this.onProjectRemoved(result.source);
+        return {
+            success: true,
+            id: result.target,
+            ...result,
+            message: `Project '${result.source}' renamed to '${result.target}'`
+        };
+    }
+
+    async archiveProject(projectId: string, args: ArchiveArgs) {
+        const target = this.projects.requireProject(args.project ?? projectId);
+        const archived = args.archived ?? true;
+        await this.projects.setProjectArchived(target, archived);
+        return {
+            success: true,
+            project: target,
+            archived,
+            message: archived
+                ? `Project '${target}' archived; write tools are disabled.`
+                : `Project '${target}' restored to read-write.`
+        };
+    }
+
+    async deleteProject(_projectId: string, args: DeleteArgs) {
+        const result = await deleteProject({
+            ...this.services(),
+            projectId: args.project,
+            snapshotDir: this.snapshotDir,
+            snapshot: args.snapshot ?? true
+        });
+        await this.onProjectRemoved(result.project);
+
+        return {
+            success: true,
+            project: result.project,
+            snapshot_path: result.snapshotPath,
+            message: `Project '${result.project}' deleted`
+        };
+    }
+
+    private services() {
+        return {
+            qdrant: this.qdrant,
+            projects: this.projects,
+            neo4j: this.neo4j
+        };
+    }
+}
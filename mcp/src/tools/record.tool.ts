@@ -0,0 +1,178 @@
+import { QdrantService } from "../services/qdrant.service.js";
+import { CacheService } from "../services/cache.service.js";
+import { ProjectService } from "../services/project.service.js";
+import { LinkService } from "../services/link.service.js";
+import { CommentService } from "../services/comment.service.js";
+import { ToolDefinition } from "./registry.js";
+
+// Record types exposed to clients, mapped to the collection that stores them, the
+// payload field that titles them and the cache prefix (if any) whose entries may
+// contain the record.
+export const RECORD_TYPES: Record<string, { collection: string; titleField: string; cachePrefix?: string }> = {
+    research: { collection: "research_findings", titleField: "topic" },
+    pattern: { collection: "code_implementations", titleField: "name" },
+    architecture: { collection: "architectural_patterns", titleField: "decision", cachePrefix: "architecture" },
+    narrative: { collection: "narrative_design", titleField: "title", cachePrefix: "narrative" },
+    lore: { collection: "world_building", titleField: "title", cachePrefix: "world" },
+    dialogue: { collection: "dialogue_snippets", titleField: "scene", cachePrefix: "dialogue" },
+    test_strategy: { collection: "test_strategies", titleField: "title", cachePrefix: "testing" },
+    feedback: { collection: "gameplay_feedback", titleField: "source", cachePrefix: "feedback" },
+    bug_fix: { collection: "bug_fix_patterns", titleField: "issue" },
+    backlog: { collection: "backlog_items", titleField: "title" },
+    feature: { collection: "features", titleField: "name" },
+    sprint: { collection: "sprints", titleField: "name" }
+};
+
+export const RECORD_TYPE_NAMES = Object.keys(RECORD_TYPES);
+
+type RecordArgs = {
+    type: string;
+    id: string;
+};
+
+type ArchiveRecordArgs = RecordArgs & {
+    archived?: boolean;
+};
+
+export class RecordTool {
+    constructor(
+        private qdrant: QdrantService,
+        private cache: CacheService,
+        private projects: ProjectService,
+        private links: LinkService,
+        private comments: CommentService
+    ) {}
+
+    getToolDefinitions(): ToolDefinition[] {
+        return [
+            {
+                name: "delete_record",
+                description: "Permanently delete a stored record (research, pattern, lore, backlog item, ...) by type and id, along with its record links and comments. A deleted backlog item is also dropped from other items' dependencies.",
+                access: "write",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        type: { type: "string", enum: RECORD_TYPE_NAMES, description: "Kind of record to delete." },
+                        id: { type: "string", description: "Record identifier returned when it was stored." }
+                    },
+                    required: ["type", "id"],
+                    additionalProperties: false
+                },
+                handler: (projectId, args) => this.deleteRecord(projectId, args)
+            },
+            {
+                name: "archive_record",
+                description: "Soft-archive a stored record so search and list tools skip it unless include_archived=true.",
+                access: "write",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        type: { type: "string", enum: RECORD_TYPE_NAMES, description: "Kind of record to archive." },
+                        id: { type: "string", description: "Record identifier returned when it was stored." },
+                        archived: { type: "boolean", description: "Set false to unarchive (default true)." }
+                    },
+                    required: ["type", "id"],
+                    additionalProperties: false
+                },
+                handler: (projectId, args) => this.archiveRecord(projectId, args)
+            }
+        ];
+    }
+
+    async deleteRecord(projectId: string, args: RecordArgs) {
+        const { collection, found } = await this.locate(projectId, args);
+        if (!found) {
+            return {
+                success: false,
+                message: `Record '${args.id}' not found in ${args.type}`
+            };
+        }
+
+        await this.qdrant.deletePoints(collection, [args.id]);
+        this.invalidate(projectId, args.type);
+        const unlinked = await this.links.unlinkRecord(projectId, { type: args.type, id: args.id });
+        const commentsRemoved =
+            args.type === "backlog" || args.type === "feature"
+                ? await this.comments.deleteForRecord(projectId, args.type, args.id)
+                : 0;
+        const dependents = args.type === "backlog" ? await this.dropDependency(projectId, args.id) : [];
+
+        return {
+            success: true,
+            id: args.id,
+            type: args.type,
+            links_removed: unlinked.links.length,
+            comments_removed: commentsRemoved,
+            dependents_updated: dependents,
+            message: `Record '${args.id}' deleted from ${args.type}`
+        };
+    }
+
+    /** Removes a deleted backlog item from the dependencies of the items that waited on it; returns their ids. */
+    private async dropDependency(projectId: string, id: string) {
+        const collection = this.projects.collectionName(projectId, RECORD_TYPES.backlog.collection);
+        const dependents = await this.qdrant.scrollAll(collection, {
+            must: [{ key: "dependencies", match: { value: id } }]
+        });
+        const now = new Date().toISOString();
+        await Promise.all(
+            dependents.map((point) =>
+                this.qdrant.setPayload(collection, String(point.id), {
+                    dependencies: (point.payload?.dependencies ?? []).filter((dependency: string) => dependency !== id),
+                    updated_at: now
+                })
+            )
+        );
+        return dependents.map((point) => String(point.id));
+    }
+
+    async archiveRecord(projectId: string, args: ArchiveRecordArgs) {
+        const { collection, found } = await this.locate(projectId, args);
+        if (!found) {
+            return {
+                success: false,
+                message: `Record '${args.id}' not found in ${args.type}`
+            };
+        }
+
+        const archived = args.archived ?? true;
+        await this.qdrant.setPayload(collection, args.id, {
+            archived,
+            archived_at: archived ? new Date().toISOString() : null
+        });
+        this.invalidate(projectId, args.type);
+
+        return {
+            success: true,
+            id: args.id,
+            type: args.type,
+            archived,
+            message: archived
+                ? `Record '${args.id}' archived; it is hidden from searches unless include_archived=true`
+                : `Record '${args.id}' restored`
+        };
+    }
+
+    private async locate(projectId: string, args: RecordArgs) {
+        const definition = RECORD_TYPES[args.type];
+        if (!definition) {
+            throw new Error(
+                `Unknown record type '${args.type}'. Expected one of: ${RECORD_TYPE_NAMES.join(", ")}`
+            );
+        }
+
+        const collection = this.projects.collectionName(projectId, definition.collection);
+        const points = await this.qdrant.retrieve(collection, [args.id]);
+        return {
+            collection,
+            found: Array.isArray(points) && points.length > 0
+        };
+    }
+
+    private invalidate(projectId: string, type: string) {
+        const prefix = RECORD_TYPES[type]?.cachePrefix;
+        if (prefix) {
+            this.cache.clearPrefix(`${prefix}:${projectId}:`);
+        }
+    }
+}
@@ -0,0 +1,59 @@
+import { JsonSchema } from "../utils/schemaValidation.js";
+
+export interface ToolExecutionContext {
+    projectId: string;
+    sessionId?: string;
+}
+
+/**
+ * Minimum API key role needed to call the tool. Write tools count towards write
+ * stats and are rejected while a project is archived; admin tools manage projects
+ * themselves, so they count as writes but stay available on archived projects.
+ */
+export type ToolAccess = "read" | "write" | "admin";
+
+export interface ToolDefinition {
+    name: string;
+    description: string;
+    access: ToolAccess;
+    /** Arguments naming further projects the caller's API key must cover. */
+    projectArgs?: string[];
+    inputSchema: JsonSchema;
+    handler: (projectId: string, args: any, context: ToolExecutionContext) => Promise<unknown>;
+}
+
+export interface ToolProvider {
+    getToolDefinitions(): ToolDefinition[];
+}
+
+/**
+ * Every tool the server exposes, keyed by name. Tool classes declare their own
+ * definitions; the server lists, validates and dispatches from here.
+ */
+export class ToolRegistry {
+    private definitions = new Map<string, ToolDefinition>();
+
+    register(...providers: ToolProvider[]) {
+        for (const provider of providers) {
+            for (const definition of provider.getToolDefinitions()) {
+                if (this.definitions.has(definition.name)) {
+                    throw new Error(`Tool '${definition.name}' is registered twice`);
+                }
+                this.definitions.set(definition.name, definition);
+            }
+        }
+    }
+
+    get(name: string): ToolDefinition | undefined {
+        return this.definitions.get(name);
+    }
+
+    list(): ToolDefinition[] {
+        return Array.from(this.definitions.values());
+    }
+
+    /** Shape returned by ListTools. */
+    describe() {
+        return this.list().map(({ name, description, inputSchema }) => ({ name, description, inputSchema }));
+    }
+}
@@ -1,8 +1,11 @@
 import { randomUUID } from "crypto";
 
-import { QdrantService } from "../services/qdrant.service.js";
+import { QdrantService, SearchMode } from "../services/qdrant.service.js";
 import { EmbeddingService } from "../services/embedding.service.js";
 import { ProjectService } from "../services/project.service.js";
+import { excludeArchived } from "../utils/archive.js";
+import { ToolDefinition } from "./registry.js";
+import { researchText } from "../utils/embeddingText.js";
 
 export class ResearchTool {
     private collection = "research_findings";
@@ -13,6 +16,57 @@ export class ResearchTool {
         private projects: ProjectService
     ) {}
 
+    getToolDefinitions(): ToolDefinition[] {
+        return [
+            {
+                name: "cache_research",
+                description: "Cache research findings for future reuse. Prevents redundant research on same topics.",
+                access: "write",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        topic: { type: "string", description: "Research topic identifier (e.g., 'ECS-architecture', 'procedural-dungeon-generation')" },
+                        findings: { type: "string", description: "Full research findings text" },
+                        sources: { type: "array", items: { type: "string" }, description: "URLs or references" },
+                        tags: { type: "array", items: { type: "string" }, description: "Categorization tags" }
+                    },
+                    required: ["topic", "findings"]
+                },
+                handler: (projectId, args) => this.cacheResearch(projectId, args)
+            },
+            {
+                name: "query_research",
+                description: "Query cached research by semantic similarity. Returns relevant past research.",
+                access: "read",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        query: { type: "string", description: "What you're looking for" },
+                        limit: { type: "number", description: "Max results to return", default: 5 },
+                        min_score: { type: "number", description: "Minimum similarity score (0-1)", default: 0.7 },
+                        mode: { type: "string", enum: ["semantic", "keyword", "hybrid"], description: "semantic (default) matches meaning, keyword matches exact terms such as class names, quest ids or error codes, hybrid fuses both rankings." },
+                        include_archived: { type: "boolean", description: "Include soft-archived records (default false)." }
+                    },
+                    required: ["query"]
+                },
+                handler: (projectId, args) => this.queryResearch(projectId, args)
+            },
+            {
+                name: "check_research_exists",
+                description: "Check if research already exists for a topic before starting new research.",
+                access: "read",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        topic: { type: "string", description: "Topic to check" }
+                    },
+                    required: ["topic"]
+                },
+                handler: (projectId, args) => this.checkExists(projectId, args)
+            }
+        ];
+    }
+
     async cacheResearch(projectId: string, args: {
         topic: string;
         findings: string;
@@ -22,9 +76,7 @@ export class ResearchTool {
         const { topic, findings, sources = [], tags = [] } = args;
 
         // Generate embedding for semantic search
-        const vector = await this.embedding.embed(
-            `${topic}\n\n${findings.substring(0, 1000)}`
-        );
+        const vector = await this.embedding.embed(researchText({ topic, findings }));
 
         const id = randomUUID();
         const timestamp = new Date().toISOString();
@@ -55,18 +107,20 @@ export class ResearchTool {
         query: string;
         limit?: number;
         min_score?: number;
+        mode?: SearchMode;
+        include_archived?: boolean;
     }) {
-        const { query, limit = 5, min_score = 0.7 } = args;
+        const { query, limit = 5, min_score = 0.7, include_archived = false, mode } = args;
 
-        const vector = await this.embedding.embed(query);
-
-        const results = await this.qdrant.search(
-            this.getCollection(projectId),
-            vector,
+        const results = await this.qdrant.searchText(this.getCollection(projectId), {
+            query,
+            fields: ["topic", "findings", "tags"],
+            embed: () => this.embedding.embed(query),
+            mode,
             limit,
-            undefined,
-            min_score
-        );
+            filter: excludeArchived(undefined, include_archived),
+            scoreThreshold: min_score
+        });
 
         // Update access count for retrieved items
         for (const result of results) {
@@ -74,7 +128,7 @@ export class ResearchTool {
             const id = typeof result.id === "string" ? result.id : String(result.id);
             const currentCount =
                 typeof payload.access_count === "number" ? payload.access_count : 0;
-            await this.qdrant.setPayload(this.collection, id, {
+            await this.qdrant.setPayload(this.getCollection(projectId), id, {
                 ...payload,
                 access_count: currentCount + 1,
                 last_accessed: new Date().toISOString()
@@ -109,7 +163,7 @@ export class ResearchTool {
             this.getCollection(projectId),
             vector,
             1,
-            undefined,
+            excludeArchived(),
             0.9 // High threshold for "exists"
         );
 
@@ -0,0 +1,181 @@
+import { RecordRevision, RevisionRecordType, RevisionService } from "../services/revision.service.js";
+import { BacklogTool, UpdateBacklogArgs } from "./backlog.tool.js";
+import { FeatureTool } from "./feature.tool.js";
+import { ToolDefinition } from "./registry.js";
+
+type HistoryArgs = {
+    type: RevisionRecordType;
+    id: string;
+    limit?: number;
+    include_snapshots?: boolean;
+};
+
+type RevertArgs = {
+    type: RevisionRecordType;
+    revision_id: string;
+    id: string;
+    updated_by?: string;
+};
+
+const asString = (value: unknown): string | undefined =>
+    typeof value === "string" ? value : undefined;
+
+const asStringArray = (value: unknown): string[] =>
+    Array.isArray(value)
+        ? value.filter((item): item is string => typeof item === "string")
+        : [];
+
+// Snapshot fields that are missing (older revisions) stay undefined, so the revert leaves them as they are.
+const asNullableString = (value: unknown): string | null | undefined => (value === null ? null : asString(value));
+
+const asOptionalStringArray = (value: unknown): string[] | undefined =>
+    Array.isArray(value) ? asStringArray(value) : undefined;
+
+export class RevisionTool {
+    constructor(
+        private revisions: RevisionService,
+        private backlog: BacklogTool,
+        private features: FeatureTool
+    ) {}
+
+    getToolDefinitions(): ToolDefinition[] {
+        return [
+            {
+                name: "get_record_history",
+                description: "List the revision log of a backlog item or feature (newest first) with field-level diffs.",
+                access: "read",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        type: { type: "string", enum: ["backlog", "feature"], description: "Kind of record." },
+                        id: { type: "string", description: "Record identifier." },
+                        limit: { type: "number", description: "Maximum revisions to return (default 20, max 100)." },
+                        include_snapshots: { type: "boolean", description: "Include the full pre-change state of each revision." }
+                    },
+                    required: ["type", "id"],
+                    additionalProperties: false
+                },
+                handler: (projectId, args) => this.getRecordHistory(projectId, args)
+            },
+            {
+                name: "revert_record",
+                description: "Restore a backlog item or feature to its state before the given revision. The revert is itself recorded as a revision.",
+                access: "write",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        type: { type: "string", enum: ["backlog", "feature"], description: "Kind of record." },
+                        revision_id: { type: "string", description: "Revision to undo (from get_record_history)." },
+                        id: { type: "string", description: "Record identifier." },
+                        updated_by: { type: "string", description: "Agent or person performing the revert." }
+                    },
+                    required: ["type", "id", "revision_id"],
+                    additionalProperties: false
+                },
+                handler: (projectId, args) => this.revertRecord(projectId, args)
+            }
+        ];
+    }
+
+    async getRecordHistory(projectId: string, args: HistoryArgs) {
+        const recordId = args.id;
+        const limit = Math.min(Math.max(args.limit ?? 20, 1), 100);
+        const revisions = await this.revisions.listRevisions(projectId, args.type, recordId);
+
+        return {
+            type: args.type,
+            id: recordId,
+            count: Math.min(revisions.length, limit),
+            total: revisions.length,
+            revisions: revisions
+                .slice(0, limit)
+                .map((revision) => this.mapRevision(revision, args.include_snapshots === true))
+        };
+    }
+
+    async revertRecord(projectId: string, args: RevertArgs) {
+        const recordId = args.id;
+        const revision = await this.revisions.getRevision(projectId, args.revision_id);
+        if (!revision || revision.record_type !== args.type || revision.record_id !== recordId) {
+            return {
+                success: false,
+                message: `Revision '${args.revision_id}' not found for ${args.type} '${recordId}'`
+            };
+        }
+
+        const context = { action: "revert" as const, revertedRevision: revision.id };
+        const before = revision.before;
+        let result: { success: boolean; message?: string };
+
+        switch (args.type) {
+            case "backlog": {
+                const update: UpdateBacklogArgs = {
+                    id: recordId,
+                    title: asString(before.title),
+                    description: asString(before.description),
+                    status: asString(before.status),
+                    priority: asString(before.priority),
+                    next_steps: asOptionalStringArray(before.next_steps),
+                    completed_work: asOptionalStringArray(before.completed_work),
+                    tags: asOptionalStringArray(before.tags),
+                    acceptance_criteria: asOptionalStringArray(before.acceptance_criteria),
+                    dependencies: asOptionalStringArray(before.dependencies),
+                    owner: asNullableString(before.owner),
+                    due_date: asNullableString(before.due_date),
+                    sprint: asNullableString(before.sprint),
+                    story_points:
+                        typeof before.story_points === "number" || before.story_points === null ? before.story_points : undefined,
+                    notes: asNullableString(before.notes),
+                    category: asNullableString(before.category),
+                    feature_id: asNullableString(before.feature_id),
+                    updated_by: args.updated_by
+                };
+                result = await this.backlog.updateBacklogItem(projectId, update, context);
+                break;
+            }
+            case "feature":
+                result = await this.features.updateFeature(
+                    projectId,
+                    {
+                        id: recordId,
+                        name: asString(before.name),
+                        description: asString(before.description) ?? "",
+                        tags: asStringArray(before.tags),
+                        status: asString(before.status),
+                        owner: asString(before.owner),
+                        priority: typeof before.priority === "number" ? before.priority : undefined,
+                        updated_by: args.updated_by
+                    },
+                    context
+                );
+                break;
+            default:
+                throw new Error(`Unsupported record type '${args.type}'`);
+        }
+
+        if (!result.success) {
+            return result;
+        }
+
+        return {
+            success: true,
+            type: args.type,
+            id: recordId,
+            reverted_revision: revision.id,
+            restored_from: revision.created_at,
+            message: `${args.type} '${recordId}' restored to its state before revision '${revision.id}'`
+        };
+    }
+
+    private mapRevision(revision: RecordRevision, includeSnapshot: boolean) {
+        return {
+            revision_id: revision.id,
+            action: revision.action,
+            author: revision.author,
+            created_at: revision.created_at,
+            changes: revision.changes,
+            reverted_revision: revision.reverted_revision,
+            ...(includeSnapshot ? { before: revision.before } : {})
+        };
+    }
+}
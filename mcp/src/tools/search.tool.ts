@@ -0,0 +1,233 @@
+import { QdrantService, SearchMode, TextSearchResult } from "../services/qdrant.service.js";
+import { EmbeddingService } from "../services/embedding.service.js";
+import { ProjectService } from "../services/project.service.js";
+import { excludeArchived } from "../utils/archive.js";
+import { ToolDefinition } from "./registry.js";
+
+type SearchEverythingArgs = {
+    query: string;
+    collections?: string[];
+    limit_per_collection?: number;
+    min_score?: number;
+    mode?: SearchMode;
+    include_archived?: boolean;
+};
+
+type CollectionView = {
+    // Record type as accepted by delete_record / archive_record, or the kind of entry for other collections.
+    type: string;
+    title: string[];
+    snippet: string[];
+    fields: string[];
+};
+
+type SearchHit = {
+    id: string;
+    type: string;
+    title: string;
+    snippet: string;
+    score: number;
+    normalized_score: number;
+};
+
+// How each collection's payload is titled, summarised and keyword-matched. Collections
+// missing here (e.g. ones added to collections.json later) fall back to DEFAULT_VIEW.
+const COLLECTION_VIEWS: Record<string, CollectionView> = {
+    research_findings: { type: "research", title: ["topic"], snippet: ["findings"], fields: ["topic", "findings", "tags"] },
+    architectural_patterns: {
+        type: "architecture",
+        title: ["decision"],
+        snippet: ["rationale"],
+        fields: ["decision", "rationale", "alternatives", "scope", "tags", "notes"]
+    },
+    code_implementations: {
+        type: "pattern",
+        title: ["name"],
+        snippet: ["description", "usage"],
+        fields: ["name", "description", "code", "usage", "category"]
+    },
+    narrative_design: {
+        type: "narrative",
+        title: ["title"],
+        snippet: ["summary", "details"],
+        fields: ["title", "summary", "details", "act", "chapter", "tags"]
+    },
+    world_building: {
+        type: "lore",
+        title: ["title"],
+        snippet: ["content"],
+        fields: ["title", "category", "content", "region", "era", "factions", "tags"]
+    },
+    dialogue_snippets: {
+        type: "dialogue",
+        title: ["scene"],
+        snippet: ["context", "script"],
+        fields: ["scene", "characters", "context", "script", "tags"]
+    },
+    test_strategies: {
+        type: "test_strategy",
+        title: ["title"],
+        snippet: ["scenario"],
+        fields: ["title", "focus_area", "scenario", "coverage", "tags"]
+    },
+    gameplay_feedback: {
+        type: "feedback",
+        title: ["source", "build"],
+        snippet: ["experience"],
+        fields: ["experience", "positives", "negatives", "suggestions", "build", "tags"]
+    },
+    bug_fix_patterns: {
+        type: "bug_fix",
+        title: ["issue"],
+        snippet: ["summary", "correct_pattern"],
+        fields: ["issue", "summary", "correct_pattern", "incorrect_patterns", "error_messages", "tags"]
+    },
+    code_graph: {
+        type: "graph_entity",
+        title: ["name", "entityId"],
+        snippet: ["semanticDescription", "purpose"],
+        fields: ["entityId", "name", "path", "semanticDescription", "purpose", "architecturalRole"]
+    },
+    handoff_notes: { type: "handoff", title: ["updated_by"], snippet: ["content"], fields: ["content", "tags", "updated_by"] },
+    backlog_items: {
+        type: "backlog",
+        title: ["title"],
+        snippet: ["description"],
+        fields: ["title", "description", "next_steps", "completed_work", "acceptance_criteria", "notes", "tags", "category"]
+    },
+    features: { type: "feature", title: ["name"], snippet: ["description"], fields: ["name", "description", "tags", "owner"] },
+    sprints: { type: "sprint", title: ["name"], snippet: ["goal"], fields: ["name", "goal"] },
+    record_comments: { type: "comment", title: ["author"], snippet: ["body"], fields: ["body", "author"] }
+};
+
+const DEFAULT_VIEW: Omit<CollectionView, "type"> = {
+    title: ["title", "name"],
+    snippet: ["description", "content", "summary"],
+    fields: ["title", "name", "description", "content", "summary", "tags"]
+};
+
+// Internal bookkeeping, not knowledge anyone searches for.
+const EXCLUDED_COLLECTIONS = new Set(["record_revisions", "record_links"]);
+
+const SNIPPET_LENGTH = 240;
+
+const firstText = (payload: Record<string, unknown>, fields: string[]) => {
+    for (const field of fields) {
+        const value = payload[field];
+        if (typeof value === "string" && value.trim().length > 0) {
+            return value.replace(/\s+/g, " ").trim();
+        }
+    }
+    return "";
+};
+
+export class SearchTool {
+    constructor(
+        private qdrant: QdrantService,
+        private embedding: EmbeddingService,
+        private projects: ProjectService
+    ) {}
+
+    getToolDefinitions(): ToolDefinition[] {
+        return [
+            {
+                name: "search_everything",
+                description:
+                    "Search every project collection (research, patterns, architecture, narrative, lore, dialogue, QA, feedback, bug fixes, code graph, handoffs, backlog, features, sprints, comments) at once. Results are grouped by collection with record ids and short snippets.",
+                access: "read",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        query: { type: "string", minLength: 1, description: "What you are looking for." },
+                        collections: {
+                            type: "array",
+                            items: { type: "string" },
+                            description: "Limit the search to these collections (names from list_qdrant_collections). Default: all."
+                        },
+                        limit_per_collection: { type: "number", minimum: 1, maximum: 10, default: 3 },
+                        min_score: { type: "number", description: "Similarity threshold between 0-1 (default 0.5).", default: 0.5 },
+                        mode: { type: "string", enum: ["semantic", "keyword", "hybrid"], description: "semantic (default) matches meaning, keyword matches exact terms such as class names, quest ids or error codes, hybrid fuses both rankings." },
+                        include_archived: { type: "boolean", description: "Include soft-archived records (default false)." }
+                    },
+                    required: ["query"],
+                    additionalProperties: false
+                },
+                handler: (projectId, args) => this.searchEverything(projectId, args)
+            }
+        ];
+    }
+
+    async searchEverything(projectId: string, args: SearchEverythingArgs) {
+        const { query, min_score = 0.5, mode = "semantic", include_archived = false } = args;
+        const limit = Math.min(Math.max(args.limit_per_collection ?? 3, 1), 10);
+
+        const known = this.projects
+            .getCollectionConfigs()
+            .map((definition) => definition.name)
+            .filter((name) => !EXCLUDED_COLLECTIONS.has(name));
+        const unknown = (args.collections ?? []).filter((name) => !known.includes(name));
+        if (unknown.length > 0) {
+            throw new Error(`Unknown collection(s): ${unknown.join(", ")}. Expected any of: ${known.join(", ")}`);
+        }
+        const collections = args.collections && args.collections.length > 0 ? known.filter((name) => args.collections!.includes(name)) : known;
+
+        // Every collection shares one query vector.
+        let vector: Promise<number[]> | undefined;
+        const embed = () => (vector ??= this.embedding.embed(query));
+
+        const searches = await Promise.all(
+            collections.map(async (collection) => {
+                const view = COLLECTION_VIEWS[collection] ?? { ...DEFAULT_VIEW, type: collection };
+                try {
+                    const results = await this.qdrant.searchText(this.projects.collectionName(projectId, collection), {
+                        query,
+                        fields: view.fields,
+                        embed,
+                        mode,
+                        limit,
+                        filter: excludeArchived(undefined, include_archived),
+                        scoreThreshold: min_score
+                    });
+                    return { collection, view, results };
+                } catch (error) {
+                    return { collection, view, results: [] as TextSearchResult[], error: error instanceof Error ? error.message : String(error) };
+                }
+            })
+        );
+
+        // Scores are rescaled against the best hit overall so groups can be compared at a glance.
+        const best = Math.max(0, ...searches.flatMap(({ results }) => results.map((result) => result.score)));
+        const groups = searches
+            .filter(({ results, error }) => results.length > 0 || error)
+            .map(({ collection, view, results, error }) => ({
+                collection,
+                type: view.type,
+                count: results.length,
+                results: results.map((result) => this.toHit(result, view, best)),
+                ...(error ? { error } : {})
+            }))
+            .sort((a, b) => (b.results[0]?.normalized_score ?? -1) - (a.results[0]?.normalized_score ?? -1));
+
+        return {
+            query,
+            mode,
+            searched_collections: collections,
+            total: groups.reduce((sum, group) => sum + group.count, 0),
+            groups
+        };
+    }
+
+    private toHit(result: TextSearchResult, view: CollectionView, best: number): SearchHit {
+        const payload = (result.payload ?? {}) as Record<string, unknown>;
+        const id = typeof result.id === "string" ? result.id : String(result.id);
+        const snippet = firstText(payload, view.snippet);
+        return {
+            id,
+            type: view.type,
+            title: firstText(payload, view.title) || id,
+            snippet: snippet.length > SNIPPET_LENGTH ? `${snippet.slice(0, SNIPPET_LENGTH)}…` : snippet,
+            score: result.score,
+            normalized_score: best > 0 ? Math.round((result.score / best) * 1000) / 1000 : 0
+        };
+    }
+}
@@ -0,0 +1,53 @@
+import { ProjectService } from "../services/project.service.js";
+import { listProjectSnapshots } from "../utils/projectRestore.js";
+import { ToolDefinition } from "./registry.js";
+
+type ListArgs = {
+    project?: string;
+    limit?: number;
+};
+
+export class SnapshotTool {
+    constructor(private projects: ProjectService, private snapshotDir: string) {}
+
+    getToolDefinitions(): ToolDefinition[] {
+        return [
+            {
+                name: "list_project_snapshots",
+                description: "List snapshots written by POST /reset (newest first) that can be restored via POST /restore.",
+                access: "read",
+                projectArgs: ["project"],
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        project: { type: "string", description: "Project whose snapshots to list (defaults to the current project; may name a deleted project)." },
+                        limit: { type: "number", description: "Maximum snapshots to return (default 20, max 100)." }
+                    },
+                    additionalProperties: false
+                },
+                handler: (projectId, args) => this.listSnapshots(projectId, args)
+            }
+        ];
+    }
+
+    async listSnapshots(projectId: string, args: ListArgs = {}) {
+        const target = args.project ? this.projects.normalizeProjectId(args.project) : projectId;
+        const limit = Math.min(Math.max(args.limit ?? 20, 1), 100);
+
+        const snapshots = await listProjectSnapshots({
+            projectId: target,
+            snapshotDir: this.snapshotDir
+        });
+
+        return {
+            project: target,
+            count: Math.min(snapshots.length, limit),
+            total: snapshots.length,
+            snapshots: snapshots.slice(0, limit).map((snapshot) => ({
+                timestamp: snapshot.timestamp,
+                collections: snapshot.collections,
+                has_graph: snapshot.hasGraph
+            }))
+        };
+    }
+}
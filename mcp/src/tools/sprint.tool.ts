@@ -0,0 +1,441 @@
+import { randomUUID } from "crypto";
+
+import { QdrantService } from "../services/qdrant.service.js";
+import { EmbeddingService } from "../services/embedding.service.js";
+import { ProjectService } from "../services/project.service.js";
+import { isArchivedPayload } from "../utils/archive.js";
+import { sprintText } from "../utils/embeddingText.js";
+import { isDoneStatus } from "../utils/workflow.js";
+import { BacklogRecord, BacklogTool } from "./backlog.tool.js";
+import { ToolDefinition } from "./registry.js";
+
+type CreateSprintArgs = {
+    name: string;
+    start_date: string;
+    end_date: string;
+    capacity: number;
+    goal?: string;
+};
+
+type ListSprintsArgs = {
+    status?: SprintStatus;
+    include_archived?: boolean;
+};
+
+type SprintRefArgs = {
+    sprint: string;
+};
+
+type PlanSprintArgs = SprintRefArgs & {
+    item_ids: string[];
+    allow_over_capacity?: boolean;
+    updated_by?: string;
+};
+
+type CloseSprintArgs = SprintRefArgs & {
+    roll_over_to?: string;
+    updated_by?: string;
+};
+
+type VelocityArgs = {
+    limit?: number;
+};
+
+type SprintStatus = "planned" | "active" | "closed";
+
+type SprintRecord = {
+    id: string;
+    name: string;
+    goal: string | null;
+    start_date: string;
+    end_date: string;
+    capacity: number;
+    status: SprintStatus;
+    closed_at: string | null;
+    committed_points: number | null;
+    completed_points: number | null;
+    rolled_over_to: string | null;
+    archived: boolean;
+    created_at: string;
+    updated_at: string;
+};
+
+const sumPoints = (items: BacklogRecord[]) => items.reduce((total, item) => total + (item.story_points ?? 0), 0);
+
+const parseDate = (value: string, field: string) => {
+    const trimmed = value.trim();
+    if (Number.isNaN(Date.parse(trimmed))) {
+        throw new Error(`${field} must be an ISO 8601 date, got '${value}'`);
+    }
+    return trimmed;
+};
+
+/**
+ * Sprints are named iterations with dates and a story-point capacity. Backlog
+ * items join a sprint through their `sprint` field, which holds the sprint name,
+ * so items planned by hand before sprints existed line up with the same name.
+ */
+export class SprintTool {
+    private collection = "sprints";
+
+    constructor(
+        private qdrant: QdrantService,
+        private embedding: EmbeddingService,
+        private projects: ProjectService,
+        private backlog: BacklogTool
+    ) {}
+
+    getToolDefinitions(): ToolDefinition[] {
+        const sprintRef = { type: "string" as const, description: "Sprint name or id." };
+        return [
+            {
+                name: "create_sprint",
+                description: "Create a sprint with dates, a story-point capacity and an optional goal. Sprint names are unique per project.",
+                access: "write",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        name: { type: "string", minLength: 1, description: "Sprint name (e.g. 'Sprint 14'); backlog items reference it in their sprint field." },
+                        start_date: { type: "string", description: "ISO 8601 start date." },
+                        end_date: { type: "string", description: "ISO 8601 end date (inclusive)." },
+                        capacity: { type: "number", minimum: 0, description: "Story points the team can commit to." },
+                        goal: { type: "string", description: "What the sprint should achieve." }
+                    },
+                    required: ["name", "start_date", "end_date", "capacity"],
+                    additionalProperties: false
+                },
+                handler: (projectId, args) => this.createSprint(projectId, args)
+            },
+            {
+                name: "list_sprints",
+                description: "List sprints (newest first) with their committed and completed story points.",
+                access: "read",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        status: { type: "string", enum: ["planned", "active", "closed"], description: "Only list sprints in this state." },
+                        include_archived: { type: "boolean", description: "Include soft-archived records (default false)." }
+                    },
+                    additionalProperties: false
+                },
+                handler: (projectId, args) => this.listSprints(projectId, args)
+            },
+            {
+                name: "get_sprint",
+                description: "Return a sprint with its backlog items and point totals.",
+                access: "read",
+                inputSchema: {
+                    type: "object",
+                    properties: { sprint: sprintRef },
+                    required: ["sprint"],
+                    additionalProperties: false
+                },
+                handler: (projectId, args) => this.getSprint(projectId, args)
+            },
+            {
+                name: "plan_sprint",
+                description: "Add backlog items to a sprint. Rejects the whole request when it names archived items or would exceed the sprint's capacity unless allow_over_capacity is true.",
+                access: "write",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        sprint: sprintRef,
+                        item_ids: { type: "array", items: { type: "string" }, minItems: 1, description: "Backlog item ids to plan into the sprint." },
+                        allow_over_capacity: { type: "boolean", description: "Plan the items even if the sprint ends up over capacity." },
+                        updated_by: { type: "string", description: "Agent or person planning (recorded in the revision history)." }
+                    },
+                    required: ["sprint", "item_ids"],
+                    additionalProperties: false
+                },
+                handler: (projectId, args) => this.planSprint(projectId, args)
+            },
+            {
+                name: "close_sprint",
+                description: "Close a sprint, recording committed and completed points, and move its unfinished items to roll_over_to (or out of any sprint).",
+                access: "write",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        sprint: sprintRef,
+                        roll_over_to: { type: "string", description: "Name or id of the open sprint that receives unfinished items." },
+                        updated_by: { type: "string", description: "Agent or person closing the sprint (recorded in the revision history)." }
+                    },
+                    required: ["sprint"],
+                    additionalProperties: false
+                },
+                handler: (projectId, args) => this.closeSprint(projectId, args)
+            },
+            {
+                name: "get_sprint_velocity",
+                description: "Report committed and completed points for the most recent closed sprints, with the average velocity.",
+                access: "read",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        limit: { type: "number", description: "Closed sprints to include (default 5, max 50)." }
+                    },
+                    additionalProperties: false
+                },
+                handler: (projectId, args) => this.getVelocity(projectId, args)
+            }
+        ];
+    }
+
+    async createSprint(projectId: string, args: CreateSprintArgs) {
+        const name = args.name.trim();
+        const start_date = parseDate(args.start_date, "start_date");
+        const end_date = parseDate(args.end_date, "end_date");
+        if (Date.parse(end_date) < Date.parse(start_date)) {
+            throw new Error("end_date must not be before start_date");
+        }
+
+        const sprints = await this.loadSprints(projectId);
+        if (sprints.some((sprint) => sprint.name.toLowerCase() === name.toLowerCase())) {
+            throw new Error(`A sprint named '${name}' already exists`);
+        }
+
+        const id = randomUUID();
+        const now = new Date().toISOString();
+        const payload = {
+            name,
+            goal: args.goal?.trim() || null,
+            start_date,
+            end_date,
+            capacity: args.capacity,
+            closed_at: null,
+            committed_points: null,
+            completed_points: null,
+            rolled_over_to: null,
+            created_at: now,
+            updated_at: now
+        };
+
+        await this.qdrant.upsert(this.getCollection(projectId), [
+            {
+                id,
+                vector: await this.embedding.embed(sprintText(payload)),
+                payload
+            }
+        ]);
+
+        return {
+            success: true,
+            id,
+            sprint: this.mapPayload(id, payload),
+            message: `Sprint '${name}' created`
+        };
+    }
+
+    async listSprints(projectId: string, args: ListSprintsArgs = {}) {
+        const sprints = (await this.loadSprints(projectId)).filter(
+            (sprint) => (args.include_archived || !sprint.archived) && (!args.status || sprint.status === args.status)
+        );
+
+        const summaries = [];
+        for (const sprint of sprints) {
+            const items = await this.backlog.getBacklogItemsBySprint(projectId, sprint.name);
+            summaries.push({ ...sprint, ...this.totals(projectId, sprint, items) });
+        }
+
+        return {
+            count: summaries.length,
+            sprints: summaries
+        };
+    }
+
+    async getSprint(projectId: string, args: SprintRefArgs) {
+        const sprint = await this.resolveSprint(projectId, args.sprint);
+        const items = await this.backlog.getBacklogItemsBySprint(projectId, sprint.name);
+
+        return {
+            sprint,
+            ...this.totals(projectId, sprint, items),
+            items: items.map((item) => ({
+                id: item.id,
+                title: item.title,
+                status: item.status,
+                priority: item.priority,
+                owner: item.owner,
+                story_points: item.story_points
+            }))
+        };
+    }
+
+    async planSprint(projectId: string, args: PlanSprintArgs) {
+        const sprint = await this.resolveSprint(projectId, args.sprint);
+        if (sprint.status === "closed") {
+            throw new Error(`Sprint '${sprint.name}' is closed`);
+        }
+
+        const ids = Array.from(new Set(args.item_ids));
+        const items = await this.backlog.getBacklogItemsByIds(projectId, ids);
+        const found = new Set(items.map((item) => item.id));
+        const missing = ids.filter((id) => !found.has(id));
+        if (missing.length > 0) {
+            throw new Error(`Backlog item(s) not found: ${missing.join(", ")}`);
+        }
+        const archived = items.filter((item) => item.archived);
+        if (archived.length > 0) {
+            throw new Error(`Backlog item(s) are archived: ${archived.map((item) => item.id).join(", ")}; unarchive them before planning`);
+        }
+
+        const current = await this.backlog.getBacklogItemsBySprint(projectId, sprint.name);
+        const incoming = items.filter((item) => item.sprint !== sprint.name);
+        const committed = sumPoints(current) + sumPoints(incoming);
+        if (committed > sprint.capacity && !args.allow_over_capacity) {
+            throw new Error(
+                `Planning these items would commit ${committed} of ${sprint.capacity} points in '${sprint.name}'; drop items or pass allow_over_capacity: true`
+            );
+        }
+
+        for (const item of incoming) {
+            await this.backlog.updateBacklogItem(projectId, { id: item.id, sprint: sprint.name, updated_by: args.updated_by });
+        }
+
+        return {
+            success: true,
+            id: sprint.id,
+            sprint: sprint.name,
+            planned: incoming.map((item) => item.id),
+            already_planned: items.filter((item) => item.sprint === sprint.name).map((item) => item.id),
+            unestimated: incoming.filter((item) => item.story_points === null).map((item) => item.id),
+            committed_points: committed,
+            capacity: sprint.capacity,
+            remaining_capacity: sprint.capacity - committed
+        };
+    }
+
+    async closeSprint(projectId: string, args: CloseSprintArgs) {
+        const sprint = await this.resolveSprint(projectId, args.sprint);
+        if (sprint.status === "closed") {
+            throw new Error(`Sprint '${sprint.name}' is already closed`);
+        }
+
+        const target = args.roll_over_to ? await this.resolveSprint(projectId, args.roll_over_to) : null;
+        if (target && (target.status === "closed" || target.id === sprint.id)) {
+            throw new Error(`Cannot roll items over to '${target.name}'; pick another open sprint`);
+        }
+
+        const items = await this.backlog.getBacklogItemsBySprint(projectId, sprint.name);
+        const workflow = this.projects.getBacklogWorkflow(projectId);
+        const finished = items.filter((item) => isDoneStatus(workflow, item.status));
+        const unfinished = items.filter((item) => !isDoneStatus(workflow, item.status));
+
+        for (const item of unfinished) {
+            await this.backlog.updateBacklogItem(projectId, {
+                id: item.id,
+                sprint: target?.name ?? null,
+                updated_by: args.updated_by
+            });
+        }
+
+        const now = new Date().toISOString();
+        const closed = {
+            closed_at: now,
+            committed_points: sumPoints(items),
+            completed_points: sumPoints(finished),
+            rolled_over_to: target?.name ?? null,
+            updated_at: now
+        };
+        await this.qdrant.setPayload(this.getCollection(projectId), sprint.id, closed);
+
+        return {
+            success: true,
+            id: sprint.id,
+            sprint: sprint.name,
+            committed_points: closed.committed_points,
+            completed_points: closed.completed_points,
+            completed_items: finished.map((item) => item.id),
+            rolled_over: unfinished.map((item) => item.id),
+            rolled_over_to: closed.rolled_over_to,
+            message: target
+                ? `Sprint '${sprint.name}' closed; ${unfinished.length} unfinished item(s) moved to '${target.name}'`
+                : `Sprint '${sprint.name}' closed; ${unfinished.length} unfinished item(s) returned to the backlog`
+        };
+    }
+
+    async getVelocity(projectId: string, args: VelocityArgs = {}) {
+        const limit = Math.min(Math.max(args.limit ?? 5, 1), 50);
+        const closed = (await this.loadSprints(projectId))
+            .filter((sprint) => sprint.status === "closed" && !sprint.archived)
+            .slice(0, limit);
+
+        const sprints = closed.map((sprint) => ({
+            id: sprint.id,
+            name: sprint.name,
+            start_date: sprint.start_date,
+            end_date: sprint.end_date,
+            capacity: sprint.capacity,
+            committed_points: sprint.committed_points ?? 0,
+            completed_points: sprint.completed_points ?? 0
+        }));
+
+        const completed = sprints.reduce((total, sprint) => total + sprint.completed_points, 0);
+        const committed = sprints.reduce((total, sprint) => total + sprint.committed_points, 0);
+
+        return {
+            count: sprints.length,
+            average_velocity: sprints.length > 0 ? Math.round((completed / sprints.length) * 10) / 10 : null,
+            completion_rate: committed > 0 ? Math.round((completed / committed) * 100) / 100 : null,
+            sprints
+        };
+    }
+
+    private totals(projectId: string, sprint: SprintRecord, items: BacklogRecord[]) {
+        // Closed sprints report the totals frozen at close; their unfinished items have moved on.
+        const workflow = this.projects.getBacklogWorkflow(projectId);
+        const committed = sprint.committed_points ?? sumPoints(items);
+        const completed = sprint.completed_points ?? sumPoints(items.filter((item) => isDoneStatus(workflow, item.status)));
+        return {
+            item_count: items.length,
+            committed_points: committed,
+            completed_points: completed,
+            remaining_capacity: sprint.capacity - committed,
+            unestimated: items.filter((item) => item.story_points === null).length
+        };
+    }
+
+    /** Every sprint of the project, newest start date first. */
+    private async loadSprints(projectId: string) {
+        const points = await this.qdrant.scrollAll(this.getCollection(projectId));
+        return points
+            .map((point) => this.mapPayload(typeof point.id === "string" ? point.id : String(point.id), point.payload ?? {}))
+            .sort((a, b) => b.start_date.localeCompare(a.start_date) || a.name.localeCompare(b.name));
+    }
+
+    private async resolveSprint(projectId: string, ref: string) {
+        const needle = ref.trim().toLowerCase();
+        const sprint = (await this.loadSprints(projectId)).find(
+            (candidate) => candidate.id === ref.trim() || candidate.name.toLowerCase() === needle
+        );
+        if (!sprint) {
+            throw new Error(`Sprint '${ref}' not found`);
+        }
+        return sprint;
+    }
+
+    private mapPayload(id: string, payload: Record<string, any>): SprintRecord {
+        const closedAt = typeof payload.closed_at === "string" ? payload.closed_at : null;
+        const startDate = typeof payload.start_date === "string" ? payload.start_date : "";
+        return {
+            id,
+            name: payload.name ?? "",
+            goal: typeof payload.goal === "string" ? payload.goal : null,
+            start_date: startDate,
+            end_date: typeof payload.end_date === "string" ? payload.end_date : "",
+            capacity: typeof payload.capacity === "number" ? payload.capacity : 0,
+            status: closedAt ? "closed" : Date.parse(startDate) <= Date.now() ? "active" : "planned",
+            closed_at: closedAt,
+            committed_points: typeof payload.committed_points === "number" ? payload.committed_points : null,
+            completed_points: typeof payload.completed_points === "number" ? payload.completed_points : null,
+            rolled_over_to: typeof payload.rolled_over_to === "string" ? payload.rolled_over_to : null,
+            archived: isArchivedPayload(payload),
+            created_at: payload.created_at ?? "",
+            updated_at: payload.updated_at ?? ""
+        };
+    }
+
+    private getCollection(projectId: string) {
+        return this.projects.collectionName(projectId, this.collection);
+    }
+}
@@ -1,10 +1,14 @@
 import { randomUUID } from "crypto";
 
-import { QdrantService } from "../services/qdrant.service.js";
+import { QdrantService, SearchMode } from "../services/qdrant.service.js";
 import { EmbeddingService } from "../services/embedding.service.js";
 import { CacheService } from "../services/cache.service.js";
 import { ProjectService } from "../services/project.service.js";
+import { excludeArchived } from "../utils/archive.js";
+import { scrollPage } from "../utils/pagination.js";
 import { TestStrategyInput } from "../types/index.js";
+import { ToolDefinition } from "./registry.js";
+import { testStrategyText } from "../utils/embeddingText.js";
 
 type QueryArgs = {
     query: string;
@@ -13,6 +17,8 @@ type QueryArgs = {
     tags?: string[];
     limit?: number;
     min_score?: number;
+    mode?: SearchMode;
+    include_archived?: boolean;
 };
 
 type StoreArgs = TestStrategyInput & {
@@ -29,6 +35,67 @@ export class TestingTool {
         private projects: ProjectService
     ) {}
 
+    getToolDefinitions(): ToolDefinition[] {
+        return [
+            {
+                name: "store_test_strategy",
+                description: "Document a test strategy covering hybrid gameplay, narrative branches, or engine systems.",
+                access: "write",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        title: { type: "string" },
+                        focus_area: { type: "string", description: "System or gameplay area under test" },
+                        scenario: { type: "string", description: "Test scenario narrative" },
+                        coverage: { type: "array", items: { type: "string" }, description: "Checklist of covered behaviors" },
+                        automated: { type: "boolean", description: "Whether automated tests exist" },
+                        status: { type: "string" },
+                        tags: { type: "array", items: { type: "string" } },
+                        author: { type: "string" }
+                    },
+                    required: ["title", "focus_area", "scenario", "coverage"]
+                },
+                handler: (projectId, args) => this.storeTestStrategy(projectId, args)
+            },
+            {
+                name: "query_test_strategies",
+                description: "Search test strategies to avoid regression gaps and share coverage plans.",
+                access: "read",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        query: { type: "string" },
+                        focus_area: { type: "string" },
+                        automated: { type: "boolean" },
+                        tags: { type: "array", items: { type: "string" } },
+                        limit: { type: "number", default: 5 },
+                        min_score: { type: "number", default: 0.6 },
+                        mode: { type: "string", enum: ["semantic", "keyword", "hybrid"], description: "semantic (default) matches meaning, keyword matches exact terms such as class names, quest ids or error codes, hybrid fuses both rankings." },
+                        include_archived: { type: "boolean", description: "Include soft-archived records (default false)." }
+                    },
+                    required: ["query"]
+                },
+                handler: (projectId, args) => this.queryTestStrategies(projectId, args)
+            },
+            {
+                name: "list_test_strategies_by_focus",
+                description: "List test strategies for a given focus area, 100 per page by default; page further with next_cursor.",
+                access: "read",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        focusArea: { type: "string", minLength: 1, description: "Focus area identifier" },
+                        limit: { type: "number", description: "Maximum strategies per page (default 100)." },
+                        include_archived: { type: "boolean", description: "Include soft-archived records (default false)." },
+                        cursor: { type: "string", description: "next_cursor from the previous page." }
+                    },
+                    required: ["focusArea"]
+                },
+                handler: (projectId, args) => this.listByFocusArea(projectId, args)
+            }
+        ];
+    }
+
     async storeTestStrategy(projectId: string, args: StoreArgs) {
         const {
             title,
@@ -44,9 +111,7 @@ export class TestingTool {
         const id = randomUUID();
         const timestamp = new Date().toISOString();
 
-        const vector = await this.embedding.embed(
-            `${title}\n${focus_area}\n${scenario}\n${coverage.join("\n")}`
-        );
+        const vector = await this.embedding.embed(testStrategyText({ title, focus_area, scenario, coverage }));
 
         await this.qdrant.upsert(this.getCollection(projectId), [
             {
@@ -85,18 +150,21 @@ export class TestingTool {
             tags,
             limit = 5,
             min_score = 0.6,
+            include_archived = false,
+            mode,
         } = args;
 
-        const vector = await this.embedding.embed(query);
-        const filter = this.buildFilter({ focus_area, automated, tags });
+        const filter = excludeArchived(this.buildFilter({ focus_area, automated, tags }), include_archived);
 
-        const results: any[] = await this.qdrant.search(
-            this.getCollection(projectId),
-            vector,
+        const results: any[] = await this.qdrant.searchText(this.getCollection(projectId), {
+            query,
+            fields: ["title", "focus_area", "scenario", "coverage", "tags"],
+            embed: () => this.embedding.embed(query),
+            mode,
             limit,
             filter,
-            min_score
-        );
+            scoreThreshold: min_score
+        });
 
         return {
             count: results.length,
@@ -104,43 +172,49 @@ export class TestingTool {
         };
     }
 
-    async listByFocusArea(projectId: string, args: { focusArea: string }) {
-        const { focusArea } = args;
-        if (!focusArea) {
-            throw new Error("focusArea is required");
-        }
+    async listByFocusArea(
+        projectId: string,
+        args: { focusArea: string; limit?: number; include_archived?: boolean; cursor?: string }
+    ) {
+        const { focusArea, limit = 100, include_archived = false, cursor } = args;
 
-        const cacheKey = `testing:${projectId}:list:${focusArea}`;
-        const cached = this.cache.get<any[]>(cacheKey);
+        const cacheKey = `testing:${projectId}:list:${focusArea}:${limit}:${include_archived}:${cursor ?? ""}`;
+        const cached = this.cache.get<{ strategies: any[]; next_cursor: string | null }>(cacheKey);
         if (cached) {
             return {
-                count: cached.length,
-                strategies: cached,
+                count: cached.strategies.length,
+                ...cached,
                 cached: true,
             };
         }
 
-        const response: any = await this.qdrant.scroll(
+        const page = await scrollPage(
+            this.qdrant,
             this.getCollection(projectId),
-            {
-                must: [
-                    {
-                        key: "focus_area",
-                        match: { value: focusArea },
-                    },
-                ],
-            },
-            100
+            excludeArchived(
+                {
+                    must: [
+                        {
+                            key: "focus_area",
+                            match: { value: focusArea },
+                        },
+                    ],
+                },
+                include_archived
+            ),
+            limit,
+            cursor
         );
 
-        const strategies = (response.points ?? []).map((point: any) =>
+        const strategies = page.items.map((point: any) =>
             this.mapPoint(point)
         );
-        this.cache.set(cacheKey, strategies, 15 * 60 * 1000);
+        this.cache.set(cacheKey, { strategies, next_cursor: page.next_cursor }, 15 * 60 * 1000);
 
         return {
             count: strategies.length,
             strategies,
+            next_cursor: page.next_cursor,
             cached: false,
         };
     }
@@ -1,8 +1,9 @@
 import { QdrantService } from "../services/qdrant.service.js";
 import { EmbeddingService } from "../services/embedding.service.js";
-import { CacheService } from "../services/cache.service.js";
 import { ProjectService } from "../services/project.service.js";
+import { excludeArchived } from "../utils/archive.js";
 import { ValidationSummary, ValidationMatch } from "../types/index.js";
+import { ToolDefinition } from "./registry.js";
 
 type ValidateArgs = {
     content: string;
@@ -25,10 +26,42 @@ export class ValidationTool {
     constructor(
         private qdrant: QdrantService,
         private embedding: EmbeddingService,
-        private cache: CacheService,
         private projects: ProjectService
     ) {}
 
+    getToolDefinitions(): ToolDefinition[] {
+        return [
+            {
+                name: "validate_against_patterns",
+                description: "Validate code/design against established patterns to catch inconsistencies.",
+                access: "read",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        content: { type: "string", description: "Code or design to validate" },
+                        type: { type: "string", description: "What's being validated (code/architecture/test)" }
+                    },
+                    required: ["content", "type"]
+                },
+                handler: (projectId, args) => this.validatePatterns(projectId, args)
+            },
+            {
+                name: "check_consistency",
+                description: "Check if new work is consistent with existing patterns and decisions.",
+                access: "read",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        description: { type: "string", description: "Describe the new work" },
+                        category: { type: "string", description: "Category of work" }
+                    },
+                    required: ["description"]
+                },
+                handler: (projectId, args) => this.checkConsistency(projectId, args)
+            }
+        ];
+    }
+
     async validatePatterns(projectId: string, args: ValidateArgs): Promise<ValidationSummary> {
         const {
             content,
@@ -38,7 +71,7 @@ export class ValidationTool {
             min_score = 0.6,
         } = args;
 
-        const vector = await this.embedWithCache(content);
+        const vector = await this.embedding.embed(content);
 
         const filter = category
             ? {
@@ -55,7 +88,7 @@ export class ValidationTool {
             this.getPatternCollection(projectId),
             vector,
             limit,
-            filter,
+            excludeArchived(filter),
             min_score
         );
 
@@ -84,7 +117,7 @@ export class ValidationTool {
             limit = 5,
         } = args;
 
-        const vector = await this.embedWithCache(description);
+        const vector = await this.embedding.embed(description);
 
         const filter = category
             ? {
@@ -101,7 +134,7 @@ export class ValidationTool {
             this.getArchitectureCollection(projectId),
             vector,
             limit,
-            filter,
+            excludeArchived(filter),
             0.55
         );
 
@@ -109,7 +142,7 @@ export class ValidationTool {
             this.getPatternCollection(projectId),
             vector,
             Math.max(3, Math.floor(limit / 2)),
-            filter,
+            excludeArchived(filter),
             0.55
         );
 
@@ -134,18 +167,6 @@ export class ValidationTool {
         };
     }
 
-    private async embedWithCache(text: string) {
-        const key = `embedding:${text}`;
-        const cached = this.cache.get<number[]>(key);
-        if (cached) {
-            return cached;
-        }
-
-        const vector = await this.embedding.embed(text);
-        this.cache.set(key, vector, 60 * 60 * 1000);
-        return vector;
-    }
-
     private toMatch(point: any, source: string): ValidationMatch {
         const payload = point.payload ?? {};
         return {
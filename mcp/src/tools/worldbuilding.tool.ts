@@ -1,10 +1,14 @@
 import { randomUUID } from "crypto";
 
-import { QdrantService } from "../services/qdrant.service.js";
+import { QdrantService, SearchMode } from "../services/qdrant.service.js";
 import { EmbeddingService } from "../services/embedding.service.js";
 import { CacheService } from "../services/cache.service.js";
 import { ProjectService } from "../services/project.service.js";
+import { excludeArchived } from "../utils/archive.js";
+import { pageOf } from "../utils/pagination.js";
 import { LoreEntryInput, LoreEntryRecord } from "../types/index.js";
+import { ToolDefinition } from "./registry.js";
+import { loreText } from "../utils/embeddingText.js";
 
 type StoreArgs = LoreEntryInput & {
     attachments?: string[];
@@ -17,12 +21,16 @@ type SearchArgs = {
     tags?: string[];
     limit?: number;
     min_score?: number;
+    mode?: SearchMode;
+    include_archived?: boolean;
 };
 
 type ListArgs = {
     region?: string;
     category?: string;
     limit?: number;
+    include_archived?: boolean;
+    cursor?: string;
 };
 
 export class WorldbuildingTool {
@@ -35,6 +43,68 @@ export class WorldbuildingTool {
         private projects: ProjectService
     ) {}
 
+    getToolDefinitions(): ToolDefinition[] {
+        return [
+            {
+                name: "store_lore_entry",
+                description: "Store worldbuilding lore such as factions, locations, artifacts, and historical notes.",
+                access: "write",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        title: { type: "string" },
+                        category: { type: "string", description: "Type of lore (faction, location, artifact, history, culture)" },
+                        content: { type: "string", description: "Rich lore description" },
+                        region: { type: "string" },
+                        era: { type: "string" },
+                        factions: { type: "array", items: { type: "string" }, description: "Related factions" },
+                        tags: { type: "array", items: { type: "string" } },
+                        related_ids: { type: "array", items: { type: "string" } },
+                        attachments: { type: "array", items: { type: "string" } }
+                    },
+                    required: ["title", "category", "content"]
+                },
+                handler: (projectId, args) => this.storeLoreEntry(projectId, args)
+            },
+            {
+                name: "search_lore",
+                description: "Semantically search lore database by region, category, or tags.",
+                access: "read",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        query: { type: "string" },
+                        category: { type: "string" },
+                        region: { type: "string" },
+                        tags: { type: "array", items: { type: "string" } },
+                        limit: { type: "number", default: 5 },
+                        min_score: { type: "number", default: 0.6 },
+                        mode: { type: "string", enum: ["semantic", "keyword", "hybrid"], description: "semantic (default) matches meaning, keyword matches exact terms such as class names, quest ids or error codes, hybrid fuses both rankings." },
+                        include_archived: { type: "boolean", description: "Include soft-archived records (default false)." }
+                    },
+                    required: ["query"]
+                },
+                handler: (projectId, args) => this.searchLore(projectId, args)
+            },
+            {
+                name: "list_lore",
+                description: "List lore entries for coordination (e.g., all regions or factions), sorted by title; page further with next_cursor.",
+                access: "read",
+                inputSchema: {
+                    type: "object",
+                    properties: {
+                        region: { type: "string" },
+                        category: { type: "string" },
+                        limit: { type: "number", default: 50 },
+                        include_archived: { type: "boolean", description: "Include soft-archived records (default false)." },
+                        cursor: { type: "string", description: "next_cursor from the previous page." }
+                    }
+                },
+                handler: (projectId, args) => this.listLore(projectId, args)
+            }
+        ];
+    }
+
     async storeLoreEntry(projectId: string, args: StoreArgs) {
         const {
             title,
@@ -51,9 +121,7 @@ export class WorldbuildingTool {
         const timestamp = new Date().toISOString();
         const id = randomUUID();
 
-        const vector = await this.embedWithCache(
-            `${title}\n${category}\n${content}\n${region ?? ""}\n${tags.join(",")}`
-        );
+        const vector = await this.embedding.embed(loreText({ title, category, content, region, tags }));
 
         await this.qdrant.upsert(this.getCollection(projectId), [
             {
@@ -93,18 +161,21 @@ export class WorldbuildingTool {
             tags,
             limit = 5,
             min_score = 0.6,
+            include_archived = false,
+            mode,
         } = args;
 
-        const vector = await this.embedWithCache(query);
-        const filter = this.buildFilter({ category, region, tags });
+        const filter = excludeArchived(this.buildFilter({ category, region, tags }), include_archived);
 
-        const results: any[] = await this.qdrant.search(
-            this.getCollection(projectId),
-            vector,
+        const results: any[] = await this.qdrant.searchText(this.getCollection(projectId), {
+            query,
+            fields: ["title", "category", "content", "region", "era", "factions", "tags"],
+            embed: () => this.embedding.embed(query),
+            mode,
             limit,
             filter,
-            min_score
-        );
+            scoreThreshold: min_score
+        });
 
         return {
             count: results.length,
@@ -113,51 +184,48 @@ export class WorldbuildingTool {
     }
 
     async listLore(projectId: string, args: ListArgs = {}) {
-        const { region, category, limit = 50 } = args;
+        const { region, category, limit = 50, include_archived = false, cursor } = args;
 
-        const cacheKey = `world:${projectId}:lore:${region ?? ""}:${category ?? ""}:${limit}`;
+        // The full sorted list is cached; pages are sliced from it.
+        const cacheKey = `world:${projectId}:lore:${region ?? ""}:${category ?? ""}:${include_archived}`;
         const cached = this.cache.get<LoreEntryRecord[]>(cacheKey);
-        if (cached) {
-            return {
-                count: cached.length,
-                lore: cached,
-                cached: true,
-            };
+        let lore = cached;
+        if (!lore) {
+            const filter = excludeArchived(this.buildFilter({ region, category }), include_archived);
+            const points = await this.qdrant.scrollAll(this.getCollection(projectId), filter);
+            lore = points
+                .map(point => this.mapPoint(point))
+                .sort((a, b) =>
+                    (a.title ?? "").localeCompare(b.title ?? "")
+                );
+
+            this.cache.set(cacheKey, lore, 10 * 60 * 1000);
         }
 
-        const filter = this.buildFilter({ region, category });
-        const response: any = await this.qdrant.scroll(
-            this.getCollection(projectId),
-            filter,
-            limit
-        );
-
-        const points: any[] = response.points ?? [];
-        const lore = points
-            .map(point => this.mapPoint(point))
-            .sort((a, b) =>
-                (a.title ?? "").localeCompare(b.title ?? "")
-            );
-
-        this.cache.set(cacheKey, lore, 10 * 60 * 1000);
+        const page = pageOf(lore, limit, cursor);
 
         return {
-            count: lore.length,
-            lore,
-            cached: false,
+            count: page.items.length,
+            total: lore.length,
+            lore: page.items,
+            next_cursor: page.next_cursor,
+            cached: Boolean(cached),
         };
     }
 
-    private async embedWithCache(text: string) {
-        const key = `embedding:${text}`;
-        const cached = this.cache.get<number[]>(key);
-        if (cached) {
-            return cached;
+    async getLoreEntry(projectId: string, args: { id: string }) {
+        const response = await this.qdrant.retrieve(this.getCollection(projectId), [args.id]);
+        if (response.length === 0) {
+            return {
+                found: false,
+                message: `Lore entry '${args.id}' not found`,
+            };
         }
 
-        const vector = await this.embedding.embed(text);
-        this.cache.set(key, vector, 2 * 60 * 60 * 1000);
-        return vector;
+        return {
+            found: true,
+            lore: this.mapPoint(response[0]),
+        };
     }
 
     private mapPoint(point: any): LoreEntryRecord {
@@ -0,0 +1,121 @@
+/**
+ * Activity feed entries built from revisions and comments. Status moves and
+ * reassignments get their own kinds so reviewers can skim what happened to an
+ * item without reading every field diff.
+ *
+ * The backlog editor server imports this module as well, so both show the same
+ * feed. Keep it free of imports from the rest of mcp/.
+ */
+
+export type ActivityKind = "comment" | "status_change" | "reassignment" | "edit" | "revert";
+
+export type ActivityChange = {
+    field: string;
+    from: unknown;
+    to: unknown;
+};
+
+export type ActivityEntry = {
+    id: string;
+    kind: ActivityKind;
+    record_type: string;
+    record_id: string;
+    author: string | null;
+    created_at: string;
+    summary: string;
+    /** Status and assignment changes with their values; other edits are listed by field in `fields`. */
+    changes: ActivityChange[];
+    fields: string[];
+    reply_to?: string | null;
+};
+
+export type RevisionLike = {
+    id: string;
+    record_type: string;
+    record_id: string;
+    action: string;
+    author: string | null;
+    created_at: string;
+    changes: ActivityChange[];
+};
+
+export type CommentLike = {
+    id: string;
+    record_type: string;
+    record_id: string;
+    parent_id: string | null;
+    author: string | null;
+    body: string;
+    created_at: string;
+};
+
+export const REASSIGNMENT_FIELDS = ["owner", "feature_id", "sprint"];
+
+const SUMMARY_LENGTH = 160;
+
+const describeValue = (value: unknown) =>
+    value === null || value === undefined || value === "" ? "none" : String(value);
+
+const describeChange = (change: ActivityChange) =>
+    `${change.field}: ${describeValue(change.from)} -> ${describeValue(change.to)}`;
+
+export function revisionActivity(revision: RevisionLike): ActivityEntry {
+    const valued = revision.changes.filter(
+        (change) => change.field === "status" || REASSIGNMENT_FIELDS.includes(change.field)
+    );
+    const fields = revision.changes.map((change) => change.field);
+    const status = valued.find((change) => change.field === "status");
+
+    let kind: ActivityKind = "edit";
+    if (revision.action === "revert") {
+        kind = "revert";
+    } else if (status) {
+        kind = "status_change";
+    } else if (valued.length > 0) {
+        kind = "reassignment";
+    }
+
+    const edited = fields.filter((field) => !valued.some((change) => change.field === field));
+    const summary = [
+        kind === "revert" ? "Reverted" : "",
+        ...valued.map(describeChange),
+        edited.length > 0 ? `edited ${edited.join(", ")}` : ""
+    ]
+        .filter(Boolean)
+        .join("; ");
+
+    return {
+        id: revision.id,
+        kind,
+        record_type: revision.record_type,
+        record_id: revision.record_id,
+        author: revision.author,
+        created_at: revision.created_at,
+        summary,
+        changes: valued,
+        fields
+    };
+}
+
+export function commentActivity(comment: CommentLike): ActivityEntry {
+    const body = comment.body.replace(/\s+/g, " ").trim();
+    return {
+        id: comment.id,
+        kind: "comment",
+        record_type: comment.record_type,
+        record_id: comment.record_id,
+        author: comment.author,
+        created_at: comment.created_at,
+        summary: body.length > SUMMARY_LENGTH ? `${body.slice(0, SUMMARY_LENGTH - 1)}…` : body,
+        changes: [],
+        fields: [],
+        reply_to: comment.parent_id
+    };
+}
+
+/** Newest first; ties are ordered by id so cursor pages stay stable. */
+export function sortActivity(entries: ActivityEntry[]): ActivityEntry[] {
+    return [...entries].sort(
+        (a, b) => b.created_at.localeCompare(a.created_at) || a.id.localeCompare(b.id)
+    );
+}
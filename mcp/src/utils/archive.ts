@@ -0,0 +1,27 @@
+const archivedCondition = {
+    key: "archived",
+    match: { value: true }
+};
+
+/**
+ * Adds the soft-archive exclusion to a Qdrant filter. Points that never had the
+ * `archived` flag set are kept, so existing data needs no migration.
+ */
+export function excludeArchived(filter?: any, includeArchived: boolean = false) {
+    if (includeArchived) {
+        return filter;
+    }
+
+    if (!filter) {
+        return { must_not: [archivedCondition] };
+    }
+
+    return {
+        ...filter,
+        must_not: [...(filter.must_not ?? []), archivedCondition]
+    };
+}
+
+export function isArchivedPayload(payload: Record<string, unknown> | null | undefined): boolean {
+    return payload?.archived === true;
+}
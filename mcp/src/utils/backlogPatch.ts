@@ -0,0 +1,102 @@
+/**
+ * A planning patch applied to many backlog items at once: status, sprint, owner,
+ * feature and tag additions/removals. Status values still go through the
+ * project's workflow (checkStatusChange) per item after the patch is applied.
+ *
+ * The backlog editor server imports this module as well, so bulk edits behave the
+ * same from both. Keep it free of imports from the rest of mcp/.
+ */
+
+export type BacklogPatch = {
+    status?: string;
+    /** null clears the field. */
+    sprint?: string | null;
+    owner?: string | null;
+    feature_id?: string | null;
+    add_tags?: string[];
+    remove_tags?: string[];
+};
+
+type PatchableRecord = {
+    status: string;
+    sprint: string | null;
+    owner: string | null;
+    feature_id: string | null;
+    tags: string[];
+};
+
+export const MAX_BULK_ITEMS = 200;
+
+const NULLABLE_FIELDS = ["sprint", "owner", "feature_id"] as const;
+
+const PATCH_FIELDS = ["status", ...NULLABLE_FIELDS, "add_tags", "remove_tags"];
+
+const normalizeTags = (value: unknown, field: string) => {
+    if (!Array.isArray(value) || value.some((tag) => typeof tag !== "string")) {
+        throw new Error(`patch.${field} must be an array of strings`);
+    }
+    return Array.from(new Set(value.map((tag: string) => tag.trim()).filter(Boolean)));
+};
+
+/** Validates a patch and returns it normalized (trimmed, empty strings as null). Throws on the first problem found. */
+export function parseBacklogPatch(input: unknown): BacklogPatch {
+    if (!input || typeof input !== "object" || Array.isArray(input)) {
+        throw new Error("patch must be an object");
+    }
+    const raw = input as Record<string, unknown>;
+    const unknown = Object.keys(raw).filter((key) => !PATCH_FIELDS.includes(key));
+    if (unknown.length > 0) {
+        throw new Error(`Unknown patch field(s): ${unknown.join(", ")}. Expected: ${PATCH_FIELDS.join(", ")}`);
+    }
+
+    const patch: BacklogPatch = {};
+    if (raw.status !== undefined) {
+        if (typeof raw.status !== "string" || !raw.status.trim()) {
+            throw new Error("patch.status must be a non-empty string");
+        }
+        patch.status = raw.status.trim();
+    }
+    for (const field of NULLABLE_FIELDS) {
+        const value = raw[field];
+        if (value === undefined) {
+            continue;
+        }
+        if (value !== null && typeof value !== "string") {
+            throw new Error(`patch.${field} must be a string or null`);
+        }
+        patch[field] = value === null || !value.trim() ? null : value.trim();
+    }
+    if (raw.add_tags !== undefined) {
+        patch.add_tags = normalizeTags(raw.add_tags, "add_tags");
+    }
+    if (raw.remove_tags !== undefined) {
+        patch.remove_tags = normalizeTags(raw.remove_tags, "remove_tags");
+    }
+
+    const both = (patch.add_tags ?? []).filter((tag) => patch.remove_tags?.includes(tag));
+    if (both.length > 0) {
+        throw new Error(`Tag(s) both added and removed: ${both.join(", ")}`);
+    }
+    if (Object.keys(patch).length === 0) {
+        throw new Error(`patch must set at least one of: ${PATCH_FIELDS.join(", ")}`);
+    }
+    return patch;
+}
+
+/** The record with the patch applied. Removed tags go first, then new tags are appended in order. */
+export function applyBacklogPatch<T extends PatchableRecord>(record: T, patch: BacklogPatch): T {
+    const next = { ...record };
+    if (patch.status !== undefined) {
+        next.status = patch.status;
+    }
+    for (const field of NULLABLE_FIELDS) {
+        if (patch[field] !== undefined) {
+            next[field] = patch[field]!;
+        }
+    }
+    if (patch.add_tags || patch.remove_tags) {
+        const kept = record.tags.filter((tag) => !patch.remove_tags?.includes(tag));
+        next.tags = [...kept, ...(patch.add_tags ?? []).filter((tag) => !kept.includes(tag))];
+    }
+    return next;
+}
@@ -0,0 +1,59 @@
+/**
+ * Checks a backlog item's dependency list against the rest of the backlog: every
+ * id must exist, and no dependency may lead back to the item itself.
+ *
+ * The backlog editor server imports this module as well, so the board cannot
+ * save a graph the MCP tools would reject. Keep it free of imports from the rest of mcp/.
+ */
+
+export type DependencyNode = {
+    id: string;
+    title: string;
+    dependencies: string[];
+};
+
+/** Returns the trimmed, de-duplicated ids. Throws on the first problem found. */
+export function validateDependencies(itemId: string, dependencies: string[], items: DependencyNode[]): string[] {
+    const ids = Array.from(new Set(dependencies.map((dependency) => dependency.trim()).filter(Boolean)));
+    if (ids.length === 0) {
+        return [];
+    }
+    if (ids.includes(itemId)) {
+        throw new Error("A backlog item cannot depend on itself");
+    }
+
+    const byId = new Map(items.map((item) => [item.id, item]));
+    const unknown = ids.filter((id) => !byId.has(id));
+    if (unknown.length > 0) {
+        throw new Error(`Unknown backlog item id(s) in dependencies: ${unknown.join(", ")}`);
+    }
+
+    // Depth-first search from each new dependency; reaching itemId means a cycle.
+    const visited = new Set<string>();
+    const pathTo = (id: string): string[] | null => {
+        if (id === itemId) {
+            return [id];
+        }
+        if (visited.has(id)) {
+            return null;
+        }
+        visited.add(id);
+        for (const next of byId.get(id)?.dependencies ?? []) {
+            const path = pathTo(next);
+            if (path) {
+                return [id, ...path];
+            }
+        }
+        return null;
+    };
+
+    for (const id of ids) {
+        const path = pathTo(id);
+        if (path) {
+            const titles = [itemId, ...path].map((entry) => `'${byId.get(entry)?.title ?? entry}'`);
+            throw new Error(`Dependencies would create a cycle: ${titles.join(" -> ")}`);
+        }
+    }
+
+    return ids;
+}
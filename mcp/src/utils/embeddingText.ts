@@ -0,0 +1,109 @@
+/**
+ * The text each collection embeds for a record. Tools call these when they
+ * store a record, and the re-embed command calls them with stored payloads, so
+ * the two always produce the same vector for the same record. The backlog editor
+ * server imports backlogText for the same reason; keep this module free of imports.
+ */
+
+type Payload = Record<string, any>;
+
+// Legacy payloads may lack list fields that current tools always write.
+const list = (value: unknown): string[] => (Array.isArray(value) ? value : []);
+
+export const researchText = (payload: Payload) => `${payload.topic}\n\n${String(payload.findings ?? "").substring(0, 1000)}`;
+
+export const patternText = (payload: Payload) => `${payload.name}\n${payload.description}\n${payload.usage}`;
+
+export const architectureText = (payload: Payload) =>
+    `${payload.decision}\n${payload.rationale}\n${list(payload.alternatives).join("\n")}\n${payload.scope}`;
+
+export const narrativeText = (payload: Payload) =>
+    `${payload.title}\n${payload.type}\n${payload.summary}\n${payload.details}\n${list(payload.tags).join(",")}`;
+
+export const loreText = (payload: Payload) =>
+    `${payload.title}\n${payload.category}\n${payload.content}\n${payload.region ?? ""}\n${list(payload.tags).join(",")}`;
+
+export const dialogueText = (payload: Payload) =>
+    `${payload.scene}\n${list(payload.characters).join(",")}\n${payload.context}\n${payload.script}`;
+
+export const testStrategyText = (payload: Payload) =>
+    `${payload.title}\n${payload.focus_area}\n${payload.scenario}\n${list(payload.coverage).join("\n")}`;
+
+export const feedbackText = (payload: Payload) =>
+    `${payload.experience}\nPositives: ${list(payload.positives).join(", ")}\nNegatives: ${list(payload.negatives).join(", ")}\nSuggestions: ${list(payload.suggestions).join(", ")}`;
+
+/** `error_messages` must already be trimmed and free of empty entries, as stored. */
+export const bugFixText = (payload: Payload) =>
+    [
+        payload.issue,
+        payload.summary,
+        payload.correct_pattern,
+        ...list(payload.incorrect_patterns),
+        ...list(payload.error_messages)
+    ].join("\n\n");
+
+export const handoffText = (payload: Payload) => String(payload.content ?? "").trim();
+
+// Planning fields such as status, priority or owner stay out, so editing them keeps the vector.
+export const backlogText = (payload: Payload) =>
+    [
+        payload.title,
+        payload.description,
+        list(payload.next_steps).join("\n"),
+        list(payload.completed_work).join("\n"),
+        list(payload.acceptance_criteria).join("\n"),
+        list(payload.dependencies).join("\n"),
+        payload.notes ?? "",
+        list(payload.tags).join(", "),
+        payload.category ?? ""
+    ].join("\n\n");
+
+export const featureText = (payload: Payload) => `${payload.name}\n\n${payload.description ?? ""}`.trim();
+
+export const sprintText = (payload: Payload) => `${payload.name}\n\n${payload.goal ?? ""}`.trim();
+
+export const revisionText = (payload: Payload) =>
+    [
+        `${payload.record_type} ${payload.record_id} ${payload.action}`,
+        `Changed: ${list(payload.changes).map((change: any) => change.field).join(", ")}`,
+        payload.author ? `By: ${payload.author}` : ""
+    ]
+        .filter(Boolean)
+        .join("\n");
+
+export const linkText = (payload: Payload) =>
+    [
+        `${payload.source_type} ${payload.source_id} ${payload.link_type} ${payload.target_type} ${payload.target_id}`,
+        payload.note ?? ""
+    ]
+        .filter(Boolean)
+        .join("\n");
+
+export const commentText = (payload: Payload) =>
+    [`${payload.record_type} ${payload.record_id} comment`, payload.body ?? "", payload.author ? `By: ${payload.author}` : ""]
+        .filter(Boolean)
+        .join("\n");
+
+/**
+ * Builders by base collection name. code_graph is missing on purpose: graph-builder
+ * embeds full entity source, while the payload keeps only a snippet, so its vectors
+ * can only be rebuilt by re-running graph-builder.
+ */
+export const EMBEDDING_TEXT_BUILDERS: Record<string, (payload: Payload) => string> = {
+    research_findings: researchText,
+    code_implementations: patternText,
+    architectural_patterns: architectureText,
+    narrative_design: narrativeText,
+    world_building: loreText,
+    dialogue_snippets: dialogueText,
+    test_strategies: testStrategyText,
+    gameplay_feedback: feedbackText,
+    bug_fix_patterns: bugFixText,
+    handoff_notes: handoffText,
+    backlog_items: backlogText,
+    features: featureText,
+    sprints: sprintText,
+    record_revisions: revisionText,
+    record_links: linkText,
+    record_comments: commentText
+};
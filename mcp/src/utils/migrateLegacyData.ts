@@ -20,15 +20,17 @@ type ProjectsFile = {
     locks?: {
         features?: string[];
     };
+    archived?: string[];
 };
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 const projectRoot = path.resolve(__dirname, "../..");
 
-const collectionsPath = path.join(projectRoot, "config", "collections.json");
-const projectsPath = path.join(projectRoot, "config", "projects.json");
-const migrationFlagPath = path.join(projectRoot, "config", ".memory-project-migrated");
+const configDir = process.env.CONFIG_DIR ? path.resolve(process.env.CONFIG_DIR) : path.join(projectRoot, "config");
+const collectionsPath = path.join(configDir, "collections.json");
+const projectsPath = path.join(configDir, "projects.json");
+const migrationFlagPath = path.join(configDir, ".memory-project-migrated");
 
 const TARGET_PROJECT = (process.env.LEGACY_MIGRATION_PROJECT ?? "memory").trim().toLowerCase();
 
@@ -74,6 +76,9 @@ async function saveProjectsFile(data: ProjectsFile) {
     if (normalizedLocks.length > 0) {
         payload.locks = { features: normalizedLocks };
     }
+    if (data.archived && data.archived.length > 0) {
+        payload.archived = data.archived;
+    }
     await writeFile(projectsPath, JSON.stringify(payload, null, 2), "utf8");
 }
 
@@ -94,7 +99,8 @@ async function ensureProjectsConfigured() {
     const updated: ProjectsFile = {
         defaultProject: normalizedTarget,
         projects: Array.from(projects.values()),
-        locks: featureLocks.size > 0 ? { features: Array.from(featureLocks.values()) } : undefined
+        locks: featureLocks.size > 0 ? { features: Array.from(featureLocks.values()) } : undefined,
+        archived: current.archived
     };
 
     await saveProjectsFile(updated);
@@ -0,0 +1,67 @@
+import { QdrantService } from "../services/qdrant.service.js";
+
+/**
+ * Position in a paged list tool result. Unsorted lists resume from Qdrant's
+ * `next_page_offset`; lists sorted in memory resume from an index into the
+ * sorted, fully scanned result.
+ */
+type PageCursor = { offset: string | number } | { position: number };
+
+export type Page<T> = {
+    items: T[];
+    next_cursor: string | null;
+};
+
+const INVALID_CURSOR = "Invalid cursor; pass the next_cursor value from the previous page";
+
+const encodeCursor = (cursor: PageCursor) => Buffer.from(JSON.stringify(cursor)).toString("base64url");
+
+function decodeCursor(cursor: string): PageCursor {
+    try {
+        const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+        if (typeof parsed?.offset === "string" || typeof parsed?.offset === "number") {
+            return { offset: parsed.offset };
+        }
+        if (Number.isInteger(parsed?.position) && parsed.position >= 0) {
+            return { position: parsed.position };
+        }
+    } catch {
+        // fall through
+    }
+    throw new Error(INVALID_CURSOR);
+}
+
+/** One page of a scroll, with a cursor for the next one. */
+export async function scrollPage(
+    qdrant: QdrantService,
+    collection: string,
+    filter: any,
+    limit: number,
+    cursor?: string
+): Promise<Page<any>> {
+    const position = cursor ? decodeCursor(cursor) : undefined;
+    if (position && !("offset" in position)) {
+        throw new Error(INVALID_CURSOR);
+    }
+
+    const response: any = await qdrant.scroll(collection, filter, limit, position?.offset);
+    const next = response.next_page_offset;
+    return {
+        items: response.points ?? [],
+        next_cursor: next === undefined || next === null ? null : encodeCursor({ offset: next })
+    };
+}
+
+/** One page of a list that was read in full and sorted, with a cursor for the next one. */
+export function pageOf<T>(items: T[], limit: number, cursor?: string): Page<T> {
+    const position = cursor ? decodeCursor(cursor) : { position: 0 };
+    if (!("position" in position)) {
+        throw new Error(INVALID_CURSOR);
+    }
+
+    const end = position.position + limit;
+    return {
+        items: items.slice(position.position, end),
+        next_cursor: end < items.length ? encodeCursor({ position: end }) : null
+    };
+}
@@ -0,0 +1,436 @@
+import { QdrantService } from "../services/qdrant.service.js";
+import { EmbeddingService } from "../services/embedding.service.js";
+import { ProjectService } from "../services/project.service.js";
+import { GraphSnapshot, Neo4jService } from "../services/neo4j.service.js";
+import { EMBEDDING_TEXT_BUILDERS } from "./embeddingText.js";
+import { snapshotAndResetProject } from "./projectReset.js";
+
+export const BUNDLE_FORMAT = "game-mcp-bundle";
+export const BUNDLE_VERSION = 1;
+
+type PointId = string | number;
+
+/**
+ * One line of a bundle. A bundle is a header, then points in collection order,
+ * then graph nodes and relationships, then an `end` line with the totals so a
+ * truncated upload is detected.
+ */
+export type BundleLine =
+    | {
+        kind: "header";
+        format: typeof BUNDLE_FORMAT;
+        version: number;
+        project: string;
+        exported_at: string;
+        include_vectors: boolean;
+        collections: string[];
+        graph: boolean;
+    }
+    | { kind: "point"; collection: string; id: PointId; payload: Record<string, unknown>; vector?: number[] }
+    | { kind: "node"; id: string; labels: string[]; properties: Record<string, unknown> }
+    | { kind: "relationship"; type: string; sourceId: string; targetId: string; properties: Record<string, unknown> }
+    | { kind: "end"; points: number; nodes: number; relationships: number };
+
+export type ImportMode = "merge" | "replace";
+
+interface BundleServices {
+    qdrant: QdrantService;
+    projects: ProjectService;
+    neo4j: Neo4jService;
+}
+
+interface ExportOptions extends BundleServices {
+    projectId: string;
+    /** Include stored vectors so an import with the same model skips embedding. */
+    includeVectors: boolean;
+    /** Base collection names to export. Default: every collection. */
+    collections?: string[];
+    includeGraph: boolean;
+}
+
+interface ImportOptions extends BundleServices {
+    embedding: EmbeddingService;
+    projectId: string;
+    /** `merge` upserts into the project; `replace` resets it first (with a safety snapshot). */
+    mode: ImportMode;
+    /** Embed every point again instead of using vectors from the bundle. */
+    reembed: boolean;
+    snapshotDir: string;
+    snapshot: boolean;
+}
+
+type CollectionSummary = {
+    collection: string;
+    imported: number;
+    merged: number;
+    skipped: number;
+};
+
+type PendingPoint = {
+    id: PointId;
+    payload: Record<string, unknown>;
+    vector?: number[];
+};
+
+type ImportTarget = {
+    name: string;
+    dimension: number;
+    summary: CollectionSummary;
+    pending: PendingPoint[];
+};
+
+const BATCH_SIZE = 64;
+
+// Payload field that identifies the same record across projects, used by merge imports.
+const NATURAL_KEYS: Record<string, string> = {
+    research_findings: "topic",
+    code_implementations: "name",
+    architectural_patterns: "decision",
+    narrative_design: "title",
+    world_building: "title",
+    dialogue_snippets: "scene",
+    test_strategies: "title",
+    bug_fix_patterns: "issue",
+    backlog_items: "title",
+    features: "name",
+    sprints: "name"
+};
+
+// Payload fields holding ids of other records; rewritten when merging maps a record onto an existing id.
+const REFERENCE_FIELDS: Record<string, string[]> = {
+    narrative_design: ["related_ids"],
+    world_building: ["related_ids"],
+    backlog_items: ["feature_id", "dependencies"],
+    record_revisions: ["record_id"],
+    record_links: ["source_id", "target_id"],
+    record_comments: ["record_id"]
+};
+
+function resolveCollections(projects: ProjectService, requested?: string[]) {
+    const known = projects.getCollectionConfigs().map((definition) => definition.name);
+    if (!requested?.length) {
+        return known;
+    }
+    const unknown = requested.filter((name) => !known.includes(name));
+    if (unknown.length > 0) {
+        throw new Error(`Unknown collection(s): ${unknown.join(", ")}. Expected any of: ${known.join(", ")}`);
+    }
+    return known.filter((name) => requested.includes(name));
+}
+
+/** Streams a project's payloads, optionally with vectors, and its graph as bundle lines. */
+export async function* exportProjectBundle(options: ExportOptions): AsyncGenerator<BundleLine> {
+    const { qdrant, projects, neo4j, includeVectors, includeGraph } = options;
+    const projectId = projects.requireProject(options.projectId);
+    const collections = resolveCollections(projects, options.collections);
+
+    yield {
+        kind: "header",
+        format: BUNDLE_FORMAT,
+        version: BUNDLE_VERSION,
+        project: projectId,
+        exported_at: new Date().toISOString(),
+        include_vectors: includeVectors,
+        collections,
+        graph: includeGraph
+    };
+
+    let points = 0;
+    for (const collection of collections) {
+        let offset: unknown = undefined;
+
+        // eslint-disable-next-line no-constant-condition
+        while (true) {
+            const response: any = await qdrant.scroll(
+                projects.collectionName(projectId, collection),
+                undefined,
+                256,
+                offset,
+                includeVectors
+            );
+            for (const point of response.points ?? []) {
+                points++;
+                yield {
+                    kind: "point",
+                    collection,
+                    id: point.id,
+                    payload: point.payload ?? {},
+                    ...(includeVectors && Array.isArray(point.vector) ? { vector: point.vector } : {})
+                };
+            }
+
+            if (!response.next_page_offset) {
+                break;
+            }
+            offset = response.next_page_offset;
+        }
+    }
+
+    let nodes = 0;
+    let relationships = 0;
+    if (includeGraph) {
+        const graph = await neo4j.snapshotProject(projectId);
+        for (const node of graph.nodes) {
+            // The importing project stamps its own id on every node.
+            const { project: _project, ...properties } = node.properties;
+            nodes++;
+            yield { kind: "node", id: node.id, labels: node.labels, properties };
+        }
+        for (const relationship of graph.relationships) {
+            const { project: _project, ...properties } = relationship.properties;
+            relationships++;
+            yield {
+                kind: "relationship",
+                type: relationship.type,
+                sourceId: relationship.sourceId,
+                targetId: relationship.targetId,
+                properties
+            };
+        }
+    }
+
+    yield { kind: "end", points, nodes, relationships };
+}
+
+function parseLine(raw: string, lineNumber: number): BundleLine {
+    let parsed: any;
+    try {
+        parsed = JSON.parse(raw);
+    } catch {
+        throw new Error(`Bundle line ${lineNumber} is not valid JSON`);
+    }
+    if (!parsed || typeof parsed !== "object" || typeof parsed.kind !== "string") {
+        throw new Error(`Bundle line ${lineNumber} has no 'kind'`);
+    }
+    return parsed as BundleLine;
+}
+
+function checkHeader(line: BundleLine) {
+    if (line.kind !== "header" || line.format !== BUNDLE_FORMAT) {
+        throw new Error(`Not a ${BUNDLE_FORMAT} bundle: the first line must be its header`);
+    }
+    if (typeof line.version !== "number" || line.version > BUNDLE_VERSION) {
+        throw new Error(`Bundle version ${line.version} is newer than this server supports (${BUNDLE_VERSION})`);
+    }
+    return line;
+}
+
+const remapValue = (value: unknown, idMap: Map<string, PointId>) => {
+    if (Array.isArray(value)) {
+        return value.map((entry) => (typeof entry === "string" && idMap.has(entry) ? idMap.get(entry) : entry));
+    }
+    return typeof value === "string" && idMap.has(value) ? idMap.get(value) : value;
+};
+
+/**
+ * Imports bundle lines into a project, creating it when missing. Points keep
+ * their ids unless a merge finds a record with the same natural key, in which
+ * case that record is overwritten and references to the bundle id follow it.
+ */
+export async function importProjectBundle(options: ImportOptions, lines: AsyncIterable<string>) {
+    const { qdrant, projects, neo4j, embedding, mode, reembed } = options;
+    const projectId = projects.normalizeProjectId(options.projectId);
+
+    let createdProject = false;
+    let safetySnapshotPath: string | null = null;
+    if (!projects.hasProject(projectId)) {
+        await projects.createProject(projectId);
+        createdProject = true;
+    } else if (projects.isProjectArchived(projectId)) {
+        throw new Error(`Project '${projectId}' is archived; unarchive it before importing`);
+    }
+
+    const definitions = new Map(projects.getCollectionConfigs().map((definition) => [definition.name, definition]));
+    const targets = new Map<string, ImportTarget>();
+    const idMap = new Map<string, PointId>();
+    const references: Array<{ collection: string; id: PointId; payload: Record<string, unknown> }> = [];
+    const graph: GraphSnapshot = { nodes: [], relationships: [] };
+    const ignoredCollections = new Set<string>();
+    const warnings: string[] = [];
+    let header: Extract<BundleLine, { kind: "header" }> | undefined;
+    let end: Extract<BundleLine, { kind: "end" }> | undefined;
+    let points = 0;
+    let lineNumber = 0;
+
+    const targetFor = (collection: string) => {
+        let target = targets.get(collection);
+        if (!target) {
+            const definition = definitions.get(collection)!;
+            target = {
+                name: projects.collectionName(projectId, collection),
+                dimension: definition.dimension,
+                summary: { collection, imported: 0, merged: 0, skipped: 0 },
+                pending: []
+            };
+            targets.set(collection, target);
+        }
+        return target;
+    };
+
+    const flush = async (target: ImportTarget) => {
+        const batch = target.pending.splice(0);
+        if (batch.length === 0) {
+            return;
+        }
+        const builder = EMBEDDING_TEXT_BUILDERS[target.summary.collection];
+        const needsEmbedding = batch.filter((point) => !point.vector);
+        if (needsEmbedding.length > 0) {
+            const vectors = await embedding.embedBatch(needsEmbedding.map((point) => builder(point.payload)));
+            needsEmbedding.forEach((point, index) => {
+                point.vector = vectors[index];
+            });
+        }
+        await qdrant.upsert(
+            target.name,
+            batch.map((point) => ({ id: point.id, vector: point.vector, payload: point.payload }))
+        );
+    };
+
+    const importPoint = async (line: Extract<BundleLine, { kind: "point" }>) => {
+        if (!definitions.has(line.collection)) {
+            ignoredCollections.add(line.collection);
+            return;
+        }
+        const target = targetFor(line.collection);
+        const payload = line.payload ?? {};
+
+        const usableVector =
+            !reembed && Array.isArray(line.vector) && line.vector.length === target.dimension ? line.vector : undefined;
+        if (!usableVector && !(line.collection in EMBEDDING_TEXT_BUILDERS)) {
+            // code_graph embeds full source text that is not in the payload.
+            target.summary.skipped++;
+            return;
+        }
+
+        let id = line.id;
+        const naturalKey = NATURAL_KEYS[line.collection];
+        const keyValue = naturalKey ? payload[naturalKey] : undefined;
+        if (mode === "merge" && typeof keyValue === "string" && keyValue.length > 0) {
+            const existing: any = await qdrant.scroll(
+                target.name,
+                { must: [{ key: naturalKey, match: { value: keyValue } }] },
+                1
+            );
+            const match = existing.points?.[0];
+            if (match) {
+                target.summary.merged++;
+                if (String(match.id) !== String(line.id)) {
+                    idMap.set(String(line.id), match.id);
+                    id = match.id;
+                }
+            }
+        }
+
+        if (line.collection in REFERENCE_FIELDS) {
+            references.push({ collection: line.collection, id, payload });
+        }
+        target.pending.push({ id, payload, vector: usableVector });
+        target.summary.imported++;
+        if (target.pending.length >= BATCH_SIZE) {
+            await flush(target);
+        }
+    };
+
+    for await (const raw of lines) {
+        lineNumber++;
+        if (raw.trim().length === 0) {
+            continue;
+        }
+        const line = parseLine(raw, lineNumber);
+
+        if (!header) {
+            header = checkHeader(line);
+            if (mode === "replace" && !createdProject) {
+                const reset = await snapshotAndResetProject({
+                    projectId,
+                    snapshotDir: options.snapshotDir,
+                    qdrant,
+                    projects,
+                    neo4j,
+                    snapshot: options.snapshot
+                });
+                safetySnapshotPath = reset.snapshotPath;
+            }
+            continue;
+        }
+        if (end) {
+            throw new Error(`Bundle line ${lineNumber} follows the end line`);
+        }
+
+        switch (line.kind) {
+            case "point":
+                points++;
+                await importPoint(line);
+                break;
+            case "node":
+                graph.nodes.push({ id: line.id, labels: line.labels ?? [], properties: line.properties ?? {} });
+                break;
+            case "relationship":
+                graph.relationships.push({
+                    type: line.type,
+                    sourceId: line.sourceId,
+                    targetId: line.targetId,
+                    properties: line.properties ?? {}
+                });
+                break;
+            case "end":
+                end = line;
+                break;
+            default:
+                throw new Error(`Bundle line ${lineNumber} has unknown kind '${(line as { kind: string }).kind}'`);
+        }
+    }
+
+    if (!header) {
+        throw new Error("The bundle is empty");
+    }
+    if (!end) {
+        warnings.push("The bundle has no end line; it may have been truncated");
+    } else if (end.points !== points || end.nodes !== graph.nodes.length || end.relationships !== graph.relationships.length) {
+        warnings.push(
+            `The bundle declares ${end.points} points, ${end.nodes} nodes and ${end.relationships} relationships but contains ${points}, ${graph.nodes.length} and ${graph.relationships.length}`
+        );
+    }
+
+    for (const target of targets.values()) {
+        await flush(target);
+    }
+
+    // Point at the records that merged imports were mapped onto.
+    for (const { collection, id, payload } of references) {
+        const updates: Record<string, unknown> = {};
+        for (const field of REFERENCE_FIELDS[collection]) {
+            const remapped = remapValue(payload[field], idMap);
+            if (JSON.stringify(remapped) !== JSON.stringify(payload[field])) {
+                updates[field] = remapped;
+            }
+        }
+        if (Object.keys(updates).length > 0) {
+            await qdrant.setPayload(projects.collectionName(projectId, collection), String(id), updates);
+        }
+    }
+
+    const graphResult =
+        graph.nodes.length > 0 ? await neo4j.restoreProject(projectId, graph) : { nodes: 0, relationships: 0 };
+
+    if (ignoredCollections.size > 0) {
+        warnings.push(`Skipped points for collections this server does not define: ${Array.from(ignoredCollections).sort().join(", ")}`);
+    }
+    const withoutVectors = Array.from(targets.values()).filter((target) => target.summary.skipped > 0);
+    if (withoutVectors.length > 0) {
+        warnings.push(
+            `Skipped points that cannot be re-embedded from their payload (${withoutVectors.map((target) => target.summary.collection).join(", ")}); export with vectors and the same model, or rebuild them with graph-builder`
+        );
+    }
+
+    return {
+        project: projectId,
+        source: header.project,
+        mode,
+        createdProject,
+        safetySnapshotPath,
+        collections: Array.from(targets.values()).map((target) => target.summary),
+        graph: graphResult,
+        warnings
+    };
+}
@@ -0,0 +1,133 @@
+import { QdrantService } from "../services/qdrant.service.js";
+import { ProjectService } from "../services/project.service.js";
+import { Neo4jService } from "../services/neo4j.service.js";
+import { snapshotAndResetProject } from "./projectReset.js";
+
+interface LifecycleServices {
+    qdrant: QdrantService;
+    projects: ProjectService;
+    neo4j: Neo4jService;
+}
+
+interface DeleteOptions extends LifecycleServices {
+    projectId: string;
+    snapshotDir: string;
+    snapshot: boolean;
+}
+
+async function copyCollection(qdrant: QdrantService, source: string, target: string) {
+    let offset: unknown = undefined;
+    let copied = 0;
+    const limit = 256;
+
+    // eslint-disable-next-line no-constant-condition
+    while (true) {
+        const response: any = await qdrant.scroll(source, undefined, limit, offset, true);
+        const batch = (response.points ?? [])
+            .filter((point: any) => point.vector !== null && point.vector !== undefined)
+            .map((point: any) => ({
+                id: point.id,
+                vector: point.vector,
+                payload: point.payload ?? {}
+            }));
+
+        if (batch.length > 0) {
+            await qdrant.upsert(target, batch);
+            copied += batch.length;
+        }
+
+        if (!response.next_page_offset) {
+            break;
+        }
+        offset = response.next_page_offset;
+    }
+
+    return copied;
+}
+
+export async function cloneProject(
+    services: LifecycleServices,
+    rawSourceId: string,
+    rawTargetId: string
+) {
+    const { qdrant, projects, neo4j } = services;
+    const sourceId = projects.requireProject(rawSourceId);
+    const { projectId: targetId } = await projects.createProject(rawTargetId);
+    // Copied items keep their statuses, so they keep the workflow that defines them.
+    if (projects.hasCustomBacklogWorkflow(sourceId)) {
+        await projects.setBacklogWorkflow(targetId, projects.getBacklogWorkflow(sourceId));
+    }
+
+    const collections: Array<{ collection: string; copied: number }> = [];
+    for (const definition of projects.getCollectionConfigs()) {
+        const copied = await copyCollection(
+            qdrant,
+            projects.collectionName(sourceId, definition.name),
+            projects.collectionName(targetId, definition.name)
+        );
+        collections.push({ collection: definition.name, copied });
+    }
+
+    const graphSnapshot = await neo4j.snapshotProject(sourceId);
+    const graph = await neo4j.restoreProject(targetId, graphSnapshot);
+
+    return {
+        source: sourceId,
+        target: targetId,
+        collections,
+        graph
+    };
+}
+
+export async function renameProject(
+    services: LifecycleServices,
+    rawSourceId: string,
+    rawTargetId: string
+) {
+    const { projects, neo4j } = services;
+    const sourceId = projects.requireProject(rawSourceId);
+    if (sourceId === projects.getDefaultProject()) {
+        throw new Error("The default project cannot be renamed");
+    }
+
+    const wasArchived = projects.isProjectArchived(sourceId);
+    const wasLocked = projects.isFeatureCreationLocked(sourceId);
+
+    const result = await cloneProject(services, sourceId, rawTargetId);
+
+    if (wasLocked) {
+        await projects.setFeatureCreationLock(result.target, true);
+    }
+    if (wasArchived) {
+        await projects.setProjectArchived(result.target, true);
+    }
+
+    await neo4j.clearProject(sourceId);
+    await projects.deleteProject(sourceId);
+
+    return result;
+}
+
+export async function deleteProject(options: DeleteOptions) {
+    const { projects } = options;
+    const projectId = projects.requireProject(options.projectId);
+    if (projectId === projects.getDefaultProject()) {
+        throw new Error("The default project cannot be deleted");
+    }
+
+    // Reuse the reset path so a deleted project can still be brought back with POST /restore.
+    const reset = await snapshotAndResetProject({
+        projectId,
+        snapshotDir: options.snapshotDir,
+        qdrant: options.qdrant,
+        projects,
+        neo4j: options.neo4j,
+        snapshot: options.snapshot
+    });
+    await projects.deleteProject(projectId);
+
+    return {
+        project: projectId,
+        snapshotPath: reset.snapshotPath
+    };
+}
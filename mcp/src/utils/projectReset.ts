@@ -37,16 +37,7 @@ async function resetQdrantCollections(options: SnapshotOptions, timestamp: strin
 
             // eslint-disable-next-line no-constant-condition
             while (true) {
-                const scrollRequest: Record<string, unknown> = {
-                    with_payload: true,
-                    with_vector: true,
-                    limit
-                };
-                if (typeof offset === "string" || typeof offset === "number") {
-                    scrollRequest.offset = offset;
-                }
-
-                const response: any = await qdrant.scroll(collectionName, scrollRequest);
+                const response: any = await qdrant.scroll(collectionName, undefined, limit, offset, true);
                 const batch = response.points ?? [];
                 if (batch.length > 0) {
                     points.push(
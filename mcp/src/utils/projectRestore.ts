@@ -0,0 +1,209 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+import { QdrantService } from "../services/qdrant.service.js";
+import { ProjectService } from "../services/project.service.js";
+import { GraphSnapshot, Neo4jService } from "../services/neo4j.service.js";
+import { snapshotAndResetProject } from "./projectReset.js";
+
+interface ListSnapshotsOptions {
+    projectId: string;
+    snapshotDir: string;
+}
+
+interface RestoreOptions {
+    sourceProjectId: string;
+    targetProjectId: string;
+    timestamp?: string;
+    snapshotDir: string;
+    qdrant: QdrantService;
+    projects: ProjectService;
+    neo4j: Neo4jService;
+    snapshot: boolean;
+}
+
+interface SnapshotSummary {
+    project: string;
+    timestamp: string;
+    path: string;
+    collections: string[];
+    hasGraph: boolean;
+}
+
+type SnapshotPoint = {
+    id: string | number;
+    payload: Record<string, unknown>;
+    vector: unknown;
+};
+
+async function pathExists(target: string): Promise<boolean> {
+    try {
+        await fs.access(target);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+async function readJson<T>(file: string): Promise<T> {
+    const raw = await fs.readFile(file, "utf8");
+    return JSON.parse(raw) as T;
+}
+
+export async function listProjectSnapshots(options: ListSnapshotsOptions): Promise<SnapshotSummary[]> {
+    const projectDir = path.join(options.snapshotDir, options.projectId);
+    let entries: string[];
+    try {
+        entries = await fs.readdir(projectDir);
+    } catch (error: any) {
+        if (error?.code === "ENOENT") {
+            return [];
+        }
+        throw error;
+    }
+
+    const snapshots: SnapshotSummary[] = [];
+    for (const timestamp of entries) {
+        const snapshotPath = path.join(projectDir, timestamp);
+        const stat = await fs.stat(snapshotPath);
+        if (!stat.isDirectory()) {
+            continue;
+        }
+
+        const qdrantDir = path.join(snapshotPath, "qdrant");
+        const collections = (await pathExists(qdrantDir))
+            ? (await fs.readdir(qdrantDir))
+                .filter((file) => file.endsWith(".json"))
+                .map((file) => file.replace(/\.json$/, ""))
+                .sort()
+            : [];
+
+        snapshots.push({
+            project: options.projectId,
+            timestamp,
+            path: snapshotPath,
+            collections,
+            hasGraph: await pathExists(path.join(snapshotPath, "neo4j.json"))
+        });
+    }
+
+    // Timestamps are ISO strings with ':' and '.' replaced, so lexical order is chronological.
+    return snapshots.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+}
+
+async function resolveSnapshot(options: RestoreOptions): Promise<SnapshotSummary> {
+    const snapshots = await listProjectSnapshots({
+        projectId: options.sourceProjectId,
+        snapshotDir: options.snapshotDir
+    });
+
+    if (snapshots.length === 0) {
+        throw new Error(`No snapshots found for project '${options.sourceProjectId}'`);
+    }
+
+    if (!options.timestamp) {
+        return snapshots[0];
+    }
+
+    const match = snapshots.find((snapshot) => snapshot.timestamp === options.timestamp);
+    if (!match) {
+        throw new Error(
+            `Snapshot '${options.timestamp}' not found for project '${options.sourceProjectId}'`
+        );
+    }
+    return match;
+}
+
+async function restoreQdrantCollections(options: RestoreOptions, snapshot: SnapshotSummary) {
+    const { targetProjectId, qdrant, projects } = options;
+    const definitions = projects.getCollectionConfigs();
+    const results: Array<{ collection: string; restored: number; skipped: number }> = [];
+    const batchSize = 256;
+
+    for (const definition of definitions) {
+        const file = path.join(snapshot.path, "qdrant", `${definition.name}.json`);
+        if (!(await pathExists(file))) {
+            continue;
+        }
+
+        const collectionName = projects.collectionName(targetProjectId, definition.name);
+        await qdrant.ensureCollection(collectionName, {
+            size: definition.dimension,
+            distance: definition.distance,
+            onDiskPayload: definition.onDiskPayload,
+            optimizersConfig: definition.optimizersConfig
+        });
+
+        const data = await readJson<{ points?: SnapshotPoint[] }>(file);
+        const points = (data.points ?? []).filter((point) => point.vector !== null && point.vector !== undefined);
+        const skipped = (data.points ?? []).length - points.length;
+
+        for (let index = 0; index < points.length; index += batchSize) {
+            const batch = points.slice(index, index + batchSize).map((point) => ({
+                id: point.id,
+                vector: point.vector,
+                payload: point.payload ?? {}
+            }));
+            await qdrant.upsert(collectionName, batch);
+        }
+
+        if (skipped > 0) {
+            console.warn("[restore] Skipped points without stored vectors", {
+                collection: collectionName,
+                skipped
+            });
+        }
+
+        results.push({ collection: definition.name, restored: points.length, skipped });
+    }
+
+    return results;
+}
+
+async function restoreNeo4j(options: RestoreOptions, snapshot: SnapshotSummary) {
+    if (!snapshot.hasGraph) {
+        return { nodes: 0, relationships: 0 };
+    }
+
+    const data = await readJson<Partial<GraphSnapshot>>(path.join(snapshot.path, "neo4j.json"));
+    return await options.neo4j.restoreProject(options.targetProjectId, {
+        nodes: data.nodes ?? [],
+        relationships: data.relationships ?? []
+    });
+}
+
+export async function restoreProjectSnapshot(options: RestoreOptions) {
+    const snapshot = await resolveSnapshot(options);
+    const { targetProjectId, projects } = options;
+
+    let created = false;
+    let safetySnapshot: string | null = null;
+    if (projects.hasProject(targetProjectId)) {
+        // Clear the target so the restored state is exact, keeping its current data recoverable.
+        const reset = await snapshotAndResetProject({
+            projectId: targetProjectId,
+            snapshotDir: options.snapshotDir,
+            qdrant: options.qdrant,
+            projects,
+            neo4j: options.neo4j,
+            snapshot: options.snapshot
+        });
+        safetySnapshot = reset.snapshotPath;
+    } else {
+        await projects.createProject(targetProjectId);
+        created = true;
+    }
+
+    const collections = await restoreQdrantCollections(options, snapshot);
+    const graph = await restoreNeo4j(options, snapshot);
+
+    return {
+        source: options.sourceProjectId,
+        target: targetProjectId,
+        timestamp: snapshot.timestamp,
+        createdProject: created,
+        safetySnapshotPath: safetySnapshot,
+        collections,
+        graph
+    };
+}
@@ -0,0 +1,34 @@
+/**
+ * Field-level diff between two states of a record, as stored in revisions.
+ *
+ * The backlog editor server imports this module as well, so edits from either
+ * side produce the same history. Keep it free of imports from the rest of mcp/.
+ */
+
+export type FieldChange = {
+    field: string;
+    from: unknown;
+    to: unknown;
+};
+
+// Bookkeeping fields that change on every write and would drown out the real diff.
+const IGNORED_FIELDS = new Set(["id", "score", "updated_at"]);
+
+export function diffRecords(
+    before: Record<string, unknown>,
+    after: Record<string, unknown>
+): FieldChange[] {
+    const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+    const changes: FieldChange[] = [];
+    for (const field of Array.from(fields).sort()) {
+        if (IGNORED_FIELDS.has(field)) {
+            continue;
+        }
+        const from = before[field] ?? null;
+        const to = after[field] ?? null;
+        if (JSON.stringify(from) !== JSON.stringify(to)) {
+            changes.push({ field, from, to });
+        }
+    }
+    return changes;
+}
@@ -0,0 +1,278 @@
+import { QdrantService } from "../services/qdrant.service.js";
+import { EmbeddingService } from "../services/embedding.service.js";
+import { ProjectService } from "../services/project.service.js";
+import { EMBEDDING_TEXT_BUILDERS } from "./embeddingText.js";
+
+interface ReembedTargetOptions {
+    qdrant: QdrantService;
+    projects: ProjectService;
+    /** Projects to process. Default: every project. */
+    projectIds?: string[];
+    /** Base collection names to process. Default: every collection that can be re-embedded. */
+    collections?: string[];
+}
+
+interface MigrateOptions extends ReembedTargetOptions {
+    embedding: EmbeddingService;
+    /** Suffix of the new collections, e.g. `v2` creates `<project>__<collection>__v2`. */
+    version: string;
+    /** Name kept for the original data when a plain collection is migrated for the first time. */
+    previousVersion?: string;
+    /** Points read, embedded and written per round trip. */
+    pageSize?: number;
+}
+
+interface RollbackOptions extends ReembedTargetOptions {
+    version: string;
+}
+
+type ReembedTarget = {
+    projectId: string;
+    baseName: string;
+    name: string;
+    definition: ReturnType<ProjectService["getCollectionConfigs"]>[number];
+};
+
+type CollectionOutcome = {
+    project: string;
+    collection: string;
+    status: "migrated" | "switched" | "skipped";
+    target?: string;
+    points?: number;
+    reason?: string;
+};
+
+const VERSION_PATTERN = /^[a-z0-9][a-z0-9-_]*$/;
+
+export const versionedCollectionName = (name: string, version: string) => `${name}__${version}`;
+
+function requireVersion(version: string) {
+    if (!VERSION_PATTERN.test(version)) {
+        throw new Error(`Invalid version '${version}'. Use lower-case letters, digits, '-' or '_' (e.g. v2)`);
+    }
+    return version;
+}
+
+function resolveTargets(options: ReembedTargetOptions): ReembedTarget[] {
+    const { projects } = options;
+    const projectIds = options.projectIds?.length
+        ? options.projectIds.map((projectId) => projects.requireProject(projectId))
+        : projects.listProjects();
+
+    const known = projects.getCollectionConfigs().map((definition) => definition.name);
+    const requested = options.collections?.length ? options.collections : known.filter((name) => name in EMBEDDING_TEXT_BUILDERS);
+    const unknown = requested.filter((name) => !known.includes(name));
+    if (unknown.length > 0) {
+        throw new Error(`Unknown collection(s): ${unknown.join(", ")}. Expected any of: ${known.join(", ")}`);
+    }
+    const unsupported = requested.filter((name) => !(name in EMBEDDING_TEXT_BUILDERS));
+    if (unsupported.length > 0) {
+        throw new Error(
+            `Cannot re-embed ${unsupported.join(", ")} from stored payloads. Rebuild code_graph by re-running graph-builder against the new model.`
+        );
+    }
+
+    return projectIds.flatMap((projectId) =>
+        projects
+            .getProjectCollections(projectId)
+            .filter(({ baseName }) => requested.includes(baseName))
+            .map(({ baseName, name, definition }) => ({ projectId, baseName, name, definition }))
+    );
+}
+
+async function copyPoints(
+    qdrant: QdrantService,
+    source: string,
+    target: string,
+    pageSize: number,
+    transform?: (points: any[]) => Promise<any[]>
+) {
+    let offset: unknown = undefined;
+    let copied = 0;
+
+    // eslint-disable-next-line no-constant-condition
+    while (true) {
+        const response: any = await qdrant.scroll(source, undefined, pageSize, offset, !transform);
+        const points = (response.points ?? []).map((point: any) => ({
+            id: point.id,
+            vector: point.vector,
+            payload: point.payload ?? {}
+        }));
+
+        if (points.length > 0) {
+            await qdrant.upsert(target, transform ? await transform(points) : points);
+            copied += points.length;
+        }
+
+        if (!response.next_page_offset) {
+            break;
+        }
+        offset = response.next_page_offset;
+    }
+
+    return copied;
+}
+
+async function recreateCollection(qdrant: QdrantService, name: string, target: ReembedTarget, size: number) {
+    // Left over from an interrupted run.
+    await qdrant.deleteCollection(name);
+    await qdrant.ensureCollection(name, {
+        size,
+        distance: target.definition.distance,
+        onDiskPayload: target.definition.onDiskPayload,
+        optimizersConfig: target.definition.optimizersConfig
+    });
+}
+
+/**
+ * Re-embeds every point of the selected collections into `<collection>__<version>`,
+ * built from the stored payload with the same text the tools embed, then points the
+ * `<project>__<collection>` alias at the new collection. Previous collections are
+ * kept so `rollbackCollections` can switch back.
+ *
+ * Points written while a collection is being re-embedded would be missed, so the
+ * migration refuses to switch when the point count changed; archive the project first.
+ */
+export async function migrateCollections(options: MigrateOptions) {
+    const { qdrant, embedding } = options;
+    const version = requireVersion(options.version);
+    const previousVersion = requireVersion(options.previousVersion ?? "v1");
+    const pageSize = options.pageSize ?? 64;
+    const targets = resolveTargets(options);
+
+    const dimension = (await embedding.embed("dimension probe")).length;
+    console.info(`[reembed] Embedding provider returns ${dimension}-dimensional vectors`);
+
+    const outcomes: CollectionOutcome[] = [];
+    for (const target of targets) {
+        const { projectId, baseName, name } = target;
+        const current = await qdrant.resolveAlias(name);
+        const source = await qdrant.describeCollection(name);
+        const versioned = versionedCollectionName(name, version);
+
+        if (!source) {
+            outcomes.push({ project: projectId, collection: baseName, status: "skipped", reason: "collection does not exist" });
+            continue;
+        }
+        if (current === versioned) {
+            outcomes.push({ project: projectId, collection: baseName, status: "skipped", reason: `already on ${version}` });
+            continue;
+        }
+
+        // The first migration turns the plain collection into an alias, so its data needs a versioned home.
+        const preserved = current ? undefined : versionedCollectionName(name, previousVersion);
+        if (preserved === versioned) {
+            throw new Error(`'${name}' has not been migrated yet, so its current data becomes ${previousVersion}; choose another version`);
+        }
+        if (preserved) {
+            console.info(`[reembed] Preserving '${name}' as '${preserved}'`);
+            await recreateCollection(qdrant, preserved, target, source.vectorSize ?? target.definition.dimension);
+            await copyPoints(qdrant, name, preserved, 256);
+        }
+
+        console.info(`[reembed] Re-embedding '${name}' (${source.points} points) into '${versioned}'`);
+        const buildText = EMBEDDING_TEXT_BUILDERS[baseName];
+        await recreateCollection(qdrant, versioned, target, dimension);
+        const copied = await copyPoints(qdrant, name, versioned, pageSize, async (points) => {
+            const vectors = await embedding.embedBatch(points.map((point) => buildText(point.payload)));
+            const wrong = vectors.find((vector) => vector.length !== dimension);
+            if (wrong) {
+                throw new Error(`Embedding provider returned a ${wrong.length}-dimensional vector for '${name}', expected ${dimension}`);
+            }
+            return points.map((point, index) => ({ ...point, vector: vectors[index] }));
+        });
+
+        const after = await qdrant.describeCollection(name);
+        if (after?.points !== copied) {
+            throw new Error(
+                `'${name}' changed while it was re-embedded (${copied} points copied, ${after?.points ?? 0} now). Archive project '${projectId}' and run the migration again.`
+            );
+        }
+
+        if (preserved) {
+            // The only non-atomic step: an alias cannot share its name with a collection.
+            await qdrant.deleteCollection(name);
+        }
+        await qdrant.switchAlias(name, versioned);
+        console.info(`[reembed] '${name}' now reads from '${versioned}'`);
+
+        outcomes.push({ project: projectId, collection: baseName, status: "migrated", target: versioned, points: copied });
+    }
+
+    const mismatched = Array.from(
+        new Set(targets.filter(({ definition }) => definition.dimension !== dimension).map(({ baseName }) => baseName))
+    );
+
+    return {
+        version,
+        dimension,
+        collections: outcomes,
+        ...(mismatched.length > 0
+            ? {
+                  config_warning: `config/collections.json still declares a different dimension for ${mismatched.join(", ")}. Set it to ${dimension} once every project is migrated, so new projects, resets and restores create matching collections.`
+              }
+            : {})
+    };
+}
+
+/** Points each selected alias back at `<collection>__<version>`. */
+export async function rollbackCollections(options: RollbackOptions) {
+    const { qdrant } = options;
+    const version = requireVersion(options.version);
+
+    const outcomes: CollectionOutcome[] = [];
+    for (const { projectId, baseName, name } of resolveTargets(options)) {
+        const current = await qdrant.resolveAlias(name);
+        const versioned = versionedCollectionName(name, version);
+
+        if (!current) {
+            outcomes.push({ project: projectId, collection: baseName, status: "skipped", reason: "never migrated" });
+            continue;
+        }
+        if (current === versioned) {
+            outcomes.push({ project: projectId, collection: baseName, status: "skipped", reason: `already on ${version}` });
+            continue;
+        }
+        const previous = await qdrant.describeCollection(versioned);
+        if (!previous) {
+            outcomes.push({ project: projectId, collection: baseName, status: "skipped", reason: `'${versioned}' does not exist` });
+            continue;
+        }
+
+        await qdrant.switchAlias(name, versioned);
+        console.info(`[reembed] '${name}' now reads from '${versioned}'`);
+        outcomes.push({ project: projectId, collection: baseName, status: "switched", target: versioned, points: previous.points });
+    }
+
+    return {
+        version,
+        collections: outcomes,
+        note: "Switch EMBEDDING_PROVIDER / EMBEDDING_MODEL back to the model these collections were embedded with."
+    };
+}
+
+/** Where each selected collection currently reads from, and which versions exist. */
+export async function describeCollectionVersions(options: ReembedTargetOptions) {
+    const { qdrant } = options;
+    const { collections: existing } = await qdrant.listCollections();
+    const names = existing.map((collection) => collection.name);
+
+    const collections = [];
+    for (const { projectId, baseName, name } of resolveTargets(options)) {
+        const current = await qdrant.resolveAlias(name);
+        const info = await qdrant.describeCollection(name);
+        collections.push({
+            project: projectId,
+            collection: baseName,
+            reads_from: current ?? (info ? name : null),
+            vector_size: info?.vectorSize ?? null,
+            points: info?.points ?? 0,
+            versions: names
+                .filter((candidate) => candidate.startsWith(`${name}__`))
+                .map((candidate) => candidate.slice(name.length + 2))
+                .sort()
+        });
+    }
+
+    return { collections };
+}
@@ -0,0 +1,136 @@
+/**
+ * Validates tool arguments against the JSON Schema subset used by our tool
+ * definitions: type, properties, required, additionalProperties, enum, items,
+ * minItems, minLength, pattern, minimum and maximum.
+ */
+type JsonType = "object" | "array" | "string" | "number" | "integer" | "boolean" | "null";
+
+export type JsonSchema = {
+    type?: JsonType | JsonType[];
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    additionalProperties?: boolean | JsonSchema;
+    enum?: unknown[];
+    items?: JsonSchema;
+    minItems?: number;
+    minLength?: number;
+    pattern?: string;
+    minimum?: number;
+    maximum?: number;
+    [keyword: string]: unknown;
+};
+
+export type ValidationIssue = {
+    path: string;
+    message: string;
+};
+
+function describeType(value: unknown): string {
+    if (value === null) {
+        return "null";
+    }
+    if (Array.isArray(value)) {
+        return "array";
+    }
+    return typeof value;
+}
+
+function matchesType(value: unknown, type: JsonType): boolean {
+    switch (type) {
+        case "null":
+            return value === null;
+        case "object":
+            return typeof value === "object" && value !== null && !Array.isArray(value);
+        case "array":
+            return Array.isArray(value);
+        case "integer":
+            return typeof value === "number" && Number.isInteger(value);
+        case "number":
+            return typeof value === "number" && Number.isFinite(value);
+        default:
+            return typeof value === type;
+    }
+}
+
+function validateValue(value: unknown, schema: JsonSchema, path: string, issues: ValidationIssue[]) {
+    const label = path || "arguments";
+
+    if (schema.type) {
+        const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+        if (!types.some((type) => matchesType(value, type))) {
+            issues.push({ path: label, message: `must be ${types.join(" or ")}, got ${describeType(value)}` });
+            return;
+        }
+    }
+
+    if (schema.enum && !schema.enum.some((candidate) => candidate === value)) {
+        issues.push({
+            path: label,
+            message: `must be one of: ${schema.enum.map((candidate) => JSON.stringify(candidate)).join(", ")}`
+        });
+    }
+
+    if (typeof value === "string") {
+        if (schema.minLength !== undefined && value.length < schema.minLength) {
+            issues.push({ path: label, message: `must be at least ${schema.minLength} character(s)` });
+        }
+        if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+            issues.push({ path: label, message: `must match pattern ${schema.pattern}` });
+        }
+    }
+
+    if (typeof value === "number") {
+        if (schema.minimum !== undefined && value < schema.minimum) {
+            issues.push({ path: label, message: `must be >= ${schema.minimum}` });
+        }
+        if (schema.maximum !== undefined && value > schema.maximum) {
+            issues.push({ path: label, message: `must be <= ${schema.maximum}` });
+        }
+    }
+
+    if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < schema.minItems) {
+            issues.push({ path: label, message: `must contain at least ${schema.minItems} item(s)` });
+        }
+        if (schema.items) {
+            value.forEach((item, index) => validateValue(item, schema.items!, `${path}[${index}]`, issues));
+        }
+    }
+
+    if (
+        matchesType(value, "object") &&
+        (schema.properties || schema.required || schema.additionalProperties !== undefined)
+    ) {
+        const record = value as Record<string, unknown>;
+        const properties = schema.properties ?? {};
+        const prefix = path ? `${path}.` : "";
+
+        for (const field of schema.required ?? []) {
+            if (record[field] === undefined) {
+                issues.push({ path: `${prefix}${field}`, message: "is required" });
+            }
+        }
+
+        for (const [field, fieldValue] of Object.entries(record)) {
+            const fieldSchema = properties[field];
+            if (!fieldSchema) {
+                if (schema.additionalProperties === false) {
+                    issues.push({ path: `${prefix}${field}`, message: "is not a recognized argument" });
+                } else if (typeof schema.additionalProperties === "object") {
+                    validateValue(fieldValue, schema.additionalProperties, `${prefix}${field}`, issues);
+                }
+                continue;
+            }
+            if (fieldValue === undefined) {
+                continue;
+            }
+            validateValue(fieldValue, fieldSchema, `${prefix}${field}`, issues);
+        }
+    }
+}
+
+export function validateArguments(args: unknown, schema: JsonSchema): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    validateValue(args, schema, "", issues);
+    return issues;
+}
@@ -47,10 +47,6 @@ export async function waitForDependencies() {
     const neo4jHost = new URL(process.env.NEO4J_URL || "bolt://localhost:7687");
 
     const dependencies: DependencyConfig[] = [
-        {
-            name: "Embedding service",
-            check: () => checkHttpEndpoint(embeddingUrl)
-        },
         {
             name: "Qdrant",
             check: () => checkHttpEndpoint(qdrantUrl)
@@ -61,7 +57,15 @@ export async function waitForDependencies() {
         }
     ];
 
-    console.log("[startup] Waiting for dependencies: embedding, Qdrant, Neo4j");
+    // Only the TEI service is ours to wait for; hosted providers and the offline hash embedder are not.
+    if ((process.env.EMBEDDING_PROVIDER || "tei").toLowerCase() === "tei") {
+        dependencies.unshift({
+            name: "Embedding service",
+            check: () => checkHttpEndpoint(embeddingUrl)
+        });
+    }
+
+    console.log(`[startup] Waiting for dependencies: ${dependencies.map((dep) => dep.name).join(", ")}`);
 
     for (const dep of dependencies) {
         await waitForDependency(dep);
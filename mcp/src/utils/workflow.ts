@@ -0,0 +1,234 @@
+/**
+ * Backlog status workflow: the states an item can be in, which moves between them
+ * are allowed and which fields must be filled in before an item enters a state.
+ * Projects without a configured workflow use DEFAULT_WORKFLOW.
+ *
+ * The backlog editor server imports this module as well, so the board enforces the
+ * same rules as update_backlog_item. Keep it free of imports from the rest of mcp/.
+ */
+
+export type WorkflowState = {
+    key: string;
+    label: string;
+    /** Other spellings stored on older items, e.g. "completed" for "done". */
+    aliases?: string[];
+    /** Finished: leaves the top-items ranking and unblocks dependents. */
+    done?: boolean;
+    /** Parked: skipped by the top-items ranking like items with open dependencies. */
+    blocked?: boolean;
+};
+
+export type BacklogWorkflow = {
+    states: WorkflowState[];
+    /** Allowed next states per state; a state without an entry is final. */
+    transitions: Record<string, string[]>;
+    /** Fields that must be non-empty before an item may enter the state. */
+    required_fields: Record<string, string[]>;
+};
+
+export type StatusCheck =
+    | { ok: true; status: string }
+    | {
+          ok: false;
+          code: "unknown_status" | "transition_not_allowed" | "missing_fields";
+          error: string;
+      };
+
+export const REQUIRABLE_FIELDS = [
+    "description",
+    "next_steps",
+    "completed_work",
+    "tags",
+    "owner",
+    "due_date",
+    "sprint",
+    "story_points",
+    "acceptance_criteria",
+    "notes",
+    "category",
+    "feature_id"
+];
+
+export const DEFAULT_WORKFLOW: BacklogWorkflow = {
+    states: [
+        { key: "todo", label: "To Do" },
+        { key: "in-progress", label: "In Progress", aliases: ["pending"] },
+        { key: "blocked", label: "Blocked", blocked: true },
+        { key: "review", label: "Review", aliases: ["in-review"] },
+        { key: "done", label: "Done", aliases: ["completed", "archived"], done: true }
+    ],
+    transitions: {
+        todo: ["in-progress", "blocked"],
+        "in-progress": ["todo", "blocked", "review", "done"],
+        blocked: ["todo", "in-progress"],
+        review: ["in-progress", "done"],
+        done: ["in-progress"]
+    },
+    required_fields: {
+        review: ["acceptance_criteria"],
+        done: ["completed_work"]
+    }
+};
+
+const normalizeStatus = (status: string) => status.trim().toLowerCase();
+
+export function findState(workflow: BacklogWorkflow, status: string | null | undefined): WorkflowState | undefined {
+    if (typeof status !== "string") {
+        return undefined;
+    }
+    const normalized = normalizeStatus(status);
+    return workflow.states.find(
+        (state) => state.key === normalized || (state.aliases ?? []).includes(normalized)
+    );
+}
+
+export function isDoneStatus(workflow: BacklogWorkflow, status: string | null | undefined): boolean {
+    return findState(workflow, status)?.done === true;
+}
+
+export function isBlockedStatus(workflow: BacklogWorkflow, status: string | null | undefined): boolean {
+    return findState(workflow, status)?.blocked === true;
+}
+
+/** Every stored spelling of a finished status, for Qdrant `match: { any }` filters. */
+export function doneStatuses(workflow: BacklogWorkflow): string[] {
+    return workflow.states
+        .filter((state) => state.done)
+        .flatMap((state) => [state.key, ...(state.aliases ?? [])]);
+}
+
+const hasValue = (value: unknown): boolean => {
+    if (Array.isArray(value)) {
+        return value.some(hasValue);
+    }
+    if (typeof value === "string") {
+        return value.trim().length > 0;
+    }
+    return value !== null && value !== undefined;
+};
+
+/**
+ * Checks that `record` may move from `previousStatus` (null when it is being
+ * created) into `record.status`, and returns the canonical state key to store.
+ * Items whose current status is not part of the workflow may move to any state.
+ */
+export function checkStatusChange(
+    workflow: BacklogWorkflow,
+    previousStatus: string | null,
+    record: Record<string, unknown>
+): StatusCheck {
+    const requested = typeof record.status === "string" ? record.status : "";
+    const target = findState(workflow, requested);
+    if (!target) {
+        return {
+            ok: false,
+            code: "unknown_status",
+            error: `Unknown status '${requested}'. Expected one of: ${workflow.states.map((state) => state.key).join(", ")}`
+        };
+    }
+
+    const from = previousStatus === null ? undefined : findState(workflow, previousStatus);
+    if (from?.key === target.key) {
+        return { ok: true, status: target.key };
+    }
+
+    const allowed = from ? workflow.transitions[from.key] ?? [] : null;
+    if (allowed && !allowed.includes(target.key)) {
+        return {
+            ok: false,
+            code: "transition_not_allowed",
+            error: allowed.length
+                ? `Cannot move from '${from!.key}' to '${target.key}'. Allowed next statuses: ${allowed.join(", ")}`
+                : `Cannot move from '${from!.key}' to '${target.key}': '${from!.key}' is a final status`
+        };
+    }
+
+    const missing = (workflow.required_fields[target.key] ?? []).filter((field) => !hasValue(record[field]));
+    if (missing.length > 0) {
+        return {
+            ok: false,
+            code: "missing_fields",
+            error: `Status '${target.key}' requires ${missing.join(", ")}; fill ${missing.length > 1 ? "them" : "it"} in with the status change`
+        };
+    }
+
+    return { ok: true, status: target.key };
+}
+
+/**
+ * Validates a workflow definition and returns it normalized (lower-case keys,
+ * labels defaulted, duplicate entries removed). Throws on the first problem found.
+ */
+export function parseWorkflow(input: unknown): BacklogWorkflow {
+    const source = (input ?? {}) as Partial<BacklogWorkflow>;
+    if (!Array.isArray(source.states) || source.states.length === 0) {
+        throw new Error("A workflow needs at least one state");
+    }
+
+    const spellings = new Map<string, string>();
+    const claim = (spelling: string, key: string) => {
+        const owner = spellings.get(spelling);
+        if (owner !== undefined) {
+            throw new Error(`Status '${spelling}' is used by both '${owner}' and '${key}'`);
+        }
+        spellings.set(spelling, key);
+    };
+
+    const states: WorkflowState[] = source.states.map((state) => {
+        const key = typeof state?.key === "string" ? normalizeStatus(state.key) : "";
+        if (!key) {
+            throw new Error("Every workflow state needs a non-empty key");
+        }
+        claim(key, key);
+        const aliases = Array.from(
+            new Set((state.aliases ?? []).map(normalizeStatus).filter((alias) => alias && alias !== key))
+        );
+        aliases.forEach((alias) => claim(alias, key));
+
+        const parsed: WorkflowState = { key, label: state.label?.trim() || key };
+        if (aliases.length > 0) {
+            parsed.aliases = aliases;
+        }
+        if (state.done) {
+            parsed.done = true;
+        }
+        if (state.blocked) {
+            parsed.blocked = true;
+        }
+        if (parsed.done && parsed.blocked) {
+            throw new Error(`State '${key}' cannot be both done and blocked`);
+        }
+        return parsed;
+    });
+
+    const keys = new Set(states.map((state) => state.key));
+    const requireState = (value: string, context: string) => {
+        const key = normalizeStatus(value);
+        if (!keys.has(key)) {
+            throw new Error(`${context} refers to unknown state '${value}'`);
+        }
+        return key;
+    };
+
+    const transitions: Record<string, string[]> = {};
+    for (const [from, targets] of Object.entries(source.transitions ?? {})) {
+        const key = requireState(from, "transitions");
+        transitions[key] = Array.from(
+            new Set((targets ?? []).map((target) => requireState(target, `transitions.${key}`)))
+        ).filter((target) => target !== key);
+    }
+
+    const requiredFields: Record<string, string[]> = {};
+    for (const [state, fields] of Object.entries(source.required_fields ?? {})) {
+        const key = requireState(state, "required_fields");
+        const unknown = (fields ?? []).filter((field) => !REQUIRABLE_FIELDS.includes(field));
+        if (unknown.length > 0) {
+            throw new Error(
+                `required_fields.${key} lists unknown field(s) ${unknown.join(", ")}. Expected any of: ${REQUIRABLE_FIELDS.join(", ")}`
+            );
+        }
+        requiredFields[key] = Array.from(new Set(fields));
+    }
+
+    return { states, transitions, required_fields: requiredFields };
+}
@@ -0,0 +1,112 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+
+import { startTestServer, TestServer, ToolCallError } from "./support/harness.js";
+
+describe("bulk backlog updates", () => {
+    let server: TestServer;
+    const ids: Record<string, string> = {};
+
+    before(async () => {
+        server = await startTestServer();
+        const items = [
+            { title: "Rebind keys", status: "todo", tags: ["input"] },
+            { title: "Gamepad rumble", status: "todo", tags: ["input", "polish"] },
+            {
+                title: "Dead zone slider",
+                status: "in-progress",
+                tags: ["input"],
+                acceptance_criteria: ["Slider range 0-0.5"]
+            }
+        ];
+        for (const item of items) {
+            const created = await server.call("create_backlog_item", {
+                description: `${item.title} for controllers`,
+                priority: "P2",
+                ...item
+            });
+            ids[item.title] = created.id;
+        }
+    });
+
+    after(async () => {
+        await server.stop();
+    });
+
+    it("previews a patch with dry_run and applies it to a list of ids", async () => {
+        const args = {
+            ids: [ids["Rebind keys"], ids["Gamepad rumble"], "6f1e2d3c-4b5a-4968-8776-655443322110"],
+            patch: { sprint: "Sprint 3", add_tags: ["groomed"], remove_tags: ["polish"] },
+            updated_by: "lead"
+        };
+
+        const preview = await server.call("bulk_update_backlog", { ...args, dry_run: true });
+        assert.equal(preview.changed, 2);
+        assert.deepEqual(preview.not_found, ["6f1e2d3c-4b5a-4968-8776-655443322110"]);
+        const rumble = preview.items.find((item: any) => item.id === ids["Gamepad rumble"]);
+        assert.deepEqual(rumble.changes, [
+            { field: "sprint", from: null, to: "Sprint 3" },
+            { field: "tags", from: ["input", "polish"], to: ["input", "groomed"] }
+        ]);
+        assert.equal((await server.call("get_backlog_item", { id: ids["Gamepad rumble"] })).item.sprint, null);
+
+        const applied = await server.call("bulk_update_backlog", args);
+        assert.equal(applied.dry_run, false);
+        assert.equal(applied.changed, 2);
+
+        const groomed = await server.call("search_backlog_by_tag", { tags: ["groomed"] });
+        assert.deepEqual(groomed.items.map((item: any) => item.id).sort(), [ids["Rebind keys"], ids["Gamepad rumble"]].sort());
+        const history = await server.call("get_record_history", { type: "backlog", id: ids["Rebind keys"] });
+        assert.equal(history.revisions.length, 1);
+        assert.equal(history.revisions[0].author, "lead");
+
+        const again = await server.call("bulk_update_backlog", args);
+        assert.equal(again.changed, 0);
+        assert.equal(again.unchanged.length, 2);
+    });
+
+    it("applies status changes to filtered items through the workflow", async () => {
+        const result = await server.call("bulk_update_backlog", {
+            filter: { tags: ["input"] },
+            patch: { status: "review", owner: "qa-lead" }
+        });
+        assert.equal(result.matched, 3);
+        assert.deepEqual(
+            result.items.map((item: any) => item.id),
+            [ids["Dead zone slider"]]
+        );
+        assert.deepEqual(result.rejected.map((item: any) => item.title).sort(), ["Gamepad rumble", "Rebind keys"]);
+        assert.match(result.rejected[0].error, /Cannot move from 'todo' to 'review'/);
+
+        const slider = await server.call("get_backlog_item", { id: ids["Dead zone slider"] });
+        assert.equal(slider.item.status, "review");
+        assert.equal(slider.item.owner, "qa-lead");
+        assert.equal((await server.call("get_backlog_item", { id: ids["Rebind keys"] })).item.owner, null);
+    });
+
+    it("filters on the patched fields straight after the update", async () => {
+        const result = await server.call("bulk_update_backlog", {
+            ids: [ids["Rebind keys"], ids["Gamepad rumble"]],
+            patch: { owner: "input-team", sprint: "Sprint 4" }
+        });
+        assert.equal(result.changed, 2);
+
+        const owned = await server.call("search_backlog_by_tag", { owner: "input-team" });
+        assert.deepEqual(owned.items.map((item: any) => item.id).sort(), [ids["Rebind keys"], ids["Gamepad rumble"]].sort());
+
+        const planned = await server.call("bulk_update_backlog", { filter: { sprint: "Sprint 4" }, patch: { owner: null }, dry_run: true });
+        assert.equal(planned.matched, 2);
+    });
+
+    it("rejects ambiguous targets and empty patches", async () => {
+        await assert.rejects(
+            server.call("bulk_update_backlog", { ids: [ids["Rebind keys"]], filter: {}, patch: { owner: "lead" } }),
+            /either ids or filter/
+        );
+        await assert.rejects(server.call("bulk_update_backlog", { filter: {}, patch: {} }), ToolCallError);
+        await assert.rejects(
+            server.call("bulk_update_backlog", { filter: {}, patch: { add_tags: ["a"], remove_tags: ["a"] } }),
+            /both added and removed/
+        );
+    });
+});
@@ -0,0 +1,150 @@
+import "./support/environment.js";
+
+import assert from "node:assert/strict";
+import { rm } from "node:fs/promises";
+import path from "node:path";
+import { before, describe, it } from "node:test";
+
+import { EmbeddingService } from "../src/services/embedding.service.js";
+import { HashEmbeddingProvider } from "../src/services/embedding.providers.js";
+import { ProjectService } from "../src/services/project.service.js";
+import { backlogText, featureText } from "../src/utils/embeddingText.js";
+import { BundleLine, exportProjectBundle, importProjectBundle } from "../src/utils/projectBundle.js";
+import { configDir, scratchDir } from "./support/environment.js";
+import { InMemoryNeo4jService } from "./support/inMemoryNeo4j.js";
+import { createInMemoryQdrant } from "./support/inMemoryQdrant.js";
+
+describe("project bundles", () => {
+    const { service: qdrant } = createInMemoryQdrant();
+    const neo4j = new InMemoryNeo4jService();
+    const embedding = new EmbeddingService(new HashEmbeddingProvider(768));
+    const projects = new ProjectService(qdrant);
+    const services = { qdrant, projects, neo4j };
+    const snapshotDir = path.join(scratchDir, "snapshots");
+
+    // Qdrant point ids are unsigned integers or UUIDs.
+    const featureId = "0b9a3f5e-6a53-4a4c-9a53-0d3f3c1b6a01";
+    const backlogId = "0b9a3f5e-6a53-4a4c-9a53-0d3f3c1b6a02";
+    const curatedFeatureId = "0b9a3f5e-6a53-4a4c-9a53-0d3f3c1b6a03";
+    const curatedBacklogId = "0b9a3f5e-6a53-4a4c-9a53-0d3f3c1b6a04";
+
+    const feature = { name: "Spawning", description: "Enemy waves" };
+    const backlog = { title: "Spawn waves", description: "Wave table", status: "todo", priority: "high", feature_id: featureId };
+
+    const exportLines = async (projectId: string, options: { includeVectors?: boolean; collections?: string[] } = {}) => {
+        const lines: BundleLine[] = [];
+        for await (const line of exportProjectBundle({
+            ...services,
+            projectId,
+            includeVectors: options.includeVectors ?? false,
+            includeGraph: true,
+            collections: options.collections
+        })) {
+            lines.push(line);
+        }
+        return lines;
+    };
+
+    const importLines = (projectId: string, lines: unknown[], mode: "merge" | "replace" = "merge") =>
+        importProjectBundle(
+            { ...services, embedding, projectId, mode, reembed: false, snapshotDir, snapshot: true },
+            (async function* () {
+                for (const line of lines) {
+                    yield JSON.stringify(line);
+                }
+            })()
+        );
+
+    const payloads = async (projectId: string, collection: string) =>
+        ((await qdrant.scroll(projects.collectionName(projectId, collection))) as any).points.map((point: any) => ({
+            id: point.id,
+            ...point.payload
+        }));
+
+    before(async () => {
+        await rm(path.join(configDir, "projects.json"), { force: true });
+        await projects.initialize();
+
+        await qdrant.upsert("default__features", [
+            { id: featureId, vector: await embedding.embed(featureText(feature)), payload: feature }
+        ]);
+        await qdrant.upsert("default__backlog_items", [
+            { id: backlogId, vector: await embedding.embed(backlogText(backlog)), payload: backlog }
+        ]);
+        await neo4j.restoreProject("default", {
+            nodes: [{ id: "class:Spawner", labels: ["Class"], properties: { name: "Spawner" } }],
+            relationships: []
+        });
+    });
+
+    it("exports a header, points, graph and totals", async () => {
+        const lines = await exportLines("default");
+        const [header] = lines;
+        assert.equal(header.kind, "header");
+        assert.equal(header.kind === "header" && header.include_vectors, false);
+
+        const points = lines.filter((line) => line.kind === "point");
+        assert.deepEqual(
+            points.map((line) => line.kind === "point" && [line.collection, line.id, "vector" in line]),
+            [
+                ["backlog_items", backlogId, false],
+                ["features", featureId, false]
+            ]
+        );
+        assert.deepEqual(lines.at(-1), { kind: "end", points: 2, nodes: 1, relationships: 0 });
+    });
+
+    it("seeds a new project, embedding points that carry no vectors", async () => {
+        const result = await importLines("prototype", await exportLines("default"));
+        assert.equal(result.createdProject, true);
+        assert.deepEqual(result.warnings, []);
+        assert.deepEqual(result.graph, { nodes: 1, relationships: 0 });
+
+        const [imported] = await payloads("prototype", "backlog_items");
+        assert.equal(imported.title, "Spawn waves");
+        assert.equal((await neo4j.getEntity("prototype", "class:Spawner"))?.name, "Spawner");
+    });
+
+    it("merges records by natural key and follows references to them", async () => {
+        const bundle = [
+            { kind: "header", format: "game-mcp-bundle", version: 1, project: "curated", exported_at: "", include_vectors: false, collections: [], graph: false },
+            { kind: "point", collection: "features", id: curatedFeatureId, payload: { name: "Spawning", description: "Curated waves" } },
+            { kind: "point", collection: "backlog_items", id: curatedBacklogId, payload: { ...backlog, title: "Boss intro", feature_id: curatedFeatureId } },
+            { kind: "end", points: 2, nodes: 0, relationships: 0 }
+        ];
+
+        const result = await importLines("default", bundle);
+        assert.deepEqual(
+            result.collections.map(({ collection, imported, merged }) => [collection, imported, merged]),
+            [
+                ["features", 1, 1],
+                ["backlog_items", 1, 0]
+            ]
+        );
+
+        const features = await payloads("default", "features");
+        assert.deepEqual(
+            features.map((entry: any) => [entry.id, entry.description]),
+            [[featureId, "Curated waves"]]
+        );
+        const bossIntro = (await payloads("default", "backlog_items")).find((entry: any) => entry.title === "Boss intro");
+        assert.equal(bossIntro.feature_id, featureId);
+    });
+
+    it("replaces a project's records after a safety snapshot", async () => {
+        const bundle = await exportLines("prototype", { collections: ["features"], includeVectors: true });
+        const result = await importLines("default", bundle, "replace");
+        assert.ok(result.safetySnapshotPath);
+
+        assert.deepEqual(await payloads("default", "backlog_items"), []);
+        assert.equal((await payloads("default", "features"))[0].description, "Enemy waves");
+    });
+
+    it("rejects input that is not a bundle", async () => {
+        await assert.rejects(importLines("default", [{ kind: "point" }]), /Not a game-mcp-bundle bundle/);
+        await assert.rejects(
+            importLines("default", [{ kind: "header", format: "game-mcp-bundle", version: 99 }]),
+            /newer than this server supports/
+        );
+    });
+});
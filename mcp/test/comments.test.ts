@@ -0,0 +1,96 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+
+import { startTestServer, TestServer, ToolCallError } from "./support/harness.js";
+
+describe("comments and activity", () => {
+    let server: TestServer;
+    let itemId: string;
+    let featureId: string;
+
+    before(async () => {
+        server = await startTestServer();
+        featureId = (await server.call("create_feature", { name: "Photo mode", description: "Pause and frame shots" })).id;
+        itemId = (
+            await server.call("create_backlog_item", {
+                title: "Free camera",
+                description: "Orbit and pan while paused",
+                status: "todo",
+                priority: "P1"
+            })
+        ).id;
+    });
+
+    after(async () => {
+        await server.stop();
+    });
+
+    it("threads comments on a backlog item", async () => {
+        const question = await server.call("add_backlog_comment", {
+            id: itemId,
+            body: "Should the camera collide with level geometry?",
+            author: "agent-a"
+        });
+        await server.call("add_backlog_comment", {
+            id: itemId,
+            body: "Yes, clip it against the nav mesh bounds.",
+            author: "lead",
+            reply_to: question.id
+        });
+
+        const { count, threads } = await server.call("list_comments", { type: "backlog", id: itemId });
+        assert.equal(count, 2);
+        assert.equal(threads.length, 1);
+        assert.equal(threads[0].author, "agent-a");
+        assert.deepEqual(
+            threads[0].replies.map((reply: any) => reply.author),
+            ["lead"]
+        );
+
+        await assert.rejects(
+            server.call("add_feature_comment", { id: featureId, body: "Off topic", author: "lead", reply_to: question.id }),
+            ToolCallError
+        );
+        const missing = await server.call("add_backlog_comment", {
+            id: "5b0f3a9e-7c1d-4e2f-9a8b-6c5d4e3f2a1b",
+            body: "Anyone?",
+            author: "agent-a"
+        });
+        assert.equal(missing.success, false);
+    });
+
+    it("merges comments, status changes and reassignments into the activity feed", async () => {
+        await server.call("update_backlog_item", { id: itemId, status: "in-progress", owner: "agent-b", updated_by: "agent-b" });
+        await server.call("update_backlog_item", { id: itemId, feature_id: featureId, updated_by: "agent-b" });
+        await server.call("add_feature_comment", { id: featureId, body: "Ship with three filters.", author: "lead" });
+
+        const feed = await server.call("get_activity_feed", { type: "backlog", id: itemId });
+        assert.deepEqual(
+            feed.items.map((entry: any) => entry.kind).sort(),
+            ["comment", "comment", "reassignment", "status_change"]
+        );
+        const reassigned = feed.items.find((entry: any) => entry.kind === "reassignment");
+        assert.equal(reassigned.summary, `feature_id: none -> ${featureId}`);
+        const moved = feed.items.find((entry: any) => entry.kind === "status_change");
+        assert.deepEqual(
+            moved.changes.map((change: any) => [change.field, change.to]),
+            [["owner", "agent-b"], ["status", "in-progress"]]
+        );
+        assert.equal(moved.record_title, "Free camera");
+
+        const firstPage = await server.call("get_activity_feed", { kinds: ["comment"], limit: 2 });
+        assert.equal(firstPage.total, 3);
+        const secondPage = await server.call("get_activity_feed", { kinds: ["comment"], limit: 2, cursor: firstPage.next_cursor });
+        const comments = [...firstPage.items, ...secondPage.items];
+        assert.equal(comments.length, 3);
+        assert.equal(comments.find((entry: any) => entry.record_type === "feature").record_title, "Photo mode");
+
+        await assert.rejects(server.call("get_activity_feed", { id: itemId }), /type is required/);
+    });
+
+    it("removes a record's comments when it is deleted", async () => {
+        const deleted = await server.call("delete_record", { type: "backlog", id: itemId });
+        assert.equal(deleted.comments_removed, 2);
+        assert.equal((await server.call("list_comments", { type: "backlog", id: itemId })).count, 0);
+    });
+});
@@ -0,0 +1,110 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+
+import { startTestServer, TestServer } from "./support/harness.js";
+
+describe("creative and playtest tools", () => {
+    let server: TestServer;
+
+    before(async () => {
+        server = await startTestServer();
+    });
+
+    after(async () => {
+        await server.stop();
+    });
+
+    it("stores narrative elements and returns them in the outline", async () => {
+        const stored = await server.call("store_narrative_element", {
+            title: "The Fall",
+            type: "beat",
+            summary: "The capital falls to the ember legion",
+            act: "1",
+            chapter: "2",
+            tags: ["war"]
+        });
+
+        const search = await server.call("search_narrative_elements", { query: "ember legion", mode: "keyword" });
+        assert.equal(search.elements[0].id, stored.id);
+
+        const outline = await server.call("get_narrative_outline", {});
+        assert.deepEqual(
+            outline.elements.map((element: any) => element.title),
+            ["The Fall"]
+        );
+    });
+
+    it("stores lore and filters it by region", async () => {
+        const stored = await server.call("store_lore_entry", {
+            title: "Ember Order",
+            category: "faction",
+            content: "Fire monks guarding the northern pass",
+            region: "North"
+        });
+
+        const search = await server.call("search_lore", { query: "fire monks", mode: "keyword" });
+        assert.equal(search.lore[0].id, stored.id);
+
+        assert.equal((await server.call("list_lore", { region: "North" })).count, 1);
+        assert.equal((await server.call("list_lore", { region: "South" })).count, 0);
+    });
+
+    it("stores dialogue scenes and finds them by character", async () => {
+        const stored = await server.call("store_dialogue_scene", {
+            scene: "Gate",
+            characters: ["Ash", "Bram"],
+            context: "Arrival at the capital",
+            script: "ASH: Open the gate.",
+            tone: "tense"
+        });
+
+        const found = await server.call("find_dialogue", { query: "open the gate", mode: "keyword", character: "Ash" });
+        assert.equal(found.scenes[0].id, stored.id);
+
+        const scene = await server.call("get_dialogue_scene", { scene_id: stored.id });
+        assert.equal(scene.found, true);
+        assert.deepEqual(scene.scene.characters, ["Ash", "Bram"]);
+    });
+
+    it("stores test strategies and lists them by focus area", async () => {
+        const stored = await server.call("store_test_strategy", {
+            title: "Save corruption",
+            focus_area: "persistence",
+            scenario: "Kill power while the save file is written",
+            coverage: ["save", "load"],
+            automated: true
+        });
+
+        const query = await server.call("query_test_strategies", { query: "save file", mode: "keyword" });
+        assert.equal(query.strategies[0].id, stored.id);
+
+        const byFocus = await server.call("list_test_strategies_by_focus", { focusArea: "persistence" });
+        assert.equal(byFocus.count, 1);
+    });
+
+    it("records playtest feedback and summarises it by severity", async () => {
+        await server.call("record_playtest_feedback", {
+            source: "Playtest 3",
+            experience: "Combat felt floaty",
+            positives: ["music"],
+            negatives: ["jump arc"],
+            severity: "high",
+            tags: ["combat"]
+        });
+        await server.call("record_playtest_feedback", {
+            source: "Playtest 4",
+            experience: "Loved the dash",
+            positives: ["dash"],
+            negatives: [],
+            severity: "low",
+            tags: ["combat"]
+        });
+
+        const query = await server.call("query_playtest_feedback", { query: "floaty", mode: "keyword" });
+        assert.equal(query.count, 1);
+
+        const summary = await server.call("summarize_playtest_feedback", {});
+        assert.equal(summary.count, 2);
+        assert.deepEqual(summary.bySeverity, { high: 1, low: 1 });
+    });
+});
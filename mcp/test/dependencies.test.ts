@@ -0,0 +1,72 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+
+import { startTestServer, TestServer, ToolCallError } from "./support/harness.js";
+
+describe("backlog dependencies", () => {
+    let server: TestServer;
+    let engine: string;
+    let renderer: string;
+    let lighting: string;
+
+    const create = async (title: string, priority: string, dependencies: string[] = []) =>
+        (await server.call("create_backlog_item", { title, description: title, status: "todo", priority, dependencies })).id as string;
+
+    before(async () => {
+        server = await startTestServer();
+        engine = await create("Engine core", "P2");
+        renderer = await create("Renderer", "P1", [engine]);
+        lighting = await create("Lighting", "P0", [renderer, engine]);
+    });
+
+    after(async () => {
+        await server.stop();
+    });
+
+    it("rejects unknown ids, self references and cycles", async () => {
+        await assert.rejects(create("Orphan", "P3", ["free text blocker"]), /Unknown backlog item id/);
+        await assert.rejects(server.call("update_backlog_item", { id: engine, dependencies: [engine] }), ToolCallError);
+        await assert.rejects(
+            server.call("update_backlog_item", { id: engine, dependencies: [lighting] }),
+            /cycle: 'Engine core' -> 'Lighting' -> 'Renderer' -> 'Engine core'/
+        );
+    });
+
+    it("returns the dependency DAG in topological order", async () => {
+        const graph = await server.call("get_backlog_dependency_graph", {});
+        assert.deepEqual(graph.order, [engine, renderer, lighting]);
+        assert.deepEqual(graph.cyclic, []);
+        assert.equal(graph.edges.length, 3);
+
+        const node = graph.nodes.find((entry: any) => entry.id === lighting);
+        assert.deepEqual([...node.blocked_by].sort(), [engine, renderer].sort());
+    });
+
+    it("skips blocked items until their dependencies are done", async () => {
+        const top = await server.call("get_top_backlog_items", {});
+        assert.deepEqual(
+            top.items.map((item: any) => item.title),
+            ["Engine core"]
+        );
+        assert.equal(top.blocked_skipped, 2);
+        assert.equal((await server.call("get_top_backlog_items", { include_blocked: true })).items[0].title, "Lighting");
+
+        await server.call("update_backlog_item", { id: engine, status: "in-progress" });
+        await server.call("update_backlog_item", { id: engine, status: "done", completed_work: ["ECS scheduler"] });
+        const unblocked = await server.call("get_unblocked_backlog_items", {});
+        assert.deepEqual(
+            unblocked.items.map((item: any) => item.title),
+            ["Renderer"]
+        );
+    });
+
+    it("drops a deleted item from its dependents", async () => {
+        const deleted = await server.call("delete_record", { type: "backlog", id: renderer });
+        assert.deepEqual(deleted.dependents_updated, [lighting]);
+
+        const item = await server.call("get_backlog_item", { id: lighting });
+        assert.deepEqual(item.item.dependencies, [engine]);
+        const graph = await server.call("get_backlog_dependency_graph", {});
+        assert.deepEqual(graph.edges, [{ from: lighting, to: engine }]);
+    });
+});
@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import { randomUUID } from "node:crypto";
+import { after, before, describe, it } from "node:test";
+
+import { startTestServer, TestServer } from "./support/harness.js";
+
+describe("graph tools", () => {
+    let server: TestServer;
+
+    before(async () => {
+        server = await startTestServer();
+
+        await server.neo4j.restoreProject("default", {
+            nodes: [
+                { id: "file:src/spawner.ts", labels: ["File"], properties: { type: "file", name: "spawner.ts", path: "src/spawner.ts" } },
+                { id: "class:Spawner", labels: ["Class"], properties: { type: "class", name: "Spawner", purpose: "Spawns enemy waves" } }
+            ],
+            relationships: [{ type: "CONTAINS", sourceId: "file:src/spawner.ts", targetId: "class:Spawner", properties: {} }]
+        });
+
+        const description = "Spawner class that spawns enemy waves";
+        await server.qdrant.upsert("default__code_graph", [
+            {
+                id: randomUUID(),
+                vector: await server.embedding.embed(description),
+                payload: { entityId: "class:Spawner", type: "class", name: "Spawner", semanticDescription: description }
+            }
+        ]);
+    });
+
+    after(async () => {
+        await server.stop();
+    });
+
+    it("explores an entity and its neighbours", async () => {
+        const result = await server.call("explore_graph_entity", { entityId: "file:src/spawner.ts" });
+        assert.equal(result.found, true);
+        assert.equal(result.entity.name, "spawner.ts");
+        assert.deepEqual(
+            result.relationships.map((relationship: any) => [relationship.type, relationship.direction, relationship.targetId]),
+            [["CONTAINS", "outbound", "class:Spawner"]]
+        );
+    });
+
+    it("reports unknown entities", async () => {
+        const result = await server.call("explore_graph_entity", { entityId: "class:Missing" });
+        assert.equal(result.found, false);
+    });
+
+    it("searches code graph descriptions", async () => {
+        const keyword = await server.call("search_graph_semantic", { query: "enemy waves", mode: "keyword" });
+        assert.deepEqual(
+            keyword.matches.map((match: any) => match.entityId),
+            ["class:Spawner"]
+        );
+
+        const filtered = await server.call("search_graph_semantic", { query: "enemy waves", mode: "keyword", type: "file" });
+        assert.equal(filtered.count, 0);
+    });
+});
@@ -0,0 +1,89 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+
+import { createInMemoryQdrant } from "./support/inMemoryQdrant.js";
+
+// The integration suites lean on these semantics, so they are pinned down here.
+describe("in-memory Qdrant", () => {
+    const { service } = createInMemoryQdrant();
+    const collection = "filters";
+
+    before(async () => {
+        await service.ensureCollection(collection, { size: 2, distance: "Cosine" });
+        await service.upsert(collection, [
+            { id: 1, vector: [1, 0], payload: { status: "todo", tags: ["bug", "ui"], points: 3, due: "2026-01-10T00:00:00Z" } },
+            { id: 2, vector: [0, 1], payload: { status: "done", tags: ["ui"], points: 8, due: "2026-03-01T00:00:00Z" } },
+            { id: 3, vector: [1, 1], payload: { status: "todo", tags: [], points: null } }
+        ]);
+    });
+
+    const idsMatching = async (filter: Record<string, unknown>) =>
+        (await service.scroll(collection, filter)).points.map((point) => point.id);
+
+    it("combines must, should and must_not", async () => {
+        assert.deepEqual(await idsMatching({ must: [{ key: "status", match: { value: "todo" } }] }), [1, 3]);
+        assert.deepEqual(await idsMatching({ must_not: [{ key: "status", match: { value: "todo" } }] }), [2]);
+        assert.deepEqual(
+            await idsMatching({ should: [{ key: "points", match: { value: 8 } }, { has_id: [3] }] }),
+            [2, 3]
+        );
+    });
+
+    it("matches array payloads element by element", async () => {
+        assert.deepEqual(await idsMatching({ must: [{ key: "tags", match: { value: "ui" } }] }), [1, 2]);
+        assert.deepEqual(await idsMatching({ must: [{ key: "tags", match: { any: ["bug"] } }] }), [1]);
+        assert.deepEqual(await idsMatching({ must: [{ is_empty: { key: "tags" } }] }), [3]);
+        assert.deepEqual(await idsMatching({ must: [{ is_null: { key: "points" } }] }), [3]);
+    });
+
+    it("compares numeric and date ranges", async () => {
+        assert.deepEqual(await idsMatching({ must: [{ key: "points", range: { gte: 5 } }] }), [2]);
+        assert.deepEqual(await idsMatching({ must: [{ key: "due", range: { lt: "2026-02-01T00:00:00Z" } }] }), [1]);
+    });
+
+    it("ranks search results by similarity and applies the threshold", async () => {
+        const results = await service.search(collection, [1, 0], 3, undefined, 0.5);
+        assert.deepEqual(
+            results.map((result) => result.id),
+            [1, 3]
+        );
+    });
+
+    it("merges payload updates and deletes points", async () => {
+        await service.setPayload(collection, "2", { status: "todo" });
+        const [point] = await service.retrieve(collection, ["2"]);
+        assert.equal(point.payload?.status, "todo");
+        assert.equal(point.payload?.points, 8);
+
+        await service.deletePoints(collection, ["2"]);
+        assert.deepEqual(await idsMatching({}), [1, 3]);
+    });
+});
+
+describe("keyword search", () => {
+    const { service } = createInMemoryQdrant();
+    const collection = "keywords";
+
+    before(async () => {
+        await service.ensureCollection(collection, { size: 2, distance: "Cosine" });
+        const points = Array.from({ length: 2500 }, (_, index) => ({
+            id: index + 1,
+            vector: [1, 0],
+            payload: { title: index === 2499 ? "Fix E1001 in the loader" : `Routine task ${index}` }
+        }));
+        await service.upsert(collection, points);
+    });
+
+    it("scores every point, not just the first pages", async () => {
+        const results = await service.searchText(collection, {
+            query: "E1001",
+            fields: ["title"],
+            embed: async () => [1, 0],
+            mode: "keyword"
+        });
+        assert.deepEqual(
+            results.map((result) => result.id),
+            [2500]
+        );
+    });
+});
@@ -0,0 +1,132 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+
+import { startTestServer, TestServer } from "./support/harness.js";
+
+describe("knowledge tools", () => {
+    let server: TestServer;
+
+    before(async () => {
+        server = await startTestServer();
+    });
+
+    after(async () => {
+        await server.stop();
+    });
+
+    it("caches research and finds it again", async () => {
+        const stored = await server.call("cache_research", {
+            topic: "Roguelite meta progression",
+            findings: "Permanent unlocks between runs keep players engaged after a loss.",
+            sources: ["https://example.com/meta"],
+            tags: ["progression"]
+        });
+        assert.equal(stored.success, true);
+
+        const keyword = await server.call("query_research", { query: "permanent unlocks", mode: "keyword" });
+        assert.deepEqual(
+            keyword.results.map((result: any) => result.topic),
+            ["Roguelite meta progression"]
+        );
+
+        const semantic = await server.call("query_research", {
+            query: "Roguelite meta progression",
+            min_score: 0.1
+        });
+        assert.equal(semantic.results[0].topic, "Roguelite meta progression");
+    });
+
+    it("reports whether research on a topic is already cached", async () => {
+        assert.equal((await server.call("check_research_exists", { topic: "Dash cancel windows" })).exists, false);
+
+        await server.call("cache_research", { topic: "Dash cancel windows", findings: "Dash cancel windows" });
+        const check = await server.call("check_research_exists", { topic: "Dash cancel windows" });
+        assert.equal(check.exists, true);
+        assert.equal(check.topic, "Dash cancel windows");
+    });
+
+    it("stores patterns and looks them up by name and similarity", async () => {
+        const stored = await server.call("store_pattern", {
+            name: "Object pool",
+            description: "Reuse projectile instances instead of allocating them",
+            code: "class Pool<T> { take(): T { return this.free.pop()!; } }",
+            category: "performance"
+        });
+        assert.equal(stored.name, "Object pool");
+
+        const byName = await server.call("get_pattern_by_name", { name: "Object pool" });
+        assert.equal(byName.found, true);
+        assert.equal(byName.pattern.code, "class Pool<T> { take(): T { return this.free.pop()!; } }");
+
+        const similar = await server.call("find_similar_patterns", {
+            description: "projectile instances",
+            mode: "keyword"
+        });
+        assert.equal(similar.patterns[0].name, "Object pool");
+    });
+
+    it("records architecture decisions with history", async () => {
+        const stored = await server.call("store_architecture_decision", {
+            decision: "Use an entity component system",
+            rationale: "Thousands of enemies need cache friendly updates",
+            scope: "combat"
+        });
+
+        const decision = await server.call("get_architecture_decision", { id: stored.id });
+        assert.equal(decision.found, true);
+        assert.equal(decision.decision.decision, "Use an entity component system");
+
+        const history = await server.call("get_architecture_history", { scope: "combat" });
+        assert.equal(history.count, 1);
+
+        const query = await server.call("query_architecture", { query: "entity component system", mode: "keyword" });
+        assert.equal(query.decisions[0].id, stored.id);
+    });
+
+    it("validates content against stored knowledge", async () => {
+        const validation = await server.call("validate_against_patterns", {
+            content: "Reuse projectile instances instead of allocating them",
+            type: "code"
+        });
+        assert.ok(Array.isArray(validation.matches));
+        assert.ok(Array.isArray(validation.recommendations));
+
+        const consistency = await server.call("check_consistency", {
+            description: "Use an entity component system for combat"
+        });
+        assert.ok(Array.isArray(consistency.matches));
+    });
+
+    it("matches bug fixes by their error messages", async () => {
+        await server.call("record_bug_fix", {
+            issue: "Spawner crashes on null prefab",
+            summary: "Guard against missing prefabs",
+            correct_pattern: "if (!prefab) return;",
+            incorrect_patterns: ["Instantiate(prefab)"],
+            error_messages: ["NullReferenceException: prefab"]
+        });
+
+        const matches = await server.call("match_bug_fix", {
+            query: "spawner crash",
+            errorMessage: "NullReferenceException: prefab"
+        });
+        assert.equal(matches.matches[0].issue, "Spawner crashes on null prefab");
+        assert.equal(matches.matches[0].match_reason, "error_message");
+
+        const fetched = await server.call("get_bug_fix", { issue: "Spawner crashes on null prefab" });
+        assert.equal(fetched.found, true);
+        assert.equal(fetched.bug_fix.issue, "Spawner crashes on null prefab");
+    });
+
+    it("searches every collection at once", async () => {
+        const result = await server.call("search_everything", { query: "prefab", mode: "keyword" });
+        const collections = result.groups.map((group: any) => group.collection);
+        assert.ok(collections.includes("bug_fix_patterns"));
+        assert.ok(result.total >= 1);
+        for (const group of result.groups) {
+            for (const hit of group.results) {
+                assert.ok(hit.normalized_score <= 1);
+            }
+        }
+    });
+});
@@ -0,0 +1,109 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+
+import { startTestServer, TestServer, ToolCallError } from "./support/harness.js";
+
+describe("record links", () => {
+    let server: TestServer;
+    let featureId: string;
+    let backlogId: string;
+    let decisionId: string;
+    let strategyId: string;
+
+    before(async () => {
+        server = await startTestServer();
+        featureId = (await server.call("create_feature", { name: "Stealth", description: "Sneak past guards" })).id;
+        backlogId = (
+            await server.call("create_backlog_item", {
+                title: "Guard vision cones",
+                description: "Raycast cones",
+                status: "in-progress",
+                priority: "high"
+            })
+        ).id;
+        decisionId = (await server.call("store_architecture_decision", { decision: "Perception via ECS", rationale: "Batching" })).id;
+        strategyId = (
+            await server.call("store_test_strategy", {
+                title: "Detection matrix",
+                focus_area: "stealth",
+                scenario: "Walk every cone edge",
+                coverage: ["vision"]
+            })
+        ).id;
+    });
+
+    after(async () => {
+        await server.stop();
+    });
+
+    const link = (sourceType: string, sourceId: string, linkType: string, targetType: string, targetId: string) =>
+        server.call("link_records", {
+            source_type: sourceType,
+            source_id: sourceId,
+            link_type: linkType,
+            target_type: targetType,
+            target_id: targetId
+        });
+
+    it("links records across collections and mirrors them into the graph", async () => {
+        const created = await link("backlog", backlogId, "implements", "feature", featureId);
+        assert.equal(created.created, true);
+        assert.equal(created.graph_synced, true);
+        assert.equal((await link("backlog", backlogId, "implements", "feature", featureId)).id, created.id);
+
+        await link("architecture", decisionId, "documents", "feature", featureId);
+        await link("test_strategy", strategyId, "tests", "feature", featureId);
+
+        const graph = await server.neo4j.getEntityWithNeighbors("default", `record:feature:${featureId}`);
+        assert.deepEqual(graph?.relationships.map((relationship) => relationship.type).sort(), ["DOCUMENTS", "IMPLEMENTS", "TESTS"]);
+        assert.equal(graph?.entity.name, "Stealth");
+    });
+
+    it("returns a record's links with the linked records' titles and status", async () => {
+        const linked = await server.call("get_linked_records", { type: "feature", id: featureId });
+        assert.deepEqual(
+            linked.links.map((entry: any) => [entry.link_type, entry.direction, entry.record.type, entry.record.title]).sort(),
+            [
+                ["documents", "inbound", "architecture", "Perception via ECS"],
+                ["implements", "inbound", "backlog", "Guard vision cones"],
+                ["tests", "inbound", "test_strategy", "Detection matrix"]
+            ]
+        );
+        assert.equal(linked.links.find((entry: any) => entry.record.type === "backlog").record.status, "in-progress");
+
+        const decisions = await server.call("get_linked_records", { type: "feature", id: featureId, record_types: ["architecture"] });
+        assert.equal(decisions.count, 1);
+
+        const outbound = await server.call("get_linked_records", { type: "backlog", id: backlogId, direction: "outbound" });
+        assert.deepEqual(
+            outbound.links.map((entry: any) => entry.record.id),
+            [featureId]
+        );
+    });
+
+    it("rejects self links and missing records", async () => {
+        await assert.rejects(link("feature", featureId, "blocks", "feature", featureId), ToolCallError);
+        const missing = await link("feature", featureId, "blocks", "backlog", "7f0c5f2e-1b7e-4c59-9d0e-2f6a3f9a0b11");
+        assert.equal(missing.success, false);
+    });
+
+    it("removes links on unlink and when a linked record is deleted", async () => {
+        const unlinked = await server.call("unlink_records", {
+            source_type: "test_strategy",
+            source_id: strategyId,
+            target_type: "feature",
+            target_id: featureId
+        });
+        assert.equal(unlinked.removed, 1);
+        assert.equal(await server.neo4j.getEntity("default", `record:test_strategy:${strategyId}`), null);
+
+        const deleted = await server.call("delete_record", { type: "backlog", id: backlogId });
+        assert.equal(deleted.links_removed, 1);
+
+        const linked = await server.call("get_linked_records", { type: "feature", id: featureId });
+        assert.deepEqual(
+            linked.links.map((entry: any) => entry.link_type),
+            ["documents"]
+        );
+    });
+});
@@ -0,0 +1,119 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+
+import { startTestServer, TestServer, ToolCallError } from "./support/harness.js";
+
+describe("paged list tools", () => {
+    let server: TestServer;
+
+    // Follows next_cursor until the last page and returns every page's entries.
+    const collect = async (tool: string, args: Record<string, unknown>, field: string) => {
+        const pages: any[][] = [];
+        let cursor: string | undefined;
+        do {
+            const page = await server.call(tool, { ...args, ...(cursor ? { cursor } : {}) });
+            pages.push(page[field]);
+            cursor = page.next_cursor ?? undefined;
+        } while (cursor);
+        return pages;
+    };
+
+    before(async () => {
+        server = await startTestServer();
+        for (let index = 0; index < 12; index++) {
+            await server.call("create_backlog_item", {
+                title: `Chore ${index}`,
+                description: "Low priority clean-up",
+                status: "todo",
+                priority: "P3",
+                tags: ["chore"]
+            });
+        }
+        await server.call("create_backlog_item", {
+            title: "Crash on boot",
+            description: "Release blocker",
+            status: "todo",
+            priority: "P0",
+            tags: ["chore"]
+        });
+    });
+
+    after(async () => {
+        await server.stop();
+    });
+
+    it("ranks the whole backlog before taking the top items", async () => {
+        const top = await server.call("get_top_backlog_items", { limit: 2 });
+        assert.equal(top.items[0].title, "Crash on boot");
+        assert.equal(top.total, 13);
+        assert.ok(top.next_cursor);
+
+        const pages = await collect("get_top_backlog_items", { limit: 5 }, "items");
+        assert.deepEqual(
+            pages.map((page) => page.length),
+            [5, 5, 3]
+        );
+    });
+
+    it("pages filtered backlog searches with Qdrant offsets", async () => {
+        const pages = await collect("search_backlog_by_tag", { tags: ["chore"], limit: 4 }, "items");
+        const ids = pages.flat().map((item) => item.id);
+        assert.equal(ids.length, 13);
+        assert.equal(new Set(ids).size, 13);
+    });
+
+    it("pages a feature's backlog items", async () => {
+        const feature = await server.call("create_feature", { name: "Cleanup", description: "Chores" });
+        await server.call("bulk_update_backlog", { filter: { tags: ["chore"] }, patch: { feature_id: feature.id } });
+
+        const pages = await collect("list_feature_backlog_items", { feature_id: feature.id, limit: 5 }, "items");
+        assert.deepEqual(
+            pages.map((page) => page.length),
+            [5, 5, 3]
+        );
+        assert.equal(new Set(pages.flat().map((item) => item.id)).size, 13);
+    });
+
+    it("pages sorted lore and feedback summaries", async () => {
+        for (const title of ["Delta", "Alpha", "Charlie", "Bravo"]) {
+            await server.call("store_lore_entry", { title, category: "place", content: `${title} outpost` });
+        }
+        const lore = await collect("list_lore", { limit: 3 }, "lore");
+        assert.deepEqual(
+            lore.map((page) => page.map((entry: any) => entry.title)),
+            [["Alpha", "Bravo", "Charlie"], ["Delta"]]
+        );
+
+        for (const severity of ["low", "high", "high"]) {
+            await server.call("record_playtest_feedback", { source: "QA", experience: severity, positives: [], negatives: [], severity });
+        }
+        const summary = await server.call("summarize_playtest_feedback", { limit: 2 });
+        assert.equal(summary.total, 3);
+        assert.deepEqual(summary.bySeverity, { low: 1, high: 2 });
+        assert.equal(summary.feedback.length, 2);
+        assert.ok(summary.next_cursor);
+    });
+
+    it("pages test strategies by focus area", async () => {
+        for (let index = 0; index < 3; index++) {
+            await server.call("store_test_strategy", {
+                title: `Soak ${index}`,
+                focus_area: "stability",
+                scenario: "Run overnight",
+                coverage: ["memory"]
+            });
+        }
+        const pages = await collect("list_test_strategies_by_focus", { focusArea: "stability", limit: 2 }, "strategies");
+        assert.deepEqual(
+            pages.map((page) => page.length),
+            [2, 1]
+        );
+    });
+
+    it("rejects cursors it did not issue", async () => {
+        await assert.rejects(server.call("get_top_backlog_items", { cursor: "not-a-cursor" }), ToolCallError);
+
+        const tagPage = await server.call("search_backlog_by_tag", { tags: ["chore"], limit: 1 });
+        await assert.rejects(server.call("get_top_backlog_items", { cursor: tagPage.next_cursor }), ToolCallError);
+    });
+});
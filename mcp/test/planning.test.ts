@@ -0,0 +1,114 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+
+import { startTestServer, TestServer, ToolCallError } from "./support/harness.js";
+
+describe("planning tools", () => {
+    let server: TestServer;
+
+    before(async () => {
+        server = await startTestServer();
+    });
+
+    after(async () => {
+        await server.stop();
+    });
+
+    it("keeps a handoff log and a digest of other agents' work", async () => {
+        await server.call("store_handoff", { content: "Finished the spawner fix", updated_by: "agent-a", tags: ["spawner"] });
+
+        const latest = await server.call("fetch_handoff", {});
+        assert.equal(latest.found, true);
+        assert.equal(latest.content, "Finished the spawner fix");
+
+        const search = await server.call("search_handoffs", { query: "spawner", mode: "keyword" });
+        assert.equal(search.count, 1);
+
+        const ownDigest = await server.call("get_handoff_digest", { updated_by: "agent-a" });
+        assert.equal(ownDigest.handoff_count, 0);
+        const otherDigest = await server.call("get_handoff_digest", { updated_by: "agent-b" });
+        assert.equal(otherDigest.handoff_count, 1);
+
+        const shelved = await server.call("create_backlog_item", {
+            title: "Shelved spawner rewrite",
+            description: "Parked",
+            status: "todo",
+            priority: "P3"
+        });
+        await server.call("archive_record", { type: "backlog", id: shelved.id });
+        const digest = await server.call("get_handoff_digest", { updated_by: "agent-b" });
+        assert.equal(
+            digest.backlog_changes.some((item: any) => item.id === shelved.id),
+            false
+        );
+        const fromDate = await server.call("get_handoff_digest", { updated_by: "agent-b", since: "2000-01-01" });
+        assert.equal(fromDate.since, "2000-01-01T00:00:00.000Z");
+        assert.equal(fromDate.handoff_count, 1);
+        const offset = await server.call("get_handoff_digest", { updated_by: "agent-b", since: "2999-01-01T09:00:00+02:00" });
+        assert.equal(offset.handoff_count, 0);
+        await assert.rejects(server.call("get_handoff_digest", { updated_by: "agent-b", since: "last week" }), /Invalid since/);
+    });
+
+    it("creates, updates and searches backlog items", async () => {
+        const created = await server.call("create_backlog_item", {
+            title: "Fix spawner",
+            description: "Null prefab crash",
+            status: "todo",
+            priority: "high",
+            tags: ["bug"]
+        });
+        await server.call("update_backlog_item", { id: created.id, status: "in-progress", updated_by: "agent-a" });
+
+        const item = await server.call("get_backlog_item", { id: created.id });
+        assert.equal(item.item.status, "in-progress");
+
+        const byTag = await server.call("search_backlog_by_tag", { tags: ["bug"] });
+        assert.deepEqual(
+            byTag.items.map((entry: any) => entry.id),
+            [created.id]
+        );
+
+        const semantic = await server.call("search_backlog_semantic", { query: "prefab crash", mode: "keyword" });
+        assert.equal(semantic.items[0].id, created.id);
+
+        const top = await server.call("get_top_backlog_items", {});
+        assert.equal(top.items[0].id, created.id);
+    });
+
+    it("groups backlog items under features", async () => {
+        const feature = await server.call("create_feature", { name: "Spawning", description: "Enemy spawning" });
+        const item = await server.call("create_backlog_item", {
+            title: "Spawn waves",
+            description: "Waves of enemies",
+            status: "todo",
+            priority: "medium"
+        });
+
+        await server.call("update_feature", { id: feature.id, status: "in-progress" });
+        await server.call("assign_backlog_to_feature", { feature_id: feature.id, backlog_id: item.id });
+
+        const fetched = await server.call("get_feature", { id: feature.id });
+        assert.equal(fetched.feature.status, "in-progress");
+
+        const listed = await server.call("list_features", {});
+        assert.deepEqual(
+            listed.features.map((entry: any) => entry.name),
+            ["Spawning"]
+        );
+
+        const items = await server.call("list_feature_backlog_items", { feature_id: feature.id });
+        assert.deepEqual(
+            items.items.map((entry: any) => entry.id),
+            [item.id]
+        );
+    });
+
+    it("refuses new features while the feature lock is set", async () => {
+        await server.call("set_feature_lock", { locked: true });
+        await assert.rejects(server.call("create_feature", { name: "Locked out" }), ToolCallError);
+
+        await server.call("set_feature_lock", { locked: false });
+        const created = await server.call("create_feature", { name: "Allowed again" });
+        assert.equal(created.success, true);
+    });
+});
@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+
+import { startTestServer, TestServer, ToolCallError } from "./support/harness.js";
+
+describe("project and metadata tools", () => {
+    let server: TestServer;
+
+    before(async () => {
+        server = await startTestServer();
+        await server.call("create_backlog_item", {
+            title: "Ship the demo",
+            description: "Steam next fest build",
+            status: "todo",
+            priority: "critical"
+        });
+    });
+
+    after(async () => {
+        await server.stop();
+    });
+
+    it("describes the server and its collections", async () => {
+        const metadata = await server.call("get_server_metadata", {});
+        assert.deepEqual(metadata.projects.available, ["default"]);
+
+        const collections = await server.call("list_qdrant_collections", {});
+        assert.ok(collections.collections.some((collection: any) => collection.name === "default__backlog_items"));
+
+        const docs = await server.call("get_mcp_documentation", { section: "Tool Catalog" });
+        assert.match(docs.content, /cache_research/);
+    });
+
+    it("clones a project with its records", async () => {
+        const clone = await server.call("clone_project", { target: "demo-copy" });
+        const backlog = clone.collections.find((collection: any) => collection.collection === "backlog_items");
+        assert.equal(backlog.copied, 1);
+
+        const copy = await server.connect("demo-copy");
+        const top = await copy.call("get_top_backlog_items", {});
+        assert.deepEqual(
+            top.items.map((item: any) => item.title),
+            ["Ship the demo"]
+        );
+    });
+
+    it("renames a project", async () => {
+        await server.call("rename_project", { project: "demo-copy", new_id: "demo-renamed" });
+
+        const metadata = await server.call("get_server_metadata", {});
+        assert.deepEqual(metadata.projects.available, ["default", "demo-renamed"]);
+    });
+
+    it("blocks writes to archived projects", async () => {
+        await server.call("archive_project", { project: "demo-renamed" });
+
+        const archived = await server.connect("demo-renamed");
+        await assert.rejects(
+            archived.call("create_backlog_item", { title: "Nope", description: "Archived", status: "todo", priority: "low" }),
+            ToolCallError
+        );
+        assert.equal((await archived.call("get_top_backlog_items", {})).count, 1);
+    });
+
+    it("deletes a project after writing a snapshot", async () => {
+        await server.call("delete_project", { project: "demo-renamed", confirm: true });
+
+        const metadata = await server.call("get_server_metadata", {});
+        assert.deepEqual(metadata.projects.available, ["default"]);
+
+        const snapshots = await server.call("list_project_snapshots", { project: "demo-renamed" });
+        assert.equal(snapshots.count, 1);
+    });
+
+    it("refuses to delete the default project", async () => {
+        await assert.rejects(server.call("delete_project", { project: "default", confirm: true }), ToolCallError);
+    });
+});
@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+
+import { ErrorCode, McpError, ResourceUpdatedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+
+import { startTestServer, TestServer } from "./support/harness.js";
+
+describe("MCP protocol surface", () => {
+    let server: TestServer;
+
+    before(async () => {
+        server = await startTestServer();
+    });
+
+    after(async () => {
+        await server.stop();
+    });
+
+    it("lists every tool with an object input schema", async () => {
+        const { tools } = await server.client.listTools();
+        const names = tools.map((tool) => tool.name);
+        assert.equal(new Set(names).size, names.length);
+        assert.ok(names.includes("cache_research"));
+        assert.ok(names.includes("search_everything"));
+        for (const tool of tools) {
+            assert.equal(tool.inputSchema.type, "object", tool.name);
+        }
+    });
+
+    it("rejects invalid arguments before running a tool", async () => {
+        await assert.rejects(
+            server.client.callTool({ name: "delete_project", arguments: { project: "default", confirm: "yes" } }),
+            (error: unknown) => error instanceof McpError && error.code === ErrorCode.InvalidParams
+        );
+    });
+
+    it("rejects unknown tools", async () => {
+        await assert.rejects(server.client.callTool({ name: "no_such_tool", arguments: {} }), /Unknown tool: no_such_tool/);
+    });
+
+    it("publishes records as resources and notifies subscribers of changes", async () => {
+        const created = await server.call("create_backlog_item", {
+            title: "Boss fight",
+            description: "Phase two",
+            status: "todo",
+            priority: "high"
+        });
+        const uri = `game://default/backlog/${created.id}`;
+
+        const { resources } = await server.client.listResources();
+        assert.ok(resources.some((resource) => resource.uri === uri));
+
+        const read = await server.client.readResource({ uri });
+        const [content] = read.contents as Array<{ text: string }>;
+        assert.equal(JSON.parse(content.text).item.title, "Boss fight");
+
+        const updated = new Promise<string>((resolve) => {
+            server.client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+                resolve(notification.params.uri);
+            });
+        });
+        await server.client.subscribeResource({ uri });
+        await server.call("update_backlog_item", { id: created.id, status: "in-progress" });
+        assert.equal(await updated, uri);
+    });
+
+    it("serves the workflow prompts", async () => {
+        const { prompts } = await server.client.listPrompts();
+        assert.deepEqual(
+            prompts.map((prompt) => prompt.name),
+            ["start_session", "end_session", "review_feature"]
+        );
+
+        const prompt = await server.client.getPrompt({ name: "end_session", arguments: { updated_by: "agent-a" } });
+        const [first] = prompt.messages;
+        assert.equal(first.content.type, "text");
+        assert.match((first.content as { text: string }).text, /store_handoff/);
+    });
+});
@@ -0,0 +1,81 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+
+import { startTestServer, TestServer } from "./support/harness.js";
+
+describe("record tools", () => {
+    let server: TestServer;
+
+    before(async () => {
+        server = await startTestServer();
+    });
+
+    after(async () => {
+        await server.stop();
+    });
+
+    it("hides archived records unless include_archived is set", async () => {
+        const stored = await server.call("store_narrative_element", {
+            title: "Epilogue",
+            type: "beat",
+            summary: "The survivors rebuild"
+        });
+
+        await server.call("archive_record", { type: "narrative", id: stored.id });
+        assert.equal((await server.call("get_narrative_outline", {})).count, 0);
+        assert.equal((await server.call("get_narrative_outline", { include_archived: true })).count, 1);
+
+        await server.call("archive_record", { type: "narrative", id: stored.id, archived: false });
+        assert.equal((await server.call("get_narrative_outline", {})).count, 1);
+    });
+
+    it("deletes records", async () => {
+        const stored = await server.call("store_dialogue_scene", {
+            scene: "Farewell",
+            characters: ["Ash"],
+            context: "Leaving town",
+            script: "ASH: Goodbye."
+        });
+
+        await server.call("delete_record", { type: "dialogue", id: stored.id });
+
+        const scene = await server.call("get_dialogue_scene", { scene_id: stored.id });
+        assert.equal(scene.found, false);
+    });
+
+    it("tracks revisions and reverts them", async () => {
+        const created = await server.call("create_backlog_item", {
+            title: "Tune jump arc",
+            description: "Jump feels floaty",
+            status: "todo",
+            priority: "medium"
+        });
+        await server.call("update_backlog_item", { id: created.id, status: "in-progress", updated_by: "agent-a" });
+
+        const history = await server.call("get_record_history", { type: "backlog", id: created.id });
+        const [latest] = history.revisions;
+        assert.equal(latest.author, "agent-a");
+        assert.deepEqual(latest.changes, [{ field: "status", from: "todo", to: "in-progress" }]);
+
+        await server.call("revert_record", {
+            type: "backlog",
+            id: created.id,
+            revision_id: latest.revision_id,
+            updated_by: "agent-b"
+        });
+
+        const item = await server.call("get_backlog_item", { id: created.id });
+        assert.equal(item.item.status, "todo");
+
+        const after = await server.call("get_record_history", { type: "backlog", id: created.id });
+        assert.equal(after.revisions[0].reverted_revision, latest.revision_id);
+
+        await server.call("update_backlog_item", { id: created.id, owner: "lead", sprint: "Sprint 1" });
+        const [assigned] = (await server.call("get_record_history", { type: "backlog", id: created.id })).revisions;
+        await server.call("revert_record", { type: "backlog", id: created.id, revision_id: assigned.revision_id });
+
+        const cleared = await server.call("get_backlog_item", { id: created.id });
+        assert.equal(cleared.item.owner, null);
+        assert.equal(cleared.item.sprint, null);
+    });
+});
@@ -0,0 +1,95 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+
+import { startTestServer, TestServer, ToolCallError } from "./support/harness.js";
+
+describe("sprints", () => {
+    let server: TestServer;
+    const items: Record<string, string> = {};
+
+    const createItem = async (title: string, story_points: number) => {
+        items[title] = (
+            await server.call("create_backlog_item", { title, description: title, status: "todo", priority: "P1", story_points })
+        ).id;
+    };
+
+    before(async () => {
+        server = await startTestServer();
+        await server.call("create_sprint", { name: "Sprint 1", start_date: "2026-01-05", end_date: "2026-01-16", capacity: 8, goal: "Vertical slice" });
+        await server.call("create_sprint", { name: "Sprint 2", start_date: "2026-01-19", end_date: "2026-01-30", capacity: 10 });
+        await createItem("Movement", 5);
+        await createItem("Camera", 3);
+        await createItem("Audio", 2);
+    });
+
+    after(async () => {
+        await server.stop();
+    });
+
+    it("rejects duplicate names and inverted dates", async () => {
+        await assert.rejects(
+            server.call("create_sprint", { name: "sprint 1", start_date: "2026-02-01", end_date: "2026-02-10", capacity: 5 }),
+            /already exists/
+        );
+        await assert.rejects(
+            server.call("create_sprint", { name: "Sprint 3", start_date: "2026-02-10", end_date: "2026-02-01", capacity: 5 }),
+            ToolCallError
+        );
+    });
+
+    it("plans items into a sprint within its capacity", async () => {
+        const planned = await server.call("plan_sprint", { sprint: "Sprint 1", item_ids: [items.Movement, items.Camera] });
+        assert.equal(planned.committed_points, 8);
+        assert.equal(planned.remaining_capacity, 0);
+
+        await assert.rejects(server.call("plan_sprint", { sprint: "Sprint 1", item_ids: [items.Audio] }), /would commit 10 of 8 points/);
+
+        const sprint = await server.call("get_sprint", { sprint: "Sprint 1" });
+        assert.deepEqual(
+            sprint.items.map((item: any) => item.title).sort(),
+            ["Camera", "Movement"]
+        );
+        assert.equal((await server.call("get_backlog_item", { id: items.Camera })).item.sprint, "Sprint 1");
+    });
+
+    it("refuses to plan archived items", async () => {
+        await createItem("Cutscene skip", 1);
+        await server.call("archive_record", { type: "backlog", id: items["Cutscene skip"] });
+
+        await assert.rejects(
+            server.call("plan_sprint", { sprint: "Sprint 2", item_ids: [items["Cutscene skip"]] }),
+            /are archived/
+        );
+        assert.equal((await server.call("get_backlog_item", { id: items["Cutscene skip"] })).item.sprint, null);
+    });
+
+    it("closes a sprint, rolling unfinished items forward, and reports velocity", async () => {
+        await server.call("update_backlog_item", { id: items.Movement, status: "in-progress" });
+        await server.call("update_backlog_item", { id: items.Movement, status: "done", completed_work: ["Walk and sprint"] });
+
+        const closed = await server.call("close_sprint", { sprint: "Sprint 1", roll_over_to: "Sprint 2", updated_by: "producer" });
+        assert.equal(closed.completed_points, 5);
+        assert.equal(closed.committed_points, 8);
+        assert.deepEqual(closed.rolled_over, [items.Camera]);
+
+        assert.equal((await server.call("get_backlog_item", { id: items.Camera })).item.sprint, "Sprint 2");
+        assert.deepEqual(
+            (await server.call("get_sprint", { sprint: "Sprint 2" })).items.map((item: any) => item.title),
+            ["Camera"]
+        );
+        await assert.rejects(server.call("plan_sprint", { sprint: "Sprint 1", item_ids: [items.Audio] }), /is closed/);
+
+        const history = await server.call("get_record_history", { type: "backlog", id: items.Camera });
+        assert.equal(history.revisions[0].author, "producer");
+
+        const velocity = await server.call("get_sprint_velocity", {});
+        assert.equal(velocity.average_velocity, 5);
+        assert.equal(velocity.completion_rate, 0.63);
+
+        const list = await server.call("list_sprints", { status: "closed" });
+        assert.deepEqual(
+            list.sprints.map((sprint: any) => [sprint.name, sprint.committed_points]),
+            [["Sprint 1", 8]]
+        );
+    });
+});
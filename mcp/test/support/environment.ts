@@ -0,0 +1,22 @@
+import { copyFileSync, mkdirSync, mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+// Server modules read these paths when they load, so this module must be imported
+// first. node --test runs every test file in its own process, and each process
+// gets its own scratch directory instead of the checked-in config.
+const mcpRoot = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "../..");
+
+export const scratchDir = mkdtempSync(path.join(tmpdir(), "game-mcp-test-"));
+export const configDir = path.join(scratchDir, "config");
+
+mkdirSync(configDir, { recursive: true });
+copyFileSync(path.join(mcpRoot, "config", "collections.json"), path.join(configDir, "collections.json"));
+
+process.env.CONFIG_DIR = configDir;
+process.env.METRICS_DIR = path.join(scratchDir, "metrics");
+process.env.SNAPSHOT_DIR = path.join(scratchDir, "snapshots");
+delete process.env.DEFAULT_PROJECT;
+
+process.on("exit", () => rmSync(scratchDir, { recursive: true, force: true }));
@@ -0,0 +1,90 @@
+import "./environment.js";
+
+import { randomUUID } from "node:crypto";
+import { rm } from "node:fs/promises";
+import path from "node:path";
+
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+
+import { GameDevMCPServer } from "../../src/server.js";
+import { EmbeddingService } from "../../src/services/embedding.service.js";
+import { HashEmbeddingProvider } from "../../src/services/embedding.providers.js";
+import { configDir } from "./environment.js";
+import { InMemoryNeo4jService } from "./inMemoryNeo4j.js";
+import { createInMemoryQdrant } from "./inMemoryQdrant.js";
+
+export class ToolCallError extends Error {
+    constructor(
+        readonly tool: string,
+        message: string
+    ) {
+        super(message);
+    }
+}
+
+export type TestClient = Awaited<ReturnType<typeof connectClient>>;
+
+async function connectClient(server: GameDevMCPServer, projectId: string) {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    // A session id lets the server track resource subscriptions for this client.
+    serverTransport.sessionId = randomUUID();
+    await server.connect(projectId, serverTransport);
+
+    const client = new Client({ name: "integration-tests", version: "1.0.0" });
+    await client.connect(clientTransport);
+
+    return {
+        client,
+        /** Calls a tool and returns its parsed JSON result; tool errors are thrown as ToolCallError. */
+        async call<T = any>(name: string, args: Record<string, unknown> = {}): Promise<T> {
+            const result = await client.callTool({ name, arguments: args });
+            const [first] = result.content as Array<{ type: string; text: string }>;
+            const parsed = JSON.parse(first.text);
+            if (result.isError) {
+                throw new ToolCallError(name, parsed.error);
+            }
+            return parsed as T;
+        },
+        close: () => client.close()
+    };
+}
+
+/**
+ * A GameDevMCPServer backed by in-memory Qdrant and Neo4j stand-ins and the
+ * offline hash embedder, with an MCP client connected to the default project.
+ */
+export async function startTestServer() {
+    // Every server starts from collections.json alone, without earlier projects.
+    await rm(path.join(configDir, "projects.json"), { force: true });
+
+    const qdrant = createInMemoryQdrant();
+    const neo4j = new InMemoryNeo4jService();
+    const embedding = new EmbeddingService(new HashEmbeddingProvider(768));
+    const server = new GameDevMCPServer({ qdrant: qdrant.service, neo4j, embedding });
+    await server.initialize();
+
+    const clients: TestClient[] = [];
+    const connect = async (projectId: string = "default") => {
+        const connected = await connectClient(server, projectId);
+        clients.push(connected);
+        return connected;
+    };
+    const main = await connect();
+
+    return {
+        server,
+        qdrant: qdrant.service,
+        qdrantClient: qdrant.client,
+        neo4j,
+        embedding,
+        client: main.client,
+        call: main.call,
+        connect,
+        async stop() {
+            await Promise.all(clients.map((connected) => connected.close()));
+        }
+    };
+}
+
+export type TestServer = Awaited<ReturnType<typeof startTestServer>>;
@@ -0,0 +1,193 @@
+import {
+    GraphEntitySummary,
+    GraphRelationship,
+    GraphSnapshot,
+    Neo4jService,
+    RecordLinkEdge
+} from "../../src/services/neo4j.service.js";
+
+type StoredNode = GraphSnapshot["nodes"][number];
+type StoredRelationship = GraphSnapshot["relationships"][number];
+
+type ProjectGraph = {
+    nodes: Map<string, StoredNode>;
+    relationships: StoredRelationship[];
+};
+
+const optionalString = (value: unknown) => (typeof value === "string" ? value : undefined);
+
+const sanitizeIdentifier = (value: string) => (value ?? "").replace(/[^A-Za-z0-9_]/g, "");
+
+/**
+ * Neo4jService over per-project Maps of `Entity` nodes and relationships, with the
+ * same results the Cypher queries produce. The driver is never opened.
+ */
+export class InMemoryNeo4jService extends Neo4jService {
+    private graphs = new Map<string, ProjectGraph>();
+
+    constructor() {
+        super("bolt://in-memory.invalid:7687", "neo4j", "neo4j");
+    }
+
+    override async getEntity(projectId: string, id: string): Promise<GraphEntitySummary | null> {
+        const node = this.graph(projectId).nodes.get(id);
+        return node ? this.summarize(node) : null;
+    }
+
+    override async getEntityWithNeighbors(projectId: string, id: string, limit: number = 25) {
+        const graph = this.graph(projectId);
+        const entity = await this.getEntity(projectId, id);
+        if (!entity) {
+            return null;
+        }
+
+        const neighbours = (direction: GraphRelationship["direction"]) =>
+            graph.relationships
+                .filter((relationship) => (direction === "outbound" ? relationship.sourceId : relationship.targetId) === id)
+                .map((relationship) => ({
+                    relationship,
+                    node: graph.nodes.get(direction === "outbound" ? relationship.targetId : relationship.sourceId)
+                }))
+                .filter((entry): entry is { relationship: StoredRelationship; node: StoredNode } => Boolean(entry.node))
+                .slice(0, limit)
+                .map(({ relationship, node }) => ({
+                    type: relationship.type,
+                    direction,
+                    sourceId: relationship.sourceId,
+                    targetId: relationship.targetId,
+                    properties: { ...relationship.properties },
+                    node: this.summarize(node)
+                }));
+
+        return { entity, relationships: [...neighbours("outbound"), ...neighbours("inbound")] };
+    }
+
+    override async findEntitiesByType(projectId: string, type: string, limit: number = 20) {
+        return Array.from(this.graph(projectId).nodes.values())
+            .filter((node) => node.properties.type === type)
+            .sort((a, b) => String(b.properties.updatedAt ?? "").localeCompare(String(a.properties.updatedAt ?? "")))
+            .slice(0, limit)
+            .map((node) => this.summarize(node));
+    }
+
+    override async close(): Promise<void> {
+        // Nothing to release.
+    }
+
+    override async snapshotProject(projectId: string) {
+        const graph = this.graph(projectId);
+        return {
+            nodes: Array.from(graph.nodes.values()).map((node) => structuredClone(node)),
+            relationships: graph.relationships.map((relationship) => structuredClone(relationship))
+        };
+    }
+
+    override async restoreProject(projectId: string, snapshot: GraphSnapshot) {
+        const graph = this.graph(projectId);
+        for (const node of snapshot.nodes) {
+            const labels = Array.from(new Set(["Entity", ...(node.labels ?? []).map(sanitizeIdentifier)])).filter(Boolean).sort();
+            graph.nodes.set(node.id, {
+                id: node.id,
+                labels,
+                properties: { ...structuredClone(node.properties ?? {}), id: node.id, project: projectId }
+            });
+        }
+
+        let relationships = 0;
+        for (const relationship of snapshot.relationships) {
+            const type = sanitizeIdentifier(relationship.type);
+            if (!type || !graph.nodes.has(relationship.sourceId) || !graph.nodes.has(relationship.targetId)) {
+                continue;
+            }
+            graph.relationships.push({
+                type,
+                sourceId: relationship.sourceId,
+                targetId: relationship.targetId,
+                properties: { ...structuredClone(relationship.properties ?? {}), project: projectId }
+            });
+            relationships++;
+        }
+
+        return { nodes: snapshot.nodes.length, relationships };
+    }
+
+    override async upsertRecordLink(projectId: string, link: RecordLinkEdge) {
+        const graph = this.graph(projectId);
+        for (const endpoint of [link.source, link.target]) {
+            const existing = graph.nodes.get(endpoint.id);
+            graph.nodes.set(endpoint.id, {
+                id: endpoint.id,
+                labels: existing?.labels ?? ["Entity", "Record"],
+                properties: {
+                    ...existing?.properties,
+                    id: endpoint.id,
+                    project: projectId,
+                    type: endpoint.recordType,
+                    recordId: endpoint.recordId,
+                    name: endpoint.name
+                }
+            });
+        }
+
+        const type = sanitizeIdentifier(link.type);
+        const existing = graph.relationships.find(
+            (relationship) => relationship.type === type && relationship.properties.linkId === link.linkId
+        );
+        const properties = { ...existing?.properties, ...link.properties, linkId: link.linkId, project: projectId };
+        if (existing) {
+            existing.properties = properties;
+        } else {
+            graph.relationships.push({ type, sourceId: link.source.id, targetId: link.target.id, properties });
+        }
+    }
+
+    override async deleteRecordLinks(projectId: string, linkIds: string[]) {
+        const graph = this.graph(projectId);
+        const removed = graph.relationships.filter((relationship) => linkIds.includes(String(relationship.properties.linkId)));
+        graph.relationships = graph.relationships.filter((relationship) => !removed.includes(relationship));
+
+        for (const id of removed.flatMap((relationship) => [relationship.sourceId, relationship.targetId])) {
+            const connected = graph.relationships.some((relationship) => relationship.sourceId === id || relationship.targetId === id);
+            if (!connected && graph.nodes.get(id)?.labels.includes("Record")) {
+                graph.nodes.delete(id);
+            }
+        }
+    }
+
+    override async clearProject(projectId: string) {
+        this.graphs.delete(projectId);
+    }
+
+    private graph(projectId: string): ProjectGraph {
+        let graph = this.graphs.get(projectId);
+        if (!graph) {
+            graph = { nodes: new Map(), relationships: [] };
+            this.graphs.set(projectId, graph);
+        }
+        return graph;
+    }
+
+    private summarize(node: StoredNode): GraphEntitySummary {
+        const { properties } = node;
+        let metadata = properties.metadata as Record<string, unknown> | undefined;
+        if (typeof properties.metadata === "string") {
+            try {
+                metadata = JSON.parse(properties.metadata);
+            } catch {
+                metadata = undefined;
+            }
+        }
+        return {
+            id: node.id,
+            labels: [...node.labels],
+            type: optionalString(properties.type),
+            name: optionalString(properties.name),
+            path: optionalString(properties.path),
+            semanticDescription: optionalString(properties.semanticDescription),
+            purpose: optionalString(properties.purpose),
+            architecturalRole: optionalString(properties.architecturalRole),
+            complexity: typeof properties.complexity === "number" ? properties.complexity : undefined,
+            metadata
+        };
+    }
+}
@@ -0,0 +1,373 @@
+import { QdrantClient } from "@qdrant/js-client-rest";
+
+import { QdrantService } from "../../src/services/qdrant.service.js";
+
+type Distance = "Cosine" | "Euclid" | "Dot";
+type PointId = string | number;
+
+type StoredPoint = {
+    id: PointId;
+    vector: number[];
+    payload: Record<string, unknown>;
+};
+
+type StoredCollection = {
+    size: number;
+    distance: Distance;
+    points: Map<string, StoredPoint>;
+};
+
+type Filter = {
+    must?: Condition[];
+    should?: Condition[];
+    must_not?: Condition[];
+};
+
+type Condition = Filter & {
+    key?: string;
+    match?: { value?: unknown; any?: unknown[]; except?: unknown[]; text?: string };
+    range?: { gt?: number | string; gte?: number | string; lt?: number | string; lte?: number | string };
+    is_empty?: { key: string };
+    is_null?: { key: string };
+    has_id?: PointId[];
+};
+
+class QdrantError extends Error {
+    constructor(
+        readonly status: number,
+        message: string
+    ) {
+        super(message);
+    }
+}
+
+const clone = <T>(value: T): T => structuredClone(value);
+
+// Values at a dotted payload key; arrays are flattened like Qdrant does when matching.
+const valuesAt = (payload: Record<string, unknown>, key: string): unknown[] => {
+    let values: unknown[] = [payload];
+    for (const part of key.replace(/\[\]/g, "").split(".")) {
+        values = values
+            .flatMap((value) => (Array.isArray(value) ? value : [value]))
+            .map((value) => (value && typeof value === "object" ? (value as Record<string, unknown>)[part] : undefined))
+            .filter((value) => value !== undefined);
+    }
+    return values.flatMap((value) => (Array.isArray(value) ? value : [value]));
+};
+
+const comparable = (value: unknown) => (typeof value === "string" ? Date.parse(value) : Number(value));
+
+const inRange = (value: unknown, range: NonNullable<Condition["range"]>) => {
+    if (typeof value !== "number" && typeof value !== "string") {
+        return false;
+    }
+    const number = comparable(value);
+    if (Number.isNaN(number)) {
+        return false;
+    }
+    return (
+        (range.gt === undefined || number > comparable(range.gt)) &&
+        (range.gte === undefined || number >= comparable(range.gte)) &&
+        (range.lt === undefined || number < comparable(range.lt)) &&
+        (range.lte === undefined || number <= comparable(range.lte))
+    );
+};
+
+function matchesFilter(point: StoredPoint, filter?: Filter | null): boolean {
+    if (!filter) {
+        return true;
+    }
+    if (filter.must && !filter.must.every((condition) => matchesCondition(point, condition))) {
+        return false;
+    }
+    if (filter.must_not && filter.must_not.some((condition) => matchesCondition(point, condition))) {
+        return false;
+    }
+    if (filter.should && filter.should.length > 0 && !filter.should.some((condition) => matchesCondition(point, condition))) {
+        return false;
+    }
+    return true;
+}
+
+function matchesCondition(point: StoredPoint, condition: Condition): boolean {
+    if (condition.must || condition.should || condition.must_not) {
+        return matchesFilter(point, condition);
+    }
+    if (condition.has_id) {
+        return condition.has_id.map(String).includes(String(point.id));
+    }
+    if (condition.is_empty) {
+        return valuesAt(point.payload, condition.is_empty.key).filter((value) => value !== null).length === 0;
+    }
+    if (condition.is_null) {
+        return valuesAt(point.payload, condition.is_null.key).some((value) => value === null);
+    }
+    if (!condition.key) {
+        throw new Error(`Unsupported filter condition: ${JSON.stringify(condition)}`);
+    }
+
+    const values = valuesAt(point.payload, condition.key);
+    const { match, range } = condition;
+    if (match && "value" in match) {
+        return values.some((value) => value === match.value);
+    }
+    if (match?.any) {
+        return values.some((value) => match.any!.includes(value));
+    }
+    if (match?.except) {
+        return values.some((value) => !match.except!.includes(value));
+    }
+    if (match?.text !== undefined) {
+        return values.some((value) => typeof value === "string" && value.includes(match.text!));
+    }
+    if (range) {
+        return values.some((value) => inRange(value, range));
+    }
+    throw new Error(`Unsupported filter condition: ${JSON.stringify(condition)}`);
+}
+
+function similarity(distance: Distance, a: number[], b: number[]) {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    let squared = 0;
+    for (let index = 0; index < a.length; index++) {
+        dot += a[index] * b[index];
+        normA += a[index] * a[index];
+        normB += b[index] * b[index];
+        squared += (a[index] - b[index]) ** 2;
+    }
+    switch (distance) {
+        case "Dot":
+            return dot;
+        case "Euclid":
+            return Math.sqrt(squared);
+        default:
+            return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+    }
+}
+
+// Scroll order: integer ids first, then UUIDs, each ascending.
+const compareIds = (a: PointId, b: PointId) =>
+    typeof a === typeof b ? (a < b ? -1 : a > b ? 1 : 0) : typeof a === "number" ? -1 : 1;
+
+/**
+ * Implements the parts of the Qdrant REST client that QdrantService calls, over
+ * plain Maps: collections and aliases, upsert/search/scroll/retrieve/count,
+ * payload updates and deletes, and must/should/must_not filters with match,
+ * range, is_empty, is_null and has_id conditions. Scores follow the collection's
+ * distance; there is no indexing, quantization or sharding. Like Qdrant, writes
+ * sent without `wait: true` are acknowledged before they are applied.
+ */
+export class InMemoryQdrantClient {
+    private collections = new Map<string, StoredCollection>();
+    private aliases = new Map<string, string>();
+
+    async getCollections() {
+        return { collections: Array.from(this.collections.keys()).map((name) => ({ name })) };
+    }
+
+    async getCollection(name: string) {
+        const collection = this.require(name);
+        return {
+            status: "green",
+            points_count: collection.points.size,
+            config: { params: { vectors: { size: collection.size, distance: collection.distance } } }
+        };
+    }
+
+    async createCollection(name: string, options: { vectors: { size: number; distance: Distance } }) {
+        if (this.collections.has(name) || this.aliases.has(name)) {
+            throw new QdrantError(409, `Wrong input: Collection \`${name}\` already exists!`);
+        }
+        this.collections.set(name, { size: options.vectors.size, distance: options.vectors.distance, points: new Map() });
+        return true;
+    }
+
+    async deleteCollection(name: string) {
+        if (!this.collections.has(name)) {
+            throw new QdrantError(404, `Not found: Collection \`${name}\` doesn't exist!`);
+        }
+        this.collections.delete(name);
+        for (const [alias, target] of this.aliases) {
+            if (target === name) {
+                this.aliases.delete(alias);
+            }
+        }
+        return true;
+    }
+
+    async getAliases() {
+        return {
+            aliases: Array.from(this.aliases.entries()).map(([alias_name, collection_name]) => ({ alias_name, collection_name }))
+        };
+    }
+
+    async updateCollectionAliases({ actions }: { actions: any[] }) {
+        const next = new Map(this.aliases);
+        for (const action of actions) {
+            if (action.delete_alias) {
+                next.delete(action.delete_alias.alias_name);
+            } else if (action.create_alias) {
+                const { alias_name, collection_name } = action.create_alias;
+                if (!this.collections.has(collection_name)) {
+                    throw new QdrantError(404, `Not found: Collection \`${collection_name}\` doesn't exist!`);
+                }
+                if (this.collections.has(alias_name)) {
+                    throw new QdrantError(409, `Wrong input: Collection \`${alias_name}\` already exists!`);
+                }
+                next.set(alias_name, collection_name);
+            } else {
+                throw new Error(`Unsupported alias action: ${JSON.stringify(action)}`);
+            }
+        }
+        // Qdrant applies the whole batch atomically.
+        this.aliases = next;
+        return true;
+    }
+
+    async upsert(
+        name: string,
+        { points, wait }: { points: Array<{ id: PointId; vector: number[]; payload?: Record<string, unknown> }>; wait?: boolean }
+    ) {
+        const collection = this.require(name);
+        for (const point of points) {
+            if (!Array.isArray(point.vector) || point.vector.length !== collection.size) {
+                throw new QdrantError(
+                    400,
+                    `Wrong input: Vector dimension error: expected dim: ${collection.size}, got ${point.vector?.length ?? 0}`
+                );
+            }
+        }
+        return this.write(wait, () => {
+            for (const point of points) {
+                collection.points.set(String(point.id), { id: point.id, vector: [...point.vector], payload: clone(point.payload ?? {}) });
+            }
+        });
+    }
+
+    async search(
+        name: string,
+        request: { vector: number[]; limit?: number; offset?: number; filter?: Filter; score_threshold?: number; with_payload?: boolean; with_vector?: boolean }
+    ) {
+        const collection = this.require(name);
+        const { vector, limit = 10, offset = 0, filter, score_threshold, with_payload, with_vector } = request;
+        if (vector.length !== collection.size) {
+            throw new QdrantError(400, `Wrong input: Vector dimension error: expected dim: ${collection.size}, got ${vector.length}`);
+        }
+        // Euclid is a distance, so smaller is better and the threshold is an upper bound.
+        const ascending = collection.distance === "Euclid";
+        return Array.from(collection.points.values())
+            .filter((point) => matchesFilter(point, filter))
+            .map((point) => ({ point, score: similarity(collection.distance, vector, point.vector) }))
+            .filter(({ score }) => score_threshold === undefined || (ascending ? score <= score_threshold : score >= score_threshold))
+            .sort((a, b) => (ascending ? a.score - b.score : b.score - a.score))
+            .slice(offset, offset + limit)
+            .map(({ point, score }) => this.present(point, with_payload, with_vector, score));
+    }
+
+    async scroll(
+        name: string,
+        request: { filter?: Filter; limit?: number; offset?: PointId | null; with_payload?: boolean; with_vector?: boolean } = {}
+    ) {
+        const collection = this.require(name);
+        const { filter, limit = 10, offset, with_payload, with_vector } = request;
+        const ordered = Array.from(collection.points.values())
+            .filter((point) => matchesFilter(point, filter))
+            .sort((a, b) => compareIds(a.id, b.id));
+        const start = offset === undefined || offset === null ? 0 : ordered.findIndex((point) => compareIds(point.id, offset) >= 0);
+        const page = start < 0 ? [] : ordered.slice(start, start + limit);
+        const next = start < 0 ? undefined : ordered[start + limit];
+        return {
+            points: page.map((point) => this.present(point, with_payload, with_vector)),
+            next_page_offset: next ? next.id : null
+        };
+    }
+
+    async retrieve(name: string, { ids, with_payload, with_vector }: { ids: PointId[]; with_payload?: boolean; with_vector?: boolean }) {
+        const collection = this.require(name);
+        return ids
+            .map((id) => collection.points.get(String(id)))
+            .filter((point): point is StoredPoint => Boolean(point))
+            .map((point) => this.present(point, with_payload, with_vector));
+    }
+
+    async count(name: string, { filter }: { filter?: Filter; exact?: boolean } = {}) {
+        const collection = this.require(name);
+        return { count: Array.from(collection.points.values()).filter((point) => matchesFilter(point, filter)).length };
+    }
+
+    async setPayload(
+        name: string,
+        { payload, points, filter, wait }: { payload: Record<string, unknown>; points?: PointId[]; filter?: Filter; wait?: boolean }
+    ) {
+        const selected = this.select(name, points, filter);
+        return this.write(wait, () => {
+            for (const point of selected) {
+                point.payload = { ...point.payload, ...clone(payload) };
+            }
+        });
+    }
+
+    async delete(name: string, { points, filter, wait }: { points?: PointId[]; filter?: Filter; wait?: boolean }) {
+        const collection = this.require(name);
+        const selected = this.select(name, points, filter);
+        return this.write(wait, () => {
+            for (const point of selected) {
+                collection.points.delete(String(point.id));
+            }
+        });
+    }
+
+    /** Drops every collection and alias. */
+    clear() {
+        this.collections.clear();
+        this.aliases.clear();
+    }
+
+    /** Applies a write now when the caller waits for it, otherwise on a later tick. */
+    private write(wait: boolean | undefined, apply: () => void) {
+        if (wait) {
+            apply();
+            return { operation_id: 0, status: "completed" };
+        }
+        setTimeout(apply, 0);
+        return { operation_id: 0, status: "acknowledged" };
+    }
+
+    private select(name: string, ids?: PointId[], filter?: Filter) {
+        const collection = this.require(name);
+        if (ids) {
+            return ids.map((id) => collection.points.get(String(id))).filter((point): point is StoredPoint => Boolean(point));
+        }
+        if (filter) {
+            return Array.from(collection.points.values()).filter((point) => matchesFilter(point, filter));
+        }
+        throw new QdrantError(400, "Wrong input: either points or filter is required");
+    }
+
+    private require(name: string) {
+        const collection = this.collections.get(this.aliases.get(name) ?? name);
+        if (!collection) {
+            throw new QdrantError(404, `Not found: Collection \`${name}\` doesn't exist!`);
+        }
+        return collection;
+    }
+
+    private present(point: StoredPoint, withPayload = true, withVector = false, score?: number) {
+        return {
+            id: point.id,
+            version: 0,
+            ...(score === undefined ? {} : { score }),
+            payload: withPayload ? clone(point.payload) : null,
+            vector: withVector ? [...point.vector] : null
+        };
+    }
+}
+
+/** A QdrantService that stores everything in memory. */
+export function createInMemoryQdrant() {
+    const client = new InMemoryQdrantClient();
+    const service = new QdrantService("http://in-memory", undefined, client as unknown as QdrantClient);
+    return { client, service };
+}
@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+
+import { startTestServer, TestServer, ToolCallError } from "./support/harness.js";
+
+describe("backlog workflow", () => {
+    let server: TestServer;
+
+    const create = async (title: string, status = "todo", fields: Record<string, unknown> = {}) =>
+        (await server.call("create_backlog_item", { title, description: title, status, priority: "P1", ...fields })).id as string;
+
+    const statusOf = async (id: string) => (await server.call("get_backlog_item", { id })).item.status;
+
+    before(async () => {
+        server = await startTestServer();
+    });
+
+    after(async () => {
+        await server.stop();
+    });
+
+    it("enforces the default transitions and required fields", async () => {
+        const id = await create("Save slots");
+
+        await assert.rejects(
+            server.call("update_backlog_item", { id, status: "done" }),
+            /Cannot move from 'todo' to 'done'. Allowed next statuses: in-progress, blocked/
+        );
+        await server.call("update_backlog_item", { id, status: "pending" });
+        assert.equal(await statusOf(id), "in-progress");
+
+        await assert.rejects(server.call("update_backlog_item", { id, status: "review" }), /requires acceptance_criteria/);
+        await assert.rejects(server.call("update_backlog_item", { id, status: "completed" }), /requires completed_work/);
+        await server.call("update_backlog_item", { id, status: "completed", completed_work: ["Three slots with thumbnails"] });
+        assert.equal(await statusOf(id), "done");
+
+        await assert.rejects(create("Cloud saves", "shipped"), /Unknown status 'shipped'/);
+        await assert.rejects(create("Autosave", "done"), ToolCallError);
+    });
+
+    it("replaces the workflow per project and ranks by its done states", async () => {
+        const polish = await create("Menu polish");
+
+        const set = await server.call("set_backlog_workflow", {
+            workflow: {
+                states: [
+                    { key: "Backlog", label: "Backlog" },
+                    { key: "doing" },
+                    { key: "qa" },
+                    { key: "shipped", done: true }
+                ],
+                transitions: { backlog: ["doing"], doing: ["backlog", "qa"], qa: ["doing", "shipped"] },
+                required_fields: { qa: ["acceptance_criteria"] }
+            }
+        });
+        assert.deepEqual(set.unmapped_statuses, [
+            { status: "done", count: 1 },
+            { status: "todo", count: 1 }
+        ]);
+        assert.equal((await server.call("get_backlog_workflow", {})).custom, true);
+
+        // Statuses the workflow does not know may move anywhere once.
+        await server.call("update_backlog_item", { id: polish, status: "doing" });
+        await assert.rejects(server.call("update_backlog_item", { id: polish, status: "shipped" }), /Allowed next statuses: backlog, qa/);
+        await server.call("update_backlog_item", { id: polish, status: "qa", acceptance_criteria: ["Gamepad navigation"] });
+        await server.call("update_backlog_item", { id: polish, status: "shipped" });
+
+        const top = await server.call("get_top_backlog_items", {});
+        assert.deepEqual(
+            top.items.map((item: any) => item.title),
+            ["Save slots"]
+        );
+
+        await assert.rejects(server.call("update_backlog_item", { id: polish, status: "doing" }), /'shipped' is a final status/);
+
+        await server.call("set_backlog_workflow", { reset: true });
+        assert.equal((await server.call("get_backlog_workflow", {})).custom, false);
+    });
+
+    it("rejects workflows that refer to unknown states", async () => {
+        await assert.rejects(
+            server.call("set_backlog_workflow", {
+                workflow: { states: [{ key: "todo" }, { key: "done", aliases: ["todo"] }], transitions: {} }
+            }),
+            /used by both 'todo' and 'done'/
+        );
+        await assert.rejects(
+            server.call("set_backlog_workflow", { workflow: { states: [{ key: "todo" }], transitions: { todo: ["done"] } } }),
+            /unknown state 'done'/
+        );
+    });
+});